@@ -0,0 +1,56 @@
+// AutiCare service worker: shows Web Push notifications while the app is closed.
+// Payloads are sent by the send-notification edge function as JSON:
+// { title, body, tag, url }
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'AutiCare', {
+      body: payload.body || '',
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      // Same tag replaces an earlier alert for the same reminder instead of stacking
+      tag: payload.tag,
+      renotify: !!payload.tag,
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (open) {
+        open.focus();
+        return open.navigate(url);
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
+// The browser rotated the subscription; re-subscribe with the same key. The app
+// saves the new subscription the next time it is opened.
+self.addEventListener('pushsubscriptionchange', (event) => {
+  const options = event.oldSubscription?.options;
+  if (!options) return;
+  event.waitUntil(self.registration.pushManager.subscribe(options));
+});
@@ -1,14 +1,17 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Cell, RadialBarChart, RadialBar, Legend, PolarAngleAxis } from 'recharts';
+import { DomainScores } from '@/utils/scoring';
+import DomainRadarChart from './DomainRadarChart';
 
 interface ASDScoreChartProps {
   normalizedScore: number;
   mlScore?: number;
   fusedScore?: number;
+  domainScores?: DomainScores;
 }
 
-export default function ASDScoreChart({ normalizedScore, mlScore, fusedScore }: ASDScoreChartProps) {
+export default function ASDScoreChart({ normalizedScore, mlScore, fusedScore, domainScores }: ASDScoreChartProps) {
   const scoreData = [
     { name: 'Questionnaire', score: normalizedScore, fill: 'hsl(var(--bright-blue))' },
     ...(mlScore ? [{ name: 'ML Analysis', score: mlScore, fill: 'hsl(var(--lavender))' }] : []),
@@ -144,6 +147,17 @@ export default function ASDScoreChart({ normalizedScore, mlScore, fusedScore }:
           </ChartContainer>
         </CardContent>
       </Card>
+
+      {domainScores && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Domain Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DomainRadarChart domainScores={domainScores} className="h-[220px]" />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
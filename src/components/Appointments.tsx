@@ -0,0 +1,473 @@
+import { useCallback, useEffect, useState } from "react";
+import { CalendarClock, CalendarPlus, MapPin, Plus, Trash2, Video } from "lucide-react";
+import { User } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Appointment, AvailabilitySlot, SlotInput, useAppointments } from "@/hooks/useAppointments";
+import { getBrowserTimeZone } from "@/hooks/useReminders";
+import { APPOINTMENT_MODE_LABELS, AppointmentMode } from "@shared/appointments";
+import { getZonedDate } from "@shared/reminders";
+import { cn } from "@/lib/utils";
+
+interface AppointmentsProps {
+  user: User | null;
+  role: 'individual' | 'parent' | 'clinician';
+  // Patient the booking is for; families book against their patient ID
+  patientId?: string;
+  userName: string;
+  // Set to open the booking dialog, e.g. from "Book an assessment" on a result
+  bookingRequested?: boolean;
+  onBookingHandled?: () => void;
+}
+
+type DialogState =
+  | { kind: 'book' }
+  | { kind: 'reschedule'; appointment: Appointment }
+  | { kind: 'cancel'; appointment: Appointment }
+  | { kind: 'availability' };
+
+const DURATIONS = [30, 45, 60, 90];
+
+const createEmptySlot = (): SlotInput => ({
+  date: getZonedDate(new Date(), getBrowserTimeZone()),
+  time: "",
+  durationMinutes: 60,
+  mode: "in_person",
+  location: "",
+});
+
+const formatSlotTime = (startsAt: string) =>
+  new Date(startsAt).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+function ModeIcon({ mode }: { mode: AppointmentMode }) {
+  return mode === 'video'
+    ? <Video className="h-4 w-4 text-muted-foreground" />
+    : <MapPin className="h-4 w-4 text-muted-foreground" />;
+}
+
+function SlotPicker({
+  slots,
+  selectedId,
+  onSelect,
+  showClinician,
+}: {
+  slots: AvailabilitySlot[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  showClinician: boolean;
+}) {
+  if (slots.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">No open times right now. Please check back later.</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-64 overflow-y-auto" role="radiogroup" aria-label="Available times">
+      {slots.map((slot) => (
+        <button
+          key={slot.id}
+          type="button"
+          role="radio"
+          aria-checked={selectedId === slot.id}
+          onClick={() => onSelect(slot.id)}
+          className={cn(
+            "w-full text-left p-3 rounded-lg border transition-colors",
+            selectedId === slot.id ? "border-primary bg-primary/10" : "hover:bg-muted"
+          )}
+        >
+          <p className="font-medium text-sm">{formatSlotTime(slot.startsAt)}</p>
+          <p className="text-xs text-muted-foreground">
+            {showClinician && `${slot.clinicianName} · `}
+            {APPOINTMENT_MODE_LABELS[slot.mode]}
+            {slot.location && ` · ${slot.location}`}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export const Appointments = ({ user, role, patientId, userName, bookingRequested, onBookingHandled }: AppointmentsProps) => {
+  const isClinician = role === 'clinician';
+  const {
+    appointments,
+    ownSlots,
+    loading,
+    fetchOpenSlots,
+    addSlot,
+    deleteSlot,
+    bookAppointment,
+    rescheduleAppointment,
+    cancelAppointment,
+  } = useAppointments(user, isClinician);
+  const [dialog, setDialog] = useState<DialogState | null>(null);
+  const [openSlots, setOpenSlots] = useState<AvailabilitySlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
+  const [bookingPatientId, setBookingPatientId] = useState(patientId || "");
+  const [reason, setReason] = useState("");
+  const [newSlot, setNewSlot] = useState<SlotInput>(createEmptySlot);
+  const [saving, setSaving] = useState(false);
+
+  const bookedSlotIds = new Set(appointments.filter((a) => a.status === 'booked' && a.slotId).map((a) => a.slotId));
+
+  const openDialog = useCallback(async (next: DialogState) => {
+    setDialog(next);
+    setSelectedSlotId(null);
+    setReason("");
+    setBookingPatientId(patientId || "");
+    if (next.kind === 'book' || (next.kind === 'reschedule' && !next.appointment.asClinician)) {
+      setLoadingSlots(true);
+      setOpenSlots(await fetchOpenSlots());
+      setLoadingSlots(false);
+    }
+  }, [patientId, fetchOpenSlots]);
+
+  const userId = user?.id;
+
+  // Clinicians don't book, but the request is still cleared so it can't fire later
+  useEffect(() => {
+    if (!bookingRequested || !userId) return;
+    if (!isClinician) openDialog({ kind: 'book' });
+    onBookingHandled?.();
+  }, [bookingRequested, userId, isClinician, openDialog, onBookingHandled]);
+
+  // A clinician moves an appointment into one of their own free slots; the
+  // booker into any free slot of the same clinician
+  const rescheduleSlots = dialog?.kind === 'reschedule'
+    ? dialog.appointment.asClinician
+      ? ownSlots.filter((slot) => !bookedSlotIds.has(slot.id))
+      : openSlots.filter((slot) => slot.clinicianId === dialog.appointment.clinicianId)
+    : [];
+
+  const finish = (result: { success: boolean; error?: string }, successMessage: string, errorTitle: string) => {
+    if (result.success) {
+      toast.success(successMessage);
+      setDialog(null);
+    } else {
+      toast.error(errorTitle, { description: result.error });
+    }
+  };
+
+  const handleBook = async () => {
+    if (!selectedSlotId || !bookingPatientId.trim()) {
+      toast.error("Please choose a time and enter a patient ID");
+      return;
+    }
+    setSaving(true);
+    const result = await bookAppointment(selectedSlotId, bookingPatientId, reason);
+    setSaving(false);
+    finish(result, "Appointment booked. A confirmation is on its way.", "Could not book appointment");
+  };
+
+  const handleReschedule = async () => {
+    if (dialog?.kind !== 'reschedule' || !selectedSlotId) return;
+    setSaving(true);
+    const result = await rescheduleAppointment(dialog.appointment.id, selectedSlotId);
+    setSaving(false);
+    finish(result, "Appointment moved", "Could not move appointment");
+  };
+
+  const handleCancel = async () => {
+    if (dialog?.kind !== 'cancel') return;
+    setSaving(true);
+    const result = await cancelAppointment(dialog.appointment.id, reason);
+    setSaving(false);
+    finish(result, "Appointment cancelled", "Could not cancel appointment");
+  };
+
+  const handleAddSlot = async () => {
+    if (!newSlot.date || !newSlot.time) {
+      toast.error("Please choose a date and time");
+      return;
+    }
+    setSaving(true);
+    const result = await addSlot(newSlot, userName);
+    setSaving(false);
+    if (result.success) setNewSlot(createEmptySlot());
+    finish(result, "Availability added", "Could not add availability");
+  };
+
+  const handleDeleteSlot = async (id: string) => {
+    const result = await deleteSlot(id);
+    if (result.success) {
+      toast.success("Availability removed");
+    } else {
+      toast.error("Could not remove availability", { description: result.error });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 text-primary" />
+              Appointments
+            </CardTitle>
+            <CardDescription>
+              {isClinician
+                ? "Publish times families can book, and manage your upcoming appointments"
+                : "Book, move or cancel appointments with a clinician"}
+            </CardDescription>
+          </div>
+          {isClinician ? (
+            <Button size="sm" onClick={() => openDialog({ kind: 'availability' })} disabled={!user}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Times
+            </Button>
+          ) : (
+            <Button size="sm" onClick={() => openDialog({ kind: 'book' })} disabled={!user}>
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Book
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          {loading ? (
+            <p className="text-center py-8 text-muted-foreground">Loading appointments...</p>
+          ) : appointments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <CalendarClock className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>No upcoming appointments</p>
+            </div>
+          ) : (
+            appointments.map((appointment) => (
+              <div key={appointment.id} className="p-3 rounded-lg border bg-card space-y-2">
+                <div className="flex items-start gap-3">
+                  <ModeIcon mode={appointment.mode} />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("font-medium", appointment.status === 'cancelled' && "line-through text-muted-foreground")}>
+                      {formatSlotTime(appointment.startsAt)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {appointment.asClinician ? `Patient ${appointment.patientId}` : `${appointment.clinicianName} · Patient ${appointment.patientId}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {APPOINTMENT_MODE_LABELS[appointment.mode]}
+                      {appointment.location && ` · ${appointment.location}`}
+                    </p>
+                    {appointment.reason && <p className="text-xs text-muted-foreground mt-1">Reason: {appointment.reason}</p>}
+                    {appointment.status === 'cancelled' && appointment.cancellationReason && (
+                      <p className="text-xs text-muted-foreground mt-1">Cancelled: {appointment.cancellationReason}</p>
+                    )}
+                  </div>
+                  {appointment.status === 'cancelled' && <Badge variant="secondary">Cancelled</Badge>}
+                </div>
+                {appointment.status === 'booked' && (
+                  <div className="flex gap-2 justify-end">
+                    <Button variant="outline" size="sm" onClick={() => openDialog({ kind: 'reschedule', appointment })}>
+                      Reschedule
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => openDialog({ kind: 'cancel', appointment })}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {isClinician && ownSlots.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Your availability</p>
+            {ownSlots.map((slot) => (
+              <div key={slot.id} className="flex items-center justify-between gap-2 p-2 rounded-lg border text-sm">
+                <div className="flex items-center gap-2">
+                  <ModeIcon mode={slot.mode} />
+                  <span>{formatSlotTime(slot.startsAt)}</span>
+                </div>
+                {bookedSlotIds.has(slot.id) ? (
+                  <Badge>Booked</Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDeleteSlot(slot.id)}
+                    aria-label={`Remove availability ${formatSlotTime(slot.startsAt)}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          {dialog?.kind === 'book' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Book an Appointment</DialogTitle>
+                <DialogDescription>Choose an open time. You and the clinician will both get a confirmation.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 mt-4">
+                {loadingSlots ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">Loading open times...</p>
+                ) : (
+                  <SlotPicker slots={openSlots} selectedId={selectedSlotId} onSelect={setSelectedSlotId} showClinician />
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="bookingPatientId">Patient ID</Label>
+                  <Input
+                    id="bookingPatientId"
+                    value={bookingPatientId}
+                    onChange={(e) => setBookingPatientId(e.target.value)}
+                    readOnly={!!patientId}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bookingReason">Reason (optional)</Label>
+                  <Textarea
+                    id="bookingReason"
+                    placeholder="e.g., Follow-up on a high screening result"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                </div>
+                <Button onClick={handleBook} className="w-full" disabled={saving || !selectedSlotId}>
+                  {saving ? "Booking..." : "Book Appointment"}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {dialog?.kind === 'reschedule' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Reschedule Appointment</DialogTitle>
+                <DialogDescription>
+                  Currently {formatSlotTime(dialog.appointment.startsAt)}. Both sides will be told about the new time.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 mt-4">
+                {loadingSlots ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">Loading open times...</p>
+                ) : (
+                  <SlotPicker slots={rescheduleSlots} selectedId={selectedSlotId} onSelect={setSelectedSlotId} showClinician={false} />
+                )}
+                <Button onClick={handleReschedule} className="w-full" disabled={saving || !selectedSlotId}>
+                  {saving ? "Saving..." : "Move Appointment"}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {dialog?.kind === 'cancel' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Cancel Appointment</DialogTitle>
+                <DialogDescription>
+                  {formatSlotTime(dialog.appointment.startsAt)}. Both sides will be told it is cancelled.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 mt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="cancelReason">Reason (optional)</Label>
+                  <Textarea id="cancelReason" value={reason} onChange={(e) => setReason(e.target.value)} />
+                </div>
+                <Button variant="destructive" onClick={handleCancel} className="w-full" disabled={saving}>
+                  {saving ? "Cancelling..." : "Cancel Appointment"}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {dialog?.kind === 'availability' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Add Available Time</DialogTitle>
+                <DialogDescription>Families can book this time straight away. Times are in {getBrowserTimeZone()}.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 mt-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="slotDate">Date</Label>
+                    <Input
+                      id="slotDate"
+                      type="date"
+                      value={newSlot.date}
+                      onChange={(e) => setNewSlot({ ...newSlot, date: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="slotTime">Start time</Label>
+                    <Input
+                      id="slotTime"
+                      type="time"
+                      value={newSlot.time}
+                      onChange={(e) => setNewSlot({ ...newSlot, time: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="slotDuration">Length</Label>
+                    <Select
+                      value={String(newSlot.durationMinutes)}
+                      onValueChange={(value) => setNewSlot({ ...newSlot, durationMinutes: Number(value) })}
+                    >
+                      <SelectTrigger id="slotDuration">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DURATIONS.map((minutes) => (
+                          <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="slotMode">Type</Label>
+                    <Select
+                      value={newSlot.mode}
+                      onValueChange={(value) => setNewSlot({ ...newSlot, mode: value as AppointmentMode })}
+                    >
+                      <SelectTrigger id="slotMode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(APPOINTMENT_MODE_LABELS) as AppointmentMode[]).map((mode) => (
+                          <SelectItem key={mode} value={mode}>{APPOINTMENT_MODE_LABELS[mode]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slotLocation">{newSlot.mode === 'video' ? "Meeting link (optional)" : "Location (optional)"}</Label>
+                  <Input
+                    id="slotLocation"
+                    value={newSlot.location}
+                    onChange={(e) => setNewSlot({ ...newSlot, location: e.target.value })}
+                  />
+                </div>
+                <Button onClick={handleAddSlot} className="w-full" disabled={saving}>
+                  {saving ? "Saving..." : "Add Time"}
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
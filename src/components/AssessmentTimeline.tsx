@@ -0,0 +1,174 @@
+import { User } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { ArrowLeft, Clock, FileText, History, ShieldCheck } from 'lucide-react';
+import { AssessmentHistoryEntry, getHistoryEntryResult, useAssessmentHistory } from '@/hooks/useAssessmentHistory';
+import { getInstrument } from '@/data/instrumentRegistry';
+import { describeAnswer } from '@/utils/instrumentScoring';
+
+interface AssessmentTimelineProps {
+  user: User | null;
+  patientId: string;
+  subjectName?: string;
+  onOpenEntry: (entry: AssessmentHistoryEntry) => void;
+  onBack: () => void;
+}
+
+const severityBadgeColors: Record<string, string> = {
+  low: 'bg-mint text-mint-foreground',
+  mild: 'bg-bright-blue text-white',
+  moderate: 'bg-lavender text-lavender-foreground',
+  high: 'bg-destructive text-destructive-foreground',
+  'very-high': 'bg-destructive text-destructive-foreground',
+};
+
+function EntryAnswers({ entry }: { entry: AssessmentHistoryEntry }) {
+  const answers = (entry.metadata as { answers?: Record<string, string> } | null)?.answers;
+  const annotations = (entry.assessment_reviews?.annotations as Record<string, string> | undefined) || {};
+  if (!answers || Object.keys(answers).length === 0) {
+    return <p className="text-sm text-muted-foreground">Answers were not saved for this assessment.</p>;
+  }
+
+  const instrument = entry.instrument_id
+    ? getInstrument(entry.instrument_id, entry.instrument_version || undefined)
+    : undefined;
+
+  return (
+    <ol className="space-y-2">
+      {Object.entries(answers).map(([questionId, value]) => {
+        const { question, answer } = describeAnswer(questionId, value, instrument);
+        return (
+          <li key={questionId} className="text-sm border-b last:border-0 pb-2">
+            <div className="flex justify-between gap-4">
+              <span>{question}</span>
+              <span className="font-medium whitespace-nowrap">{answer}</span>
+            </div>
+            {annotations[questionId] && (
+              <p className="text-muted-foreground italic mt-1">Clinician note: {annotations[questionId]}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+// Every saved assessment for one patient, newest first
+export default function AssessmentTimeline({ user, patientId, subjectName, onOpenEntry, onBack }: AssessmentTimelineProps) {
+  const { entries, loading } = useAssessmentHistory(user, patientId);
+
+  return (
+    <div className="min-h-screen p-4 pt-16">
+      <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <History className="w-7 h-7" />
+              Assessment History
+            </h1>
+            <p className="text-muted-foreground">
+              {subjectName ? `${subjectName} · ` : ''}ID {patientId}
+            </p>
+          </div>
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : entries.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              No assessments recorded yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <ol className="relative border-l border-border ml-3 space-y-6">
+            {entries.map((entry) => {
+              const { result } = getHistoryEntryResult(entry);
+              return (
+                <li key={entry.id} className="ml-6">
+                  <span className="absolute -left-1.5 mt-6 w-3 h-3 rounded-full bg-primary" />
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <CardTitle className="text-lg">{new Date(entry.created_at).toLocaleString()}</CardTitle>
+                          <CardDescription>
+                            {entry.role.charAt(0).toUpperCase() + entry.role.slice(1)} assessment
+                            {entry.instrument_id && ` · ${entry.instrument_id} v${entry.instrument_version}`}
+                          </CardDescription>
+                        </div>
+                        <div className="flex flex-col items-end gap-2">
+                          <Badge className={severityBadgeColors[result.severity] || ''}>
+                            {result.severityLabel}
+                          </Badge>
+                          {result.review ? (
+                            <Badge variant="outline" className="gap-1">
+                              <ShieldCheck className="w-3 h-3" />
+                              Signed off by {result.review.reviewerName}
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="gap-1 text-muted-foreground">
+                              <Clock className="w-3 h-3" />
+                              Awaiting clinician review
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-3 gap-3 text-center">
+                        <div className="rounded-lg bg-muted/50 p-3">
+                          <p className="text-2xl font-bold">{entry.fused_score}</p>
+                          <p className="text-xs text-muted-foreground">Fused Score</p>
+                        </div>
+                        <div className="rounded-lg bg-muted/50 p-3">
+                          <p className="text-2xl font-bold">{entry.questionnaire_score}</p>
+                          <p className="text-xs text-muted-foreground">Questionnaire</p>
+                        </div>
+                        <div className="rounded-lg bg-muted/50 p-3">
+                          <p className="text-2xl font-bold">{entry.ml_score ?? '—'}</p>
+                          <p className="text-xs text-muted-foreground">ML Score</p>
+                        </div>
+                      </div>
+
+                      <Accordion type="single" collapsible>
+                        <AccordionItem value="answers" className="border-b-0">
+                          <AccordionTrigger className="py-2 text-sm">Answers</AccordionTrigger>
+                          <AccordionContent>
+                            <EntryAnswers entry={entry} />
+                          </AccordionContent>
+                        </AccordionItem>
+                      </Accordion>
+
+                      {result.review && (result.computedSeverityLabel || result.review.notes) && (
+                        <div className="rounded-lg bg-muted/50 p-3 text-sm space-y-1">
+                          {result.computedSeverityLabel && (
+                            <p>
+                              Changed from the computed {result.computedSeverityLabel}: {result.review.overrideReason}
+                            </p>
+                          )}
+                          {result.review.notes && <p className="text-muted-foreground whitespace-pre-wrap">{result.review.notes}</p>}
+                        </div>
+                      )}
+
+                      <Button variant="outline" className="w-full" onClick={() => onOpenEntry(entry)}>
+                        <FileText className="w-4 h-4 mr-2" />
+                        Open Full Report
+                      </Button>
+                    </CardContent>
+                  </Card>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Paperclip, X } from 'lucide-react';
+import { ClinicianInput } from '@/data/questionBanks';
+import { CLINICAL_SCORE_RANGES, ClinicalObservation, validateClinicalObservation } from '@/utils/scoring';
+import {
+  ATTACHMENT_ACCEPT,
+  removeClinicalAttachment,
+  uploadClinicalAttachment,
+} from '@/utils/clinicalAttachments';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface ClinicianObservationStepProps {
+  value: ClinicianInput;
+  onChange: (value: ClinicianInput) => void;
+  patientId?: string;
+}
+
+const NOT_RATED = 'not-rated';
+
+const ratingOptions = [
+  { value: '0', label: '0 - No concern' },
+  { value: '1', label: '1 - Slight' },
+  { value: '2', label: '2 - Mild' },
+  { value: '3', label: '3 - Moderate' },
+  { value: '4', label: '4 - Marked' },
+];
+
+const ratingFields: Array<keyof ClinicalObservation> = ['observedSocialReciprocity', 'observedRepetitiveBehavior'];
+const instrumentFields: Array<{ field: keyof ClinicalObservation; hint: string }> = [
+  { field: 'adosScore', hint: 'Calibrated severity score from the ADOS-2 module used' },
+  { field: 'adiRScore', hint: 'Sum of the diagnostic algorithm domains A-D' },
+];
+
+// Clinician observation step: session ratings, ADOS-2 and ADI-R scores, notes
+// and supporting files. Every score is optional; each one given is fused into
+// the result as its own evidence.
+export default function ClinicianObservationStep({ value, onChange, patientId }: ClinicianObservationStepProps) {
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+  const errors = validateClinicalObservation(value);
+
+  const setScore = (field: keyof ClinicalObservation, raw: string) => {
+    onChange({ ...value, [field]: raw === '' || raw === NOT_RATED ? null : Number(raw) });
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "You must be logged in to attach files",
+        variant: "destructive",
+      });
+      setUploading(false);
+      return;
+    }
+
+    const uploaded = [...value.uploadedFiles];
+    for (const file of files) {
+      try {
+        uploaded.push(await uploadClinicalAttachment(user.id, patientId || 'unassigned', file));
+      } catch (err) {
+        toast({
+          title: "Upload failed",
+          description: err instanceof Error ? err.message : `Could not attach ${file.name}`,
+          variant: "destructive",
+        });
+      }
+    }
+    onChange({ ...value, uploadedFiles: uploaded });
+    setUploading(false);
+  };
+
+  const handleRemove = async (path: string) => {
+    const attachment = value.uploadedFiles.find((file) => file.path === path);
+    if (!attachment) return;
+    try {
+      await removeClinicalAttachment(attachment);
+      onChange({ ...value, uploadedFiles: value.uploadedFiles.filter((file) => file.path !== path) });
+    } catch (err) {
+      console.error('Error removing attachment:', err);
+      toast({
+        title: "Could not remove file",
+        description: attachment.name,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold">Clinical Observation</h3>
+        <p className="text-sm text-muted-foreground">
+          Optional. Scores you enter are weighted into the result separately from the questionnaire.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {ratingFields.map((field) => (
+          <div key={field} className="space-y-2">
+            <Label htmlFor={`observation-${field}`}>{CLINICAL_SCORE_RANGES[field].label}</Label>
+            <Select
+              value={value[field] === null ? NOT_RATED : String(value[field])}
+              onValueChange={(raw) => setScore(field, raw)}
+            >
+              <SelectTrigger id={`observation-${field}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_RATED}>Not rated</SelectItem>
+                {ratingOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {instrumentFields.map(({ field, hint }) => {
+          const { min, max, label } = CLINICAL_SCORE_RANGES[field];
+          return (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`observation-${field}`}>{label} ({min}-{max})</Label>
+              <Input
+                id={`observation-${field}`}
+                type="number"
+                inputMode="numeric"
+                min={min}
+                max={max}
+                step={1}
+                value={value[field] ?? ''}
+                onChange={(e) => setScore(field, e.target.value)}
+                placeholder="Not assessed"
+                aria-invalid={!!errors[field]}
+              />
+              {errors[field] ? (
+                <p className="text-xs text-destructive">{errors[field]}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">{hint}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="observation-notes">Clinical Notes</Label>
+        <Textarea
+          id="observation-notes"
+          rows={4}
+          value={value.clinicalNotes}
+          onChange={(e) => onChange({ ...value, clinicalNotes: e.target.value })}
+          placeholder="Observations from the session, context for the scores"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="observation-files" className="flex items-center gap-2">
+          <Paperclip className="w-4 h-4" />
+          Attachments (Optional)
+        </Label>
+        <Input
+          id="observation-files"
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          onChange={handleFiles}
+          disabled={uploading}
+          className="cursor-pointer"
+        />
+        <p className="text-xs text-muted-foreground">
+          Score sheets, reports or images, up to 10MB each. Stored privately; only you and reviewing clinicians can open them.
+        </p>
+        {uploading && <p className="text-sm text-muted-foreground">Uploading...</p>}
+        {value.uploadedFiles.length > 0 && (
+          <ul className="space-y-2">
+            {value.uploadedFiles.map((file) => (
+              <li key={file.path} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                <span className="flex items-center gap-2 truncate">
+                  <FileText className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                  <span className="truncate">{file.name}</span>
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(file.path)} aria-label={`Remove ${file.name}`}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -22,14 +22,14 @@ const resources: Resource[] = [
     description: "Local and online support groups for families and individuals with autism",
     link: "https://www.autism-society.org/local-affiliates/",
     type: "support",
-    severity: ["low", "mild", "moderate", "high"],
+    severity: ["low", "mild", "moderate", "high", "very-high"],
   },
   {
     title: "Autism Speaks Community",
     description: "Connect with other families and share experiences",
     link: "https://www.autismspeaks.org/autism-support-groups",
     type: "support",
-    severity: ["low", "mild", "moderate", "high"],
+    severity: ["low", "mild", "moderate", "high", "very-high"],
   },
   
   // Therapy Services
@@ -38,21 +38,21 @@ const resources: Resource[] = [
     description: "Find certified ABA therapists in your area",
     link: "https://www.bacb.com/services/o.php?page=101155",
     type: "therapy",
-    severity: ["mild", "moderate", "high"],
+    severity: ["mild", "moderate", "high", "very-high"],
   },
   {
     title: "Occupational Therapy Directory",
     description: "Locate occupational therapists specializing in autism",
     link: "https://www.aota.org/",
     type: "therapy",
-    severity: ["low", "mild", "moderate", "high"],
+    severity: ["low", "mild", "moderate", "high", "very-high"],
   },
   {
     title: "Speech-Language Pathology Services",
     description: "Find speech therapists experienced with autism",
     link: "https://www.asha.org/profind/",
     type: "therapy",
-    severity: ["mild", "moderate", "high"],
+    severity: ["mild", "moderate", "high", "very-high"],
   },
   
   // Educational Resources
@@ -61,14 +61,14 @@ const resources: Resource[] = [
     description: "Evidence-based resources and online courses for parents",
     link: "https://autismnavigator.com/",
     type: "education",
-    severity: ["low", "mild", "moderate", "high"],
+    severity: ["low", "mild", "moderate", "high", "very-high"],
   },
   {
     title: "National Autism Center",
     description: "Evidence-based practice guides and educational materials",
     link: "https://www.nationalautismcenter.org/",
     type: "education",
-    severity: ["low", "mild", "moderate", "high"],
+    severity: ["low", "mild", "moderate", "high", "very-high"],
   },
   {
     title: "Organization for Autism Research",
@@ -85,7 +85,7 @@ const resources: Resource[] = [
     link: "https://988lifeline.org/",
     phone: "988",
     type: "crisis",
-    severity: ["high"],
+    severity: ["high", "very-high"],
   },
   {
     title: "Crisis Text Line",
@@ -93,7 +93,7 @@ const resources: Resource[] = [
     link: "https://www.crisistextline.org/",
     phone: "Text HOME to 741741",
     type: "crisis",
-    severity: ["moderate", "high"],
+    severity: ["moderate", "high", "very-high"],
   },
   {
     title: "Autism Society Crisis Intervention",
@@ -101,7 +101,7 @@ const resources: Resource[] = [
     link: "https://www.autism-society.org/living-with-autism/autism-and-crisis/",
     phone: "1-800-3-AUTISM (1-800-328-8476)",
     type: "crisis",
-    severity: ["moderate", "high"],
+    severity: ["moderate", "high", "very-high"],
   },
   {
     title: "NAMI Helpline",
@@ -109,7 +109,7 @@ const resources: Resource[] = [
     link: "https://www.nami.org/help",
     phone: "1-800-950-NAMI (6264)",
     type: "crisis",
-    severity: ["moderate", "high"],
+    severity: ["moderate", "high", "very-high"],
   },
 ];
 
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Calendar, Check, Images, Pencil, Plus } from 'lucide-react';
+import TaskCard, { TaskTheme } from './TaskCard';
+import { NewPlanTask, PlanTask, TASK_THEMES } from '@/utils/taskPlan';
+
+interface DailyTaskPlanProps {
+  tasks: PlanTask[];
+  loading: boolean;
+  accentColor: string;
+  schedule: { level: string; description: string };
+  showParentTips: boolean;
+  // Parents can change the plan; other roles can only check tasks off
+  editable: boolean;
+  onToggle: (taskId: string) => void;
+  onAdd: (task: NewPlanTask) => void;
+  onRemove: (taskId: string) => void;
+  onMove: (taskId: string, direction: 'up' | 'down') => void;
+  onOpenVisualSchedule?: () => void;
+}
+
+const themeLabels: Record<TaskTheme, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+  night: 'Night',
+};
+
+const emptyTaskForm: NewPlanTask = {
+  title: '',
+  description: '',
+  duration: '15 min',
+  parentTip: '',
+  theme: 'afternoon',
+};
+
+export default function DailyTaskPlan({
+  tasks,
+  loading,
+  accentColor,
+  schedule,
+  showParentTips,
+  editable,
+  onToggle,
+  onAdd,
+  onRemove,
+  onMove,
+  onOpenVisualSchedule,
+}: DailyTaskPlanProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [form, setForm] = useState<NewPlanTask>(emptyTaskForm);
+
+  const handleAdd = () => {
+    onAdd({ ...form, title: form.title.trim(), description: form.description.trim(), parentTip: form.parentTip?.trim() || undefined });
+    setForm(emptyTaskForm);
+    setShowAddDialog(false);
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Calendar className="w-5 h-5" />
+              Today's Schedule
+            </CardTitle>
+            <CardDescription className="mt-1">
+              {schedule.description}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="whitespace-nowrap">
+              {schedule.level} Complexity
+            </Badge>
+            {onOpenVisualSchedule && (
+              <Button variant="outline" size="sm" onClick={onOpenVisualSchedule} disabled={loading}>
+                <Images className="w-4 h-4 mr-1" />
+                Picture View
+              </Button>
+            )}
+            {editable && (
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(!isEditing)}>
+                {isEditing ? <Check className="w-4 h-4 mr-1" /> : <Pencil className="w-4 h-4 mr-1" />}
+                {isEditing ? 'Done' : 'Edit Plan'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading today's plan...</p>
+        ) : tasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tasks planned for today.</p>
+        ) : (
+          tasks.map((task, index) => (
+            <TaskCard
+              key={task.id}
+              title={task.title}
+              description={task.description}
+              steps={task.steps}
+              duration={task.duration}
+              completed={task.completed}
+              theme={task.theme}
+              parentTip={task.parentTip}
+              accentColor={accentColor}
+              showParentTip={showParentTips}
+              carriedOverFrom={task.carriedOverFrom}
+              onToggle={() => onToggle(task.id)}
+              onMoveUp={isEditing && index > 0 ? () => onMove(task.id, 'up') : undefined}
+              onMoveDown={isEditing && index < tasks.length - 1 ? () => onMove(task.id, 'down') : undefined}
+              onRemove={isEditing ? () => onRemove(task.id) : undefined}
+            />
+          ))
+        )}
+
+        {isEditing && (
+          <Button variant="outline" className="w-full" onClick={() => setShowAddDialog(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Task
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add a Task</DialogTitle>
+            <DialogDescription>The task is added to today's plan.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="taskTitle">Title</Label>
+              <Input
+                id="taskTitle"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="e.g. Tidy up toys"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="taskDescription">Description</Label>
+              <Input
+                id="taskDescription"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="taskDuration">Duration</Label>
+                <Input
+                  id="taskDuration"
+                  value={form.duration}
+                  onChange={(e) => setForm({ ...form, duration: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Time of Day</Label>
+                <Select value={form.theme} onValueChange={(value) => setForm({ ...form, theme: value as TaskTheme })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_THEMES.map((theme) => (
+                      <SelectItem key={theme} value={theme}>{themeLabels[theme]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="taskTip">Parent Tip (optional)</Label>
+              <Input
+                id="taskTip"
+                value={form.parentTip || ''}
+                onChange={(e) => setForm({ ...form, parentTip: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAddDialog(false)}>Cancel</Button>
+            <Button onClick={handleAdd} disabled={!form.title.trim()}>Add Task</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -2,23 +2,33 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Calendar, Download, Phone, Gamepad2, ClipboardCheck } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Phone, Gamepad2, ClipboardCheck, UserPlus, History, Library, ShieldCheck } from 'lucide-react';
+import { User } from '@supabase/supabase-js';
 import { ScoringResult, getScheduleComplexity } from '@/utils/scoring';
 import { ParentMetadata } from '@/data/questionBanks';
 import jsPDF from 'jspdf';
-import TaskCard, { TaskTheme } from './TaskCard';
+import DailyTaskPlan from './DailyTaskPlan';
 import MoodCheck from './MoodCheck';
 import AccessibilityControls from './AccessibilityControls';
 import ProgressChart from './ProgressChart';
 import MiniGames from './MiniGames';
+import VisualSchedule from './VisualSchedule';
 import { Reminders } from './Reminders';
+import { Appointments } from './Appointments';
+import NotificationInbox from './NotificationInbox';
 import { CommunityResources } from './CommunityResources';
 import { Timer } from './Timer';
 import { RewardsDisplay } from './RewardsDisplay';
 import { useProgressTracking } from '@/hooks/useProgressTracking';
-import { useEffect, useState } from 'react';
+import { Child } from '@/hooks/useChildren';
+import { useTaskPlan } from '@/hooks/useTaskPlan';
+import { TaskLibraryEntry } from '@/data/taskLibrary';
+import { getLibraryMatchOptions, getRecommendedInterventions } from '@/utils/taskLibrary';
+import { useState } from 'react';
 
 interface DashboardProps {
+  user: User | null;
   role: 'individual' | 'parent' | 'clinician';
   result: ScoringResult;
   metadata?: ParentMetadata;
@@ -26,34 +36,88 @@ interface DashboardProps {
   userName?: string;
   onStartAssessment?: () => void;
   patientName?: string;
+  patientId?: string;
+  // Parent accounts: every child profile, switched between from the header
+  childProfiles?: Child[];
+  onSwitchChild?: (patientCode: string) => void;
+  onAddChild?: () => void;
+  onViewHistory?: () => void;
+  library: TaskLibraryEntry[];
+  libraryLoading: boolean;
+  // Clinicians only: open the task library editor
+  onManageLibrary?: () => void;
+  onOpenNotificationSettings?: () => void;
+  // Clinicians only: open assessments awaiting sign-off
+  onOpenReviewQueue?: () => void;
+  // Opens appointment booking on arrival, e.g. from "Book an assessment" on a result
+  bookingRequested?: boolean;
+  onBookingHandled?: () => void;
 }
 
-export default function Dashboard({ role, result, metadata, onNavigateToCalmZone, userName = 'User', onStartAssessment, patientName }: DashboardProps) {
+const ADD_CHILD_VALUE = '__add_child__';
+
+export default function Dashboard({
+  user,
+  role,
+  result,
+  metadata,
+  onNavigateToCalmZone,
+  userName = 'User',
+  onStartAssessment,
+  patientName,
+  patientId,
+  childProfiles = [],
+  onSwitchChild,
+  onAddChild,
+  onViewHistory,
+  library,
+  libraryLoading,
+  onManageLibrary,
+  onOpenNotificationSettings,
+  onOpenReviewQueue,
+  bookingRequested,
+  onBookingHandled,
+}: DashboardProps) {
   const severity = result?.severity || 'mild';
   const schedule = getScheduleComplexity(severity);
-  const { addEntry, history, getTrend } = useProgressTracking();
+  const { history, getTrend } = useProgressTracking(user, patientId);
   const [showGames, setShowGames] = useState(false);
+  const [showVisualSchedule, setShowVisualSchedule] = useState(false);
+  const [contactRequested, setContactRequested] = useState(false);
   
   const severityColors: Record<string, string> = {
     low: 'mint',
     mild: 'bright-blue',
     moderate: 'lavender',
     high: 'coral',
+    'very-high': 'coral',
   };
 
   const accentColor = severityColors[severity] || 'bright-blue';
 
-  const tasks = generateTasks(severity, schedule.taskCount);
+  const libraryOptions = getLibraryMatchOptions(result, metadata?.childAge);
+  const { tasks, loading: loadingTasks, completedCount, toggleTask, addTask, removeTask, moveTask, reorderTask } =
+    useTaskPlan(user, patientId, library, libraryLoading, libraryOptions);
   const trend = getTrend();
 
-  useEffect(() => {
-    addEntry(result, role);
-  }, []);
-
   if (showGames) {
     return <MiniGames onBack={() => setShowGames(false)} />;
   }
 
+  if (showVisualSchedule) {
+    return (
+      <VisualSchedule
+        user={user}
+        patientId={patientId}
+        subjectName={role === 'individual' ? undefined : metadata?.childName}
+        tasks={tasks}
+        onToggle={toggleTask}
+        onReorder={role === 'parent' ? reorderTask : undefined}
+        onBack={() => setShowVisualSchedule(false)}
+      />
+    );
+  }
+
   const handleDownloadPDF = () => {
     const doc = new jsPDF();
     let yPos = 20;
@@ -82,6 +146,10 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
     yPos += 6;
     doc.text(`Severity: ${result.severityLabel}`, 20, yPos);
     yPos += 6;
+    if (result.review) {
+      doc.text(`Signed off by ${result.review.reviewerName} on ${new Date(result.review.signedAt).toLocaleDateString()}`, 20, yPos);
+      yPos += 6;
+    }
     doc.text(`Role: ${role.charAt(0).toUpperCase() + role.slice(1)}`, 20, yPos);
     yPos += 6;
     doc.text(`Date: ${new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}`, 20, yPos);
@@ -146,9 +214,9 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
     
     doc.setFontSize(11);
     doc.setFont(undefined, 'normal');
-    const recommendations = getRecommendations(result.severity);
+    const recommendations = getRecommendedInterventions(library, libraryOptions);
     recommendations.forEach((rec, index) => {
-      const lines = doc.splitTextToSize(`${index + 1}. ${rec}`, 170);
+      const lines = doc.splitTextToSize(`${index + 1}. ${rec.title}`, 170);
       doc.text(lines, 20, yPos);
       yPos += lines.length * 5 + 3;
     });
@@ -178,8 +246,17 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
       });
       yPos += 5;
       
-      doc.text(`Trend: ${trend === 'improving' ? 'Improving ↑' : trend === 'declining' ? 'Declining ↓' : 'Stable →'}`, 20, yPos);
-      yPos += 10;
+      const trendLabels = {
+        improving: 'Improving (scores falling)',
+        worsening: 'Needs attention (scores rising)',
+        'no-reliable-change': 'No reliable change',
+        'insufficient-data': 'Not enough data yet',
+      };
+      doc.text(`Trend: ${trendLabels[trend.verdict]}`, 20, yPos);
+      yPos += 5;
+      const trendLines = doc.splitTextToSize(trend.explanation, 170);
+      doc.text(trendLines, 20, yPos);
+      yPos += trendLines.length * 5 + 5;
     }
     
     // Footer
@@ -219,6 +296,34 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
               {role === 'parent' && `${metadata?.childName || 'Child'}'s Dashboard`}
               {role === 'clinician' && 'Clinical Dashboard'}
             </p>
+            {role === 'parent' && onSwitchChild && (
+              <Select
+                value={patientId}
+                onValueChange={(value) => (value === ADD_CHILD_VALUE ? onAddChild?.() : onSwitchChild(value))}
+              >
+                <SelectTrigger className="w-64 mb-3" aria-label="Switch child">
+                  <SelectValue placeholder="Select a child" />
+                </SelectTrigger>
+                <SelectContent>
+                  {childProfiles.map((child) => (
+                    <SelectItem key={child.id} value={child.patient_code}>
+                      {child.child_name} ({child.patient_code})
+                    </SelectItem>
+                  ))}
+                  {onAddChild && (
+                    <>
+                      {childProfiles.length > 0 && <SelectSeparator />}
+                      <SelectItem value={ADD_CHILD_VALUE}>
+                        <span className="flex items-center">
+                          <UserPlus className="w-4 h-4 mr-2" />
+                          Add child
+                        </span>
+                      </SelectItem>
+                    </>
+                  )}
+                </SelectContent>
+              </Select>
+            )}
             <p className="text-sm text-muted-foreground mb-3">
               {new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
             </p>
@@ -234,6 +339,7 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
           </div>
           
           <div className="flex flex-wrap gap-3">
+            {user && <NotificationInbox user={user} onOpenSettings={onOpenNotificationSettings} />}
             {(result?.normalizedScore || 0) > 70 && (
               <Button 
                 variant="outline" 
@@ -248,8 +354,29 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
               <Download className="w-4 h-4 mr-2" />
               Download Report
             </Button>
-            {severity === 'high' && (
-              <Button className="bg-coral hover:bg-coral/90">
+            {onViewHistory && (
+              <Button variant="outline" onClick={onViewHistory}>
+                <History className="w-4 h-4 mr-2" />
+                Assessment History
+              </Button>
+            )}
+            {onOpenReviewQueue && (
+              <Button variant="outline" onClick={onOpenReviewQueue}>
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Review Queue
+              </Button>
+            )}
+            {onManageLibrary && (
+              <Button variant="outline" onClick={onManageLibrary}>
+                <Library className="w-4 h-4 mr-2" />
+                Task Library
+              </Button>
+            )}
+            {(severity === 'high' || severity === 'very-high') && (
+              <Button
+                className="bg-coral hover:bg-coral/90"
+                onClick={role === 'clinician' ? undefined : () => setContactRequested(true)}
+              >
                 <Phone className="w-4 h-4 mr-2" />
                 Contact Clinician
               </Button>
@@ -274,45 +401,30 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
             <Badge className={`bg-${accentColor} text-${accentColor}-foreground text-base md:text-lg px-4 py-2`}>
               {result?.severityLabel || 'Assessment Pending'}
             </Badge>
+            {result?.review && (
+              <p className="text-sm text-muted-foreground mt-3">
+                Reviewed and signed off by {result.review.reviewerName} on {new Date(result.review.signedAt).toLocaleDateString()}
+              </p>
+            )}
           </CardContent>
         </Card>
 
         {/* Main Content Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Today's Schedule - Takes 2 columns on large screens */}
-          <Card className="lg:col-span-2">
-            <CardHeader>
-              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
-                <div>
-                  <CardTitle className="flex items-center gap-2 text-lg">
-                    <Calendar className="w-5 h-5" />
-                    Today's Schedule
-                  </CardTitle>
-                  <CardDescription className="mt-1">
-                    {schedule.description}
-                  </CardDescription>
-                </div>
-                <Badge variant="outline" className="whitespace-nowrap">
-                  {schedule.level} Complexity
-                </Badge>
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {tasks.map((task, index) => (
-                <TaskCard
-                  key={index}
-                  title={task.title}
-                  description={task.description}
-                  duration={task.duration}
-                  completed={task.completed}
-                  theme={task.theme}
-                  parentTip={task.parentTip}
-                  accentColor={accentColor}
-                  showParentTip={role === 'parent'}
-                />
-              ))}
-            </CardContent>
-          </Card>
+          <DailyTaskPlan
+            tasks={tasks}
+            loading={loadingTasks}
+            accentColor={accentColor}
+            schedule={schedule}
+            showParentTips={role === 'parent'}
+            editable={role === 'parent'}
+            onToggle={toggleTask}
+            onAdd={addTask}
+            onRemove={removeTask}
+            onMove={moveTask}
+            onOpenVisualSchedule={() => setShowVisualSchedule(true)}
+          />
 
           {/* Quick Actions Sidebar */}
           <div className="space-y-6">
@@ -339,9 +451,9 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
               <CardContent className="pt-6">
                 <div className="flex justify-between text-sm mb-2">
                   <span className="font-medium">Today's Progress</span>
-                  <span className="text-muted-foreground">2/{tasks.length}</span>
+                  <span className="text-muted-foreground">{completedCount}/{tasks.length}</span>
                 </div>
-                <Progress value={(2 / tasks.length) * 100} className="h-2" />
+                <Progress value={tasks.length > 0 ? (completedCount / tasks.length) * 100 : 0} className="h-2" />
               </CardContent>
             </Card>
 
@@ -351,135 +463,25 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
 
         {/* Secondary Content Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          <Reminders />
+          <Appointments
+            user={user}
+            role={role}
+            patientId={role === 'clinician' ? undefined : patientId}
+            userName={userName}
+            bookingRequested={bookingRequested || contactRequested}
+            onBookingHandled={() => {
+              setContactRequested(false);
+              onBookingHandled?.();
+            }}
+          />
+          <Reminders user={user} />
           <Timer />
           <CommunityResources severity={severity} />
         </div>
 
         {/* Rewards System */}
-        <RewardsDisplay />
+        <RewardsDisplay patientId={role === 'parent' ? patientId : undefined} />
       </div>
     </div>
   );
 }
-
-function generateTasks(severity: string, count: number) {
-  const taskPool: Array<{
-    title: string;
-    description: string;
-    duration: string;
-    parentTip: string;
-    completed: boolean;
-    theme: TaskTheme;
-  }> = [
-    {
-      title: 'Morning Routine',
-      description: 'Complete morning self-care activities',
-      duration: '15 min',
-      parentTip: 'Use visual schedule cards to help guide each step',
-      completed: true,
-      theme: 'morning',
-    },
-    {
-      title: 'Sensory Break',
-      description: 'Take a calming sensory break',
-      duration: '10 min',
-      parentTip: 'Offer fidget toys or weighted blanket',
-      completed: true,
-      theme: 'morning',
-    },
-    {
-      title: 'Learning Activity',
-      description: 'Engage in structured learning',
-      duration: severity === 'high' ? '8 min' : '20 min',
-      parentTip: 'Break into 2-minute segments with rewards',
-      completed: false,
-      theme: 'afternoon',
-    },
-    {
-      title: 'Lunch & Nutrition',
-      description: 'Healthy meal time',
-      duration: '30 min',
-      parentTip: 'Introduce new foods gradually',
-      completed: false,
-      theme: 'afternoon',
-    },
-    {
-      title: 'Social Interaction',
-      description: 'Practice social skills',
-      duration: '12 min',
-      parentTip: 'Start with one-on-one interaction',
-      completed: false,
-      theme: 'afternoon',
-    },
-    {
-      title: 'Physical Activity',
-      description: 'Movement and exercise',
-      duration: '15 min',
-      parentTip: 'Allow for breaks and water as needed',
-      completed: false,
-      theme: 'evening',
-    },
-    {
-      title: 'Nature Time',
-      description: 'Outdoor relaxation',
-      duration: '20 min',
-      parentTip: 'Let them explore at their own pace',
-      completed: false,
-      theme: 'evening',
-    },
-    {
-      title: 'Quiet Time',
-      description: 'Independent relaxation period',
-      duration: '20 min',
-      parentTip: 'Provide calming activities like coloring',
-      completed: false,
-      theme: 'evening',
-    },
-    {
-      title: 'Bedtime Routine',
-      description: 'Wind down for sleep',
-      duration: '25 min',
-      parentTip: 'Maintain consistent bedtime schedule',
-      completed: false,
-      theme: 'night',
-    },
-    {
-      title: 'Story Time',
-      description: 'Calming bedtime story',
-      duration: '15 min',
-      parentTip: 'Use predictable, favorite stories',
-      completed: false,
-      theme: 'night',
-    },
-  ];
-
-  return taskPool.slice(0, count);
-}
-
-function getRecommendations(severity: string): string[] {
-  const recommendations: Record<string, string[]> = {
-    low: [
-      'Continue monitoring development',
-      'Maintain supportive routines',
-    ],
-    mild: [
-      'Consider scheduling a screening',
-      'Document behaviors and patterns',
-      'Explore supportive resources',
-    ],
-    moderate: [
-      'Schedule comprehensive evaluation',
-      'Consider early intervention services',
-      'Connect with support groups',
-    ],
-    high: [
-      'Seek clinical assessment immediately',
-      'Contact healthcare provider',
-      'Connect with autism specialist',
-      'Explore immediate support resources',
-    ],
-  };
-
-  return recommendations[severity] || recommendations['mild'];
-}
\ No newline at end of file
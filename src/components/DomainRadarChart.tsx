@@ -0,0 +1,60 @@
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, ResponsiveContainer, Legend } from 'recharts';
+import { DOMAIN_LABELS, DomainScores, TRACKED_DOMAINS } from '@/utils/scoring';
+
+interface DomainRadarChartProps {
+  domainScores: DomainScores;
+  // Earlier assessment drawn underneath for comparison
+  previousDomainScores?: DomainScores;
+  className?: string;
+}
+
+export default function DomainRadarChart({ domainScores, previousDomainScores, className = 'h-[260px]' }: DomainRadarChartProps) {
+  const data = TRACKED_DOMAINS
+    .filter((domain) => domainScores[domain])
+    .map((domain) => ({
+      domain: DOMAIN_LABELS[domain],
+      current: domainScores[domain]!.normalized,
+      previous: previousDomainScores?.[domain]?.normalized,
+    }));
+
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground">No domain breakdown is available for this assessment.</p>;
+  }
+
+  return (
+    <ChartContainer
+      config={{
+        current: { label: 'Latest', color: 'hsl(var(--primary))' },
+        previous: { label: 'Previous', color: 'hsl(var(--muted-foreground))' },
+      }}
+      className={className}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <RadarChart data={data} outerRadius="70%">
+          <PolarGrid />
+          <PolarAngleAxis dataKey="domain" tick={{ fontSize: 11 }} />
+          <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {previousDomainScores && (
+            <Radar
+              name="Previous"
+              dataKey="previous"
+              stroke="hsl(var(--muted-foreground))"
+              fill="hsl(var(--muted-foreground))"
+              fillOpacity={0.15}
+            />
+          )}
+          <Radar
+            name="Latest"
+            dataKey="current"
+            stroke="hsl(var(--primary))"
+            fill="hsl(var(--primary))"
+            fillOpacity={0.35}
+          />
+          {previousDomainScores && <Legend />}
+        </RadarChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,76 @@
+import { ChartContainer, ChartTooltip } from '@/components/ui/chart';
+import { Bar, BarChart, Cell, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { FusionExplanation, FusionWaterfallStep, getFusionWaterfall } from '@/utils/scoring';
+
+interface FusionWaterfallChartProps {
+  explanation: FusionExplanation;
+  className?: string;
+}
+
+// Same colours as the score comparison chart
+const stepColors: Record<FusionWaterfallStep['source'], string> = {
+  questionnaire: 'hsl(var(--bright-blue))',
+  model: 'hsl(var(--lavender))',
+  ados: 'hsl(var(--mint))',
+  adiR: 'hsl(var(--mint))',
+  observation: 'hsl(var(--mint))',
+  total: 'hsl(var(--primary))',
+};
+
+// Each source's points stacked up to the fused score, with the score the
+// other sources give on their own marked when there is a video
+export default function FusionWaterfallChart({ explanation, className = 'h-[240px]' }: FusionWaterfallChartProps) {
+  const data = getFusionWaterfall(explanation).map((step) => ({
+    name: step.label,
+    source: step.source,
+    // Transparent bar that lifts each step to where the previous one ended
+    base: step.start,
+    value: Math.round((step.end - step.start) * 100) / 100,
+    fill: stepColors[step.source],
+  }));
+  const hasVideo = explanation.sources.some((source) => source.source === 'model');
+
+  return (
+    <ChartContainer
+      config={{
+        value: { label: 'Points', color: 'hsl(var(--primary))' },
+      }}
+      className={className}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 20, right: 20, bottom: 20, left: 0 }}>
+          <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+          <YAxis domain={[0, 100]} />
+          <ChartTooltip
+            content={({ active, payload }) => {
+              if (active && payload && payload.length) {
+                const step = payload[0].payload;
+                return (
+                  <div className="bg-popover p-2 rounded shadow border text-sm">
+                    <p className="font-semibold">{step.name}</p>
+                    <p>{step.source === 'total' ? `${step.value.toFixed(1)} / 100` : `+${step.value.toFixed(1)} points`}</p>
+                  </div>
+                );
+              }
+              return null;
+            }}
+          />
+          <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+          <Bar dataKey="value" stackId="waterfall" radius={[4, 4, 0, 0]}>
+            {data.map((entry) => (
+              <Cell key={entry.source} fill={entry.fill} />
+            ))}
+          </Bar>
+          {hasVideo && (
+            <ReferenceLine
+              y={explanation.scoreWithoutVideo}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="4 4"
+              label={{ value: `Without video: ${explanation.scoreWithoutVideo.toFixed(1)}`, position: 'insideTopRight', fontSize: 10 }}
+            />
+          )}
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Camera, CheckCircle2, Circle, RotateCcw, Square } from 'lucide-react';
+import { RecordingProtocol } from '@/data/recordingProtocol';
+import { RecordedSegment, SegmentRecorder, openCamera, startSegmentRecording } from '@/utils/guidedRecording';
+
+interface GuidedRecorderProps {
+  protocol: RecordingProtocol;
+  onCancel: () => void;
+  // Every segment of the protocol, in protocol order
+  onComplete: (segments: RecordedSegment[]) => void;
+}
+
+type Phase = 'ready' | 'countdown' | 'recording' | 'review';
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Walks through the protocol's segments: prompt, countdown, record, then review
+// the take and either re-take it or move on
+export default function GuidedRecorder({ protocol, onCancel, onComplete }: GuidedRecorderProps) {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [phase, setPhase] = useState<Phase>('ready');
+  const [countdown, setCountdown] = useState(protocol.countdownSeconds);
+  const [elapsed, setElapsed] = useState(0);
+  const [takes, setTakes] = useState<Record<string, RecordedSegment>>({});
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const recorderRef = useRef<SegmentRecorder | null>(null);
+  const startedAtRef = useRef('');
+
+  const segment = protocol.segments[index];
+  const take = takes[segment.id];
+  const isLastSegment = index === protocol.segments.length - 1;
+  const allRecorded = protocol.segments.every((s) => takes[s.id]);
+  const takeUrl = useMemo(() => (take ? URL.createObjectURL(take.file) : null), [take]);
+
+  useEffect(() => () => {
+    if (takeUrl) URL.revokeObjectURL(takeUrl);
+  }, [takeUrl]);
+
+  useEffect(() => {
+    let opened: MediaStream | null = null;
+    let cancelled = false;
+    openCamera()
+      .then((cameraStream) => {
+        if (cancelled) {
+          cameraStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        opened = cameraStream;
+        setStream(cameraStream);
+      })
+      .catch((err) => {
+        console.error('Error opening camera:', err);
+        setCameraError(err instanceof Error && err.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in your browser settings to record.'
+          : 'No camera could be opened on this device.');
+      });
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  // The live preview is hidden while a take is reviewed, so it is re-attached when shown
+  useEffect(() => {
+    if (previewRef.current && stream) previewRef.current.srcObject = stream;
+  }, [stream, phase]);
+
+  const finishRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    const { file, duration } = await recorder.stop();
+    setTakes((prev) => ({
+      ...prev,
+      [segment.id]: {
+        id: segment.id,
+        file,
+        startedAt: startedAtRef.current,
+        duration,
+        takes: (prev[segment.id]?.takes || 0) + 1,
+      },
+    }));
+    setPhase('review');
+  }, [segment.id]);
+
+  useEffect(() => {
+    if (phase !== 'countdown' || !stream) return;
+    if (countdown === 0) {
+      recorderRef.current = startSegmentRecording(stream, segment.id);
+      startedAtRef.current = new Date().toISOString();
+      setElapsed(0);
+      setPhase('recording');
+      return;
+    }
+    const timer = window.setTimeout(() => setCountdown((c) => c - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [phase, countdown, stream, segment.id]);
+
+  useEffect(() => {
+    if (phase !== 'recording') return;
+    const started = performance.now();
+    const timer = window.setInterval(() => {
+      const seconds = (performance.now() - started) / 1000;
+      setElapsed(Math.min(seconds, segment.durationSeconds));
+      if (seconds >= segment.durationSeconds) finishRecording();
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [phase, segment.durationSeconds, finishRecording]);
+
+  const startCountdown = () => {
+    setCountdown(protocol.countdownSeconds);
+    setPhase('countdown');
+  };
+
+  const goToSegment = (next: number) => {
+    setIndex(next);
+    setPhase(takes[protocol.segments[next].id] ? 'review' : 'ready');
+  };
+
+  const busy = phase === 'countdown' || phase === 'recording';
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4 text-left">
+      <div className="flex items-center gap-2 font-medium">
+        <Camera className="w-4 h-4" />
+        Guided recording
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {protocol.segments.map((s, i) => (
+          <Button
+            key={s.id}
+            type="button"
+            size="sm"
+            variant={i === index ? 'default' : 'outline'}
+            onClick={() => goToSegment(i)}
+            disabled={busy || (!takes[s.id] && i > index)}
+          >
+            {takes[s.id] ? <CheckCircle2 className="w-4 h-4 mr-1" /> : <Circle className="w-4 h-4 mr-1" />}
+            {i + 1}. {s.title}
+          </Button>
+        ))}
+      </div>
+
+      {cameraError ? (
+        <p className="text-sm text-destructive">{cameraError}</p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <p className="font-medium">
+              Segment {index + 1} of {protocol.segments.length}: {segment.title} ({formatTime(segment.durationSeconds)})
+            </p>
+            <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+              {segment.instructions.map((instruction) => (
+                <li key={instruction}>{instruction}</li>
+              ))}
+            </ul>
+          </div>
+
+          {phase === 'review' && takeUrl ? (
+            <video src={takeUrl} controls playsInline className="w-full max-h-64 rounded-md bg-black" />
+          ) : (
+            <div className="relative">
+              <video ref={previewRef} autoPlay muted playsInline className="w-full max-h-64 rounded-md bg-black" />
+              {phase === 'countdown' && (
+                <div className="absolute inset-0 flex items-center justify-center text-6xl font-bold text-white bg-black/40 rounded-md">
+                  {countdown}
+                </div>
+              )}
+              {phase === 'recording' && (
+                <div className="absolute top-2 left-2 flex items-center gap-1 rounded-md bg-black/60 px-2 py-1 text-xs text-white">
+                  <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+                  REC {formatTime(elapsed)} / {formatTime(segment.durationSeconds)}
+                </div>
+              )}
+            </div>
+          )}
+
+          {phase === 'recording' && (
+            <Progress value={(elapsed / segment.durationSeconds) * 100} className="h-2" />
+          )}
+          {phase === 'review' && take && (
+            <p className="text-xs text-muted-foreground">
+              Take {take.takes}, {formatTime(take.duration)} recorded
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={busy}>
+          Cancel
+        </Button>
+        {phase === 'ready' && (
+          <Button type="button" onClick={startCountdown} disabled={!stream}>
+            Start recording
+          </Button>
+        )}
+        {phase === 'recording' && (
+          <Button type="button" variant="destructive" onClick={finishRecording}>
+            <Square className="w-4 h-4 mr-1" />
+            Stop early
+          </Button>
+        )}
+        {phase === 'review' && (
+          <>
+            <Button type="button" variant="outline" onClick={startCountdown} disabled={!stream}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Re-take
+            </Button>
+            {isLastSegment || allRecorded ? (
+              <Button
+                type="button"
+                onClick={() => onComplete(protocol.segments.map((s) => takes[s.id]))}
+                disabled={!allRecorded}
+              >
+                Finish & Upload
+              </Button>
+            ) : (
+              <Button type="button" onClick={() => goToSegment(index + 1)}>
+                Next segment
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ClipboardList } from 'lucide-react';
+import {
+  InstrumentRole,
+  formatInstrumentAgeRange,
+  suggestInstruments,
+} from '@/data/instrumentRegistry';
+
+interface InstrumentPickerProps {
+  role: InstrumentRole;
+  ageRange?: string;
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+}
+
+// Optional validated screening instruments, suggested by the selected age range
+export default function InstrumentPicker({ role, ageRange, selectedIds, onChange }: InstrumentPickerProps) {
+  const available = suggestInstruments(role);
+  const suggestedIds = new Set(suggestInstruments(role, ageRange).map((i) => i.id));
+
+  if (available.length === 0) return null;
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...selectedIds, id] : selectedIds.filter((s) => s !== id));
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <Label className="flex items-center gap-2">
+        <ClipboardList className="w-4 h-4" />
+        Validated Screening Instruments (Optional)
+      </Label>
+      <p className="text-sm text-muted-foreground">
+        Add a published screening tool. It runs after the AutiCare questions and is scored with its own rules.
+      </p>
+      <div className="space-y-2">
+        {available.map((instrument) => (
+          <div key={instrument.id} className="flex items-start space-x-2 p-3 rounded-lg border">
+            <Checkbox
+              id={`instrument-${instrument.id}`}
+              checked={selectedIds.includes(instrument.id)}
+              onCheckedChange={(checked) => toggle(instrument.id, !!checked)}
+            />
+            <label htmlFor={`instrument-${instrument.id}`} className="flex-1 cursor-pointer space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium">{instrument.name}</span>
+                <Badge variant="outline" className="text-xs">{formatInstrumentAgeRange(instrument)}</Badge>
+                {ageRange && suggestedIds.has(instrument.id) && (
+                  <Badge className="text-xs bg-mint text-mint-foreground">Suggested for this age</Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">{instrument.description}</p>
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -66,6 +66,7 @@ export default function MoodCheck({ result }: MoodCheckProps) {
       mild: "You're making progress every day! Small steps lead to big changes. Keep pushing forward! 🌱",
       moderate: "You're doing really well managing challenges! Remember to be patient with yourself. You've got this! 🌈",
       high: "You're incredibly brave for taking these steps! Remember, asking for help is a sign of strength. You're not alone. 💙",
+      'very-high': "You're incredibly brave for taking these steps! Remember, asking for help is a sign of strength. You're not alone. 💙",
     };
     return messages[result.severity];
   };
@@ -93,7 +94,7 @@ export default function MoodCheck({ result }: MoodCheckProps) {
       tips += "• Remember: One step at a time is okay\n\n";
     }
 
-    if (result.severity === 'high' || result.severity === 'moderate') {
+    if (result.severity === 'very-high' || result.severity === 'high' || result.severity === 'moderate') {
       tips += "\n🤝 Consider reaching out to a clinician or trusted support person. You don't have to face this alone.";
     }
 
@@ -0,0 +1,97 @@
+import { User } from '@supabase/supabase-js';
+import { Bell, Settings, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useNotifications } from '@/hooks/useNotifications';
+import { NotificationType } from '@shared/notificationPreferences';
+import { cn } from '@/lib/utils';
+
+interface NotificationInboxProps {
+  user: User | null;
+  onOpenSettings?: () => void;
+}
+
+const typeIcons: Record<NotificationType, string> = {
+  reminder: '⏰',
+  appointment: '📅',
+  assessment_due: '📋',
+  achievement: '🏆',
+};
+
+export default function NotificationInbox({ user, onOpenSettings }: NotificationInboxProps) {
+  const { notifications, unreadCount, loading, markAllRead, deleteNotification, refetch } = useNotifications(user);
+
+  return (
+    <Popover onOpenChange={(open) => open && refetch()}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between p-3 border-b">
+          <p className="font-semibold">Notifications</p>
+          <div className="flex gap-1">
+            {unreadCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={markAllRead}>
+                Mark all read
+              </Button>
+            )}
+            {onOpenSettings && (
+              <Button variant="ghost" size="icon" onClick={onOpenSettings} aria-label="Notification settings">
+                <Settings className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {loading && notifications.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">You're all caught up.</p>
+          ) : (
+            notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={cn('flex items-start gap-3 p-3 border-b last:border-0', !notification.readAt && 'bg-primary/5')}
+              >
+                <span className="text-lg" aria-hidden="true">{typeIcons[notification.type] || '🔔'}</span>
+                <div className="flex-1 min-w-0">
+                  <p className={cn('text-sm', !notification.readAt && 'font-semibold')}>{notification.title}</p>
+                  {notification.body && <p className="text-sm text-muted-foreground">{notification.body}</p>}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {new Date(notification.createdAt).toLocaleString(undefined, {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => deleteNotification(notification.id)}
+                  aria-label={`Dismiss ${notification.title}`}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
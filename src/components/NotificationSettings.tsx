@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react';
+import { User } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, BellRing, Moon, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { getTimeZoneOptions } from '@/hooks/useReminders';
+import { PushNotificationSettings } from './PushNotificationSettings';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  NotificationChannel,
+  NotificationFrequency,
+  NotificationPreferences,
+  NotificationType,
+} from '@shared/notificationPreferences';
+import { EMAIL_LOCALES, EMAIL_LOCALE_LABELS, EmailLocale } from '@shared/email/locales';
+
+interface NotificationSettingsProps {
+  user: User | null;
+  onBack: () => void;
+}
+
+const typeLabels: Record<NotificationType, { title: string; description: string }> = {
+  reminder: { title: 'Task & medication reminders', description: 'Reminders you have scheduled' },
+  appointment: { title: 'Appointments', description: 'Upcoming appointment alerts' },
+  assessment_due: { title: 'Assessment due', description: 'When it is time for a check-in assessment' },
+  achievement: { title: 'Achievements', description: 'Badges unlocked for completed tasks' },
+};
+
+const channelLabels: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  push: 'Push',
+  email: 'Email',
+};
+
+const frequencyLabels: Record<NotificationFrequency, string> = {
+  immediate: 'Immediately',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export default function NotificationSettings({ user, onBack }: NotificationSettingsProps) {
+  const { toast } = useToast();
+  const { preferences, loading, savePreferences } = useNotificationPreferences(user);
+  const [form, setForm] = useState<NotificationPreferences>(preferences);
+  const [saving, setSaving] = useState(false);
+  const [timeZones] = useState(getTimeZoneOptions);
+
+  useEffect(() => {
+    setForm(preferences);
+  }, [preferences]);
+
+  const toggleChannel = (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    const current = form.types[type];
+    const channels = enabled
+      ? NOTIFICATION_CHANNELS.filter((c) => c === channel || current.channels.includes(c))
+      : current.channels.filter((c) => c !== channel);
+    setForm({ ...form, types: { ...form.types, [type]: { ...current, channels } } });
+  };
+
+  const setFrequency = (type: NotificationType, frequency: NotificationFrequency) => {
+    setForm({ ...form, types: { ...form.types, [type]: { ...form.types[type], frequency } } });
+  };
+
+  const usesDigest = NOTIFICATION_TYPES.some((type) => form.types[type].frequency !== 'immediate');
+  const usesWeeklyDigest = NOTIFICATION_TYPES.some((type) => form.types[type].frequency === 'weekly');
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await savePreferences(form);
+    setSaving(false);
+
+    if (result.success) {
+      toast({ title: 'Preferences saved', description: 'Notifications will follow your new settings.' });
+    } else {
+      toast({ title: 'Could not save preferences', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-4 pt-16">
+      <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <BellRing className="w-7 h-7" />
+              Notification Settings
+            </h1>
+            <p className="text-muted-foreground">
+              Choose how and when AutiCare gets in touch. Digests combine notifications into one message.
+            </p>
+          </div>
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading preferences...</p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Notification Types</CardTitle>
+                <CardDescription>In-app notifications always arrive straight away in the dashboard inbox.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {NOTIFICATION_TYPES.map((type) => (
+                  <div key={type} className="flex flex-col md:flex-row md:items-center justify-between gap-3 border-b pb-4 last:border-0 last:pb-0">
+                    <div>
+                      <p className="font-medium">{typeLabels[type].title}</p>
+                      <p className="text-sm text-muted-foreground">{typeLabels[type].description}</p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4">
+                      {NOTIFICATION_CHANNELS.map((channel) => (
+                        <div key={channel} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`${type}-${channel}`}
+                            checked={form.types[type].channels.includes(channel)}
+                            onCheckedChange={(checked) => toggleChannel(type, channel, checked === true)}
+                          />
+                          <Label htmlFor={`${type}-${channel}`} className="font-normal">{channelLabels[channel]}</Label>
+                        </div>
+                      ))}
+                      <Select
+                        value={form.types[type].frequency}
+                        onValueChange={(value) => setFrequency(type, value as NotificationFrequency)}
+                      >
+                        <SelectTrigger className="w-40" aria-label={`${typeLabels[type].title} frequency`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(frequencyLabels) as NotificationFrequency[]).map((frequency) => (
+                            <SelectItem key={frequency} value={frequency}>{frequencyLabels[frequency]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Moon className="w-5 h-5" />
+                  Quiet Hours & Digests
+                </CardTitle>
+                <CardDescription>
+                  Push and email notifications that fall in quiet hours are held until they end.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="quietHours">Quiet hours</Label>
+                  <Switch
+                    id="quietHours"
+                    checked={form.quietHours.enabled}
+                    onCheckedChange={(enabled) => setForm({ ...form, quietHours: { ...form.quietHours, enabled } })}
+                  />
+                </div>
+                {form.quietHours.enabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="quietStart">From</Label>
+                      <Input
+                        id="quietStart"
+                        type="time"
+                        value={form.quietHours.start}
+                        onChange={(e) => setForm({ ...form, quietHours: { ...form.quietHours, start: e.target.value } })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="quietEnd">Until</Label>
+                      <Input
+                        id="quietEnd"
+                        type="time"
+                        value={form.quietHours.end}
+                        onChange={(e) => setForm({ ...form, quietHours: { ...form.quietHours, end: e.target.value } })}
+                      />
+                    </div>
+                  </div>
+                )}
+                {usesDigest && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="digestTime">Send digests at</Label>
+                      <Input
+                        id="digestTime"
+                        type="time"
+                        value={form.digestTime}
+                        onChange={(e) => setForm({ ...form, digestTime: e.target.value })}
+                      />
+                    </div>
+                    {usesWeeklyDigest && (
+                      <div className="space-y-2">
+                        <Label htmlFor="digestWeekday">Weekly digest on</Label>
+                        <Select
+                          value={String(form.digestWeekday)}
+                          onValueChange={(value) => setForm({ ...form, digestWeekday: Number(value) })}
+                        >
+                          <SelectTrigger id="digestWeekday">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {WEEKDAYS.map((day, i) => (
+                              <SelectItem key={day} value={String(i)}>{day}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="notificationTimezone">Time zone</Label>
+                  <Select value={form.timezone} onValueChange={(timezone) => setForm({ ...form, timezone })}>
+                    <SelectTrigger id="notificationTimezone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeZones.map((zone) => (
+                        <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Email</CardTitle>
+                <CardDescription>Every email has a link to stop that kind of email.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  <Label htmlFor="emailLocale">Email language</Label>
+                  <Select
+                    value={form.emailLocale || 'auto'}
+                    onValueChange={(value) => setForm({ ...form, emailLocale: value === 'auto' ? null : (value as EmailLocale) })}
+                  >
+                    <SelectTrigger id="emailLocale">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Same as my profile</SelectItem>
+                      {EMAIL_LOCALES.map((locale) => (
+                        <SelectItem key={locale} value={locale}>{EMAIL_LOCALE_LABELS[locale]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Devices</CardTitle>
+                <CardDescription>Push notifications go to every device turned on here.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PushNotificationSettings user={user} />
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving || !user}>
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Preferences'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -85,7 +85,9 @@ export default function PatientIdEntry({ role, existingPatientId, onConfirm, onB
               <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
                 <p className="text-sm text-amber-800 dark:text-amber-200">
                   ⚠️ <strong>Important:</strong> This ID will be permanently linked to your account. 
-                  One email can only have one {role === 'clinician' ? 'patient' : role === 'parent' ? 'child' : 'assessment'} ID.
+                  {role === 'parent'
+                    ? ' You can add siblings later from the child switcher on your dashboard.'
+                    : ` One email can only have one ${role === 'clinician' ? 'patient' : 'assessment'} ID.`}
                 </p>
               </div>
             </>
@@ -106,7 +108,9 @@ export default function PatientIdEntry({ role, existingPatientId, onConfirm, onB
 
           {existingPatientId && (
             <p className="text-xs text-center text-muted-foreground">
-              To use a different ID, please log out and register with a new email.
+              {role === 'parent'
+                ? 'To assess another child, add them from the child switcher on your dashboard.'
+                : 'To use a different ID, please log out and register with a new email.'}
             </p>
           )}
         </CardContent>
@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import { User } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Archive, ArchiveRestore, ArrowLeft, ClipboardList, Plus, RefreshCw, Search, Users } from 'lucide-react';
+import { Patient, usePatients } from '@/hooks/usePatients';
+import { useAssessmentHistory } from '@/hooks/useAssessmentHistory';
+import { generatePatientId } from '@/hooks/useUserAssessmentData';
+import { useToast } from '@/hooks/use-toast';
+
+interface PatientRosterProps {
+  user: User | null;
+  onStartAssessment: (patient: Patient) => void;
+  onBack: () => void;
+}
+
+const ageRangeOptions = ['0-2 years', '3-5 years', '6-8 years', '9-12 years', '13-17 years', '18+ years'];
+const pronounOptions = ['he/him', 'she/her', 'they/them', 'other'];
+
+const severityBadgeColors: Record<string, string> = {
+  low: 'bg-mint text-mint-foreground',
+  mild: 'bg-bright-blue text-white',
+  moderate: 'bg-lavender text-lavender-foreground',
+  high: 'bg-destructive text-destructive-foreground',
+  'very-high': 'bg-destructive text-destructive-foreground',
+};
+
+const emptyPatientForm = {
+  patientCode: '',
+  fullName: '',
+  ageRange: '',
+  pronoun: '',
+  homeLanguage: '',
+  notes: '',
+};
+
+export default function PatientRoster({ user, onStartAssessment, onBack }: PatientRosterProps) {
+  const { loading, createPatient, archivePatient, restorePatient, searchPatients } = usePatients(user);
+  const [query, setQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [form, setForm] = useState(emptyPatientForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const { entries: history, loading: loadingHistory } = useAssessmentHistory(
+    user,
+    selectedPatient?.patient_code ?? null
+  );
+
+  const visiblePatients = searchPatients(query, showArchived);
+
+  const handleCreatePatient = async () => {
+    setSaving(true);
+    const result = await createPatient(form);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Could not add patient",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Patient Added",
+      description: `${form.fullName} was added to your roster`,
+    });
+    setSelectedPatient(result.patient || null);
+    setForm(emptyPatientForm);
+    setIsCreateOpen(false);
+  };
+
+  const handleToggleArchive = async (patient: Patient) => {
+    const result = patient.archived_at ? await restorePatient(patient.id) : await archivePatient(patient.id);
+    if (!result.success) {
+      toast({
+        title: "Update failed",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+    setSelectedPatient({ ...patient, archived_at: patient.archived_at ? null : new Date().toISOString() });
+  };
+
+  return (
+    <div className="min-h-screen p-4 pt-16">
+      <div className="max-w-6xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <Button onClick={() => setIsCreateOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Patient
+          </Button>
+        </div>
+
+        <div className="grid md:grid-cols-5 gap-6">
+          {/* Roster list */}
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Patient Roster
+              </CardTitle>
+              <CardDescription>Search by name or patient ID</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="relative">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search patients"
+                  className="pl-9"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+                <Label htmlFor="show-archived" className="text-sm text-muted-foreground">Show archived</Label>
+              </div>
+
+              <ScrollArea className="h-[420px] pr-2">
+                {loading ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">Loading patients...</p>
+                ) : visiblePatients.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    {query ? 'No patients match your search' : 'No patients yet. Add your first patient to get started.'}
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {visiblePatients.map((patient) => (
+                      <button
+                        key={patient.id}
+                        type="button"
+                        onClick={() => setSelectedPatient(patient)}
+                        className={`w-full text-left p-3 rounded-lg border transition-colors hover:bg-accent/50 ${
+                          selectedPatient?.id === patient.id ? 'border-primary bg-primary/5' : ''
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{patient.full_name}</span>
+                          {patient.archived_at && <Badge variant="outline" className="text-xs">Archived</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground font-mono">{patient.patient_code}</p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </CardContent>
+          </Card>
+
+          {/* Selected patient */}
+          <Card className="md:col-span-3">
+            {selectedPatient ? (
+              <>
+                <CardHeader>
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-2xl">{selectedPatient.full_name}</CardTitle>
+                      <CardDescription className="font-mono">{selectedPatient.patient_code}</CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleToggleArchive(selectedPatient)}>
+                        {selectedPatient.archived_at ? (
+                          <><ArchiveRestore className="w-4 h-4 mr-2" />Restore</>
+                        ) : (
+                          <><Archive className="w-4 h-4 mr-2" />Archive</>
+                        )}
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => onStartAssessment(selectedPatient)}
+                        disabled={!!selectedPatient.archived_at}
+                      >
+                        <ClipboardList className="w-4 h-4 mr-2" />
+                        Start Assessment
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">Age</p>
+                      <p className="font-medium">{selectedPatient.age_range || '—'}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Pronoun</p>
+                      <p className="font-medium">{selectedPatient.pronoun || '—'}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Home Language</p>
+                      <p className="font-medium">{selectedPatient.home_language || '—'}</p>
+                    </div>
+                  </div>
+                  {selectedPatient.notes && (
+                    <p className="text-sm bg-muted/50 rounded-lg p-3">{selectedPatient.notes}</p>
+                  )}
+
+                  <div className="space-y-3">
+                    <h3 className="font-semibold">Assessment History</h3>
+                    {loadingHistory ? (
+                      <p className="text-sm text-muted-foreground">Loading history...</p>
+                    ) : history.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No assessments recorded for this patient yet.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {history.map((entry) => (
+                          <div key={entry.id} className="flex items-center justify-between p-3 rounded-lg border">
+                            <div>
+                              <p className="font-medium">{new Date(entry.created_at).toLocaleDateString()}</p>
+                              <p className="text-xs text-muted-foreground">
+                                Questionnaire {entry.questionnaire_score}
+                                {entry.ml_score !== null && ` · Video ${entry.ml_score}`}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <span className="text-lg font-bold">{entry.fused_score}</span>
+                              <Badge className={severityBadgeColors[entry.severity] || ''}>{entry.severity}</Badge>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </>
+            ) : (
+              <CardContent className="flex flex-col items-center justify-center h-full min-h-[300px] text-center text-muted-foreground">
+                <Users className="w-12 h-12 mb-4" />
+                <p>Select a patient to view their details and assessment history</p>
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      {/* New patient dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Patient</DialogTitle>
+            <DialogDescription>Add a patient to your roster. The patient ID links all of their assessments.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="patient-name">Patient Name *</Label>
+              <Input
+                id="patient-name"
+                value={form.fullName}
+                onChange={(e) => setForm({ ...form, fullName: e.target.value })}
+                placeholder="Enter patient's name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="patient-code">Patient ID *</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="patient-code"
+                  value={form.patientCode}
+                  onChange={(e) => setForm({ ...form, patientCode: e.target.value.toUpperCase() })}
+                  placeholder="Enter or generate patient ID"
+                  className="font-mono"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setForm({ ...form, patientCode: generatePatientId('clinician') })}
+                  title="Generate new ID"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Age Range</Label>
+                <Select value={form.ageRange} onValueChange={(value) => setForm({ ...form, ageRange: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select age range" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ageRangeOptions.map(age => (
+                      <SelectItem key={age} value={age}>{age}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Pronoun</Label>
+                <Select value={form.pronoun} onValueChange={(value) => setForm({ ...form, pronoun: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select pronoun" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pronounOptions.map(p => (
+                      <SelectItem key={p} value={p}>{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="patient-language">Home Language</Label>
+              <Input
+                id="patient-language"
+                value={form.homeLanguage}
+                onChange={(e) => setForm({ ...form, homeLanguage: e.target.value })}
+                placeholder="Primary language at home"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="patient-notes">Notes</Label>
+              <Input
+                id="patient-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                placeholder="Referral reason, contact details, etc."
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={handleCreatePatient}
+              disabled={saving || !form.fullName.trim() || !form.patientCode.trim()}
+            >
+              {saving ? 'Saving...' : 'Add Patient'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { PICTURE_CARDS } from '@/data/pictureCards';
+import { PicturePhoto } from '@/hooks/usePictureCards';
+import { cn } from '@/lib/utils';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface PictureCardPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  taskTitle: string;
+  selectedRef: string;
+  photos: PicturePhoto[];
+  onSelect: (cardRef: string) => void;
+  onUpload: (file: File, label: string) => Promise<ActionResult & { photo?: PicturePhoto }>;
+  onDeletePhoto: (photoId: string) => Promise<ActionResult>;
+}
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5MB
+
+export default function PictureCardPicker({
+  open,
+  onOpenChange,
+  taskTitle,
+  selectedRef,
+  photos,
+  onSelect,
+  onUpload,
+  onDeletePhoto,
+}: PictureCardPickerProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [label, setLabel] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  const tileClass = (ref: string) => cn(
+    'flex flex-col items-center gap-1 rounded-xl border-2 p-2 min-h-[7rem] hover:bg-accent/30 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+    ref === selectedRef ? 'border-primary bg-primary/10' : 'border-transparent'
+  );
+
+  const handleUpload = async () => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast({ title: 'Invalid file type', description: 'Please choose a photo.', variant: 'destructive' });
+      return;
+    }
+    if (file.size > MAX_PHOTO_SIZE) {
+      toast({ title: 'Photo too large', description: 'Please choose a photo under 5MB.', variant: 'destructive' });
+      return;
+    }
+
+    setUploading(true);
+    const result = await onUpload(file, label.trim() || taskTitle);
+    setUploading(false);
+
+    if (!result.success) {
+      toast({ title: 'Upload failed', description: result.error, variant: 'destructive' });
+      return;
+    }
+    setFile(null);
+    setLabel('');
+    onSelect(`photo:${result.photo.id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Choose a picture</DialogTitle>
+          <DialogDescription>For "{taskTitle}". The picture is used for this routine every day.</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue={selectedRef.startsWith('photo:') ? 'photos' : 'pictures'}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="pictures">Pictures</TabsTrigger>
+            <TabsTrigger value="photos">Photos</TabsTrigger>
+          </TabsList>
+          <TabsContent value="pictures">
+            <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+              {PICTURE_CARDS.map((card) => (
+                <button
+                  key={card.id}
+                  type="button"
+                  className={tileClass(`icon:${card.id}`)}
+                  onClick={() => onSelect(`icon:${card.id}`)}
+                  aria-pressed={selectedRef === `icon:${card.id}`}
+                >
+                  <img src={card.src} alt="" className="w-16 h-16" />
+                  <span className="text-xs font-medium text-center">{card.label}</span>
+                </button>
+              ))}
+            </div>
+          </TabsContent>
+          <TabsContent value="photos" className="space-y-4">
+            {photos.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No photos yet. A photo of the real toothbrush, plate or bed is often easier to recognise than a drawing.
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {photos.map((photo) => (
+                  <div key={photo.id} className="relative">
+                    <button
+                      type="button"
+                      className={cn(tileClass(`photo:${photo.id}`), 'w-full')}
+                      onClick={() => onSelect(`photo:${photo.id}`)}
+                      aria-pressed={selectedRef === `photo:${photo.id}`}
+                    >
+                      <img src={photo.url} alt="" className="w-20 h-20 object-cover rounded-lg" />
+                      <span className="text-xs font-medium text-center">{photo.label}</span>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="absolute top-1 right-1 h-7 w-7"
+                      onClick={async () => {
+                        const result = await onDeletePhoto(photo.id);
+                        if (!result.success) {
+                          toast({ title: 'Could not delete photo', description: result.error, variant: 'destructive' });
+                        }
+                      }}
+                      aria-label={`Delete photo ${photo.label}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="cardPhoto">Upload a photo</Label>
+                <Input
+                  id="cardPhoto"
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cardPhotoLabel">Label</Label>
+                <Input
+                  id="cardPhotoLabel"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder={taskTitle}
+                />
+              </div>
+              <Button onClick={handleUpload} disabled={!file || uploading}>
+                <Upload className="w-4 h-4 mr-2" />
+                {uploading ? 'Uploading...' : 'Upload and Use'}
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
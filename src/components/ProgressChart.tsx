@@ -3,10 +3,21 @@ import { Badge } from '@/components/ui/badge';
 import { ProgressEntry } from '@/hooks/useProgressTracking';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import { ProgressShare } from './ProgressShare';
+import DomainRadarChart from './DomainRadarChart';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { DOMAIN_LABELS, TRACKED_DOMAINS } from '@/utils/scoring';
+import { TrendAnalysis } from '@/utils/trendAnalysis';
+
+const domainColors: Record<string, string> = {
+  'social-communication': 'hsl(var(--bright-blue))',
+  'repetitive-sensory': 'hsl(var(--lavender))',
+  'developmental': 'hsl(var(--coral))',
+};
 
 interface ProgressChartProps {
   history: ProgressEntry[];
-  trend: 'improving' | 'declining' | 'stable';
+  trend: TrendAnalysis;
 }
 
 export default function ProgressChart({ history, trend }: ProgressChartProps) {
@@ -30,12 +41,23 @@ export default function ProgressChart({ history, trend }: ProgressChartProps) {
   const minScore = Math.min(...history.map(e => e.score));
   const avgScore = Math.round(history.reduce((acc, e) => acc + e.score, 0) / history.length);
 
+  // Entries saved before subscores existed have no domain breakdown
+  const domainHistory = history.filter((e) => e.domainScores);
+  const latestDomains = domainHistory[domainHistory.length - 1]?.domainScores;
+  const previousDomains = domainHistory[domainHistory.length - 2]?.domainScores;
+  const trendDomains = TRACKED_DOMAINS.filter((domain) => domainHistory.some((e) => e.domainScores?.[domain]));
+  const domainTrendData = domainHistory.map((e) => ({
+    date: e.date,
+    ...Object.fromEntries(trendDomains.map((domain) => [domain, e.domainScores?.[domain]?.normalized])),
+  }));
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'low': return 'bg-mint text-mint-foreground';
       case 'mild': return 'bg-bright-blue text-bright-blue-foreground';
       case 'moderate': return 'bg-lavender text-lavender-foreground';
       case 'high': return 'bg-coral text-coral-foreground';
+      case 'very-high': return 'bg-destructive text-destructive-foreground';
       default: return 'bg-muted';
     }
   };
@@ -64,46 +86,111 @@ export default function ProgressChart({ history, trend }: ProgressChartProps) {
         </Card>
       </div>
 
-      {/* Trend Indicator */}
+      {/* Trend Verdict */}
       <Card className={`border-2 ${
-        trend === 'improving' ? 'border-mint bg-mint/5' :
-        trend === 'declining' ? 'border-coral bg-coral/5' :
+        trend.verdict === 'improving' ? 'border-mint bg-mint/5' :
+        trend.verdict === 'worsening' ? 'border-coral bg-coral/5' :
         'border-bright-blue bg-bright-blue/5'
       }`}>
         <CardHeader>
           <CardTitle className="flex items-center justify-between text-base">
             <div className="flex items-center gap-2">
-              {trend === 'improving' && (
+              {trend.verdict === 'improving' && (
                 <>
-                  <TrendingUp className="w-5 h-5 text-mint" />
-                  <span>Improving Trend</span>
+                  <TrendingDown className="w-5 h-5 text-mint" />
+                  <span>Improving</span>
                 </>
               )}
-              {trend === 'declining' && (
+              {trend.verdict === 'worsening' && (
                 <>
-                  <TrendingDown className="w-5 h-5 text-coral" />
+                  <TrendingUp className="w-5 h-5 text-coral" />
                   <span>Needs Attention</span>
                 </>
               )}
-              {trend === 'stable' && (
+              {(trend.verdict === 'no-reliable-change' || trend.verdict === 'insufficient-data') && (
                 <>
                   <Minus className="w-5 h-5 text-bright-blue" />
-                  <span>Stable Progress</span>
+                  <span>{trend.verdict === 'no-reliable-change' ? 'No Reliable Change' : 'Not Enough Data Yet'}</span>
                 </>
               )}
+              {trend.verdict !== 'insufficient-data' && (
+                <Badge variant="outline" className="capitalize">{trend.confidence} confidence</Badge>
+              )}
             </div>
-            <ProgressShare />
+            <ProgressShare history={history} trend={trend.verdict} />
           </CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-2">
+          <p className="text-sm">{trend.explanation}</p>
+          {trend.verdict !== 'insufficient-data' && (
+            <p className="text-xs text-muted-foreground">
+              Trend {trend.slopePerMonth > 0 ? '+' : ''}{trend.slopePerMonth} points per month ·
+              reliable change needs at least {trend.threshold} points ·
+              {' '}{Math.round(trend.probability * 100)}% likely to be more than measurement error
+            </p>
+          )}
           <p className="text-sm text-muted-foreground">
-            {trend === 'improving' && 'Great progress! Keep up the positive momentum.'}
-            {trend === 'declining' && 'Consider connecting with support resources.'}
-            {trend === 'stable' && 'Maintaining steady progress. Continue your routine.'}
+            {trend.verdict === 'improving' && 'Great progress! Keep up the positive momentum.'}
+            {trend.verdict === 'worsening' && 'Consider connecting with support resources or your clinician.'}
+            {trend.verdict === 'no-reliable-change' && 'Keep up your routine and reassess regularly to see how things develop.'}
           </p>
         </CardContent>
       </Card>
 
+      {/* Domain Breakdown */}
+      {latestDomains && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Domain Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DomainRadarChart domainScores={latestDomains} previousDomainScores={previousDomains} />
+          </CardContent>
+        </Card>
+      )}
+
+      {domainTrendData.length >= 2 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Domain Trends</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer
+              config={Object.fromEntries(trendDomains.map((domain) => [
+                domain,
+                { label: DOMAIN_LABELS[domain], color: domainColors[domain] },
+              ]))}
+              className="h-[240px]"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={domainTrendData} margin={{ top: 10, right: 10, bottom: 0, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                  <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Legend />
+                  {trendDomains.map((domain) => (
+                    <Line
+                      key={domain}
+                      type="monotone"
+                      dataKey={domain}
+                      name={DOMAIN_LABELS[domain]}
+                      stroke={domainColors[domain]}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+            <p className="text-xs text-muted-foreground mt-2">
+              Lower domain scores mean fewer concerns were reported in that area.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* History Cards */}
       <Card>
         <CardHeader>
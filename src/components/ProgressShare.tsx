@@ -1,19 +1,22 @@
 import { SocialShare } from "./SocialShare";
-import { useProgressTracking } from "@/hooks/useProgressTracking";
+import { ProgressEntry } from "@/hooks/useProgressTracking";
+import { TrendVerdict } from "@/utils/trendAnalysis";
 
-export function ProgressShare() {
-  const { history, getTrend } = useProgressTracking();
+interface ProgressShareProps {
+  history: ProgressEntry[];
+  trend: TrendVerdict;
+}
 
+export function ProgressShare({ history, trend }: ProgressShareProps) {
   if (history.length === 0) return null;
 
   const recentProgress = history.slice(-5);
-  const trend = getTrend();
 
   return (
     <SocialShare 
       type="progress"
       data={{
-        title: `My Progress Journey - ${trend === 'improving' ? 'Improving' : trend === 'declining' ? 'Working on it' : 'Staying steady'}`,
+        title: `My Progress Journey - ${trend === 'improving' ? 'Improving' : trend === 'worsening' ? 'Working on it' : 'Staying steady'}`,
         content: { 
           entries: recentProgress,
           trend,
@@ -0,0 +1,86 @@
+import { BellRing, Smartphone, Trash2 } from "lucide-react";
+import { User } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { usePushNotifications } from "@/hooks/usePushNotifications";
+
+interface PushNotificationSettingsProps {
+  user: User | null;
+}
+
+export const PushNotificationSettings = ({ user }: PushNotificationSettingsProps) => {
+  const { supported, permission, devices, currentDevice, loading, subscribe, removeDevice } =
+    usePushNotifications(user);
+
+  const handleToggle = async (enabled: boolean) => {
+    const result = enabled ? await subscribe() : await removeDevice(currentDevice!.id);
+    if (!result.success) {
+      toast.error("Could not update notifications", { description: result.error });
+    } else if (enabled) {
+      toast.success("Lock-screen notifications turned on for this device");
+    }
+  };
+
+  const handleRemove = async (deviceId: string) => {
+    const result = await removeDevice(deviceId);
+    if (!result.success) {
+      toast.error("Could not remove device", { description: result.error });
+    }
+  };
+
+  const otherDevices = devices.filter((d) => d.id !== currentDevice?.id);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <BellRing className="h-4 w-4 mt-1 text-primary" />
+          <div>
+            <Label htmlFor="push-this-device" className="font-medium">Lock-screen notifications on this device</Label>
+            <p className="text-sm text-muted-foreground">
+              {!supported
+                ? "Not available in this browser. On iPhone, add AutiCare to your Home Screen first."
+                : permission === "denied"
+                ? "Notifications are blocked. Allow them in your browser settings to turn this on."
+                : "Reminders arrive even when AutiCare isn't open."}
+            </p>
+          </div>
+        </div>
+        <Switch
+          id="push-this-device"
+          checked={!!currentDevice}
+          disabled={!user || !supported || loading || (permission === "denied" && !currentDevice)}
+          onCheckedChange={handleToggle}
+        />
+      </div>
+      {otherDevices.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Other devices</p>
+          {otherDevices.map((device) => (
+            <div key={device.id} className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2">
+                <Smartphone className="h-4 w-4 text-muted-foreground" />
+                {device.label}
+                {device.lastUsedAt && (
+                  <span className="text-xs text-muted-foreground">
+                    · last notified {new Date(device.lastUsedAt).toLocaleDateString()}
+                  </span>
+                )}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(device.id)}
+                aria-label={`Stop notifications on ${device.label}`}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
@@ -8,19 +8,49 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Volume2, ArrowLeft, ArrowRight, Upload } from 'lucide-react';
-import { Question, ParentMetadata } from '@/data/questionBanks';
-import { AnswerValue } from '@/utils/scoring';
+import { ClinicianInput, EMPTY_CLINICIAN_INPUT, ParentMetadata } from '@/data/questionBanks';
+import { Instrument, getInstrument } from '@/data/instrumentRegistry';
+import { AnswerValue, VideoPrediction, validateClinicalObservation } from '@/utils/scoring';
+import { extractFrameSamples } from '@/utils/videoFrames';
+import { VideoJobInput, getVideoJobPrediction, queueVideoJob } from '@/utils/videoJobs';
+import { VideoFrameSample, VideoPreprocessing, VideoRecording, parseVideoPrediction } from '@shared/videoPrediction';
+import { MAX_SOURCE_BYTES, MAX_UPLOAD_BYTES } from '@/utils/videoPreprocessing';
+import { RecordedSegment, extractRecordingFrames, uploadGuidedRecording } from '@/utils/guidedRecording';
+import { GUIDED_RECORDING_PROTOCOL } from '@/data/recordingProtocol';
+import {
+  INTRO_STEP_ID,
+  buildFlow,
+  collectAnswers,
+  getNextStepId,
+  getPreviousStepId,
+  isStepAnswered,
+} from '@/utils/questionFlow';
+import InstrumentPicker from './InstrumentPicker';
+import ClinicianObservationStep from './ClinicianObservationStep';
+import VideoCapture from './VideoCapture';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { QuestionnaireDraft } from '@/hooks/useAssessmentDraft';
+import { useVideoJob } from '@/hooks/useVideoJob';
+
+// Answers outside the weighted AutiCare score: validated instruments and
+// unscored follow-up details, kept apart from the native answers
+export interface SupplementaryAnswers {
+  instrumentIds: string[];
+  answers: Record<string, string>;
+}
 
 interface QuestionnaireProps {
   role: 'individual' | 'parent' | 'clinician';
-  questions: Question[];
-  onComplete: (answers: Record<string, AnswerValue>, metadata?: any) => void;
+  instrument: Instrument;
+  onComplete: (answers: Record<string, AnswerValue>, metadata?: any, supplementary?: SupplementaryAnswers) => void;
   onBack: () => void;
   preFilledAnswers?: Record<string, AnswerValue>;
   patientId?: string;
   existingChildData?: ParentMetadata;
+  // Saved progress to resume from, and a callback fired whenever progress changes
+  initialDraft?: QuestionnaireDraft | null;
+  onDraftChange?: (draft: QuestionnaireDraft) => void;
 }
 
 interface ClinicianMetadata {
@@ -31,14 +61,6 @@ interface ClinicianMetadata {
   problemsFaced: string;
 }
 
-const answerOptions: { value: AnswerValue; label: string }[] = [
-  { value: 'never', label: 'Never' },
-  { value: 'rarely', label: 'Rarely' },
-  { value: 'sometimes', label: 'Sometimes' },
-  { value: 'often', label: 'Often' },
-  { value: 'always', label: 'Always' },
-];
-
 // Dropdown options for Parent Step0
 const ageRangeOptions = ['0-2 years', '3-5 years', '6-8 years', '9-12 years', '13-17 years', '18+ years'];
 const genderOptions = ['Male', 'Female', 'Other', 'Prefer not to say'];
@@ -47,35 +69,50 @@ const locationOptions = ['Urban', 'Suburban', 'Rural'];
 const schoolTypeOptions = ['Mainstream', 'Mainstream with Support', 'Special Education', 'Home Schooled', 'Not in School'];
 const conditionOptions = ['ADHD', 'Anxiety', 'Speech delay', 'Sensory Processing', 'Learning Disability', 'Other developmental conditions'];
 
+const draftString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// A saved prediction that no longer meets the contract is dropped, not restored
+function draftPrediction(value: unknown): VideoPrediction | null {
+  if (!value) return null;
+  try {
+    return parseVideoPrediction(value);
+  } catch {
+    return null;
+  }
+}
+
 export default function Questionnaire({ 
   role, 
-  questions, 
+  instrument, 
   onComplete, 
   onBack,
   preFilledAnswers = {},
   patientId,
-  existingChildData
+  existingChildData,
+  initialDraft,
+  onDraftChange
 }: QuestionnaireProps) {
-  // For individual role, include video upload as extra step (16th question)
+  // For individual role, include video upload as extra step after the questions
   const hasVideoStep = role === 'individual';
-  const hasMetadataStep = role !== 'individual';
-  
-  // Calculate total steps
-  const totalSteps = hasMetadataStep 
-    ? questions.length + 1 
-    : hasVideoStep 
-      ? questions.length + 1 
-      : questions.length;
-
-  const [currentStep, setCurrentStep] = useState(hasMetadataStep ? 0 : 1);
-  const [answers, setAnswers] = useState<Record<string, AnswerValue>>(preFilledAnswers);
+  const hasObservationStep = role === 'clinician';
+
+  // Every role starts on the intro step: background information and optional validated instruments
+  const [currentStepId, setCurrentStepId] = useState(initialDraft?.currentStepId || INTRO_STEP_ID);
+  // Native, validated and follow-up answers, keyed by question id
+  const [answers, setAnswers] = useState<Record<string, string>>({ ...preFilledAnswers, ...initialDraft?.answers });
+  const [selectedInstrumentIds, setSelectedInstrumentIds] = useState<string[]>(initialDraft?.selectedInstrumentIds || []);
+  // The draft's metadata comes back as stored JSON; the individual's fields are checked one by one
+  const individualDraft = role === 'individual' ? initialDraft?.metadata : undefined;
+  const [individualAge, setIndividualAge] = useState<string>(draftString(individualDraft?.ageRange) || '');
   const [ttsEnabled, setTtsEnabled] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [predictingVideo, setPredictingVideo] = useState(false);
+  const [pendingVideoFile, setPendingVideoFile] = useState<File | null>(null);
+  const [guidedRecording, setGuidedRecording] = useState(false);
   const { toast } = useToast();
   
   // Parent metadata state with dropdown-friendly values
-  const [metadata, setMetadata] = useState<ParentMetadata & { videoUrl?: string; videoPrediction?: any; gender?: string; location?: string }>({
+  const [metadata, setMetadata] = useState<ParentMetadata & { videoUrl?: string; videoPrediction?: VideoPrediction | null; videoJobId?: string; videoPreprocessing?: VideoPreprocessing; videoRecording?: VideoRecording; gender?: string; location?: string }>({
     childName: existingChildData?.childName || '',
     childAge: existingChildData?.childAge || '',
     pronouns: existingChildData?.pronouns || '',
@@ -86,29 +123,66 @@ export default function Questionnaire({
     videoPrediction: null,
     gender: '',
     location: '',
+    ...(role === 'parent' ? initialDraft?.metadata : {}),
   });
 
   // Clinician metadata state
-  const [clinicianMetadata, setClinicianMetadata] = useState<ClinicianMetadata & { videoUrl?: string; videoPrediction?: any }>({
-    childName: '',
-    childAge: '',
-    pronoun: '',
-    homeLanguage: '',
+  const [clinicianMetadata, setClinicianMetadata] = useState<ClinicianMetadata & { videoUrl?: string; videoPrediction?: VideoPrediction | null; videoJobId?: string; videoPreprocessing?: VideoPreprocessing; videoRecording?: VideoRecording; clinicianInput: ClinicianInput }>({
+    childName: role === 'clinician' ? existingChildData?.childName || '' : '',
+    childAge: role === 'clinician' ? existingChildData?.childAge || '' : '',
+    pronoun: role === 'clinician' ? existingChildData?.pronouns || '' : '',
+    homeLanguage: role === 'clinician' ? existingChildData?.homeLanguage || '' : '',
     problemsFaced: '',
     videoUrl: '',
     videoPrediction: null,
+    clinicianInput: EMPTY_CLINICIAN_INPUT,
+    ...(role === 'clinician' ? initialDraft?.metadata : {}),
   });
 
   // Individual video state
-  const [individualVideo, setIndividualVideo] = useState<{ videoUrl?: string; videoPrediction?: any }>({
-    videoUrl: '',
-    videoPrediction: null,
+  const [individualVideo, setIndividualVideo] = useState<{ videoUrl?: string; videoPrediction?: VideoPrediction | null; videoJobId?: string; videoPreprocessing?: VideoPreprocessing; videoRecording?: VideoRecording }>({
+    videoUrl: draftString(individualDraft?.videoUrl) || '',
+    videoPrediction: draftPrediction(individualDraft?.videoPrediction),
+    videoJobId: draftString(individualDraft?.videoJobId),
   });
 
-  // Initialize with pre-filled answers if coming from Excel upload
+  const activeVideoJobId = role === 'parent'
+    ? metadata.videoJobId
+    : role === 'clinician' ? clinicianMetadata.videoJobId : individualVideo.videoJobId;
+  const { job: videoJob } = useVideoJob(activeVideoJobId);
+
+  // A prediction that lands before the questionnaire is finished is fused straight away;
+  // otherwise the saved assessment is updated server-side when it does. useVideoJob
+  // stops polling once the job settles, so this runs once per finished job.
+  useEffect(() => {
+    if (!videoJob || videoJob.status === 'queued' || videoJob.status === 'processing') return;
+    const prediction = getVideoJobPrediction(videoJob);
+    if (!prediction) {
+      toast({
+        title: "Analysis Warning",
+        description: "Video uploaded but ML analysis unavailable. Continuing with questionnaire only.",
+        variant: "default",
+      });
+      return;
+    }
+    if (role === 'parent') {
+      setMetadata(prev => ({ ...prev, videoPrediction: prediction }));
+    } else if (role === 'clinician') {
+      setClinicianMetadata(prev => ({ ...prev, videoPrediction: prediction }));
+    } else if (role === 'individual') {
+      setIndividualVideo(prev => ({ ...prev, videoPrediction: prediction }));
+    }
+    toast({
+      title: "Video Analyzed",
+      description: "ML model prediction completed successfully!",
+    });
+  }, [videoJob, role, toast]);
+
+  // Initialize with pre-filled answers if coming from Excel upload; answers
+  // from a resumed draft take precedence over the imported ones
   useEffect(() => {
     if (Object.keys(preFilledAnswers).length > 0) {
-      setAnswers(preFilledAnswers);
+      setAnswers(prev => ({ ...preFilledAnswers, ...prev }));
       toast({
         title: "Data Imported",
         description: `${Object.keys(preFilledAnswers).length} questions auto-filled from Excel data`,
@@ -131,27 +205,116 @@ export default function Questionnaire({
     }
   }, [existingChildData]);
 
-  const progress = (currentStep / totalSteps) * 100;
-  
-  // Calculate current question index based on role and step
-  const getCurrentQuestionIndex = () => {
-    if (hasMetadataStep) {
-      return currentStep - 1;
+  const ageRange = role === 'parent'
+    ? metadata.childAge
+    : role === 'clinician'
+      ? clinicianMetadata.childAge
+      : individualAge;
+
+  // Steps are rebuilt from the answers so far: skip rules, age gating and follow-ups come from the instruments
+  const flow = useMemo(() => buildFlow({
+    instrument,
+    additionalInstruments: selectedInstrumentIds.map((id) => getInstrument(id)).filter((i): i is Instrument => !!i),
+    answers,
+    ageRange,
+    includeObservation: hasObservationStep,
+    includeVideo: hasVideoStep,
+  }), [instrument, selectedInstrumentIds, answers, ageRange, hasObservationStep, hasVideoStep]);
+
+  const currentStep = flow.find((step) => step.id === currentStepId) || flow[0];
+  const stepIndex = flow.indexOf(currentStep);
+  const totalSteps = flow.length - 1;
+  const progress = (stepIndex / totalSteps) * 100;
+  const isLastStep = stepIndex === totalSteps;
+
+  const currentQuestion = currentStep.kind === 'question' ? currentStep.question : undefined;
+  const isVideoStep = currentStep.kind === 'video';
+
+  // Report progress for save-and-resume; skip the first render so opening the form doesn't create a draft
+  const hasRendered = useRef(false);
+  // The parent passes a new callback on every render; only changes to the answers should report
+  const onDraftChangeRef = useRef(onDraftChange);
+  onDraftChangeRef.current = onDraftChange;
+  useEffect(() => {
+    if (!hasRendered.current) {
+      hasRendered.current = true;
+      return;
+    }
+    const onDraftChange = onDraftChangeRef.current;
+    if (!onDraftChange) return;
+    const roleMetadata = role === 'parent'
+      ? metadata
+      : role === 'clinician'
+        ? clinicianMetadata
+        : { ageRange: individualAge, ...individualVideo };
+    onDraftChange({
+      currentStepId: currentStep.id,
+      answers,
+      selectedInstrumentIds,
+      metadata: { ...roleMetadata },
+      videoUrl: roleMetadata.videoUrl || null,
+    });
+  }, [currentStep.id, answers, selectedInstrumentIds, metadata, clinicianMetadata, individualAge, individualVideo, role]);
+
+  // Queues the analysis; the questionnaire carries on while it runs
+  const queueVideoAnalysis = async (
+    userId: string,
+    videoUrl: string,
+    sampleFrames: () => Promise<VideoFrameSample[]>,
+    input: Omit<VideoJobInput, 'frames'>
+  ) => {
+    setPredictingVideo(true);
+    try {
+      let frames: VideoFrameSample[] | undefined;
+      try {
+        frames = await sampleFrames();
+      } catch (frameError) {
+        // A remote model can still analyse the uploaded video itself
+        console.error('Error sampling video frames:', frameError);
+      }
+
+      const job = await queueVideoJob(userId, videoUrl, { ...input, frames });
+      if (role === 'parent') {
+        setMetadata(prev => ({ ...prev, videoJobId: job.id, videoPrediction: null }));
+      } else if (role === 'clinician') {
+        setClinicianMetadata(prev => ({ ...prev, videoJobId: job.id, videoPrediction: null }));
+      } else if (role === 'individual') {
+        setIndividualVideo(prev => ({ ...prev, videoJobId: job.id, videoPrediction: null }));
+      }
+    } catch (queueError) {
+      console.error('Error queueing video analysis:', queueError);
+      toast({
+        title: "Analysis Warning",
+        description: "Video uploaded but ML analysis unavailable. Continuing with questionnaire only.",
+        variant: "default",
+      });
+    } finally {
+      setPredictingVideo(false);
     }
-    return currentStep - 1;
   };
-  
-  const currentQuestionIndex = getCurrentQuestionIndex();
-  const currentQuestion = questions[currentQuestionIndex];
-  
-  // Check if we're on the video step (for individual role)
-  const isVideoStep = hasVideoStep && currentStep === questions.length + 1;
 
-  const handleVideoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleVideoSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
-    if (file.size > 20 * 1024 * 1024) {
+    if (file.size > MAX_SOURCE_BYTES) {
+      toast({
+        title: "File too large",
+        description: "Video must be under 500MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Trimmed, downscaled and blurred in the browser before anything is uploaded
+    setPendingVideoFile(file);
+  };
+
+  const handleVideoUpload = async (file: File, preprocessing: VideoPreprocessing | null) => {
+    setPendingVideoFile(null);
+
+    if (file.size > MAX_UPLOAD_BYTES) {
       toast({
         title: "File too large",
         description: "Video must be under 20MB",
@@ -175,9 +338,10 @@ export default function Questionnaire({
     const fileExt = file.name.split('.').pop();
     const filePath = `${user.id}/${Date.now()}.${fileExt}`;
 
+    // What was done to the video travels with it, for the predictor and reviewers
     const { error: uploadError } = await supabase.storage
       .from('assessment-videos')
-      .upload(filePath, file);
+      .upload(filePath, file, { contentType: file.type, metadata: preprocessing ? { preprocessing } : undefined });
 
     if (uploadError) {
       toast({
@@ -190,12 +354,13 @@ export default function Questionnaire({
         .from('assessment-videos')
         .getPublicUrl(filePath);
       
+      const videoPreprocessing = preprocessing || undefined;
       if (role === 'parent') {
-        setMetadata({ ...metadata, videoUrl: publicUrl });
+        setMetadata(prev => ({ ...prev, videoUrl: publicUrl, videoPreprocessing, videoRecording: undefined }));
       } else if (role === 'clinician') {
-        setClinicianMetadata({ ...clinicianMetadata, videoUrl: publicUrl });
+        setClinicianMetadata(prev => ({ ...prev, videoUrl: publicUrl, videoPreprocessing, videoRecording: undefined }));
       } else if (role === 'individual') {
-        setIndividualVideo({ ...individualVideo, videoUrl: publicUrl });
+        setIndividualVideo(prev => ({ ...prev, videoUrl: publicUrl, videoPreprocessing, videoRecording: undefined }));
       }
       
       toast({
@@ -203,49 +368,77 @@ export default function Questionnaire({
         description: "Video uploaded successfully",
       });
 
-      // Get prediction from ML model
-      setPredictingVideo(true);
-      try {
-        const { data: predictionData, error: predictionError } = await supabase.functions.invoke('predict-video', {
-          body: { videoUrl: publicUrl }
-        });
-
-        if (predictionError) {
-          console.error('Prediction error:', predictionError);
-          toast({
-            title: "Analysis Warning",
-            description: "Video uploaded but ML analysis unavailable. Continuing with questionnaire only.",
-            variant: "default",
-          });
-        } else if (predictionData) {
-          if (role === 'parent') {
-            setMetadata(prev => ({ ...prev, videoPrediction: predictionData }));
-          } else if (role === 'clinician') {
-            setClinicianMetadata(prev => ({ ...prev, videoPrediction: predictionData }));
-          } else if (role === 'individual') {
-            setIndividualVideo(prev => ({ ...prev, videoPrediction: predictionData }));
-          }
-          toast({
-            title: "Video Analyzed",
-            description: "ML model prediction completed successfully!",
-          });
-        }
-      } catch (predError) {
-        console.error('Prediction error:', predError);
-      } finally {
-        setPredictingVideo(false);
-      }
+      await queueVideoAnalysis(user.id, publicUrl, () => extractFrameSamples(file), { preprocessing: videoPreprocessing });
+    }
+
+    setUploading(false);
+  };
+
+  const handleGuidedRecording = async (segments: RecordedSegment[]) => {
+    setGuidedRecording(false);
+    setUploading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "You must be logged in to upload videos",
+        variant: "destructive",
+      });
+      setUploading(false);
+      return;
+    }
+
+    let recording: VideoRecording;
+    try {
+      recording = await uploadGuidedRecording(user.id, GUIDED_RECORDING_PROTOCOL, segments);
+    } catch (uploadError) {
+      console.error('Error uploading guided recording:', uploadError);
+      toast({
+        title: "Upload failed",
+        description: uploadError instanceof Error ? uploadError.message : 'The recording could not be uploaded',
+        variant: "destructive",
+      });
+      setUploading(false);
+      return;
+    }
+
+    const videoUrl = recording.segments[0].video_url;
+    if (role === 'parent') {
+      setMetadata(prev => ({ ...prev, videoUrl, videoRecording: recording, videoPreprocessing: undefined }));
+    } else if (role === 'clinician') {
+      setClinicianMetadata(prev => ({ ...prev, videoUrl, videoRecording: recording, videoPreprocessing: undefined }));
+    } else if (role === 'individual') {
+      setIndividualVideo(prev => ({ ...prev, videoUrl, videoRecording: recording, videoPreprocessing: undefined }));
     }
+    toast({
+      title: "Success",
+      description: `Recording uploaded (${recording.segments.length} segments)`,
+    });
 
+    await queueVideoAnalysis(user.id, videoUrl, () => extractRecordingFrames(segments), { recording });
     setUploading(false);
   };
 
-  const handleAnswer = (questionId: string, value: AnswerValue) => {
+  // Shared by the parent, clinician and individual video fields
+  const videoCaptureProps = {
+    job: videoJob,
+    uploading,
+    predicting: predictingVideo,
+    pendingFile: pendingVideoFile,
+    recording: guidedRecording,
+    onFileSelected: handleVideoSelected,
+    onCancelFile: () => setPendingVideoFile(null),
+    onPreprocessed: handleVideoUpload,
+    onRecordingChange: setGuidedRecording,
+    onRecorded: handleGuidedRecording,
+  };
+
+  const handleAnswer = (questionId: string, value: string) => {
     setAnswers((prev) => ({ ...prev, [questionId]: value }));
   };
 
   const handleNext = () => {
-    if (currentStep === totalSteps) {
+    if (isLastStep) {
       // Complete the questionnaire
       let metadataToSend;
       if (role === 'parent') {
@@ -253,23 +446,31 @@ export default function Questionnaire({
       } else if (role === 'clinician') {
         metadataToSend = clinicianMetadata;
       } else if (role === 'individual') {
-        metadataToSend = individualVideo.videoPrediction ? { videoPrediction: individualVideo.videoPrediction, videoUrl: individualVideo.videoUrl } : undefined;
+        metadataToSend = individualVideo.videoJobId ? { ...individualVideo } : undefined;
       }
-      onComplete(answers, metadataToSend);
+      // Only answers for steps still in the flow are sent; skipped items are dropped
+      const { native, supplementary } = collectAnswers(flow, answers);
+      const hasSupplementary = selectedInstrumentIds.length > 0 || Object.keys(supplementary).length > 0;
+      onComplete(
+        native as Record<string, AnswerValue>,
+        metadataToSend,
+        hasSupplementary ? { instrumentIds: selectedInstrumentIds, answers: supplementary } : undefined
+      );
     } else {
-      setCurrentStep((prev) => prev + 1);
-      if (ttsEnabled && !isVideoStep && currentQuestion) {
-        const nextQuestion = questions[currentQuestionIndex + 1];
-        if (nextQuestion) {
-          speakQuestion(nextQuestion.text);
-        }
+      const nextStepId = getNextStepId(flow, currentStep.id);
+      if (!nextStepId) return;
+      setCurrentStepId(nextStepId);
+      const nextStep = flow.find((step) => step.id === nextStepId);
+      if (ttsEnabled && nextStep?.kind === 'question') {
+        speakQuestion(nextStep.question.text);
       }
     }
   };
 
   const handlePrevious = () => {
-    if (currentStep > (hasMetadataStep ? 0 : 1)) {
-      setCurrentStep((prev) => prev - 1);
+    const previousStepId = getPreviousStepId(flow, currentStep.id);
+    if (previousStepId) {
+      setCurrentStepId(previousStepId);
     } else {
       onBack();
     }
@@ -290,7 +491,7 @@ export default function Questionnaire({
   };
 
   const canProceed = () => {
-    if (currentStep === 0) {
+    if (currentStep.kind === 'intro') {
       if (role === 'parent') {
         return metadata.childName && metadata.childAge;
       }
@@ -299,19 +500,16 @@ export default function Questionnaire({
                clinicianMetadata.pronoun && clinicianMetadata.homeLanguage && 
                clinicianMetadata.problemsFaced;
       }
-    }
-    
-    // Video step (individual role) - optional
-    if (isVideoStep) {
       return true;
     }
-    
-    // Question steps
-    if (currentStep > 0 && currentQuestionIndex < questions.length && currentQuestion) {
-      return answers[currentQuestion.id] !== undefined;
+
+    // Observation scores are optional, but those given must be in range
+    if (currentStep.kind === 'observation') {
+      return Object.keys(validateClinicalObservation(clinicianMetadata.clinicianInput)).length === 0;
     }
     
-    return true;
+    // Question steps need an answer; the video step is optional
+    return isStepAnswered(currentStep, answers);
   };
 
   return (
@@ -343,7 +541,7 @@ export default function Questionnaire({
           
           <div className="space-y-2">
             <div className="flex justify-between text-sm text-muted-foreground">
-              <span>Step {currentStep} of {totalSteps}</span>
+              <span>Step {stepIndex} of {totalSteps}</span>
               <span>{Math.round(progress)}% complete</span>
             </div>
             <Progress value={progress} className="h-2" />
@@ -352,7 +550,7 @@ export default function Questionnaire({
 
         <CardContent className="space-y-6">
           {/* Parent Step 0 - Child Information with Dropdowns */}
-          {role === 'parent' && currentStep === 0 ? (
+          {role === 'parent' && currentStep.kind === 'intro' ? (
             <div className="space-y-6">
               <h3 className="text-xl font-semibold">Child Information</h3>
               
@@ -507,27 +705,23 @@ export default function Questionnaire({
                       <Upload className="w-4 h-4" />
                       Upload Video (Optional)
                     </Label>
-                    <Input
-                      id="videoUpload"
-                      type="file"
-                      accept="video/*"
-                      onChange={handleVideoUpload}
-                      disabled={uploading || predictingVideo}
-                      className="cursor-pointer"
+                    <VideoCapture
+                      {...videoCaptureProps}
+                      inputId="videoUpload"
+                      videoUrl={metadata.videoUrl}
                     />
-                    {uploading && <p className="text-sm text-muted-foreground">Uploading video...</p>}
-                    {predictingVideo && <p className="text-sm text-muted-foreground">🤖 Analyzing video with ML model...</p>}
-                    {metadata.videoPrediction && (
-                      <p className="text-sm text-green-600">✓ Video analysis complete (Score: {metadata.videoPrediction.prediction_score?.toFixed(1)})</p>
-                    )}
-                    {metadata.videoUrl && !metadata.videoPrediction && !predictingVideo && (
-                      <p className="text-xs text-green-600">✓ Video uploaded successfully</p>
-                    )}
                   </div>
                 </div>
               </div>
+
+              <InstrumentPicker
+                role="parent"
+                ageRange={metadata.childAge}
+                selectedIds={selectedInstrumentIds}
+                onChange={setSelectedInstrumentIds}
+              />
             </div>
-          ) : role === 'clinician' && currentStep === 0 ? (
+          ) : role === 'clinician' && currentStep.kind === 'intro' ? (
             // Clinician Step 0
             <div className="space-y-6">
               <h3 className="text-xl font-semibold">Patient Information</h3>
@@ -610,60 +804,79 @@ export default function Questionnaire({
                         Upload a short video of the patient for enhanced ML-powered assessment
                       </Label>
                     </div>
-                    <Input
-                      id="clinician-video"
-                      type="file"
-                      accept="video/*"
-                      onChange={handleVideoUpload}
-                      disabled={uploading || predictingVideo}
-                      className="cursor-pointer"
+                    <VideoCapture
+                      {...videoCaptureProps}
+                      inputId="clinician-video"
+                      videoUrl={clinicianMetadata.videoUrl}
                     />
-                    {uploading && <p className="text-sm text-muted-foreground">Uploading video...</p>}
-                    {predictingVideo && <p className="text-sm text-muted-foreground">🤖 Analyzing video with ML model...</p>}
-                    {clinicianMetadata.videoPrediction && (
-                      <p className="text-sm text-green-600">✓ Video analysis complete (Score: {clinicianMetadata.videoPrediction.prediction_score?.toFixed(1)})</p>
-                    )}
-                    {clinicianMetadata.videoUrl && !clinicianMetadata.videoPrediction && !predictingVideo && (
-                      <p className="text-xs text-green-600">✓ Video uploaded successfully</p>
-                    )}
                   </div>
                 </div>
               </div>
+
+              <InstrumentPicker
+                role="clinician"
+                ageRange={clinicianMetadata.childAge}
+                selectedIds={selectedInstrumentIds}
+                onChange={setSelectedInstrumentIds}
+              />
+            </div>
+          ) : role === 'individual' && currentStep.kind === 'intro' ? (
+            // Individual Step 0 - age range for instrument suggestions
+            <div className="space-y-6">
+              <h3 className="text-xl font-semibold">About You</h3>
+
+              <div className="space-y-2">
+                <Label htmlFor="individual-age">Age Range (Optional)</Label>
+                <Select value={individualAge} onValueChange={setIndividualAge}>
+                  <SelectTrigger id="individual-age">
+                    <SelectValue placeholder="Select age range" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ageRangeOptions.map(age => (
+                      <SelectItem key={age} value={age}>{age}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <InstrumentPicker
+                role="individual"
+                ageRange={individualAge}
+                selectedIds={selectedInstrumentIds}
+                onChange={setSelectedInstrumentIds}
+              />
             </div>
+          ) : currentStep.kind === 'observation' ? (
+            <ClinicianObservationStep
+              value={clinicianMetadata.clinicianInput}
+              onChange={(clinicianInput) => setClinicianMetadata((prev) => ({ ...prev, clinicianInput }))}
+              patientId={patientId}
+            />
           ) : isVideoStep ? (
-            // Individual Video Upload Step (16th step)
+            // Individual Video Upload Step (after the questions)
             <div className="space-y-6">
               <h3 className="text-xl font-semibold">Video Upload (Optional)</h3>
               <p className="text-muted-foreground">
                 Upload a short video for enhanced ML-powered assessment. This step is optional but can improve the accuracy of your results.
               </p>
               
-              <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
-                <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-                <Input
-                  id="individual-video"
-                  type="file"
-                  accept="video/*"
-                  onChange={handleVideoUpload}
-                  disabled={uploading || predictingVideo}
-                  className="max-w-xs mx-auto"
-                />
-                <p className="text-sm text-muted-foreground mt-2">Max file size: 20MB</p>
-              </div>
-              
-              {uploading && <p className="text-center text-muted-foreground">Uploading video...</p>}
-              {predictingVideo && <p className="text-center text-muted-foreground">🤖 Analyzing video with ML model...</p>}
-              {individualVideo.videoPrediction && (
-                <p className="text-center text-green-600">✓ Video analysis complete (Score: {individualVideo.videoPrediction.prediction_score?.toFixed(1)})</p>
-              )}
-              {individualVideo.videoUrl && !individualVideo.videoPrediction && !predictingVideo && (
-                <p className="text-center text-green-600">✓ Video uploaded successfully</p>
-              )}
+              <VideoCapture
+                {...videoCaptureProps}
+                inputId="individual-video"
+                videoUrl={individualVideo.videoUrl}
+                centered
+              />
             </div>
           ) : currentQuestion ? (
             // Question Display
             <div className="space-y-6">
               <div className="min-h-[120px]">
+                {(currentQuestion.instrument.id !== instrument.id || currentQuestion.followUpOf) && (
+                  <p className="text-sm font-medium text-primary mb-2">
+                    {currentQuestion.instrument.name}
+                    {currentQuestion.followUpOf && ' · Follow-Up'}
+                  </p>
+                )}
                 <h3 className="text-xl font-medium leading-relaxed">
                   {currentQuestion.text}
                 </h3>
@@ -676,10 +889,10 @@ export default function Questionnaire({
 
               <RadioGroup
                 value={answers[currentQuestion.id] || ''}
-                onValueChange={(value) => handleAnswer(currentQuestion.id, value as AnswerValue)}
+                onValueChange={(value) => handleAnswer(currentQuestion.id, value)}
                 className="space-y-3"
               >
-                {answerOptions.map((option) => (
+                {currentQuestion.options.map((option) => (
                   <div
                     key={option.value}
                     className={`flex items-center space-x-3 p-4 rounded-lg border-2 hover:bg-accent/50 transition-colors cursor-pointer ${
@@ -716,8 +929,8 @@ export default function Questionnaire({
               size="lg"
               className="bg-primary hover:bg-primary/90"
             >
-              {currentStep === totalSteps ? 'Complete' : isVideoStep ? 'Skip & Complete' : 'Next'}
-              {currentStep !== totalSteps && !isVideoStep && <ArrowRight className="w-4 h-4 ml-2" />}
+              {isLastStep ? 'Complete' : isVideoStep ? 'Skip & Complete' : 'Next'}
+              {!isLastStep && !isVideoStep && <ArrowRight className="w-4 h-4 ml-2" />}
             </Button>
           </div>
         </CardContent>
@@ -1,116 +1,119 @@
-import { useState, useEffect } from "react";
-import { Bell, Plus, Trash2, Clock } from "lucide-react";
+import { useState } from "react";
+import { Bell, Plus, Trash2, Clock, X } from "lucide-react";
+import { User } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
+import { PushNotificationSettings } from "@/components/PushNotificationSettings";
+import {
+  ReminderInput,
+  ReminderType,
+  getBrowserTimeZone,
+  getTimeZoneOptions,
+  useReminders,
+} from "@/hooks/useReminders";
+import { ReminderRecurrence, describeSchedule, getZonedDate, validateReminderSchedule } from "@shared/reminders";
 
-interface Reminder {
-  id: string;
-  title: string;
-  time: string;
-  type: "task" | "assessment" | "appointment";
-  enabled: boolean;
+interface RemindersProps {
+  user: User | null;
 }
 
-export const Reminders = () => {
-  const [reminders, setReminders] = useState<Reminder[]>([]);
-  const [newReminder, setNewReminder] = useState({
+const RECURRENCE_LABELS: Record<ReminderRecurrence, string> = {
+  daily: "Every day",
+  weekdays: "Weekdays (Mon–Fri)",
+  interval: "Every few days",
+  dates: "On specific dates",
+};
+
+const createEmptyReminder = (): ReminderInput => {
+  const timezone = getBrowserTimeZone();
+  return {
     title: "",
-    time: "",
-    type: "task" as const,
-  });
+    type: "task",
+    recurrence: "daily",
+    timeOfDay: "",
+    timezone,
+    startDate: getZonedDate(new Date(), timezone),
+    intervalDays: 2,
+    dates: [],
+  };
+};
+
+export const Reminders = ({ user }: RemindersProps) => {
+  const { reminders, loading, addReminder, setReminderEnabled, deleteReminder } = useReminders(user);
+  const [newReminder, setNewReminder] = useState<ReminderInput>(createEmptyReminder);
+  const [dateToAdd, setDateToAdd] = useState("");
+  const [saving, setSaving] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
+  const [timeZones] = useState(getTimeZoneOptions);
 
-  useEffect(() => {
-    const saved = localStorage.getItem("reminders");
-    if (saved) {
-      setReminders(JSON.parse(saved));
+  const handleAddReminder = async () => {
+    if (!newReminder.title || !newReminder.timeOfDay) {
+      toast.error("Please fill in all fields");
+      return;
+    }
+    const invalid = validateReminderSchedule(newReminder);
+    if (invalid) {
+      toast.error(invalid);
+      return;
     }
-  }, []);
-
-  useEffect(() => {
-    localStorage.setItem("reminders", JSON.stringify(reminders));
-  }, [reminders]);
-
-  useEffect(() => {
-    const checkReminders = setInterval(async () => {
-      const now = new Date();
-      const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-      
-      for (const reminder of reminders) {
-        if (reminder.enabled && reminder.time === currentTime) {
-          toast.info(`Reminder: ${reminder.title}`, {
-            description: `Time for your ${reminder.type}`,
-            duration: 5000,
-          });
-          
-          if ("Notification" in window && Notification.permission === "granted") {
-            new Notification("AutiCare Reminder", {
-              body: `${reminder.title} - ${reminder.type}`,
-              icon: "/favicon.ico",
-            });
-          }
-          
-          // Send email notification
-          const { data: { user } } = await supabase.auth.getUser();
-          if (user?.email) {
-            supabase.functions.invoke('send-notification', {
-              body: {
-                email: user.email,
-                type: reminder.type === 'appointment' ? 'appointment' : 'reminder',
-                data: {
-                  title: reminder.title,
-                  description: `Time for your ${reminder.type}`,
-                  time: reminder.time,
-                },
-              },
-            }).catch(err => console.error('Failed to send email:', err));
-          }
-        }
-      }
-    }, 60000); // Check every minute
 
-    return () => clearInterval(checkReminders);
-  }, [reminders]);
+    setSaving(true);
+    const result = await addReminder(newReminder);
+    setSaving(false);
 
-  const requestNotificationPermission = () => {
-    if ("Notification" in window && Notification.permission === "default") {
-      Notification.requestPermission();
+    if (!result.success) {
+      toast.error("Could not add reminder", { description: result.error });
+      return;
     }
+    setNewReminder(createEmptyReminder());
+    setDateToAdd("");
+    setIsOpen(false);
+    toast.success("Reminder added successfully");
   };
 
-  const addReminder = () => {
-    if (!newReminder.title || !newReminder.time) {
-      toast.error("Please fill in all fields");
-      return;
+  const handleDeleteReminder = async (id: string) => {
+    const result = await deleteReminder(id);
+    if (result.success) {
+      toast.success("Reminder deleted");
+    } else {
+      toast.error("Could not delete reminder", { description: result.error });
     }
+  };
 
-    const reminder: Reminder = {
-      id: Date.now().toString(),
-      ...newReminder,
-      enabled: true,
-    };
+  const handleToggleReminder = async (id: string, enabled: boolean) => {
+    const result = await setReminderEnabled(id, enabled);
+    if (!result.success) {
+      toast.error("Could not update reminder", { description: result.error });
+    }
+  };
 
-    setReminders([...reminders, reminder]);
-    setNewReminder({ title: "", time: "", type: "task" });
-    setIsOpen(false);
-    requestNotificationPermission();
-    toast.success("Reminder added successfully");
+  const addDate = () => {
+    if (!dateToAdd || newReminder.dates.includes(dateToAdd)) return;
+    setNewReminder({ ...newReminder, dates: [...newReminder.dates, dateToAdd].sort() });
+    setDateToAdd("");
   };
 
-  const deleteReminder = (id: string) => {
-    setReminders(reminders.filter(r => r.id !== id));
-    toast.success("Reminder deleted");
+  const formatNextRun = (nextRunAt: string | null) => {
+    if (!nextRunAt) return "No upcoming reminders";
+    return `Next: ${new Date(nextRunAt).toLocaleString(undefined, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })}`;
   };
 
   const getTypeColor = (type: string) => {
     switch (type) {
       case "task": return "bg-primary/10 text-primary";
+      case "medication": return "bg-secondary text-secondary-foreground";
       case "assessment": return "bg-accent/10 text-accent-foreground";
       case "appointment": return "bg-destructive/10 text-destructive";
       default: return "bg-muted text-muted-foreground";
@@ -127,17 +130,17 @@ export const Reminders = () => {
               Reminders & Notifications
             </CardTitle>
             <CardDescription>
-              Set up alerts for tasks, assessments, and appointments
+              Alerts for tasks, medication, assessments, and appointments, sent even when the app is closed
             </CardDescription>
           </div>
           <Dialog open={isOpen} onOpenChange={setIsOpen}>
             <DialogTrigger asChild>
-              <Button size="sm">
+              <Button size="sm" disabled={!user}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Reminder
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create New Reminder</DialogTitle>
                 <DialogDescription>
@@ -154,42 +157,138 @@ export const Reminders = () => {
                     onChange={(e) => setNewReminder({ ...newReminder, title: e.target.value })}
                   />
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="time">Time</Label>
-                  <Input
-                    id="time"
-                    type="time"
-                    value={newReminder.time}
-                    onChange={(e) => setNewReminder({ ...newReminder, time: e.target.value })}
-                  />
-                </div>
                 <div className="space-y-2">
                   <Label htmlFor="type">Type</Label>
                   <Select
                     value={newReminder.type}
-                    onValueChange={(value: any) => setNewReminder({ ...newReminder, type: value })}
+                    onValueChange={(value) => setNewReminder({ ...newReminder, type: value as ReminderType })}
                   >
-                    <SelectTrigger>
+                    <SelectTrigger id="type">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="task">Task</SelectItem>
+                      <SelectItem value="medication">Medication</SelectItem>
                       <SelectItem value="assessment">Assessment</SelectItem>
                       <SelectItem value="appointment">Appointment</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
-                <Button onClick={addReminder} className="w-full">
-                  Create Reminder
+                <div className="space-y-2">
+                  <Label htmlFor="recurrence">Repeat</Label>
+                  <Select
+                    value={newReminder.recurrence}
+                    onValueChange={(value) => setNewReminder({ ...newReminder, recurrence: value as ReminderRecurrence })}
+                  >
+                    <SelectTrigger id="recurrence">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RECURRENCE_LABELS) as ReminderRecurrence[]).map((recurrence) => (
+                        <SelectItem key={recurrence} value={recurrence}>
+                          {RECURRENCE_LABELS[recurrence]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {newReminder.recurrence === "interval" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="intervalDays">Every (days)</Label>
+                      <Input
+                        id="intervalDays"
+                        type="number"
+                        min={1}
+                        max={365}
+                        value={newReminder.intervalDays ?? ""}
+                        onChange={(e) => setNewReminder({ ...newReminder, intervalDays: parseInt(e.target.value) || null })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="startDate">Starting</Label>
+                      <Input
+                        id="startDate"
+                        type="date"
+                        value={newReminder.startDate}
+                        onChange={(e) => setNewReminder({ ...newReminder, startDate: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                )}
+                {newReminder.recurrence === "dates" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="dateToAdd">Dates</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="dateToAdd"
+                        type="date"
+                        value={dateToAdd}
+                        onChange={(e) => setDateToAdd(e.target.value)}
+                      />
+                      <Button type="button" variant="outline" onClick={addDate} disabled={!dateToAdd}>
+                        Add
+                      </Button>
+                    </div>
+                    {newReminder.dates.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {newReminder.dates.map((date) => (
+                          <span key={date} className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-muted">
+                            {date}
+                            <button
+                              type="button"
+                              onClick={() => setNewReminder({ ...newReminder, dates: newReminder.dates.filter((d) => d !== date) })}
+                              aria-label={`Remove ${date}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="time">Time</Label>
+                    <Input
+                      id="time"
+                      type="time"
+                      value={newReminder.timeOfDay}
+                      onChange={(e) => setNewReminder({ ...newReminder, timeOfDay: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="timezone">Time zone</Label>
+                    <Select
+                      value={newReminder.timezone}
+                      onValueChange={(value) => setNewReminder({ ...newReminder, timezone: value })}
+                    >
+                      <SelectTrigger id="timezone">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timeZones.map((zone) => (
+                          <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <Button onClick={handleAddReminder} className="w-full" disabled={saving}>
+                  {saving ? "Saving..." : "Create Reminder"}
                 </Button>
               </div>
             </DialogContent>
           </Dialog>
         </div>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <PushNotificationSettings user={user} />
         <div className="space-y-3">
-          {reminders.length === 0 ? (
+          {loading ? (
+            <p className="text-center py-8 text-muted-foreground">Loading reminders...</p>
+          ) : reminders.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <Clock className="h-12 w-12 mx-auto mb-2 opacity-50" />
               <p>No reminders set yet</p>
@@ -205,21 +304,34 @@ export const Reminders = () => {
                   <Bell className="h-4 w-4 text-muted-foreground" />
                   <div>
                     <p className="font-medium">{reminder.title}</p>
-                    <div className="flex items-center gap-2 mt-1">
-                      <span className="text-sm text-muted-foreground">{reminder.time}</span>
+                    <div className="flex flex-wrap items-center gap-2 mt-1">
+                      <span className="text-sm text-muted-foreground">
+                        {describeSchedule(reminder)} ({reminder.timezone})
+                      </span>
                       <span className={`text-xs px-2 py-0.5 rounded-full ${getTypeColor(reminder.type)}`}>
                         {reminder.type}
                       </span>
                     </div>
+                    {reminder.enabled && (
+                      <p className="text-xs text-muted-foreground mt-1">{formatNextRun(reminder.nextRunAt)}</p>
+                    )}
                   </div>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => deleteReminder(reminder.id)}
-                >
-                  <Trash2 className="h-4 w-4 text-destructive" />
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={reminder.enabled}
+                    onCheckedChange={(checked) => handleToggleReminder(reminder.id, checked)}
+                    aria-label={`${reminder.enabled ? "Pause" : "Resume"} ${reminder.title}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDeleteReminder(reminder.id)}
+                    aria-label={`Delete ${reminder.title}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
               </div>
             ))
           )}
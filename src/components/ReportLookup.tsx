@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Search, FileText, Loader2 } from 'lucide-react';
+import { Search, FileText, Loader2, ArrowLeft, ClipboardList } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { AnswerValue } from '@/utils/scoring';
@@ -32,9 +32,14 @@ interface ReportLookupProps {
       videoUrl?: string;
     }
   ) => void;
+  // Roster patient the assessment is for
+  patientName?: string;
+  // Run the questionnaire instead when there is no report to retrieve
+  onStartQuestionnaire?: () => void;
+  onBack?: () => void;
 }
 
-export default function ReportLookup({ onReportFound }: ReportLookupProps) {
+export default function ReportLookup({ onReportFound, patientName, onStartQuestionnaire, onBack }: ReportLookupProps) {
   const [applicationNumber, setApplicationNumber] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   const { toast } = useToast();
@@ -113,12 +118,21 @@ export default function ReportLookup({ onReportFound }: ReportLookupProps) {
     <div className="min-h-screen flex items-center justify-center p-4">
       <Card className="max-w-md w-full animate-fade-in">
         <CardHeader className="text-center">
+          {onBack && (
+            <div className="flex justify-start mb-2">
+              <Button variant="ghost" size="sm" onClick={onBack}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </div>
+          )}
           <CardTitle className="text-2xl flex items-center justify-center gap-2">
             <FileText className="w-6 h-6 text-bright-blue" />
             Clinical Assessment
           </CardTitle>
           <CardDescription>
             Enter the patient's application number to retrieve assessment data
+            {patientName && <span className="block mt-1 font-medium text-foreground">Patient: {patientName}</span>}
           </CardDescription>
         </CardHeader>
 
@@ -154,6 +168,13 @@ export default function ReportLookup({ onReportFound }: ReportLookupProps) {
               </>
             )}
           </Button>
+
+          {onStartQuestionnaire && (
+            <Button variant="outline" onClick={onStartQuestionnaire} className="w-full" disabled={isSearching}>
+              <ClipboardList className="w-4 h-4 mr-2" />
+              No report? Complete the questionnaire instead
+            </Button>
+          )}
         </CardContent>
       </Card>
     </div>
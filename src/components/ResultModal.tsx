@@ -1,9 +1,25 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, AlertCircle, Download, Gamepad2, Home, ArrowRight, Users } from 'lucide-react';
-import { ScoringResult } from '@/utils/scoring';
+import { TrendingUp, AlertCircle, Download, Gamepad2, Home, ArrowRight, Users, ClipboardList, CalendarPlus, ShieldCheck, Stethoscope, Paperclip, Layers } from 'lucide-react';
+import {
+  CLINICAL_FUSION_WEIGHTS,
+  CLINICAL_SCORE_RANGES,
+  DOMAIN_LABELS,
+  FUSION_SOURCE_LABELS,
+  FusionWaterfallStep,
+  ScoringResult,
+  getClinicalEvidenceScores,
+  getFusionWaterfall,
+} from '@/utils/scoring';
+import { ClinicalAttachment, ClinicianInput } from '@/data/questionBanks';
+import { getClinicalAttachmentUrl } from '@/utils/clinicalAttachments';
+import { TaskLibraryEntry } from '@/data/taskLibrary';
+import { getLibraryMatchOptions, getRecommendedInterventions } from '@/utils/taskLibrary';
 import VideoPreview from './VideoPreview';
+import VideoJobProgress from './VideoJobProgress';
+import FusionWaterfallChart from './FusionWaterfallChart';
+import { VideoJob } from '@/utils/videoJobs';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Cell } from 'recharts';
 import jsPDF from 'jspdf';
@@ -14,6 +30,57 @@ interface ResultModalProps {
   onClose: () => void;
   onBackToHome?: () => void;
   videoUrl?: string;
+  // Set when reopening a past assessment from the history timeline
+  assessedAt?: string;
+  closeLabel?: string;
+  // Recommended next steps are drawn from the task library
+  library: TaskLibraryEntry[];
+  ageRange?: string;
+  // Offered on high-severity results, where a clinical assessment is needed
+  onBookAssessment?: () => void;
+  // Video analysis still running for this result; the result is replaced when it lands
+  videoJob?: VideoJob | null;
+}
+
+// Waterfall bar colours in the PDF, matching the on-screen chart
+const pdfStepColors: Record<FusionWaterfallStep['source'], [number, number, number]> = {
+  questionnaire: [47, 155, 255],
+  model: [213, 204, 255],
+  ados: [119, 228, 195],
+  adiR: [119, 228, 195],
+  observation: [119, 228, 195],
+  total: [0, 102, 204],
+};
+
+const formatFeatureName = (name: string) => name.replace(/_/g, ' ');
+
+const formatPoints = (points: number) => `${points >= 0 ? '+' : ''}${points.toFixed(1)}`;
+
+// Each recorded clinician score with its 0-100 equivalent and fusion weight
+function getClinicalEvidenceRows(input: ClinicianInput) {
+  const scores = getClinicalEvidenceScores(input);
+  const rows = [
+    { source: 'ados' as const, entries: [['adosScore', input.adosScore] as const] },
+    { source: 'adiR' as const, entries: [['adiRScore', input.adiRScore] as const] },
+    {
+      source: 'observation' as const,
+      entries: [
+        ['observedSocialReciprocity', input.observedSocialReciprocity] as const,
+        ['observedRepetitiveBehavior', input.observedRepetitiveBehavior] as const,
+      ],
+    },
+  ];
+  return rows
+    .filter(({ source }) => scores[source] !== null)
+    .map(({ source, entries }) => ({
+      source,
+      label: FUSION_SOURCE_LABELS[source],
+      values: entries
+        .filter(([, value]) => value !== null)
+        .map(([field, value]) => `${CLINICAL_SCORE_RANGES[field].label}: ${value} / ${CLINICAL_SCORE_RANGES[field].max}`),
+      score: scores[source] as number,
+      weight: CLINICAL_FUSION_WEIGHTS[source],
+    }));
 }
 
 // Question text mappings for better display
@@ -55,12 +122,24 @@ const questionTextMap: Record<string, { text: string; commonResponse: string }>
   'par_20': { text: 'Family history of autism', commonResponse: '20% report yes, 80% report no' },
 };
 
-export default function ResultModal({ result, onClose, onBackToHome, videoUrl }: ResultModalProps) {
+export default function ResultModal({
+  result,
+  onClose,
+  onBackToHome,
+  videoUrl,
+  assessedAt,
+  closeLabel = 'Go to Dashboard',
+  library,
+  ageRange,
+  onBookAssessment,
+  videoJob,
+}: ResultModalProps) {
   const severityColors: Record<string, string> = {
     low: 'bg-mint text-mint-foreground',
     mild: 'bg-bright-blue text-white',
     moderate: 'bg-lavender text-lavender-foreground',
     high: 'bg-coral text-white',
+    'very-high': 'bg-destructive text-destructive-foreground',
   };
 
   const severityBorderColors: Record<string, string> = {
@@ -68,10 +147,21 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     mild: 'border-bright-blue',
     moderate: 'border-lavender',
     high: 'border-coral',
+    'very-high': 'border-destructive',
   };
 
   const finalScore = result.fusedScore || result.normalizedScore;
+  const clinicalRows = result.clinicianInput ? getClinicalEvidenceRows(result.clinicianInput) : [];
+  const hasClinicalObservation = !!result.clinicianInput && (
+    clinicalRows.length > 0 || !!result.clinicianInput.clinicalNotes.trim() || result.clinicianInput.uploadedFiles.length > 0
+  );
+  // Only worth explaining when something besides the questionnaire was fused
+  const explanation = result.fusionExplanation && result.fusionExplanation.sources.length > 1
+    ? result.fusionExplanation
+    : undefined;
+  const videoSource = explanation?.sources.find((source) => source.source === 'model');
   const isHighScore = finalScore >= 60;
+  const needsAssessment = result.severity === 'high' || result.severity === 'very-high';
 
   // Chart data for score comparison
   const scoreComparisonData = [
@@ -85,6 +175,11 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
       score: result.videoPrediction.prediction_score, 
       fill: 'hsl(var(--lavender))' 
     }] : []),
+    ...clinicalRows.map((row) => ({
+      name: row.label,
+      score: row.score,
+      fill: 'hsl(var(--mint))',
+    })),
     ...(result.fusedScore ? [{ 
       name: 'Final (Fused)', 
       score: result.fusedScore, 
@@ -108,43 +203,18 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     };
   };
 
-  const getRecommendations = () => {
-    if (finalScore < 25) {
-      return [
-        'Continue monitoring development and behaviors regularly',
-        'Maintain supportive environment and consistent routines',
-        'Celebrate strengths and provide positive reinforcement',
-      ];
-    } else if (finalScore < 40) {
-      return [
-        'Schedule a screening with a healthcare provider',
-        'Document specific behaviors, patterns, and contexts',
-        'Explore supportive resources and early intervention',
-        'Maintain open communication with caregivers and educators',
-      ];
-    } else if (finalScore < 60) {
-      return [
-        'Schedule a comprehensive evaluation with a specialist',
-        'Consider early intervention services and therapies',
-        'Connect with support groups and community resources',
-        'Develop individualized support strategies',
-      ];
-    } else if (finalScore < 75) {
-      return [
-        'IMPORTANT: Seek clinical assessment as soon as possible',
-        'Contact your healthcare provider immediately',
-        'Consider connecting with an autism specialist',
-        'Explore comprehensive intervention programs',
-        'Join support networks for families',
-      ];
-    } else {
-      return [
-        'URGENT: Schedule immediate clinical assessment',
-        'Contact specialized autism diagnostic centers',
-        'Begin comprehensive intervention planning',
-        'Establish regular checkup schedule with specialists',
-        'Access intensive support services',
-      ];
+  const recommendations = getRecommendedInterventions(library, getLibraryMatchOptions(result, ageRange));
+
+  // Attachments are private; each open gets a short-lived signed link
+  const openAttachment = async (file: ClinicalAttachment) => {
+    // Opened before the await so the browser doesn't treat it as a pop-up
+    const tab = window.open('', '_blank');
+    try {
+      const url = await getClinicalAttachmentUrl(file);
+      if (tab) tab.location.href = url;
+    } catch (err) {
+      console.error('Error opening attachment:', err);
+      tab?.close();
     }
   };
 
@@ -162,6 +232,10 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
     doc.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth / 2, yPos, { align: 'center' });
+    if (assessedAt) {
+      yPos += 5;
+      doc.text(`Assessed: ${new Date(assessedAt).toLocaleDateString()}`, pageWidth / 2, yPos, { align: 'center' });
+    }
     yPos += 15;
 
     // Overall Score Section
@@ -176,6 +250,31 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     doc.text(`Severity: ${result.severityLabel}`, pageWidth / 2, yPos, { align: 'center' });
     yPos += 15;
 
+    // Clinician sign-off, with the computed result it replaced
+    if (result.review) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Clinician Review:', margin, yPos);
+      yPos += 8;
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'normal');
+      doc.text(`• Signed off by ${result.review.reviewerName} on ${new Date(result.review.signedAt).toLocaleDateString()}`, margin, yPos);
+      yPos += 6;
+      if (result.computedSeverityLabel) {
+        doc.text(`• Computed severity: ${result.computedSeverityLabel}`, margin, yPos);
+        yPos += 6;
+        const reasonLines = doc.splitTextToSize(`• Reason for change: ${result.review.overrideReason}`, pageWidth - 2 * margin);
+        doc.text(reasonLines, margin, yPos);
+        yPos += reasonLines.length * 6;
+      }
+      if (result.review.notes) {
+        const noteLines = doc.splitTextToSize(`• Notes: ${result.review.notes}`, pageWidth - 2 * margin);
+        doc.text(noteLines, margin, yPos);
+        yPos += noteLines.length * 6;
+      }
+      yPos += 8;
+    }
+
     // Score Breakdown
     doc.setFontSize(14);
     doc.setFont('helvetica', 'bold');
@@ -197,6 +296,101 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     }
     yPos += 8;
 
+    // How the fused score was made up, drawn as a waterfall
+    if (explanation) {
+      if (yPos > 170) {
+        doc.addPage();
+        yPos = 20;
+      }
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('How the Score Was Fused:', margin, yPos);
+      yPos += 6;
+
+      const steps = getFusionWaterfall(explanation);
+      const chartHeight = 50;
+      const chartTop = yPos + 4;
+      const chartBottom = chartTop + chartHeight;
+      const slotWidth = (pageWidth - 2 * margin) / steps.length;
+      const toY = (score: number) => chartBottom - (score / 100) * chartHeight;
+
+      doc.setDrawColor(160, 160, 160);
+      doc.setLineWidth(0.2);
+      doc.line(margin, chartBottom, pageWidth - margin, chartBottom);
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'normal');
+      steps.forEach((step, index) => {
+        const x = margin + index * slotWidth + slotWidth * 0.2;
+        const width = slotWidth * 0.6;
+        doc.setFillColor(...pdfStepColors[step.source]);
+        doc.rect(x, toY(step.end), width, Math.max(0.3, toY(step.start) - toY(step.end)), 'F');
+        const value = step.source === 'total' ? step.end.toFixed(1) : formatPoints(step.end - step.start);
+        doc.text(value, x + width / 2, toY(step.end) - 1.5, { align: 'center' });
+        doc.text(step.label, x + width / 2, chartBottom + 4, { align: 'center' });
+      });
+      if (videoSource) {
+        doc.setLineDashPattern([1, 1], 0);
+        doc.line(margin, toY(explanation.scoreWithoutVideo), pageWidth - margin, toY(explanation.scoreWithoutVideo));
+        doc.setLineDashPattern([], 0);
+        doc.text(`Without video: ${explanation.scoreWithoutVideo.toFixed(1)}`, pageWidth - margin, toY(explanation.scoreWithoutVideo) - 1.5, { align: 'right' });
+      }
+      yPos = chartBottom + 12;
+
+      doc.setFontSize(10);
+      explanation.sources.forEach((source) => {
+        const weight = source.source === 'model'
+          ? `weight ${source.baseWeight} x ${(source.confidence * 100).toFixed(0)}% confidence = ${source.weight.toFixed(2)}`
+          : `weight ${source.weight}`;
+        doc.text(
+          `• ${FUSION_SOURCE_LABELS[source.source]}: ${source.score.toFixed(1)}/100, ${weight} (${(source.share * 100).toFixed(0)}%), ${formatPoints(source.contribution)} points`,
+          margin,
+          yPos
+        );
+        yPos += 5;
+      });
+      explanation.features.forEach((feature) => {
+        doc.text(`   ${formatFeatureName(feature.name)}: ${feature.value.toFixed(1)}/10, ${formatPoints(feature.contribution)} points`, margin, yPos);
+        yPos += 5;
+      });
+      if (videoSource) {
+        doc.text(
+          `• Without the video the score would be ${explanation.scoreWithoutVideo.toFixed(1)}; the video moved it ${formatPoints(explanation.videoImpact)} points.`,
+          margin,
+          yPos
+        );
+        yPos += 5;
+      }
+      yPos += 8;
+    }
+
+    // Clinician Observation, fused as separately weighted evidence
+    if (hasClinicalObservation && result.clinicianInput) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Clinician Observation:', margin, yPos);
+      yPos += 8;
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'normal');
+      clinicalRows.forEach((row) => {
+        row.values.forEach((value) => {
+          doc.text(`• ${value}`, margin, yPos);
+          yPos += 6;
+        });
+        doc.text(`   ${row.label} evidence: ${row.score}/100, weight ${row.weight}`, margin, yPos);
+        yPos += 6;
+      });
+      if (result.clinicianInput.clinicalNotes.trim()) {
+        const noteLines = doc.splitTextToSize(`• Notes: ${result.clinicianInput.clinicalNotes.trim()}`, pageWidth - 2 * margin);
+        doc.text(noteLines, margin, yPos);
+        yPos += noteLines.length * 6;
+      }
+      if (result.clinicianInput.uploadedFiles.length > 0) {
+        doc.text(`• Attachments: ${result.clinicianInput.uploadedFiles.map((file) => file.name).join(', ')}`, margin, yPos);
+        yPos += 6;
+      }
+      yPos += 8;
+    }
+
     // Severity Ranges Reference
     doc.setFontSize(14);
     doc.setFont('helvetica', 'bold');
@@ -243,6 +437,40 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
       yPos += 8;
     });
 
+    // Validated Screening Instruments
+    if (result.validatedResults && result.validatedResults.length > 0) {
+      if (yPos > 220) {
+        doc.addPage();
+        yPos = 20;
+      }
+      yPos += 5;
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Validated Screening Instruments:', margin, yPos);
+      yPos += 8;
+      doc.setFontSize(10);
+
+      result.validatedResults.forEach((validated) => {
+        if (yPos > 250) {
+          doc.addPage();
+          yPos = 20;
+        }
+        doc.setFont('helvetica', 'bold');
+        doc.text(`${validated.instrumentName} (v${validated.instrumentVersion})`, margin, yPos);
+        yPos += 5;
+        doc.setFont('helvetica', 'normal');
+        doc.text(`   Score: ${validated.rawTotal} / ${validated.maxPossible} - ${validated.severityLabel}`, margin, yPos);
+        yPos += 5;
+        if (validated.followUpScore !== undefined) {
+          doc.text(`   Follow-Up Interview Score: ${validated.followUpScore}`, margin, yPos);
+          yPos += 5;
+        }
+        const lines = doc.splitTextToSize(`   ${validated.recommendation}`, pageWidth - 2 * margin);
+        doc.text(lines, margin, yPos);
+        yPos += lines.length * 5 + 3;
+      });
+    }
+
     // Recommendations
     if (yPos > 200) {
       doc.addPage();
@@ -256,13 +484,12 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
 
-    const recommendations = getRecommendations();
-    recommendations.forEach(text => {
+    recommendations.forEach(rec => {
       if (yPos > 270) {
         doc.addPage();
         yPos = 20;
       }
-      const lines = doc.splitTextToSize(`• ${text}`, pageWidth - 2 * margin);
+      const lines = doc.splitTextToSize(`• ${rec.title}`, pageWidth - 2 * margin);
       doc.text(lines, margin, yPos);
       yPos += lines.length * 5 + 2;
     });
@@ -277,7 +504,7 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     doc.text('Please consult with a qualified healthcare professional for proper diagnosis and treatment.', 
       pageWidth / 2, yPos, { align: 'center' });
 
-    doc.save(`ASD_Assessment_Report_${new Date().toLocaleDateString().replace(/\//g, '-')}.pdf`);
+    doc.save(`ASD_Assessment_Report_${new Date(assessedAt || Date.now()).toLocaleDateString().replace(/\//g, '-')}.pdf`);
   };
 
   return (
@@ -290,6 +517,11 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
             <Card className={`border-4 ${severityBorderColors[result.severity] || 'border-primary'}`}>
               <CardHeader className="text-center pb-4">
                 <CardTitle className="text-3xl font-bold mb-4">Assessment Results</CardTitle>
+                {assessedAt && (
+                  <p className="text-sm text-muted-foreground -mt-2 mb-4">
+                    Assessed on {new Date(assessedAt).toLocaleString()}
+                  </p>
+                )}
                 <div className="flex flex-col items-center gap-4">
                   <div className={`w-40 h-40 rounded-full ${severityColors[result.severity] || 'bg-primary'} flex flex-col items-center justify-center shadow-lg`}>
                     <span className="text-6xl font-bold">{finalScore.toFixed(0)}</span>
@@ -298,10 +530,46 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
                   <Badge className={`${severityColors[result.severity] || 'bg-primary'} text-lg px-6 py-2`}>
                     {result.severityLabel}
                   </Badge>
+                  {videoJob && (
+                    <VideoJobProgress job={videoJob} className="w-full max-w-sm text-center" />
+                  )}
+                  {needsAssessment && onBookAssessment && (
+                    <Button onClick={onBookAssessment} className="bg-coral hover:bg-coral/90 text-white">
+                      <CalendarPlus className="w-4 h-4 mr-2" />
+                      Book an Assessment
+                    </Button>
+                  )}
                 </div>
               </CardHeader>
             </Card>
 
+            {/* Clinician sign-off */}
+            {result.review && (
+              <Card className="border-2 border-mint">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center gap-2 text-xl">
+                    <ShieldCheck className="w-5 h-5 text-mint" />
+                    Clinician Review
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <p className="text-muted-foreground">
+                    Reviewed and signed off by <span className="font-medium text-foreground">{result.review.reviewerName}</span> on {new Date(result.review.signedAt).toLocaleDateString()}
+                  </p>
+                  {result.computedSeverityLabel && (
+                    <div className="rounded-lg bg-muted/50 p-3 space-y-1">
+                      <p>
+                        The scores placed this result at <span className="font-medium">{result.computedSeverityLabel}</span>;
+                        the clinician set it to <span className="font-medium">{result.severityLabel}</span>.
+                      </p>
+                      <p className="text-muted-foreground">{result.review.overrideReason}</p>
+                    </div>
+                  )}
+                  {result.review.notes && <p className="whitespace-pre-wrap">{result.review.notes}</p>}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Video Preview if available */}
             {videoUrl && (
               <Card>
@@ -398,6 +666,57 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
               </Card>
             </div>
 
+            {/* Fusion explanation */}
+            {explanation && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-xl flex items-center gap-2">
+                    <Layers className="w-5 h-5" />
+                    How the Score Was Fused
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Each source adds its score times its share of the total weight. The video's weight is scaled by the model's confidence.
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <FusionWaterfallChart explanation={explanation} />
+                  {videoSource && (
+                    <p className="text-sm">
+                      Without the video the score would be <span className="font-bold">{explanation.scoreWithoutVideo.toFixed(1)}</span>;
+                      the video moved it <span className="font-bold">{formatPoints(explanation.videoImpact)}</span> points.
+                      At {(videoSource.confidence * 100).toFixed(0)}% confidence its weight was {videoSource.weight.toFixed(2)} of a possible {videoSource.baseWeight}.
+                    </p>
+                  )}
+                  <div className="space-y-2">
+                    {explanation.sources.map((source) => (
+                      <div key={source.source} className="flex flex-wrap items-center justify-between gap-2 border rounded-lg p-3 bg-muted/30 text-sm">
+                        <span className="font-semibold">{FUSION_SOURCE_LABELS[source.source]}</span>
+                        <span className="text-muted-foreground">
+                          {source.score.toFixed(1)}/100 · weight {source.weight.toFixed(2)} ({(source.share * 100).toFixed(0)}%) ·{' '}
+                          <span className="font-bold text-foreground">{formatPoints(source.contribution)}</span> points
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {explanation.features.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Video features</p>
+                      <p className="text-xs text-muted-foreground">
+                        The video's points split in proportion to the features the model detected
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {explanation.features.map((feature) => (
+                          <Badge key={feature.name} variant="outline">
+                            {formatFeatureName(feature.name)}: {feature.value.toFixed(1)}/10 · {formatPoints(feature.contribution)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Top Contributing Factors */}
             <Card>
               <CardHeader className="pb-3">
@@ -442,6 +761,86 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
               </CardContent>
             </Card>
 
+            {/* Clinician Observation */}
+            {hasClinicalObservation && result.clinicianInput && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-xl flex items-center gap-2">
+                    <Stethoscope className="w-5 h-5" />
+                    Clinician Observation
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Weighted into the fused score as evidence separate from the questionnaire
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {clinicalRows.map((row) => (
+                    <div key={row.source} className="border rounded-lg p-4 bg-muted/30 space-y-1">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="font-semibold">{row.label}</p>
+                        <span className="text-sm text-muted-foreground">
+                          <span className="font-bold text-foreground">{row.score}</span>/100 · weight {row.weight}
+                        </span>
+                      </div>
+                      {row.values.map((value) => (
+                        <p key={value} className="text-sm">{value}</p>
+                      ))}
+                    </div>
+                  ))}
+                  {result.clinicianInput.clinicalNotes.trim() && (
+                    <p className="text-sm whitespace-pre-wrap">{result.clinicianInput.clinicalNotes.trim()}</p>
+                  )}
+                  {result.clinicianInput.uploadedFiles.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {result.clinicianInput.uploadedFiles.map((file) => (
+                        <Button key={file.path} variant="outline" size="sm" onClick={() => openAttachment(file)}>
+                          <Paperclip className="w-4 h-4 mr-2" />
+                          {file.name}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Validated Screening Instruments */}
+            {result.validatedResults && result.validatedResults.length > 0 && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-xl flex items-center gap-2">
+                    <ClipboardList className="w-5 h-5" />
+                    Validated Screening Instruments
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Scored with each instrument's published rules, separately from the AutiCare score
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {result.validatedResults.map((validated) => (
+                    <div key={validated.instrumentId} className="border rounded-lg p-4 bg-muted/30 space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="font-semibold">{validated.instrumentName}</p>
+                        <Badge className={severityColors[validated.severity]}>{validated.severityLabel}</Badge>
+                      </div>
+                      <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                        <span>
+                          Score: <span className="font-bold text-foreground">{validated.rawTotal} / {validated.maxPossible}</span>
+                        </span>
+                        {validated.followUpScore !== undefined && (
+                          <span>
+                            Follow-Up Interview: <span className="font-bold text-foreground">{validated.followUpScore}</span>
+                          </span>
+                        )}
+                        <span>Version {validated.instrumentVersion}</span>
+                      </div>
+                      <p className="text-sm">{validated.recommendation}</p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Recommendations Section */}
             <Card className="bg-accent/10">
               <CardHeader className="pb-3">
@@ -452,10 +851,17 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
               </CardHeader>
               <CardContent>
                 <ul className="space-y-2">
-                  {getRecommendations().map((rec, index) => (
-                    <li key={index} className={`flex items-start gap-2 ${rec.includes('URGENT') || rec.includes('IMPORTANT') ? 'text-destructive font-semibold' : ''}`}>
+                  {recommendations.map((rec) => (
+                    <li key={rec.id} className={`flex items-start gap-2 ${rec.title.includes('URGENT') || rec.title.includes('IMPORTANT') ? 'text-destructive font-semibold' : ''}`}>
                       <ArrowRight className="w-4 h-4 mt-1 flex-shrink-0" />
-                      <span>{rec}</span>
+                      <span>
+                        {rec.title}
+                        {rec.targetDomain && (
+                          <span className="block text-sm text-muted-foreground">
+                            Focus: {DOMAIN_LABELS[rec.targetDomain]}
+                          </span>
+                        )}
+                      </span>
                     </li>
                   ))}
                 </ul>
@@ -489,7 +895,7 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
                     onClick={onClose}
                     className={`flex-1 ${severityColors[result.severity] || 'bg-primary'} py-5 text-base font-semibold`}
                   >
-                    Go to Dashboard
+                    {closeLabel}
                     <ArrowRight className="w-5 h-5 ml-2" />
                   </Button>
                   {onBackToHome && (
@@ -0,0 +1,374 @@
+import { useEffect, useState } from 'react';
+import { User } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, MessageSquarePlus, ShieldCheck } from 'lucide-react';
+import VideoPreview from './VideoPreview';
+import { AnswerSource, AssessmentHistoryEntry, getHistoryEntryResult } from '@/hooks/useAssessmentHistory';
+import { useAssessmentReviews } from '@/hooks/useAssessmentReviews';
+import { getInstrument } from '@/data/instrumentRegistry';
+import { describeAnswer } from '@/utils/instrumentScoring';
+import { SeverityLevel, VideoPrediction } from '@/utils/scoring';
+import { useToast } from '@/hooks/use-toast';
+
+interface ReviewQueueProps {
+  user: User | null;
+  reviewerName: string;
+  onBack: () => void;
+}
+
+const severityBadgeColors: Record<string, string> = {
+  low: 'bg-mint text-mint-foreground',
+  mild: 'bg-bright-blue text-white',
+  moderate: 'bg-lavender text-lavender-foreground',
+  high: 'bg-destructive text-destructive-foreground',
+  'very-high': 'bg-destructive text-destructive-foreground',
+};
+
+const answerSourceLabels: Record<AnswerSource, string> = {
+  manual: 'Entered',
+  excel: 'From spreadsheet',
+  report: 'From patient report',
+};
+
+interface EntryMetadata {
+  answers?: Record<string, string>;
+  answerSources?: Record<string, AnswerSource>;
+  videoPrediction?: VideoPrediction | null;
+}
+
+interface ReviewFormProps {
+  entry: AssessmentHistoryEntry;
+  onSignOff: (entry: AssessmentHistoryEntry, form: ReviewFormState) => Promise<boolean>;
+}
+
+interface ReviewFormState {
+  finalSeverity: SeverityLevel;
+  overrideReason: string;
+  notes: string;
+  annotations: Record<string, string>;
+}
+
+function ReviewForm({ entry, onSignOff }: ReviewFormProps) {
+  const { result, instrument } = getHistoryEntryResult(entry);
+  const metadata = (entry.metadata as EntryMetadata | null) || {};
+  const answers = metadata.answers || {};
+  const features = Object.entries(metadata.videoPrediction?.features_detected || {});
+  const entryInstrument = entry.instrument_id
+    ? getInstrument(entry.instrument_id, entry.instrument_version || undefined)
+    : undefined;
+
+  const [form, setForm] = useState<ReviewFormState>({
+    finalSeverity: result.severity,
+    overrideReason: '',
+    notes: '',
+    annotations: {},
+  });
+  const [annotating, setAnnotating] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [signing, setSigning] = useState(false);
+
+  const overridden = form.finalSeverity !== result.severity;
+  const canSignOff = !overridden || form.overrideReason.trim().length > 0;
+
+  const handleConfirm = async () => {
+    setSigning(true);
+    const signed = await onSignOff(entry, form);
+    setSigning(false);
+    if (!signed) setConfirming(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg">Patient {entry.patient_id}</CardTitle>
+              <CardDescription>
+                {entry.role.charAt(0).toUpperCase() + entry.role.slice(1)} assessment · {new Date(entry.created_at).toLocaleString()}
+                {entry.instrument_id && ` · ${entry.instrument_id} v${entry.instrument_version}`}
+              </CardDescription>
+            </div>
+            <Badge className={severityBadgeColors[result.severity] || ''}>{result.severityLabel}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="rounded-lg bg-muted/50 p-3">
+              <p className="text-2xl font-bold">{entry.fused_score}</p>
+              <p className="text-xs text-muted-foreground">Fused Score</p>
+            </div>
+            <div className="rounded-lg bg-muted/50 p-3">
+              <p className="text-2xl font-bold">{entry.questionnaire_score}</p>
+              <p className="text-xs text-muted-foreground">Questionnaire</p>
+            </div>
+            <div className="rounded-lg bg-muted/50 p-3">
+              <p className="text-2xl font-bold">{entry.ml_score ?? '—'}</p>
+              <p className="text-xs text-muted-foreground">ML Score</p>
+            </div>
+          </div>
+
+          <VideoPreview videoUrl={entry.video_url || undefined} />
+          {features.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {features.map(([feature, value]) => (
+                <Badge key={feature} variant="outline">
+                  {feature.replace(/_/g, ' ')}: {value.toFixed(1)}/10
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Answers</CardTitle>
+          <CardDescription>Add a note to any answer; notes are kept with the sign-off</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {Object.keys(answers).length === 0 ? (
+            <p className="text-sm text-muted-foreground">Answers were not saved for this assessment.</p>
+          ) : (
+            <ol className="space-y-3">
+              {Object.entries(answers).map(([questionId, value]) => {
+                const { question, answer } = describeAnswer(questionId, value, entryInstrument);
+                const source = metadata.answerSources?.[questionId];
+                const note = form.annotations[questionId] || '';
+                return (
+                  <li key={questionId} className="border-b last:border-0 pb-3 space-y-2">
+                    <div className="flex justify-between gap-4 text-sm">
+                      <span>{question}</span>
+                      <span className="font-medium whitespace-nowrap">{answer}</span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      {source ? (
+                        <Badge variant={source === 'manual' ? 'outline' : 'secondary'} className="text-xs">
+                          {answerSourceLabels[source]}
+                        </Badge>
+                      ) : <span />}
+                      {annotating !== questionId && (
+                        <Button variant="ghost" size="sm" onClick={() => setAnnotating(questionId)}>
+                          <MessageSquarePlus className="w-4 h-4 mr-1" />
+                          {note ? 'Edit note' : 'Add note'}
+                        </Button>
+                      )}
+                    </div>
+                    {annotating === questionId ? (
+                      <Textarea
+                        autoFocus
+                        rows={2}
+                        value={note}
+                        placeholder="Note on this answer"
+                        onChange={(e) => setForm((prev) => ({
+                          ...prev,
+                          annotations: { ...prev.annotations, [questionId]: e.target.value },
+                        }))}
+                        onBlur={() => setAnnotating(null)}
+                      />
+                    ) : note && (
+                      <p className="text-sm text-muted-foreground italic">{note}</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Sign-off</CardTitle>
+          <CardDescription>The signed severity is what the family sees; the computed result is kept alongside it</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Severity</Label>
+            <Select
+              value={form.finalSeverity}
+              onValueChange={(value) => setForm((prev) => ({ ...prev, finalSeverity: value as SeverityLevel }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {instrument.severityCutoffs.map((band) => (
+                  <SelectItem key={band.level} value={band.level}>
+                    {band.label}{band.level === result.severity ? ' (computed)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {overridden && (
+            <div className="space-y-2">
+              <Label htmlFor="override-reason">Reason for changing the severity</Label>
+              <Textarea
+                id="override-reason"
+                rows={3}
+                value={form.overrideReason}
+                onChange={(e) => setForm((prev) => ({ ...prev, overrideReason: e.target.value }))}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="review-notes">Notes for the family (optional)</Label>
+            <Textarea
+              id="review-notes"
+              rows={3}
+              value={form.notes}
+              onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+          <Button className="w-full" disabled={!canSignOff} onClick={() => setConfirming(true)}>
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            Sign Off
+          </Button>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirming} onOpenChange={(open) => !signing && setConfirming(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign off this assessment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {overridden
+                ? `The family will see ${instrument.severityCutoffs.find((b) => b.level === form.finalSeverity)?.label} instead of the computed ${result.severityLabel}.`
+                : `The family will see the computed ${result.severityLabel}.`}
+              {' '}A signed review can't be edited or withdrawn.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={signing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={signing}
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+            >
+              {signing ? 'Signing...' : 'Sign Off'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+// Clinicians' queue of computed assessments awaiting sign-off
+export default function ReviewQueue({ user, reviewerName, onBack }: ReviewQueueProps) {
+  const { queue, loading, signOff } = useAssessmentReviews(user);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const selected = queue.find((entry) => entry.id === selectedId) || null;
+
+  // Select the oldest waiting assessment, and move on after each sign-off
+  useEffect(() => {
+    if (!selected && queue.length > 0) setSelectedId(queue[0].id);
+  }, [queue, selected]);
+
+  const handleSignOff = async (entry: AssessmentHistoryEntry, form: ReviewFormState) => {
+    const result = await signOff(entry, form, reviewerName);
+    if (!result.success) {
+      toast({
+        title: "Could not sign off",
+        description: result.error,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: "Assessment Signed Off",
+      description: `Patient ${entry.patient_id}'s result is now available to them`,
+    });
+    return true;
+  };
+
+  return (
+    <div className="min-h-screen p-4 pt-16">
+      <div className="max-w-6xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <ShieldCheck className="w-7 h-7" />
+              Review Queue
+            </h1>
+            <p className="text-muted-foreground">
+              Assessments from families who booked with you
+            </p>
+          </div>
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading review queue...</p>
+        ) : queue.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              No assessments are waiting for review.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="lg:col-span-1">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Pending ({queue.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[60vh] pr-3">
+                  <div className="space-y-2">
+                    {queue.map((entry) => (
+                      <button
+                        key={entry.id}
+                        onClick={() => setSelectedId(entry.id)}
+                        className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                          entry.id === selectedId ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{entry.patient_id}</span>
+                          <Badge className={severityBadgeColors[entry.severity] || ''}>{entry.fused_score}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {entry.role.charAt(0).toUpperCase() + entry.role.slice(1)} · {new Date(entry.created_at).toLocaleDateString()}
+                          {entry.user_id !== user?.id && ' · Family'}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+
+            <div className="lg:col-span-2">
+              {selected && <ReviewForm key={selected.id} entry={selected} onSignOff={handleSignOff} />}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
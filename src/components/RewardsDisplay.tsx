@@ -4,8 +4,12 @@ import { Award } from "lucide-react";
 import { useRewards } from "@/hooks/useRewards";
 import { SocialShare } from "./SocialShare";
 
-export function RewardsDisplay() {
-  const { badges, loading } = useRewards();
+interface RewardsDisplayProps {
+  patientId?: string;
+}
+
+export function RewardsDisplay({ patientId }: RewardsDisplayProps) {
+  const { badges, loading } = useRewards(patientId);
 
   if (loading) {
     return <div className="text-center">Loading badges...</div>;
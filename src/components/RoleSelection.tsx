@@ -1,11 +1,24 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { User, Users, Stethoscope } from 'lucide-react';
+import { InstrumentRole, formatInstrumentAgeRange, suggestInstruments } from '@/data/instrumentRegistry';
 
 interface RoleSelectionProps {
   onSelectRole: (role: 'individual' | 'parent' | 'clinician') => void;
 }
 
+// Optional validated instruments offered for a role, with their age ranges
+function AvailableInstruments({ role }: { role: InstrumentRole }) {
+  const instruments = suggestInstruments(role);
+  if (instruments.length === 0) return null;
+
+  return (
+    <p className="text-xs text-muted-foreground text-center mb-4">
+      Also available: {instruments.map((i) => `${i.name} (${formatInstrumentAgeRange(i)})`).join(', ')}
+    </p>
+  );
+}
+
 export default function RoleSelection({ onSelectRole }: RoleSelectionProps) {
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
@@ -32,6 +45,7 @@ export default function RoleSelection({ onSelectRole }: RoleSelectionProps) {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              <AvailableInstruments role="individual" />
               <Button 
                 className="w-full bg-bright-blue hover:bg-bright-blue/90 text-white"
                 size="lg"
@@ -53,6 +67,7 @@ export default function RoleSelection({ onSelectRole }: RoleSelectionProps) {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              <AvailableInstruments role="parent" />
               <Button 
                 className="w-full bg-mint hover:bg-mint/90 text-mint-foreground"
                 size="lg"
@@ -74,6 +89,7 @@ export default function RoleSelection({ onSelectRole }: RoleSelectionProps) {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              <AvailableInstruments role="clinician" />
               <Button 
                 className="w-full bg-lavender hover:bg-lavender/90 text-lavender-foreground"
                 size="lg"
@@ -1,5 +1,6 @@
 import { Card } from '@/components/ui/card';
-import { CheckCircle2, Circle, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, CheckCircle2, Circle, Clock, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 export type TaskTheme = 'morning' | 'afternoon' | 'evening' | 'night';
@@ -7,12 +8,20 @@ export type TaskTheme = 'morning' | 'afternoon' | 'evening' | 'night';
 interface TaskCardProps {
   title: string;
   description: string;
+  steps?: string[];
   duration: string;
   completed: boolean;
   theme: TaskTheme;
   parentTip?: string;
   accentColor: string;
   showParentTip?: boolean;
+  // Plan date the task was first scheduled on, shown when it was carried over
+  carriedOverFrom?: string | null;
+  onToggle?: () => void;
+  // Editing controls, shown only when handlers are passed
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  onRemove?: () => void;
 }
 
 const themeStyles: Record<TaskTheme, { bg: string; icon: string }> = {
@@ -69,15 +78,23 @@ const themeDecorations: Record<TaskTheme, JSX.Element> = {
 export default function TaskCard({
   title,
   description,
+  steps = [],
   duration,
   completed,
   theme,
   parentTip,
   accentColor,
   showParentTip = false,
+  carriedOverFrom,
+  onToggle,
+  onMoveUp,
+  onMoveDown,
+  onRemove,
 }: TaskCardProps) {
   const styles = themeStyles[theme];
   const isNightTheme = theme === 'night';
+  const isEditable = !!(onMoveUp || onMoveDown || onRemove);
+  const iconButtonClass = cn('h-7 w-7', isNightTheme && 'text-white hover:text-white hover:bg-white/10');
 
   return (
     <Card className={cn(
@@ -89,19 +106,29 @@ export default function TaskCard({
       {themeDecorations[theme]}
       
       <div className="relative z-10 flex items-start gap-3">
-        {completed ? (
-          <CheckCircle2 className={cn('w-5 h-5 flex-shrink-0', `text-${accentColor}`)} />
-        ) : (
-          <Circle className={cn(
-            'w-5 h-5 flex-shrink-0',
-            isNightTheme ? 'text-white/70' : 'text-muted-foreground'
-          )} />
-        )}
+        <button
+          type="button"
+          onClick={onToggle}
+          disabled={!onToggle}
+          aria-pressed={completed}
+          aria-label={completed ? `Mark "${title}" as not done` : `Mark "${title}" as done`}
+          className="flex-shrink-0 rounded-full disabled:cursor-default"
+        >
+          {completed ? (
+            <CheckCircle2 className={cn('w-5 h-5', `text-${accentColor}`)} />
+          ) : (
+            <Circle className={cn(
+              'w-5 h-5',
+              isNightTheme ? 'text-white/70' : 'text-muted-foreground'
+            )} />
+          )}
+        </button>
         <div className="flex-1">
           <div className="flex items-center justify-between mb-1">
             <h4 className={cn(
               'font-semibold',
-              isNightTheme ? 'text-white' : 'text-foreground'
+              isNightTheme ? 'text-white' : 'text-foreground',
+              completed && 'line-through opacity-70'
             )}>
               {title}
             </h4>
@@ -119,6 +146,16 @@ export default function TaskCard({
           )}>
             {description}
           </p>
+          {steps.length > 0 && (
+            <ol className={cn(
+              'text-sm mt-2 ml-4 list-decimal space-y-0.5',
+              isNightTheme ? 'text-white/90' : 'text-muted-foreground'
+            )}>
+              {steps.map((step, index) => (
+                <li key={index}>{step}</li>
+              ))}
+            </ol>
+          )}
           {showParentTip && parentTip && (
             <p className={cn(
               'text-sm mt-2 font-medium',
@@ -127,7 +164,34 @@ export default function TaskCard({
               💡 {parentTip}
             </p>
           )}
+          {carriedOverFrom && (
+            <p className={cn(
+              'text-xs mt-2',
+              isNightTheme ? 'text-white/70' : 'text-muted-foreground'
+            )}>
+              Carried over from {new Date(`${carriedOverFrom}T00:00:00`).toLocaleDateString()}
+            </p>
+          )}
         </div>
+        {isEditable && (
+          <div className="flex flex-col gap-1">
+            {onMoveUp && (
+              <Button variant="ghost" size="icon" className={iconButtonClass} onClick={onMoveUp} aria-label="Move up">
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+            )}
+            {onMoveDown && (
+              <Button variant="ghost" size="icon" className={iconButtonClass} onClick={onMoveDown} aria-label="Move down">
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            )}
+            {onRemove && (
+              <Button variant="ghost" size="icon" className={iconButtonClass} onClick={onRemove} aria-label="Remove task">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </Card>
   );
@@ -0,0 +1,445 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Archive, ArchiveRestore, ArrowLeft, Library, Pencil, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { TaskTheme } from './TaskCard';
+import { ALL_SEVERITIES, LibraryEntryKind, TaskLibraryEntry } from '@/data/taskLibrary';
+import { formatAgeRange } from '@/data/instrumentRegistry';
+import { TaskLibraryInput } from '@/hooks/useTaskLibrary';
+import { DOMAIN_LABELS, QuestionCategory, SeverityLevel, TRACKED_DOMAINS } from '@/utils/scoring';
+import { TASK_THEMES } from '@/utils/taskPlan';
+
+type SaveResult = { success: boolean; error?: string };
+
+interface TaskLibraryManagerProps {
+  entries: TaskLibraryEntry[];
+  // Only entries this user added can be edited or archived
+  userId: string | undefined;
+  loading: boolean;
+  onSave: (input: TaskLibraryInput, id?: string) => Promise<SaveResult>;
+  onArchive: (id: string) => Promise<SaveResult>;
+  onRestore: (id: string) => Promise<SaveResult>;
+  onBack: () => void;
+}
+
+const severityLabels: Record<SeverityLevel, string> = {
+  low: 'Low',
+  mild: 'Mild',
+  moderate: 'Moderate',
+  high: 'High',
+  'very-high': 'Very High',
+};
+
+const themeLabels: Record<TaskTheme, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+  night: 'Night',
+};
+
+const GENERAL_DOMAIN = 'general';
+
+// Form state keeps numbers as text so fields can be cleared while editing
+interface EntryForm {
+  kind: LibraryEntryKind;
+  title: string;
+  description: string;
+  steps: string;
+  parentTip: string;
+  durationMinutes: string;
+  highSupportDurationMinutes: string;
+  theme: TaskTheme;
+  targetDomain: QuestionCategory | typeof GENERAL_DOMAIN;
+  minAgeMonths: string;
+  maxAgeMonths: string;
+  severities: SeverityLevel[];
+}
+
+function toForm(entry: TaskLibraryEntry | null, kind: LibraryEntryKind): EntryForm {
+  return {
+    kind: entry?.kind || kind,
+    title: entry?.title || '',
+    description: entry?.description || '',
+    steps: entry?.steps.join('\n') || '',
+    parentTip: entry?.parentTip || '',
+    durationMinutes: entry?.durationMinutes ? String(entry.durationMinutes) : '',
+    highSupportDurationMinutes: entry?.highSupportDurationMinutes ? String(entry.highSupportDurationMinutes) : '',
+    theme: entry?.theme || 'afternoon',
+    targetDomain: entry?.targetDomain || GENERAL_DOMAIN,
+    minAgeMonths: entry?.ageRange ? String(entry.ageRange.minMonths) : '',
+    maxAgeMonths: entry?.ageRange?.maxMonths != null ? String(entry.ageRange.maxMonths) : '',
+    severities: entry?.severities || ALL_SEVERITIES,
+  };
+}
+
+function parseMinutes(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : undefined;
+}
+
+function parseMonths(value: string): number | null {
+  const parsed = parseInt(value, 10);
+  return parsed >= 0 ? parsed : null;
+}
+
+function EntryRow({
+  entry,
+  editable,
+  onEdit,
+  onArchive,
+  onRestore,
+}: {
+  entry: TaskLibraryEntry;
+  editable: boolean;
+  onEdit: () => void;
+  onArchive: () => void;
+  onRestore: () => void;
+}) {
+  return (
+    <Card className={entry.archivedAt ? 'opacity-70' : ''}>
+      <CardContent className="p-4 flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <div>
+            <p className="font-semibold">{entry.title}</p>
+            {entry.description && <p className="text-sm text-muted-foreground">{entry.description}</p>}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="secondary">
+              {entry.targetDomain ? DOMAIN_LABELS[entry.targetDomain] : 'General'}
+            </Badge>
+            {entry.theme && <Badge variant="outline">{themeLabels[entry.theme]}</Badge>}
+            {entry.durationMinutes && <Badge variant="outline">{entry.durationMinutes} min</Badge>}
+            <Badge variant="outline">{formatAgeRange(entry.ageRange)}</Badge>
+            <Badge variant="outline">
+              {entry.severities.length === ALL_SEVERITIES.length
+                ? 'All severities'
+                : entry.severities.map((s) => severityLabels[s]).join(', ')}
+            </Badge>
+            {!entry.createdBy && <Badge variant="outline">Built-in</Badge>}
+          </div>
+        </div>
+        {editable && (
+          <div className="flex gap-1 flex-shrink-0">
+            <Button variant="ghost" size="icon" onClick={onEdit} aria-label={`Edit ${entry.title}`}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            {entry.archivedAt ? (
+              <Button variant="ghost" size="icon" onClick={onRestore} aria-label={`Restore ${entry.title}`}>
+                <ArchiveRestore className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button variant="ghost" size="icon" onClick={onArchive} aria-label={`Archive ${entry.title}`}>
+                <Archive className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Clinician editor for the task and intervention library
+export default function TaskLibraryManager({ entries, userId, loading, onSave, onArchive, onRestore, onBack }: TaskLibraryManagerProps) {
+  const { toast } = useToast();
+  const [tab, setTab] = useState<LibraryEntryKind | 'archived'>('task');
+  const [editing, setEditing] = useState<TaskLibraryEntry | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [form, setForm] = useState<EntryForm>(toForm(null, 'task'));
+  const [saving, setSaving] = useState(false);
+
+  const openEditor = (entry: TaskLibraryEntry | null) => {
+    setEditing(entry);
+    setForm(toForm(entry, tab === 'intervention' ? 'intervention' : 'task'));
+    setShowDialog(true);
+  };
+
+  const reportResult = (result: SaveResult, success: string) => {
+    toast(result.success
+      ? { title: success }
+      : { title: 'Could not update the library', description: result.error, variant: 'destructive' });
+  };
+
+  const toggleSeverity = (severity: SeverityLevel, checked: boolean) => {
+    const next = checked ? [...form.severities, severity] : form.severities.filter((s) => s !== severity);
+    setForm({ ...form, severities: ALL_SEVERITIES.filter((s) => next.includes(s)) });
+  };
+
+  const minAge = parseMonths(form.minAgeMonths);
+  const maxAge = parseMonths(form.maxAgeMonths);
+  const formError = !form.title.trim()
+    ? 'A title is required.'
+    : form.severities.length === 0
+      ? 'Pick at least one severity.'
+      : minAge !== null && maxAge !== null && maxAge < minAge
+        ? 'The maximum age must not be below the minimum age.'
+        : null;
+
+  const handleSave = async () => {
+    const isTask = form.kind === 'task';
+    const input: TaskLibraryInput = {
+      kind: form.kind,
+      title: form.title.trim(),
+      description: form.description.trim(),
+      steps: form.steps.split('\n').map((step) => step.trim()).filter(Boolean),
+      parentTip: form.parentTip.trim() || undefined,
+      durationMinutes: isTask ? parseMinutes(form.durationMinutes) : undefined,
+      highSupportDurationMinutes: isTask ? parseMinutes(form.highSupportDurationMinutes) : undefined,
+      theme: isTask ? form.theme : undefined,
+      targetDomain: form.targetDomain === GENERAL_DOMAIN ? undefined : form.targetDomain,
+      ageRange: minAge !== null || maxAge !== null ? { minMonths: minAge || 0, maxMonths: maxAge } : undefined,
+      severities: form.severities,
+      // New entries go to the end of the library
+      sortOrder: editing ? editing.sortOrder : Math.max(0, ...entries.map((e) => e.sortOrder)) + 10,
+    };
+
+    setSaving(true);
+    const result = await onSave(input, editing?.id);
+    setSaving(false);
+    reportResult(result, editing ? 'Library entry updated' : 'Library entry added');
+    if (result.success) setShowDialog(false);
+  };
+
+  const renderList = (list: TaskLibraryEntry[], emptyText: string) =>
+    list.length === 0 ? (
+      <p className="text-sm text-muted-foreground py-6 text-center">{emptyText}</p>
+    ) : (
+      <div className="space-y-3">
+        {list.map((entry) => (
+          <EntryRow
+            key={entry.id}
+            entry={entry}
+            editable={!!userId && entry.createdBy === userId}
+            onEdit={() => openEditor(entry)}
+            onArchive={async () => reportResult(await onArchive(entry.id), 'Entry archived')}
+            onRestore={async () => reportResult(await onRestore(entry.id), 'Entry restored')}
+          />
+        ))}
+      </div>
+    );
+
+  const active = entries.filter((entry) => !entry.archivedAt);
+
+  return (
+    <div className="min-h-screen p-4 pt-16">
+      <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Library className="w-7 h-7" />
+              Task Library
+            </h1>
+            <p className="text-muted-foreground">
+              Daily plans and recommended next steps are drawn from these entries, matched to each patient's severity, age and weakest domains.
+            </p>
+          </div>
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle className="text-lg">Entries</CardTitle>
+              <CardDescription>Built-in entries are read-only; you can edit and archive the ones you add. Archived entries are no longer offered but stay in existing plans.</CardDescription>
+            </div>
+            <Button onClick={() => openEditor(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Entry
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading library...</p>
+            ) : (
+              <Tabs value={tab} onValueChange={(value) => setTab(value as typeof tab)}>
+                <TabsList className="mb-4">
+                  <TabsTrigger value="task">Daily Tasks</TabsTrigger>
+                  <TabsTrigger value="intervention">Interventions</TabsTrigger>
+                  <TabsTrigger value="archived">Archived</TabsTrigger>
+                </TabsList>
+                <TabsContent value="task">
+                  {renderList(active.filter((e) => e.kind === 'task'), 'No daily tasks in the library.')}
+                </TabsContent>
+                <TabsContent value="intervention">
+                  {renderList(active.filter((e) => e.kind === 'intervention'), 'No interventions in the library.')}
+                </TabsContent>
+                <TabsContent value="archived">
+                  {renderList(entries.filter((e) => e.archivedAt), 'Nothing has been archived.')}
+                </TabsContent>
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Library Entry' : 'Add Library Entry'}</DialogTitle>
+            <DialogDescription>Changes apply to plans and recommendations made from now on.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as LibraryEntryKind })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="task">Daily task</SelectItem>
+                    <SelectItem value="intervention">Intervention</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Target Domain</Label>
+                <Select
+                  value={form.targetDomain}
+                  onValueChange={(value) => setForm({ ...form, targetDomain: value as EntryForm['targetDomain'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={GENERAL_DOMAIN}>General</SelectItem>
+                    {TRACKED_DOMAINS.map((domain) => (
+                      <SelectItem key={domain} value={domain}>{DOMAIN_LABELS[domain]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="libraryTitle">Title</Label>
+              <Input
+                id="libraryTitle"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="libraryDescription">Description</Label>
+              <Input
+                id="libraryDescription"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="librarySteps">Steps (one per line)</Label>
+              <Textarea
+                id="librarySteps"
+                rows={3}
+                value={form.steps}
+                onChange={(e) => setForm({ ...form, steps: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="libraryTip">Parent Tip (optional)</Label>
+              <Input
+                id="libraryTip"
+                value={form.parentTip}
+                onChange={(e) => setForm({ ...form, parentTip: e.target.value })}
+              />
+            </div>
+            {form.kind === 'task' && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="libraryDuration">Minutes</Label>
+                  <Input
+                    id="libraryDuration"
+                    type="number"
+                    min={1}
+                    value={form.durationMinutes}
+                    onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="libraryHighSupport">High-support min.</Label>
+                  <Input
+                    id="libraryHighSupport"
+                    type="number"
+                    min={1}
+                    value={form.highSupportDurationMinutes}
+                    onChange={(e) => setForm({ ...form, highSupportDurationMinutes: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Time of Day</Label>
+                  <Select value={form.theme} onValueChange={(value) => setForm({ ...form, theme: value as TaskTheme })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TASK_THEMES.map((theme) => (
+                        <SelectItem key={theme} value={theme}>{themeLabels[theme]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="libraryMinAge">Minimum age (months)</Label>
+                <Input
+                  id="libraryMinAge"
+                  type="number"
+                  min={0}
+                  value={form.minAgeMonths}
+                  onChange={(e) => setForm({ ...form, minAgeMonths: e.target.value })}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="libraryMaxAge">Maximum age (months)</Label>
+                <Input
+                  id="libraryMaxAge"
+                  type="number"
+                  min={0}
+                  value={form.maxAgeMonths}
+                  onChange={(e) => setForm({ ...form, maxAgeMonths: e.target.value })}
+                  placeholder="Any"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Suitable for</Label>
+              <div className="flex flex-wrap gap-4">
+                {ALL_SEVERITIES.map((severity) => (
+                  <label key={severity} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.severities.includes(severity)}
+                      onCheckedChange={(checked) => toggleSeverity(severity, checked === true)}
+                    />
+                    {severityLabels[severity]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {formError && form.title.trim() && <p className="text-sm text-destructive">{formError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!!formError || saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
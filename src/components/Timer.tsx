@@ -6,13 +6,23 @@ import { Label } from "@/components/ui/label";
 import { Play, Pause, RotateCcw, Bell } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
-export function Timer() {
-  const [duration, setDuration] = useState(5); // minutes
+interface TimerProps {
+  // Starting duration in minutes; remount the timer (e.g. with a key) to change it
+  initialMinutes?: number;
+  title?: string;
+  autoStart?: boolean;
+  // Called once each time the countdown reaches zero
+  onComplete?: () => void;
+}
+
+export function Timer({ initialMinutes = 5, title = "Task Timer", autoStart = false, onComplete }: TimerProps = {}) {
+  const [duration, setDuration] = useState(initialMinutes); // minutes
   const [timeLeft, setTimeLeft] = useState(duration * 60); // seconds
-  const [isRunning, setIsRunning] = useState(false);
+  const [isRunning, setIsRunning] = useState(autoStart);
   const [soundEnabled, setSoundEnabled] = useState(true);
   const { toast } = useToast();
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const wasStartedRef = useRef(autoStart);
 
   useEffect(() => {
     // Create audio element for alert sound
@@ -44,10 +54,18 @@ export function Timer() {
     return () => clearInterval(interval);
   }, [isRunning, timeLeft, soundEnabled, toast]);
 
+  useEffect(() => {
+    if (timeLeft === 0 && wasStartedRef.current) {
+      wasStartedRef.current = false;
+      onComplete?.();
+    }
+  }, [timeLeft, onComplete]);
+
   const handleStart = () => {
     if (timeLeft === 0) {
       setTimeLeft(duration * 60);
     }
+    wasStartedRef.current = true;
     setIsRunning(true);
   };
 
@@ -57,6 +75,7 @@ export function Timer() {
 
   const handleReset = () => {
     setIsRunning(false);
+    wasStartedRef.current = false;
     setTimeLeft(duration * 60);
   };
 
@@ -80,7 +99,7 @@ export function Timer() {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Bell className="w-5 h-5" />
-          Task Timer
+          {title}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
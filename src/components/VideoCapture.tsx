@@ -0,0 +1,102 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Upload, Camera } from 'lucide-react';
+import { VideoPreprocessing } from '@shared/videoPrediction';
+import { VideoJob } from '@/utils/videoJobs';
+import { RecordedSegment, isGuidedRecordingSupported } from '@/utils/guidedRecording';
+import { GUIDED_RECORDING_PROTOCOL } from '@/data/recordingProtocol';
+import VideoJobProgress from './VideoJobProgress';
+import VideoPreprocessor from './VideoPreprocessor';
+import GuidedRecorder from './GuidedRecorder';
+
+interface VideoCaptureProps {
+  inputId: string;
+  videoUrl?: string;
+  job: VideoJob | null;
+  uploading: boolean;
+  predicting: boolean;
+  // A chosen file waiting in the preprocessor
+  pendingFile: File | null;
+  recording: boolean;
+  onFileSelected: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onCancelFile: () => void;
+  onPreprocessed: (file: File, preprocessing: VideoPreprocessing | null) => void;
+  onRecordingChange: (recording: boolean) => void;
+  onRecorded: (segments: RecordedSegment[]) => void;
+  // The standalone video step: a centred drop area rather than a form field
+  centered?: boolean;
+}
+
+// Picking or recording a video, preprocessing it and following its analysis.
+// Uploading and queueing stay with the questionnaire, which owns the metadata.
+export default function VideoCapture({
+  inputId,
+  videoUrl,
+  job,
+  uploading,
+  predicting,
+  pendingFile,
+  recording,
+  onFileSelected,
+  onCancelFile,
+  onPreprocessed,
+  onRecordingChange,
+  onRecorded,
+  centered = false,
+}: VideoCaptureProps) {
+  const busy = uploading || predicting || !!pendingFile;
+  const statusClass = centered ? 'text-center text-muted-foreground' : 'text-sm text-muted-foreground';
+
+  const input = (
+    <Input
+      id={inputId}
+      type="file"
+      accept="video/*"
+      onChange={onFileSelected}
+      disabled={busy || recording}
+      className={centered ? 'max-w-xs mx-auto' : 'cursor-pointer'}
+    />
+  );
+  const recordButton = isGuidedRecordingSupported() && !recording && (
+    <Button
+      type="button"
+      variant="outline"
+      className={centered ? 'mt-2' : undefined}
+      onClick={() => onRecordingChange(true)}
+      disabled={busy}
+    >
+      <Camera className="w-4 h-4 mr-2" />
+      Record with guided prompts
+    </Button>
+  );
+
+  return (
+    <>
+      {centered ? (
+        <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
+          <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+          {input}
+          <p className="text-sm text-muted-foreground mt-2">You can trim it and blur faces before it is uploaded</p>
+          {recordButton}
+        </div>
+      ) : (
+        <>
+          {input}
+          {recordButton}
+        </>
+      )}
+      {pendingFile && (
+        <VideoPreprocessor file={pendingFile} onCancel={onCancelFile} onComplete={onPreprocessed} />
+      )}
+      {recording && (
+        <GuidedRecorder protocol={GUIDED_RECORDING_PROTOCOL} onCancel={() => onRecordingChange(false)} onComplete={onRecorded} />
+      )}
+      {uploading && <p className={statusClass}>Uploading video...</p>}
+      {predicting && <p className={statusClass}>🤖 Preparing video for analysis...</p>}
+      <VideoJobProgress job={job} className={centered ? 'text-center' : undefined} />
+      {videoUrl && !job && !predicting && (
+        <p className={centered ? 'text-center text-green-600' : 'text-xs text-green-600'}>✓ Video uploaded successfully</p>
+      )}
+    </>
+  );
+}
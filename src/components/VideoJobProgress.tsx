@@ -0,0 +1,48 @@
+import { Progress } from '@/components/ui/progress';
+import { VIDEO_JOB_MAX_ATTEMPTS, VideoJob, getVideoJobPrediction } from '@/utils/videoJobs';
+
+interface VideoJobProgressProps {
+  job: VideoJob | null;
+  className?: string;
+}
+
+const progressByStatus: Record<string, number> = {
+  queued: 20,
+  processing: 60,
+  done: 100,
+  failed: 100,
+};
+
+// Where a background video analysis is up to. The questionnaire can be finished
+// meanwhile; the result picks up the prediction when it lands.
+export default function VideoJobProgress({ job, className }: VideoJobProgressProps) {
+  if (!job) return null;
+
+  const prediction = getVideoJobPrediction(job);
+  let message: string;
+  if (job.status === 'done') {
+    message = prediction
+      ? `✓ Video analysis complete (Score: ${prediction.prediction_score.toFixed(1)})`
+      : 'Video analysis returned an invalid result. Continuing with questionnaire only.';
+  } else if (job.status === 'failed') {
+    message = `Video analysis unavailable${job.last_error ? `: ${job.last_error}` : ''}. Continuing with questionnaire only.`;
+  } else if (job.status === 'processing') {
+    message = `Analyzing video (attempt ${job.attempts} of ${VIDEO_JOB_MAX_ATTEMPTS})...`;
+  } else if (job.attempts > 0) {
+    message = `Analysis attempt ${job.attempts} failed; retrying shortly...`;
+  } else {
+    message = 'Video queued for analysis...';
+  }
+
+  const finished = job.status === 'done' || job.status === 'failed';
+
+  return (
+    <div className={`space-y-1 ${className || ''}`}>
+      {!finished && <Progress value={progressByStatus[job.status] ?? 0} className="h-2" />}
+      <p className={`text-sm ${job.status === 'done' && prediction ? 'text-green-600' : 'text-muted-foreground'}`}>{message}</p>
+      {!finished && (
+        <p className="text-xs text-muted-foreground">You can keep going; your results update when the analysis finishes.</p>
+      )}
+    </div>
+  );
+}
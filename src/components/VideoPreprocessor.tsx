@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Scissors } from 'lucide-react';
+import { VideoPreprocessing } from '@shared/videoPrediction';
+import {
+  DEFAULT_TARGET_HEIGHT,
+  FaceBlurMode,
+  MAX_SEGMENT_SECONDS,
+  MAX_UPLOAD_BYTES,
+  TARGET_HEIGHTS,
+  isFaceDetectionSupported,
+  isPreprocessingSupported,
+  preprocessVideo,
+} from '@/utils/videoPreprocessing';
+import { useToast } from '@/hooks/use-toast';
+
+interface VideoPreprocessorProps {
+  file: File;
+  onCancel: () => void;
+  // preprocessing is null when the original file is uploaded unchanged
+  onComplete: (file: File, preprocessing: VideoPreprocessing | null) => void;
+}
+
+const faceBlurOptions: Array<{ value: FaceBlurMode; label: string }> = [
+  { value: 'bystanders', label: 'Blur other people\'s faces' },
+  { value: 'all', label: 'Blur all faces' },
+  { value: 'none', label: 'No blurring' },
+];
+
+const faceBlurHints: Record<FaceBlurMode, string> = {
+  bystanders: 'Every face except the largest one in view is pixelated.',
+  all: 'Every face in view is pixelated.',
+  none: 'Faces are left as recorded.',
+};
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Trim, downscale, blur faces and drop the audio before a video is uploaded
+export default function VideoPreprocessor({ file, onCancel, onComplete }: VideoPreprocessorProps) {
+  const previewUrl = useMemo(() => URL.createObjectURL(file), [file]);
+  const supported = isPreprocessingSupported();
+  const canBlurFaces = isFaceDetectionSupported();
+  const { toast } = useToast();
+
+  const [duration, setDuration] = useState(0);
+  const [range, setRange] = useState<[number, number]>([0, 0]);
+  const [targetHeight, setTargetHeight] = useState(DEFAULT_TARGET_HEIGHT);
+  const [faceBlur, setFaceBlur] = useState<FaceBlurMode>(canBlurFaces ? 'bystanders' : 'none');
+  const [stripAudio, setStripAudio] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  useEffect(() => () => URL.revokeObjectURL(previewUrl), [previewUrl]);
+
+  const segmentLength = range[1] - range[0];
+  const tooLong = segmentLength > MAX_SEGMENT_SECONDS;
+  const processing = progress !== null;
+
+  const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const length = e.currentTarget.duration;
+    if (!Number.isFinite(length)) return;
+    setDuration(length);
+    setRange([0, Math.min(length, MAX_SEGMENT_SECONDS)]);
+  };
+
+  const handleProcess = async () => {
+    setProgress(0);
+    try {
+      const processed = await preprocessVideo(
+        file,
+        { trimStart: range[0], trimEnd: range[1], targetHeight, faceBlur, stripAudio },
+        setProgress
+      );
+      onComplete(processed.file, processed.preprocessing);
+    } catch (err) {
+      console.error('Error preprocessing video:', err);
+      toast({
+        title: "Processing failed",
+        description: err instanceof Error ? err.message : 'The video could not be processed',
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4 text-left">
+      <div className="flex items-center gap-2 font-medium">
+        <Scissors className="w-4 h-4" />
+        Prepare video before upload
+      </div>
+
+      <video
+        src={previewUrl}
+        controls
+        muted
+        playsInline
+        onLoadedMetadata={handleLoadedMetadata}
+        className="w-full max-h-64 rounded-md bg-black"
+      />
+
+      {!supported ? (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            This browser can't trim, blur or shrink video. You can upload the original file as it is.
+          </p>
+          {file.size > MAX_UPLOAD_BYTES && (
+            <p className="text-sm text-destructive">The original is over the 20MB upload limit.</p>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <Label>
+              Segment: {formatTime(range[0])} – {formatTime(range[1])} ({Math.round(segmentLength)}s)
+            </Label>
+            <Slider
+              min={0}
+              max={duration || 1}
+              step={0.5}
+              minStepsBetweenThumbs={2}
+              value={range}
+              onValueChange={(value) => setRange([value[0], value[1]])}
+              disabled={!duration || processing}
+              aria-label="Video segment"
+            />
+            {tooLong && (
+              <p className="text-xs text-destructive">Choose a segment of at most {MAX_SEGMENT_SECONDS / 60} minutes.</p>
+            )}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="video-resolution">Resolution</Label>
+              <Select value={String(targetHeight)} onValueChange={(value) => setTargetHeight(Number(value))} disabled={processing}>
+                <SelectTrigger id="video-resolution">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TARGET_HEIGHTS.map((height) => (
+                    <SelectItem key={height} value={String(height)}>{height}p</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="video-face-blur">Face blurring</Label>
+              <Select value={faceBlur} onValueChange={(value) => setFaceBlur(value as FaceBlurMode)} disabled={!canBlurFaces || processing}>
+                <SelectTrigger id="video-face-blur">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {faceBlurOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {canBlurFaces ? faceBlurHints[faceBlur] : 'Face detection is not available in this browser.'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="video-strip-audio">Remove audio</Label>
+            <Switch id="video-strip-audio" checked={stripAudio} onCheckedChange={setStripAudio} disabled={processing} />
+          </div>
+        </>
+      )}
+
+      {progress !== null && (
+        <div className="space-y-1">
+          <Progress value={Math.round(progress * 100)} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            Processing {Math.round(progress * 100)}%. This plays through the segment once; keep this tab open.
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={processing}>
+          Cancel
+        </Button>
+        {supported ? (
+          <Button onClick={handleProcess} disabled={!duration || tooLong || processing}>
+            Process & Upload
+          </Button>
+        ) : (
+          <Button onClick={() => onComplete(file, null)} disabled={file.size > MAX_UPLOAD_BYTES}>
+            Upload Original
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState, KeyboardEvent, PointerEvent } from 'react';
+import { User } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, CheckCircle2, GripVertical, ImageIcon, Printer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Timer } from './Timer';
+import PictureCardPicker from './PictureCardPicker';
+import { getPictureCard } from '@/data/pictureCards';
+import { ResolvedPicture, usePictureCards } from '@/hooks/usePictureCards';
+import { PlanTask } from '@/utils/taskPlan';
+import { printPictureCards } from '@/utils/printPictureCards';
+import { cn } from '@/lib/utils';
+
+type BoardMode = 'now-next-later' | 'first-then';
+
+interface VisualScheduleProps {
+  user: User | null;
+  patientId: string | undefined;
+  subjectName?: string;
+  tasks: PlanTask[];
+  onToggle: (taskId: string) => void;
+  // Parents only, matching who can edit the plan
+  onReorder?: (fromIndex: number, toIndex: number) => void;
+  onBack: () => void;
+}
+
+// Minutes from a plan duration such as '15 min'; tasks without one get a short default
+function getTaskMinutes(task: PlanTask): number {
+  const minutes = parseInt(task.duration, 10);
+  return minutes > 0 ? minutes : 5;
+}
+
+function PictureTile({
+  picture,
+  title,
+  size,
+  completed = false,
+}: {
+  picture: ResolvedPicture;
+  title: string;
+  size: 'large' | 'medium' | 'small';
+  completed?: boolean;
+}) {
+  const imageSize = { large: 'w-40 h-40 sm:w-48 sm:h-48', medium: 'w-28 h-28', small: 'w-16 h-16' }[size];
+  return (
+    <div className={cn('flex flex-col items-center text-center gap-2', completed && 'opacity-50')}>
+      <div className="relative">
+        <img src={picture.src} alt="" className={cn(imageSize, 'object-contain rounded-xl bg-white p-2')} />
+        {completed && <CheckCircle2 className="absolute -top-2 -right-2 w-8 h-8 text-mint bg-white rounded-full" />}
+      </div>
+      <p className={cn('font-bold', size === 'large' ? 'text-2xl' : size === 'medium' ? 'text-lg' : 'text-sm')}>
+        {title}
+      </p>
+    </div>
+  );
+}
+
+// Picture-card view of today's plan for children who follow pictures rather than text
+export default function VisualSchedule({
+  user,
+  patientId,
+  subjectName,
+  tasks,
+  onToggle,
+  onReorder,
+  onBack,
+}: VisualScheduleProps) {
+  const { toast } = useToast();
+  const { photos, uploadPhoto, deletePhoto, chooseCard, getTaskPicture } = usePictureCards(user, patientId);
+  const [mode, setMode] = useState<BoardMode>('now-next-later');
+  const [autoAdvance, setAutoAdvance] = useState(true);
+  // Set when the previous timer finished, so the next task's timer starts by itself
+  const [autoStartNext, setAutoStartNext] = useState(false);
+  const [pickerTaskId, setPickerTaskId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const remaining = tasks.filter((task) => !task.completed);
+  const [current, next, ...later] = remaining;
+  const pickerTask = tasks.find((task) => task.id === pickerTaskId);
+
+  const handleDone = (task: PlanTask) => {
+    setAutoStartNext(false);
+    onToggle(task.id);
+  };
+
+  const handleTimerComplete = () => {
+    if (!autoAdvance || !current) return;
+    setAutoStartNext(true);
+    onToggle(current.id);
+  };
+
+  const handlePrint = () => {
+    const cards = tasks.map((task) => ({ label: task.title, src: getTaskPicture(task).src }));
+    const allDone = getPictureCard('all-done');
+    const printed = printPictureCards(
+      [...cards, { label: allDone.label, src: allDone.src }],
+      subjectName ? `${subjectName}'s Picture Cards` : 'Picture Cards'
+    );
+    if (!printed) {
+      toast({ title: 'Could not open the print window', description: 'Please allow pop-ups for this site.', variant: 'destructive' });
+    }
+  };
+
+  // Pointer events rather than HTML drag-and-drop so cards can be dragged on touch screens too
+  const handlePointerDown = (e: PointerEvent<HTMLButtonElement>, index: number) => {
+    if (!onReorder) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+    setOverIndex(index);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLButtonElement>) => {
+    if (dragIndex === null) return;
+    const target = document.elementFromPoint(e.clientX, e.clientY)?.closest('[data-card-index]');
+    if (target) setOverIndex(Number(target.getAttribute('data-card-index')));
+  };
+
+  const handlePointerUp = () => {
+    if (dragIndex !== null && overIndex !== null && overIndex !== dragIndex) {
+      onReorder(dragIndex, overIndex);
+    }
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleHandleKeyDown = (e: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    if (!onReorder) return;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      onReorder(index, index - 1);
+    } else if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      onReorder(index, index + 1);
+    }
+  };
+
+  const nowCard = current && (
+    <Card className="border-4 border-primary">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-center text-xl uppercase tracking-wide">
+          {mode === 'first-then' ? 'First' : 'Now'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <PictureTile picture={getTaskPicture(current)} title={current.title} size="large" />
+        <Button
+          className="w-full min-h-[3.5rem] text-lg bg-mint hover:bg-mint/90 text-mint-foreground"
+          onClick={() => handleDone(current)}
+        >
+          <CheckCircle2 className="w-6 h-6 mr-2" />
+          Done
+        </Button>
+        <Timer
+          key={current.id}
+          title="Time left"
+          initialMinutes={getTaskMinutes(current)}
+          autoStart={autoAdvance && autoStartNext}
+          onComplete={handleTimerComplete}
+        />
+      </CardContent>
+    </Card>
+  );
+
+  const nextCard = (
+    <Card className="border-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-center text-xl uppercase tracking-wide">
+          {mode === 'first-then' ? 'Then' : 'Next'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {next ? (
+          <PictureTile picture={getTaskPicture(next)} title={next.title} size="medium" />
+        ) : (
+          <PictureTile
+            picture={{ ref: 'icon:all-done', label: 'All done', src: getPictureCard('all-done').src }}
+            title="All done"
+            size="medium"
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen p-4 bg-gradient-to-br from-mint/10 via-background to-lavender/10">
+      <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <Button variant="ghost" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant={mode === 'now-next-later' ? 'default' : 'outline'}
+              onClick={() => setMode('now-next-later')}
+              aria-pressed={mode === 'now-next-later'}
+            >
+              Now · Next · Later
+            </Button>
+            <Button
+              variant={mode === 'first-then' ? 'default' : 'outline'}
+              onClick={() => setMode('first-then')}
+              aria-pressed={mode === 'first-then'}
+            >
+              First · Then
+            </Button>
+            <Button variant="outline" onClick={handlePrint} disabled={tasks.length === 0}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print Cards
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="autoAdvance" checked={autoAdvance} onCheckedChange={setAutoAdvance} />
+          <Label htmlFor="autoAdvance">Move to the next card when the timer ends</Label>
+        </div>
+
+        {!current ? (
+          <Card className="border-4 border-mint">
+            <CardContent className="p-8">
+              <PictureTile
+                picture={{ ref: 'icon:all-done', label: 'All done', src: getPictureCard('all-done').src }}
+                title={tasks.length > 0 ? 'All done for today!' : 'Nothing planned today'}
+                size="large"
+              />
+            </CardContent>
+          </Card>
+        ) : mode === 'first-then' ? (
+          <div className="grid md:grid-cols-2 gap-6 items-start">
+            {nowCard}
+            {nextCard}
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-3 gap-6 items-start">
+            <div className="md:col-span-1">{nowCard}</div>
+            <div className="md:col-span-1">{nextCard}</div>
+            <Card className="border-2 border-dashed">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-center text-xl uppercase tracking-wide">Later</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {later.length === 0 ? (
+                  <p className="text-center text-muted-foreground">Nothing else today</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-3">
+                    {later.map((task) => (
+                      <PictureTile key={task.id} picture={getTaskPicture(task)} title={task.title} size="small" />
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Whole day, in order: parents drag the handle (or use arrow keys on it) to reorder */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Today's Cards</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+              {tasks.map((task, index) => (
+                <li
+                  key={task.id}
+                  data-card-index={index}
+                  className={cn(
+                    'rounded-xl border-2 p-3 space-y-2 bg-card transition-colors',
+                    dragIndex === index && 'opacity-50',
+                    overIndex === index && dragIndex !== null && dragIndex !== index && 'border-primary bg-primary/10'
+                  )}
+                >
+                  <div className="flex items-center justify-between min-h-[2.75rem]">
+                    {onReorder && (
+                      <button
+                        type="button"
+                        className="touch-none cursor-grab active:cursor-grabbing rounded-md p-2 min-h-[2.75rem] min-w-[2.75rem] flex items-center justify-center hover:bg-accent/30 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                        onPointerDown={(e) => handlePointerDown(e, index)}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={() => { setDragIndex(null); setOverIndex(null); }}
+                        onKeyDown={(e) => handleHandleKeyDown(e, index)}
+                        aria-label={`Move ${task.title}; use arrow keys to reorder`}
+                      >
+                        <GripVertical className="w-5 h-5" />
+                      </button>
+                    )}
+                    <span className="text-sm font-semibold text-muted-foreground">{index + 1}</span>
+                  </div>
+                  <PictureTile picture={getTaskPicture(task)} title={task.title} size="small" completed={task.completed} />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full min-h-[2.75rem]"
+                    onClick={() => setPickerTaskId(task.id)}
+                  >
+                    <ImageIcon className="w-4 h-4 mr-2" />
+                    Change Picture
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      </div>
+
+      {pickerTask && (
+        <PictureCardPicker
+          open={!!pickerTask}
+          onOpenChange={(open) => !open && setPickerTaskId(null)}
+          taskTitle={pickerTask.title}
+          selectedRef={getTaskPicture(pickerTask).ref}
+          photos={photos}
+          onSelect={async (cardRef) => {
+            const result = await chooseCard(pickerTask, cardRef);
+            if (result.success) {
+              setPickerTaskId(null);
+            } else {
+              toast({ title: 'Could not save picture', description: result.error, variant: 'destructive' });
+            }
+          }}
+          onUpload={uploadPhoto}
+          onDeletePhoto={deletePhoto}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+// Instrument registry
+// Every screening instrument is a versioned JSON definition under ./instruments.
+// Older versions stay registered so saved assessments keep reading the way they
+// were scored, even after question wording, weights or cut-offs change.
+
+import { QuestionCategory, QuestionWeight, SeverityCutoff } from '@shared/scoring';
+import auticareIndividualV1 from './instruments/auticare-individual.v1.0.0.json';
+import auticareParentV1 from './instruments/auticare-parent.v1.0.0.json';
+import auticareParentV1_1 from './instruments/auticare-parent.v1.1.0.json';
+import mchatRfV1 from './instruments/mchat-rf.v1.0.0.json';
+import aq10V1 from './instruments/aq-10.v1.0.0.json';
+import scqV1 from './instruments/scq.v1.0.0.json';
+
+export type InstrumentRole = 'individual' | 'parent' | 'clinician';
+
+// 'native' instruments use the AutiCare weighted frequency score;
+// 'validated' instruments follow their published item-count scoring rules
+export type InstrumentKind = 'native' | 'validated';
+
+export type ResponseScale = 'frequency' | 'yes-no' | 'agree-disagree';
+
+export interface ResponseOption {
+  value: string;
+  label: string;
+}
+
+// Age span in months; maxMonths null means no upper limit
+export interface AgeRangeMonths {
+  minMonths: number;
+  maxMonths: number | null;
+}
+
+// Unscored detail question shown straight after its parent item for some answers
+export interface InstrumentDetailQuestion {
+  id: string;
+  text: string;
+  showIf: string[];
+  options: ResponseOption[];
+}
+
+export interface InstrumentQuestion {
+  id: string;
+  text: string;
+  category: QuestionCategory;
+  weight: number;
+  reverseScored: boolean;
+  // Validated instruments: answers that score one point
+  riskAnswers?: string[];
+  // Item is skipped (and not scored) when another item has one of these answers
+  skipIf?: { questionId: string; answers: string[] };
+  // Follow-up interview prompt asked when the item scored at risk
+  followUp?: { text: string; riskAnswers: string[] };
+  // Item is only asked when the age range from the metadata step overlaps this one
+  ageRange?: AgeRangeMonths;
+  followUps?: InstrumentDetailQuestion[];
+}
+
+export interface InstrumentFollowUpOutcome {
+  level: SeverityCutoff['level'];
+  label: string;
+  recommendation: string;
+}
+
+export interface Instrument {
+  id: string;
+  version: string;
+  name: string;
+  description: string;
+  roles: InstrumentRole[];
+  kind?: InstrumentKind;
+  responseScale?: ResponseScale;
+  // Cut-offs apply to the 0-100 normalized score unless the basis is 'raw'
+  scoreBasis?: 'normalized' | 'raw';
+  ageRange?: AgeRangeMonths;
+  notes?: string;
+  questions: InstrumentQuestion[];
+  severityCutoffs: SeverityCutoff[];
+  // Standard error of measurement on the 0-100 score; sets the reliable-change threshold for trends
+  standardError?: number;
+  // Follow-up interview branch, run when the initial score lands in triggerLevel
+  followUp?: {
+    triggerLevel: SeverityCutoff['level'];
+    positiveAt: number;
+    positive: InstrumentFollowUpOutcome;
+    negative: InstrumentFollowUpOutcome;
+  };
+}
+
+export interface InstrumentRef {
+  id: string;
+  version: string;
+}
+
+const instruments: Instrument[] = [
+  auticareIndividualV1 as Instrument,
+  auticareParentV1 as Instrument,
+  auticareParentV1_1 as Instrument,
+  mchatRfV1 as Instrument,
+  aq10V1 as Instrument,
+  scqV1 as Instrument,
+];
+
+// Default instrument per role when a caller has no stored reference
+const defaultInstrumentIds: Record<InstrumentRole, string> = {
+  individual: 'auticare-individual',
+  parent: 'auticare-parent',
+  clinician: 'auticare-parent',
+};
+
+// Compare dotted version strings numerically (1.10.0 > 1.9.0)
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export function listInstruments(): Instrument[] {
+  return instruments;
+}
+
+// Latest version of every instrument
+export function listLatestInstruments(): Instrument[] {
+  const latest = new Map<string, Instrument>();
+  instruments.forEach((instrument) => {
+    const current = latest.get(instrument.id);
+    if (!current || compareVersions(instrument.version, current.version) > 0) {
+      latest.set(instrument.id, instrument);
+    }
+  });
+  return Array.from(latest.values());
+}
+
+// Look up an instrument; without a version the latest one is returned
+export function getInstrument(id: string, version?: string): Instrument | undefined {
+  if (version) {
+    return instruments.find((i) => i.id === id && i.version === version);
+  }
+  return listLatestInstruments().find((i) => i.id === id);
+}
+
+export function isValidatedInstrument(instrument: Instrument): boolean {
+  return instrument.kind === 'validated';
+}
+
+// Convert an age-range option such as '3-5 years' or '18+ years' to months
+export function ageRangeToMonths(ageRange: string): AgeRangeMonths | null {
+  const match = ageRange.match(/^(\d+)(?:-(\d+)|\+)/);
+  if (!match) return null;
+  const minMonths = Number(match[1]) * 12;
+  const maxMonths = match[2] ? Number(match[2]) * 12 + 11 : null;
+  return { minMonths, maxMonths };
+}
+
+// Whether an age-range option overlaps a span; unknown ages and open spans always match
+export function isWithinAgeRange(range: AgeRangeMonths | undefined, ageRange?: string): boolean {
+  const age = ageRange ? ageRangeToMonths(ageRange) : null;
+  if (!age || !range) return true;
+  const startsBeforeEnd = age.maxMonths === null || range.minMonths <= age.maxMonths;
+  const endsAfterStart = range.maxMonths === null || range.maxMonths >= age.minMonths;
+  return startsBeforeEnd && endsAfterStart;
+}
+
+// Validated instruments suitable for a role and (optionally) an age-range option
+export function suggestInstruments(role: InstrumentRole, ageRange?: string): Instrument[] {
+  return listLatestInstruments().filter(
+    (instrument) =>
+      isValidatedInstrument(instrument) &&
+      instrument.roles.includes(role) &&
+      isWithinAgeRange(instrument.ageRange, ageRange)
+  );
+}
+
+// Human-readable age range, e.g. '16-30 months' or '16+ years'
+export function formatAgeRange(range: AgeRangeMonths | undefined): string {
+  if (!range) return 'All ages';
+  const { minMonths, maxMonths } = range;
+  if (maxMonths !== null && maxMonths < 48) return `${minMonths}-${maxMonths} months`;
+  const minYears = Math.floor(minMonths / 12);
+  return maxMonths === null ? `${minYears}+ years` : `${minYears}-${Math.floor(maxMonths / 12)} years`;
+}
+
+export function formatInstrumentAgeRange(instrument: Instrument): string {
+  return formatAgeRange(instrument.ageRange);
+}
+
+export function getDefaultInstrument(role: InstrumentRole): Instrument {
+  return getInstrument(defaultInstrumentIds[role])!;
+}
+
+// Resolve a stored reference, falling back to the role default for
+// assessments saved before instrument versions were recorded
+export function resolveInstrument(ref: Partial<InstrumentRef> | null | undefined, role: InstrumentRole): Instrument {
+  if (ref?.id) {
+    const instrument = getInstrument(ref.id, ref.version || undefined);
+    if (instrument) return instrument;
+  }
+  return getDefaultInstrument(role);
+}
+
+export function getInstrumentRef(instrument: Instrument): InstrumentRef {
+  return { id: instrument.id, version: instrument.version };
+}
+
+export function getInstrumentWeights(instrument: Instrument): QuestionWeight[] {
+  return instrument.questions.map((q) => ({
+    id: q.id,
+    weight: q.weight,
+    category: q.category,
+    reverseScored: q.reverseScored,
+  }));
+}
@@ -0,0 +1,63 @@
+// Bundled picture cards for the visual schedule
+// Each card is an SVG pictogram in src/assets/picture-cards; tasks without a
+// chosen card get the first whose keywords appear in the task title.
+
+import { TaskTheme } from '@/components/TaskCard';
+
+export interface PictureCard {
+  id: string;
+  label: string;
+  src: string;
+  keywords: string[];
+}
+
+const icons = import.meta.glob<string>('../assets/picture-cards/*.svg', { eager: true, import: 'default' });
+
+function iconSrc(id: string): string {
+  return icons[`../assets/picture-cards/${id}.svg`];
+}
+
+const cardDefinitions: Array<Omit<PictureCard, 'src'>> = [
+  { id: 'wake-up', label: 'Wake up', keywords: ['wake', 'morning'] },
+  { id: 'toothbrush', label: 'Brush teeth', keywords: ['brush', 'teeth', 'tooth'] },
+  { id: 'get-dressed', label: 'Get dressed', keywords: ['dress', 'clothes', 'shoes'] },
+  { id: 'eat', label: 'Eat', keywords: ['lunch', 'breakfast', 'dinner', 'meal', 'eat', 'snack', 'nutrition'] },
+  { id: 'drink', label: 'Drink', keywords: ['drink', 'water', 'cup'] },
+  { id: 'toilet', label: 'Toilet', keywords: ['toilet', 'potty', 'bathroom'] },
+  { id: 'wash-hands', label: 'Wash hands', keywords: ['wash', 'hands', 'clean'] },
+  { id: 'bath', label: 'Bath time', keywords: ['bath', 'shower'] },
+  { id: 'sleep', label: 'Sleep', keywords: ['bed', 'sleep', 'nap'] },
+  { id: 'book', label: 'Story', keywords: ['story', 'book', 'read'] },
+  { id: 'learn', label: 'Learning', keywords: ['learn', 'homework', 'school', 'write', 'draw'] },
+  { id: 'play', label: 'Play', keywords: ['play', 'game', 'toy'] },
+  { id: 'outside', label: 'Outside', keywords: ['nature', 'outside', 'outdoor', 'park', 'garden', 'walk'] },
+  { id: 'quiet', label: 'Quiet time', keywords: ['quiet', 'calm', 'rest', 'relax'] },
+  { id: 'friends', label: 'Friends', keywords: ['social', 'friend', 'together', 'turn'] },
+  { id: 'travel', label: 'Car ride', keywords: ['car', 'bus', 'travel', 'drive', 'trip'] },
+  { id: 'music', label: 'Music', keywords: ['music', 'song', 'sing', 'dance'] },
+  { id: 'exercise', label: 'Exercise', keywords: ['physical', 'exercise', 'run', 'movement', 'sport'] },
+  { id: 'sensory', label: 'Sensory break', keywords: ['sensory', 'fidget'] },
+  { id: 'all-done', label: 'All done', keywords: ['done', 'finished'] },
+];
+
+export const PICTURE_CARDS: PictureCard[] = cardDefinitions.map((card) => ({ ...card, src: iconSrc(card.id) }));
+
+const themeFallbacks: Record<TaskTheme, string> = {
+  morning: 'wake-up',
+  afternoon: 'play',
+  evening: 'quiet',
+  night: 'sleep',
+};
+
+export function getPictureCard(id: string): PictureCard | undefined {
+  return PICTURE_CARDS.find((card) => card.id === id);
+}
+
+// Best bundled card for a task title, falling back to its time of day
+export function suggestPictureCard(title: string, theme: TaskTheme): PictureCard {
+  const words = title.toLowerCase();
+  return (
+    PICTURE_CARDS.find((card) => card.keywords.some((keyword) => words.includes(keyword))) ||
+    getPictureCard(themeFallbacks[theme])
+  );
+}
@@ -0,0 +1,57 @@
+// The scripted tasks of a guided video recording. Every guided video shows the
+// same tasks in the same order, so the video model always sees comparable input.
+// Change the version whenever a segment's id, duration or instructions change.
+
+export interface RecordingSegmentDefinition {
+  // Also names the uploaded file and the segment in VideoRecording
+  id: string;
+  title: string;
+  // Shown on screen while the segment is counted down and recorded
+  instructions: string[];
+  durationSeconds: number;
+}
+
+export interface RecordingProtocol {
+  id: string;
+  version: string;
+  countdownSeconds: number;
+  segments: RecordingSegmentDefinition[];
+}
+
+export const GUIDED_RECORDING_PROTOCOL: RecordingProtocol = {
+  id: 'auticare-guided-recording',
+  version: '1.0.0',
+  countdownSeconds: 3,
+  segments: [
+    {
+      id: 'play',
+      title: 'Play together',
+      instructions: [
+        'Sit with the child on the floor or at a table, both facing the camera.',
+        'Offer a favourite toy and play together as you normally would.',
+        'Keep the child\'s face and hands in view.',
+      ],
+      durationSeconds: 60,
+    },
+    {
+      id: 'name_call',
+      title: 'Response to name',
+      instructions: [
+        'Let the child play on their own.',
+        'From beside or behind them, call their name clearly once, then wait 5 seconds.',
+        'If they do not look up, call once more. Do not touch them or wave.',
+      ],
+      durationSeconds: 30,
+    },
+    {
+      id: 'pointing',
+      title: 'Pointing',
+      instructions: [
+        'Point at something interesting across the room and say "Look!"',
+        'Then ask the child to show you something they like.',
+        'Stay in frame so both your pointing and the child\'s response are visible.',
+      ],
+      durationSeconds: 30,
+    },
+  ],
+};
@@ -0,0 +1,415 @@
+// Built-in task and intervention library
+// Mirrors the rows seeded into the task_library table, and stands in for it when
+// the table can't be reached. Tasks fill the daily plan; interventions are the
+// recommended next steps shown with results.
+
+import { TaskTheme } from '@/components/TaskCard';
+import { AgeRangeMonths } from '@/data/instrumentRegistry';
+import { QuestionCategory, SeverityLevel } from '@/utils/scoring';
+
+export type LibraryEntryKind = 'task' | 'intervention';
+
+export interface TaskLibraryEntry {
+  id: string;
+  kind: LibraryEntryKind;
+  title: string;
+  description: string;
+  steps: string[];
+  parentTip?: string;
+  durationMinutes?: number;
+  // Shorter duration for high and very-high severity, where attention spans are shorter
+  highSupportDurationMinutes?: number;
+  // Time of day; required for tasks
+  theme?: TaskTheme;
+  // Domain the entry works on; general entries have none
+  targetDomain?: QuestionCategory;
+  ageRange?: AgeRangeMonths;
+  severities: SeverityLevel[];
+  sortOrder: number;
+  // Clinician who added the entry; built-in entries have none
+  createdBy?: string;
+  archivedAt?: string;
+}
+
+export const ALL_SEVERITIES: SeverityLevel[] = ['low', 'mild', 'moderate', 'high', 'very-high'];
+
+export const DEFAULT_TASK_LIBRARY: TaskLibraryEntry[] = [
+  {
+    id: '44498d00-1c72-5ae4-883e-fa3bd05b2b29',
+    kind: 'task',
+    title: 'Morning Routine',
+    description: 'Complete morning self-care activities',
+    steps: ['Wake up and use the bathroom', 'Brush teeth', 'Get dressed'],
+    parentTip: 'Use visual schedule cards to help guide each step',
+    durationMinutes: 15,
+    theme: 'morning',
+    severities: ALL_SEVERITIES,
+    sortOrder: 10,
+  },
+  {
+    id: 'b4349aee-9542-5e26-940b-4a0683f76137',
+    kind: 'task',
+    title: 'Sensory Break',
+    description: 'Take a calming sensory break',
+    steps: ['Find a quiet spot', 'Choose a sensory tool', 'Rest until calm'],
+    parentTip: 'Offer fidget toys or weighted blanket',
+    durationMinutes: 10,
+    theme: 'morning',
+    targetDomain: 'repetitive-sensory',
+    severities: ALL_SEVERITIES,
+    sortOrder: 20,
+  },
+  {
+    id: '150e2f0e-687e-5771-9f26-4f9c637ef391',
+    kind: 'task',
+    title: 'Learning Activity',
+    description: 'Engage in structured learning',
+    steps: [],
+    parentTip: 'Break into 2-minute segments with rewards',
+    durationMinutes: 20,
+    highSupportDurationMinutes: 8,
+    theme: 'afternoon',
+    targetDomain: 'developmental',
+    severities: ALL_SEVERITIES,
+    sortOrder: 30,
+  },
+  {
+    id: '0aad5dd3-399d-50cb-b71c-b7b4bc9e7c8b',
+    kind: 'task',
+    title: 'Lunch & Nutrition',
+    description: 'Healthy meal time',
+    steps: [],
+    parentTip: 'Introduce new foods gradually',
+    durationMinutes: 30,
+    theme: 'afternoon',
+    severities: ALL_SEVERITIES,
+    sortOrder: 40,
+  },
+  {
+    id: '1e4a7e00-63d3-5983-9821-665f2998db94',
+    kind: 'task',
+    title: 'Social Interaction',
+    description: 'Practice social skills',
+    steps: ['Pick a favourite game', 'Take turns', 'Say what you liked about playing together'],
+    parentTip: 'Start with one-on-one interaction',
+    durationMinutes: 12,
+    theme: 'afternoon',
+    targetDomain: 'social-communication',
+    severities: ALL_SEVERITIES,
+    sortOrder: 50,
+  },
+  {
+    id: 'c6ed41b8-6f56-5485-b810-52b4a90d58ca',
+    kind: 'task',
+    title: 'Physical Activity',
+    description: 'Movement and exercise',
+    steps: [],
+    parentTip: 'Allow for breaks and water as needed',
+    durationMinutes: 15,
+    theme: 'evening',
+    severities: ALL_SEVERITIES,
+    sortOrder: 60,
+  },
+  {
+    id: 'd0636adb-aebb-51a4-adee-3119a011429c',
+    kind: 'task',
+    title: 'Nature Time',
+    description: 'Outdoor relaxation',
+    steps: [],
+    parentTip: 'Let them explore at their own pace',
+    durationMinutes: 20,
+    theme: 'evening',
+    targetDomain: 'repetitive-sensory',
+    severities: ALL_SEVERITIES,
+    sortOrder: 70,
+  },
+  {
+    id: '4d02281b-0341-55f2-8127-4e355f2660db',
+    kind: 'task',
+    title: 'Quiet Time',
+    description: 'Independent relaxation period',
+    steps: [],
+    parentTip: 'Provide calming activities like coloring',
+    durationMinutes: 20,
+    theme: 'evening',
+    severities: ALL_SEVERITIES,
+    sortOrder: 80,
+  },
+  {
+    id: '9ef4a019-4c09-5038-b421-35cb1f692239',
+    kind: 'task',
+    title: 'Bedtime Routine',
+    description: 'Wind down for sleep',
+    steps: [],
+    parentTip: 'Maintain consistent bedtime schedule',
+    durationMinutes: 25,
+    theme: 'night',
+    severities: ALL_SEVERITIES,
+    sortOrder: 90,
+  },
+  {
+    id: '1e29e88c-aa02-5afc-a780-4d8cbaff04ed',
+    kind: 'task',
+    title: 'Story Time',
+    description: 'Calming bedtime story',
+    steps: [],
+    parentTip: 'Use predictable, favorite stories',
+    durationMinutes: 15,
+    theme: 'night',
+    targetDomain: 'social-communication',
+    severities: ALL_SEVERITIES,
+    sortOrder: 100,
+  },
+  {
+    id: 'e0844c61-24f5-5571-a844-034a437b2566',
+    kind: 'intervention',
+    title: 'Continue monitoring development and behaviors regularly',
+    description: '',
+    steps: [],
+    severities: ['low'],
+    sortOrder: 110,
+  },
+  {
+    id: '1aaa348c-3c74-5540-8704-add7cdf590aa',
+    kind: 'intervention',
+    title: 'Maintain supportive environment and consistent routines',
+    description: '',
+    steps: [],
+    severities: ['low'],
+    sortOrder: 120,
+  },
+  {
+    id: '4b34d26b-2a8a-596a-b11e-be33750085a7',
+    kind: 'intervention',
+    title: 'Celebrate strengths and provide positive reinforcement',
+    description: '',
+    steps: [],
+    severities: ['low'],
+    sortOrder: 130,
+  },
+  {
+    id: '4cf500dd-b4df-5e0b-8241-62b9e140ee72',
+    kind: 'intervention',
+    title: 'Schedule a screening with a healthcare provider',
+    description: '',
+    steps: [],
+    severities: ['mild'],
+    sortOrder: 140,
+  },
+  {
+    id: '4b7ea800-9e2e-5d61-a397-315827d52a6e',
+    kind: 'intervention',
+    title: 'Document specific behaviors, patterns, and contexts',
+    description: '',
+    steps: [],
+    severities: ['mild'],
+    sortOrder: 150,
+  },
+  {
+    id: 'a2c68dc7-2820-5c50-8efd-dfe22e643c0e',
+    kind: 'intervention',
+    title: 'Explore supportive resources and early intervention',
+    description: '',
+    steps: [],
+    severities: ['mild'],
+    sortOrder: 160,
+  },
+  {
+    id: 'c9fa7819-60bb-542f-a347-f2d983cae67d',
+    kind: 'intervention',
+    title: 'Maintain open communication with caregivers and educators',
+    description: '',
+    steps: [],
+    severities: ['mild'],
+    sortOrder: 170,
+  },
+  {
+    id: '6366eb31-3051-55c7-94c7-8e8fc9d92786',
+    kind: 'intervention',
+    title: 'Schedule a comprehensive evaluation with a specialist',
+    description: '',
+    steps: [],
+    severities: ['moderate'],
+    sortOrder: 180,
+  },
+  {
+    id: '6267d6a1-25fe-5586-8d47-1f8fd322e2d2',
+    kind: 'intervention',
+    title: 'Consider early intervention services and therapies',
+    description: '',
+    steps: [],
+    severities: ['moderate'],
+    sortOrder: 190,
+  },
+  {
+    id: 'bc0f250a-f76f-5397-ba1f-6405435bf330',
+    kind: 'intervention',
+    title: 'Connect with support groups and community resources',
+    description: '',
+    steps: [],
+    severities: ['moderate'],
+    sortOrder: 200,
+  },
+  {
+    id: '2837263a-49fc-5376-a2d4-bb6c98569aee',
+    kind: 'intervention',
+    title: 'Develop individualized support strategies',
+    description: '',
+    steps: [],
+    severities: ['moderate'],
+    sortOrder: 210,
+  },
+  {
+    id: '22dd2756-cab4-528e-9768-2b1fcd8b68a8',
+    kind: 'intervention',
+    title: 'IMPORTANT: Seek clinical assessment as soon as possible',
+    description: '',
+    steps: [],
+    severities: ['high'],
+    sortOrder: 220,
+  },
+  {
+    id: 'e364e918-53d3-5753-945c-0814be4b54a1',
+    kind: 'intervention',
+    title: 'Contact your healthcare provider immediately',
+    description: '',
+    steps: [],
+    severities: ['high'],
+    sortOrder: 230,
+  },
+  {
+    id: 'c8038bfc-584b-5bee-8c19-e02e71bac9e3',
+    kind: 'intervention',
+    title: 'Consider connecting with an autism specialist',
+    description: '',
+    steps: [],
+    severities: ['high'],
+    sortOrder: 240,
+  },
+  {
+    id: 'f183635a-9060-5e8e-8bc7-2f58b9c6ff21',
+    kind: 'intervention',
+    title: 'Explore comprehensive intervention programs',
+    description: '',
+    steps: [],
+    severities: ['high'],
+    sortOrder: 250,
+  },
+  {
+    id: '4a9e57ae-5a3e-55f8-bdfa-0cc74e5e8197',
+    kind: 'intervention',
+    title: 'Join support networks for families',
+    description: '',
+    steps: [],
+    severities: ['high'],
+    sortOrder: 260,
+  },
+  {
+    id: 'c91091d9-70c0-590a-8c3e-cf4fe92165b5',
+    kind: 'intervention',
+    title: 'URGENT: Schedule immediate clinical assessment',
+    description: '',
+    steps: [],
+    severities: ['very-high'],
+    sortOrder: 270,
+  },
+  {
+    id: '1333b73c-fe31-5e41-84b2-8a407680a5b3',
+    kind: 'intervention',
+    title: 'Contact specialized autism diagnostic centers',
+    description: '',
+    steps: [],
+    severities: ['very-high'],
+    sortOrder: 280,
+  },
+  {
+    id: '82e4f66e-0c3b-51e8-8b28-95e9bf9c914f',
+    kind: 'intervention',
+    title: 'Begin comprehensive intervention planning',
+    description: '',
+    steps: [],
+    severities: ['very-high'],
+    sortOrder: 290,
+  },
+  {
+    id: 'd559aa3d-b268-5952-ae15-fccd6ca60e62',
+    kind: 'intervention',
+    title: 'Establish regular checkup schedule with specialists',
+    description: '',
+    steps: [],
+    severities: ['very-high'],
+    sortOrder: 300,
+  },
+  {
+    id: '7f995b6c-e7d3-5e78-a985-d288bcd4409b',
+    kind: 'intervention',
+    title: 'Access intensive support services',
+    description: '',
+    steps: [],
+    severities: ['very-high'],
+    sortOrder: 310,
+  },
+  {
+    id: '6c375820-411f-5dca-ad19-42f4b0bd077f',
+    kind: 'intervention',
+    title: 'Practise turn-taking and shared-attention games at home',
+    description: '',
+    steps: ['Roll a ball back and forth', 'Point out things you both can see', 'Pause and wait for a response'],
+    parentTip: 'Keep sessions short and follow their interests',
+    targetDomain: 'social-communication',
+    severities: ['mild', 'moderate', 'high', 'very-high'],
+    sortOrder: 320,
+  },
+  {
+    id: 'a1fdb223-18f2-5627-a69c-ac65d74d3855',
+    kind: 'intervention',
+    title: 'Ask about a speech and language therapy referral',
+    description: '',
+    steps: [],
+    targetDomain: 'social-communication',
+    severities: ['moderate', 'high', 'very-high'],
+    sortOrder: 330,
+  },
+  {
+    id: '35020108-7ae6-594c-ba21-d47e6ba4c1ad',
+    kind: 'intervention',
+    title: 'Set up a low-stimulation sensory space at home',
+    description: '',
+    steps: ['Choose a quiet corner', 'Add soft lighting and headphones', 'Keep favourite sensory items there'],
+    targetDomain: 'repetitive-sensory',
+    severities: ['mild', 'moderate', 'high', 'very-high'],
+    sortOrder: 340,
+  },
+  {
+    id: 'c405553a-c41e-5b3b-8996-b96d49b46aa6',
+    kind: 'intervention',
+    title: 'Ask about an occupational therapy assessment for sensory needs',
+    description: '',
+    steps: [],
+    targetDomain: 'repetitive-sensory',
+    severities: ['moderate', 'high', 'very-high'],
+    sortOrder: 350,
+  },
+  {
+    id: '373dd1b4-9e8a-540c-864a-a510637aa04e',
+    kind: 'intervention',
+    title: 'Request a developmental review of milestones with your paediatrician',
+    description: '',
+    steps: [],
+    targetDomain: 'developmental',
+    ageRange: { minMonths: 0, maxMonths: 144 },
+    severities: ['mild', 'moderate', 'high', 'very-high'],
+    sortOrder: 360,
+  },
+  {
+    id: 'a32f3025-2245-59ae-b455-b0f569a03e04',
+    kind: 'intervention',
+    title: 'Enquire about early intervention programmes for young children',
+    description: '',
+    steps: [],
+    targetDomain: 'developmental',
+    ageRange: { minMonths: 0, maxMonths: 72 },
+    severities: ['moderate', 'high', 'very-high'],
+    sortOrder: 370,
+  },
+];
@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Tables } from '@/integrations/supabase/types';
+import { AppointmentMode, AppointmentRequest, AppointmentStatus } from '@shared/appointments';
+import { zonedTimeToUtc } from '@shared/reminders';
+import { getBrowserTimeZone } from './useReminders';
+
+export interface AvailabilitySlot {
+  id: string;
+  clinicianId: string;
+  clinicianName: string;
+  startsAt: string;
+  endsAt: string;
+  mode: AppointmentMode;
+  location: string | null;
+}
+
+export interface Appointment {
+  id: string;
+  slotId: string | null;
+  clinicianId: string;
+  clinicianName: string;
+  patientId: string;
+  startsAt: string;
+  endsAt: string;
+  mode: AppointmentMode;
+  location: string | null;
+  reason: string | null;
+  status: AppointmentStatus;
+  cancellationReason: string | null;
+  // True when the signed-in user is the clinician rather than the booker
+  asClinician: boolean;
+}
+
+export interface SlotInput {
+  // Local to the browser's time zone
+  date: string;
+  time: string;
+  durationMinutes: number;
+  mode: AppointmentMode;
+  location?: string;
+}
+
+function rowToSlot(row: Tables<'clinician_availability'>): AvailabilitySlot {
+  return {
+    id: row.id,
+    clinicianId: row.clinician_id,
+    clinicianName: row.clinician_name,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    mode: row.mode as AppointmentMode,
+    location: row.location,
+  };
+}
+
+// Booking, rescheduling and cancelling go through the edge function, which
+// notifies both sides. Refusals come back as a JSON body with an error message.
+async function manageAppointment(request: AppointmentRequest) {
+  const { error } = await supabase.functions.invoke('manage-appointment', { body: request });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+}
+
+// Upcoming appointments the user booked or, as a clinician, holds; plus the
+// clinician's own availability
+export function useAppointments(user: User | null, isClinician: boolean) {
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [ownSlots, setOwnSlots] = useState<AvailabilitySlot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const fetchAppointments = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const now = new Date().toISOString();
+      const [appointmentsResult, slotsResult] = await Promise.all([
+        supabase
+          .from('appointments')
+          .select('*')
+          .or(`booked_by.eq.${userId},clinician_id.eq.${userId}`)
+          .gte('ends_at', now)
+          .order('starts_at', { ascending: true }),
+        isClinician
+          ? supabase
+            .from('clinician_availability')
+            .select('*')
+            .eq('clinician_id', userId)
+            .gte('starts_at', now)
+            .order('starts_at', { ascending: true })
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (appointmentsResult.error) throw appointmentsResult.error;
+      if (slotsResult.error) throw slotsResult.error;
+
+      setAppointments((appointmentsResult.data || []).map((row) => ({
+        id: row.id,
+        slotId: row.slot_id,
+        clinicianId: row.clinician_id,
+        clinicianName: row.clinician_name,
+        patientId: row.patient_id,
+        startsAt: row.starts_at,
+        endsAt: row.ends_at,
+        mode: row.mode as AppointmentMode,
+        location: row.location,
+        reason: row.reason,
+        status: row.status as AppointmentStatus,
+        cancellationReason: row.cancellation_reason,
+        asClinician: row.clinician_id === userId,
+      })));
+      setOwnSlots((slotsResult.data || []).map(rowToSlot));
+    } catch (err) {
+      console.error('Error fetching appointments:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, isClinician]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchAppointments();
+    } else {
+      setAppointments([]);
+      setOwnSlots([]);
+      setLoading(false);
+    }
+  }, [userId, fetchAppointments]);
+
+  // Slots open for booking, from every clinician but the user
+  const fetchOpenSlots = useCallback(async (): Promise<AvailabilitySlot[]> => {
+    if (!userId) return [];
+
+    try {
+      const { data, error } = await supabase.rpc('get_open_availability');
+      if (error) throw error;
+      return (data || []).filter((row) => row.clinician_id !== userId).map(rowToSlot);
+    } catch (err) {
+      console.error('Error fetching open availability:', err);
+      return [];
+    }
+  }, [userId]);
+
+  const addSlot = async (input: SlotInput, clinicianName: string) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const timezone = getBrowserTimeZone();
+    const startsAt = zonedTimeToUtc(input.date, input.time, timezone);
+    if (startsAt <= new Date()) return { success: false, error: 'Choose a time in the future' };
+    const endsAt = new Date(startsAt.getTime() + input.durationMinutes * 60 * 1000);
+
+    try {
+      const { data, error } = await supabase
+        .from('clinician_availability')
+        .insert({
+          clinician_id: user.id,
+          clinician_name: clinicianName,
+          starts_at: startsAt.toISOString(),
+          ends_at: endsAt.toISOString(),
+          mode: input.mode,
+          location: input.location?.trim() || null,
+          timezone,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setOwnSlots((prev) => [...prev, rowToSlot(data)].sort((a, b) => a.startsAt.localeCompare(b.startsAt)));
+      return { success: true };
+    } catch (err) {
+      console.error('Error adding availability:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const deleteSlot = async (id: string) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    try {
+      const { data, error } = await supabase
+        .from('clinician_availability')
+        .delete()
+        .eq('id', id)
+        .eq('clinician_id', user.id)
+        .select('id');
+
+      if (error) throw error;
+      // RLS keeps booked slots, so nothing is deleted
+      if (!data || data.length === 0) {
+        return { success: false, error: 'This time is booked. Cancel or move the appointment first.' };
+      }
+      setOwnSlots((prev) => prev.filter((slot) => slot.id !== id));
+      return { success: true };
+    } catch (err) {
+      console.error('Error deleting availability:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const runAction = async (request: AppointmentRequest) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    try {
+      await manageAppointment(request);
+      await fetchAppointments();
+      return { success: true };
+    } catch (err) {
+      console.error(`Error with appointment ${request.action}:`, err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  return {
+    appointments,
+    ownSlots,
+    loading,
+    fetchOpenSlots,
+    addSlot,
+    deleteSlot,
+    bookAppointment: (slotId: string, patientId: string, reason?: string) =>
+      runAction({ action: 'book', slotId, patientId, reason, timezone: getBrowserTimeZone() }),
+    rescheduleAppointment: (appointmentId: string, slotId: string) =>
+      runAction({ action: 'reschedule', appointmentId, slotId }),
+    cancelAppointment: (appointmentId: string, reason?: string) =>
+      runAction({ action: 'cancel', appointmentId, reason }),
+    refetch: fetchAppointments,
+  };
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { User } from '@supabase/supabase-js';
+import { InstrumentRef } from '@/data/instrumentRegistry';
+
+// In-progress questionnaire state, restored by Questionnaire on resume
+export interface QuestionnaireDraft {
+  currentStepId: string;
+  answers: Record<string, string>;
+  selectedInstrumentIds: string[];
+  // Role-specific metadata step values, including any uploaded video reference
+  metadata: Record<string, unknown>;
+  videoUrl?: string | null;
+}
+
+export interface AssessmentDraft extends QuestionnaireDraft {
+  role: 'individual' | 'parent' | 'clinician';
+  patientId: string;
+  instrument: InstrumentRef | null;
+  updatedAt: string;
+}
+
+// Remote saves are batched so every answer click doesn't hit Supabase
+const REMOTE_SAVE_DELAY_MS = 1500;
+
+const getStorageKey = (userId: string) => `auticare_assessment_draft_${userId}`;
+
+function readLocalDraft(userId: string): AssessmentDraft | null {
+  const stored = localStorage.getItem(getStorageKey(userId));
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to parse assessment draft', e);
+    return null;
+  }
+}
+
+export function useAssessmentDraft(user: User | null) {
+  const [draft, setDraft] = useState<AssessmentDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Latest unsynced draft with its owner, so a save flushed on unmount needs no render state
+  const pendingDraft = useRef<{ userId: string; draft: AssessmentDraft } | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const userId = user?.id;
+
+  const fetchDraft = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    const localDraft = readLocalDraft(userId);
+    let remoteDraft: AssessmentDraft | null = null;
+
+    try {
+      const { data, error } = await supabase
+        .from('assessment_drafts')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching assessment draft:', error);
+      }
+
+      if (data) {
+        remoteDraft = {
+          role: data.role as AssessmentDraft['role'],
+          patientId: data.patient_id,
+          instrument: data.instrument_id
+            ? { id: data.instrument_id, version: data.instrument_version || '' }
+            : null,
+          currentStepId: data.current_step_id,
+          answers: (data.answers as Record<string, string>) || {},
+          selectedInstrumentIds: data.selected_instrument_ids || [],
+          metadata: (data.metadata as Record<string, unknown>) || {},
+          videoUrl: data.video_url,
+          updatedAt: data.updated_at,
+        };
+      }
+    } catch (err) {
+      console.error('Error:', err);
+    } finally {
+      // Whichever copy was written last wins (the local one may not have synced yet)
+      if (localDraft && remoteDraft) {
+        setDraft(new Date(localDraft.updatedAt) >= new Date(remoteDraft.updatedAt) ? localDraft : remoteDraft);
+      } else {
+        setDraft(localDraft || remoteDraft);
+      }
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchDraft();
+    } else {
+      setDraft(null);
+      setLoading(false);
+    }
+  }, [userId, fetchDraft]);
+
+  // Flush a pending remote save when the hook unmounts
+  useEffect(() => {
+    return () => {
+      if (saveTimer.current) {
+        clearTimeout(saveTimer.current);
+        flushRemoteSave();
+      }
+    };
+  }, []);
+
+  const flushRemoteSave = async () => {
+    saveTimer.current = null;
+    const pending = pendingDraft.current;
+    pendingDraft.current = null;
+    if (!pending) return;
+
+    const toSave = pending.draft;
+    const { error } = await supabase
+      .from('assessment_drafts')
+      .upsert({
+        user_id: pending.userId,
+        role: toSave.role,
+        patient_id: toSave.patientId,
+        instrument_id: toSave.instrument?.id ?? null,
+        instrument_version: toSave.instrument?.version ?? null,
+        current_step_id: toSave.currentStepId,
+        answers: toSave.answers,
+        metadata: toSave.metadata as Json,
+        selected_instrument_ids: toSave.selectedInstrumentIds,
+        video_url: toSave.videoUrl ?? null,
+        updated_at: toSave.updatedAt,
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving assessment draft:', error);
+    }
+  };
+
+  // Save locally straight away and to Supabase after a short pause
+  const saveDraft = (values: Omit<AssessmentDraft, 'updatedAt'>) => {
+    if (!user) return;
+
+    const next: AssessmentDraft = { ...values, updatedAt: new Date().toISOString() };
+    localStorage.setItem(getStorageKey(user.id), JSON.stringify(next));
+    pendingDraft.current = { userId: user.id, draft: next };
+
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(flushRemoteSave, REMOTE_SAVE_DELAY_MS);
+  };
+
+  const clearDraft = async () => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = null;
+    pendingDraft.current = null;
+    localStorage.removeItem(getStorageKey(user.id));
+    setDraft(null);
+
+    try {
+      const { error } = await supabase
+        .from('assessment_drafts')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (err) {
+      console.error('Error clearing assessment draft:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  return {
+    draft,
+    loading,
+    saveDraft,
+    clearDraft,
+  };
+}
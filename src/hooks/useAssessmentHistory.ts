@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { InstrumentRef } from '@/data/instrumentRegistry';
+import { ClinicianInput } from '@/data/questionBanks';
+import { ClinicianReview, DomainScores, ScoringResult, SeverityLevel } from '@/utils/scoring';
+import { applyClinicianReview, rebuildScoringResult } from '@/utils/storedResult';
+
+// With its clinician sign-off, once there is one
+export type AssessmentHistoryEntry = Tables<'assessment_history'> & {
+  assessment_reviews: Tables<'assessment_reviews'> | null;
+};
+
+// Where an answer came from: typed in, pre-filled from an uploaded spreadsheet,
+// or copied from a stored patient report
+export type AnswerSource = 'manual' | 'excel' | 'report';
+
+export interface NewHistoryEntry {
+  patientId: string;
+  role: 'individual' | 'parent' | 'clinician';
+  result: ScoringResult;
+  modelScore?: number | null;
+  videoUrl?: string | null;
+  metadata?: Record<string, unknown> | null;
+  // Kept with the entry so the full result can be rebuilt later
+  answers?: Record<string, string>;
+  answerSources?: Record<string, AnswerSource>;
+  instrument?: InstrumentRef;
+}
+
+export function rowToReview(row: Tables<'assessment_reviews'>): ClinicianReview {
+  return {
+    reviewerName: row.reviewer_name,
+    signedAt: row.signed_at,
+    computedScore: row.computed_score,
+    computedSeverity: row.computed_severity as SeverityLevel,
+    finalSeverity: row.final_severity as SeverityLevel,
+    overrideReason: row.override_reason,
+    notes: row.notes,
+    annotations: (row.annotations as Record<string, string>) || {},
+  };
+}
+
+// Full scoring result for a history entry, recomputed from its saved answers when
+// present, with the clinician's signed severity once reviewed
+export function getHistoryEntryResult(entry: AssessmentHistoryEntry) {
+  const metadata = (entry.metadata as Record<string, unknown> | null) || {};
+  const rebuilt = rebuildScoringResult({
+    role: entry.role as NewHistoryEntry['role'],
+    instrument: { id: entry.instrument_id, version: entry.instrument_version },
+    answers: metadata.answers as Record<string, string> | undefined,
+    questionnaireScore: entry.questionnaire_score,
+    modelScore: entry.ml_score,
+    fusedScore: entry.fused_score,
+    domainScores: entry.domain_scores as DomainScores | null,
+    clinicianInput: metadata.clinicianInput as ClinicianInput | undefined,
+    videoPrediction: metadata.videoPrediction,
+  });
+  if (!entry.assessment_reviews) return rebuilt;
+  return {
+    ...rebuilt,
+    result: applyClinicianReview(rebuilt.result, rowToReview(entry.assessment_reviews), rebuilt.instrument),
+  };
+}
+
+// Completed assessments for the signed-in user, optionally narrowed to one patient ID
+export function useAssessmentHistory(user: User | null, patientId?: string | null) {
+  const [entries, setEntries] = useState<AssessmentHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const userId = user?.id;
+
+  const fetchHistory = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('assessment_history')
+        .select('*, assessment_reviews(*)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (patientId) {
+        query = query.eq('patient_id', patientId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (err) {
+      console.error('Error fetching assessment history:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, patientId]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchHistory();
+    } else {
+      setEntries([]);
+    }
+  }, [userId, fetchHistory]);
+
+  const addEntry = async (entry: NewHistoryEntry) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const { result } = entry;
+    try {
+      const { data, error } = await supabase
+        .from('assessment_history')
+        .insert({
+          user_id: user.id,
+          patient_id: entry.patientId,
+          role: entry.role,
+          questionnaire_score: Math.round(result.normalizedScore),
+          ml_score: entry.modelScore != null ? Math.round(entry.modelScore) : null,
+          fused_score: Math.round(result.fusedScore ?? result.normalizedScore),
+          severity: result.severity,
+          domain_scores: (result.domainScores || null) as Json,
+          video_url: entry.videoUrl || null,
+          metadata: (entry.answers
+            ? { ...entry.metadata, answers: entry.answers, answerSources: entry.answerSources }
+            : entry.metadata || null) as Json,
+          instrument_id: entry.instrument?.id ?? null,
+          instrument_version: entry.instrument?.version ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (!patientId || patientId === entry.patientId) {
+        setEntries((prev) => [{ ...data, assessment_reviews: null }, ...prev]);
+      }
+      return { success: true, id: data.id };
+    } catch (err) {
+      console.error('Error saving assessment history:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  return {
+    entries,
+    loading,
+    addEntry,
+    refetch: fetchHistory,
+  };
+}
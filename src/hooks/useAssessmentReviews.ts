@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { SeverityLevel } from '@/utils/scoring';
+import { AssessmentHistoryEntry } from './useAssessmentHistory';
+
+export interface ReviewSignOff {
+  finalSeverity: SeverityLevel;
+  overrideReason?: string;
+  notes?: string;
+  annotations: Record<string, string>;
+}
+
+// Assessments waiting for the clinician's sign-off, oldest first. RLS limits
+// them to families who booked with the clinician, plus the clinician's own,
+// which someone else has to sign off.
+export function useAssessmentReviews(user: User | null) {
+  const [queue, setQueue] = useState<AssessmentHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const fetchQueue = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('assessment_history')
+        .select('*, assessment_reviews(*)')
+        .eq('review_status', 'pending')
+        .neq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setQueue(data || []);
+    } catch (err) {
+      console.error('Error fetching review queue:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchQueue();
+    } else {
+      setQueue([]);
+      setLoading(false);
+    }
+  }, [userId, fetchQueue]);
+
+  // A sign-off can't be changed afterwards; the database refuses updates
+  const signOff = async (entry: AssessmentHistoryEntry, signOffInput: ReviewSignOff, reviewerName: string) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const overrideReason = signOffInput.overrideReason?.trim() || null;
+    if (signOffInput.finalSeverity !== entry.severity && !overrideReason) {
+      return { success: false, error: 'Give a reason for changing the severity' };
+    }
+
+    try {
+      const annotations = Object.fromEntries(
+        Object.entries(signOffInput.annotations)
+          .map(([questionId, note]) => [questionId, note.trim()])
+          .filter(([, note]) => note)
+      );
+      const { error } = await supabase
+        .from('assessment_reviews')
+        .insert({
+          assessment_id: entry.id,
+          reviewer_id: user.id,
+          reviewer_name: reviewerName,
+          // The database copies these from the assessment itself
+          computed_score: entry.fused_score,
+          computed_severity: entry.severity,
+          final_severity: signOffInput.finalSeverity,
+          override_reason: signOffInput.finalSeverity !== entry.severity ? overrideReason : null,
+          notes: signOffInput.notes?.trim() || null,
+          annotations,
+        });
+
+      if (error) {
+        // Unique assessment_id: another reviewer signed it off first
+        if (error.code === '23505') {
+          setQueue((prev) => prev.filter((e) => e.id !== entry.id));
+          return { success: false, error: 'This assessment has already been signed off' };
+        }
+        throw error;
+      }
+
+      setQueue((prev) => prev.filter((e) => e.id !== entry.id));
+      return { success: true };
+    } catch (err) {
+      console.error('Error signing off assessment:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  return {
+    queue,
+    loading,
+    signOff,
+    refetch: fetchQueue,
+  };
+}
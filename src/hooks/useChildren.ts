@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Tables } from '@/integrations/supabase/types';
+import { ParentMetadata } from '@/data/questionBanks';
+
+export type Child = Tables<'children'>;
+
+// Child profile in the shape the questionnaire and dashboard use
+export function childToMetadata(child: Child): ParentMetadata {
+  return {
+    childName: child.child_name,
+    childAge: child.child_age || '',
+    pronouns: child.pronouns || '',
+    homeLanguage: child.home_language || '',
+    schoolType: child.school_type || '',
+    diagnosedConditions: child.diagnosed_conditions || [],
+  };
+}
+
+// Children on a parent account, each identified by their own patient ID
+export function useChildren(user: User | null) {
+  const [children, setChildren] = useState<Child[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const fetchChildren = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('children')
+        .select('*')
+        .eq('parent_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setChildren(data || []);
+    } catch (err) {
+      console.error('Error fetching children:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchChildren();
+    } else {
+      setChildren([]);
+      setLoading(false);
+    }
+  }, [userId, fetchChildren]);
+
+  // Create or update the child with this patient ID from questionnaire metadata
+  const saveChild = async (patientCode: string, metadata: ParentMetadata) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    try {
+      const { data, error } = await supabase
+        .from('children')
+        .upsert({
+          parent_id: user.id,
+          patient_code: patientCode,
+          child_name: metadata.childName || 'Child',
+          child_age: metadata.childAge || null,
+          pronouns: metadata.pronouns || null,
+          home_language: metadata.homeLanguage || null,
+          school_type: metadata.schoolType || null,
+          diagnosed_conditions: metadata.diagnosedConditions || [],
+        }, { onConflict: 'parent_id,patient_code' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setChildren((prev) => {
+        const exists = prev.some((c) => c.patient_code === patientCode);
+        return exists ? prev.map((c) => (c.patient_code === patientCode ? data : c)) : [...prev, data];
+      });
+      return { success: true, child: data };
+    } catch (err) {
+      console.error('Error saving child:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const clearChildren = async () => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    try {
+      const { error } = await supabase
+        .from('children')
+        .delete()
+        .eq('parent_id', user.id);
+
+      if (error) throw error;
+
+      setChildren([]);
+      return { success: true };
+    } catch (err) {
+      console.error('Error clearing children:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  return {
+    children,
+    loading,
+    saveChild,
+    clearChildren,
+    refetch: fetchChildren,
+  };
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Json, Tables } from '@/integrations/supabase/types';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  NotificationType,
+  TypePreference,
+  withDefaultTypes,
+} from '@shared/notificationPreferences';
+import { EmailLocale } from '@shared/email/locales';
+import { getBrowserTimeZone } from './useReminders';
+
+function getDefaultPreferences(): NotificationPreferences {
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, timezone: getBrowserTimeZone() };
+}
+
+function rowToPreferences(row: Tables<'notification_preferences'>): NotificationPreferences {
+  return {
+    types: withDefaultTypes(row.types as unknown as Partial<Record<NotificationType, TypePreference>>),
+    quietHours: { enabled: row.quiet_hours_enabled, start: row.quiet_hours_start, end: row.quiet_hours_end },
+    timezone: row.timezone,
+    digestTime: row.digest_time,
+    digestWeekday: row.digest_weekday,
+    emailLocale: row.email_locale as EmailLocale | null,
+  };
+}
+
+// The signed-in user's notification preferences; defaults until first saved
+export function useNotificationPreferences(user: User | null) {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(getDefaultPreferences);
+  const [saved, setSaved] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const fetchPreferences = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setPreferences(data ? rowToPreferences(data) : getDefaultPreferences());
+      setSaved(!!data);
+    } catch (err) {
+      console.error('Error fetching notification preferences:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchPreferences();
+    } else {
+      setPreferences(getDefaultPreferences());
+      setSaved(false);
+      setLoading(false);
+    }
+  }, [userId, fetchPreferences]);
+
+  const savePreferences = async (next: NotificationPreferences) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .upsert(
+          {
+            user_id: user.id,
+            types: next.types as unknown as Json,
+            quiet_hours_enabled: next.quietHours.enabled,
+            quiet_hours_start: next.quietHours.start,
+            quiet_hours_end: next.quietHours.end,
+            timezone: next.timezone,
+            digest_time: next.digestTime,
+            digest_weekday: next.digestWeekday,
+            email_locale: next.emailLocale,
+          },
+          { onConflict: 'user_id' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      setPreferences(rowToPreferences(data));
+      setSaved(true);
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving notification preferences:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  return {
+    preferences,
+    // False until the user first saves, while the defaults apply
+    saved,
+    loading,
+    savePreferences,
+    refetch: fetchPreferences,
+  };
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { NotificationType } from '@shared/notificationPreferences';
+
+// Older notifications stay in the table but aren't loaded into the inbox
+const INBOX_LIMIT = 50;
+
+export interface InAppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// The in-app notification inbox
+export function useNotifications(user: User | null) {
+  const [notifications, setNotifications] = useState<InAppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(INBOX_LIMIT);
+
+      if (error) throw error;
+      setNotifications((data || []).map((row) => ({
+        id: row.id,
+        type: row.notification_type as NotificationType,
+        title: row.title,
+        body: row.body,
+        readAt: row.read_at,
+        createdAt: row.created_at,
+      })));
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchNotifications();
+    } else {
+      setNotifications([]);
+      setLoading(false);
+    }
+  }, [userId, fetchNotifications]);
+
+  const markAllRead = async () => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const unreadIds = notifications.filter((n) => !n.readAt).map((n) => n.id);
+    if (unreadIds.length === 0) return { success: true };
+
+    const previous = notifications;
+    const readAt = new Date().toISOString();
+    setNotifications(notifications.map((n) => (n.readAt ? n : { ...n, readAt })));
+
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .in('id', unreadIds)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+      setNotifications(previous);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const deleteNotification = async (id: string) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const previous = notifications;
+    setNotifications(notifications.filter((n) => n.id !== id));
+
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (err) {
+      console.error('Error deleting notification:', err);
+      setNotifications(previous);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.readAt).length,
+    loading,
+    markAllRead,
+    deleteNotification,
+    refetch: fetchNotifications,
+  };
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Patient = Tables<'patients'>;
+
+export interface PatientInput {
+  patientCode: string;
+  fullName: string;
+  ageRange?: string;
+  pronoun?: string;
+  homeLanguage?: string;
+  notes?: string;
+}
+
+// Patient roster for a clinician account; RLS limits rows to the signed-in clinician
+export function usePatients(user: User | null) {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const fetchPatients = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('patients')
+        .select('*')
+        .eq('clinician_id', userId)
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      setPatients(data || []);
+    } catch (err) {
+      console.error('Error fetching patients:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchPatients();
+    } else {
+      setPatients([]);
+      setLoading(false);
+    }
+  }, [userId, fetchPatients]);
+
+  const createPatient = async (input: PatientInput) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    try {
+      const { data, error } = await supabase
+        .from('patients')
+        .insert({
+          clinician_id: user.id,
+          patient_code: input.patientCode.trim().toUpperCase(),
+          full_name: input.fullName.trim(),
+          age_range: input.ageRange || null,
+          pronoun: input.pronoun || null,
+          home_language: input.homeLanguage || null,
+          notes: input.notes || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Unique (clinician_id, patient_code) violation
+        if (error.code === '23505') {
+          return { success: false, error: 'A patient with this ID already exists' };
+        }
+        throw error;
+      }
+
+      setPatients((prev) => [...prev, data].sort((a, b) => a.full_name.localeCompare(b.full_name)));
+      return { success: true, patient: data };
+    } catch (err) {
+      console.error('Error creating patient:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const setArchived = async (patientId: string, archived: boolean) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    try {
+      const archivedAt = archived ? new Date().toISOString() : null;
+      const { error } = await supabase
+        .from('patients')
+        .update({ archived_at: archivedAt })
+        .eq('id', patientId)
+        .eq('clinician_id', user.id);
+
+      if (error) throw error;
+
+      setPatients((prev) => prev.map((p) => (p.id === patientId ? { ...p, archived_at: archivedAt } : p)));
+      return { success: true };
+    } catch (err) {
+      console.error('Error archiving patient:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  // Case-insensitive match on name or patient ID
+  const searchPatients = (query: string, includeArchived = false) => {
+    const q = query.trim().toLowerCase();
+    return patients.filter((p) => {
+      if (!includeArchived && p.archived_at) return false;
+      if (!q) return true;
+      return p.full_name.toLowerCase().includes(q) || p.patient_code.toLowerCase().includes(q);
+    });
+  };
+
+  return {
+    patients,
+    loading,
+    createPatient,
+    archivePatient: (patientId: string) => setArchived(patientId, true),
+    restorePatient: (patientId: string) => setArchived(patientId, false),
+    searchPatients,
+    refetch: fetchPatients,
+  };
+}
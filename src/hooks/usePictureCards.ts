@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { getPictureCard, suggestPictureCard } from '@/data/pictureCards';
+import { PlanTask } from '@/utils/taskPlan';
+
+const PHOTO_BUCKET = 'schedule-photos';
+// Signed photo URLs are refreshed on every fetch, so an hour covers a session
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+export interface PicturePhoto {
+  id: string;
+  label: string;
+  storagePath: string;
+  url: string;
+}
+
+// What a card shows: a bundled pictogram or an uploaded photo
+export interface ResolvedPicture {
+  ref: string;
+  label: string;
+  src: string;
+}
+
+// Card choices are kept per routine rather than per day, so they carry across plans
+export function getTaskCardKey(task: Pick<PlanTask, 'templateId' | 'title'>): string {
+  return task.templateId || task.title.trim().toLowerCase();
+}
+
+// Uploaded photos and chosen picture cards for one patient's visual schedule
+export function usePictureCards(user: User | null, patientId: string | undefined) {
+  const [photos, setPhotos] = useState<PicturePhoto[]>([]);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const fetchPictureCards = useCallback(async () => {
+    if (!userId || !patientId) return;
+
+    setLoading(true);
+    try {
+      const [{ data: photoRows, error: photoError }, { data: choiceRows, error: choiceError }] = await Promise.all([
+        supabase
+          .from('picture_card_photos')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('patient_id', patientId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('picture_card_choices')
+          .select('task_key, card_ref')
+          .eq('user_id', userId)
+          .eq('patient_id', patientId),
+      ]);
+
+      if (photoError) throw photoError;
+      if (choiceError) throw choiceError;
+
+      let urls: Record<string, string> = {};
+      if (photoRows && photoRows.length > 0) {
+        const { data: signed, error: signError } = await supabase.storage
+          .from(PHOTO_BUCKET)
+          .createSignedUrls(photoRows.map((row) => row.storage_path), PHOTO_URL_TTL_SECONDS);
+        if (signError) throw signError;
+        urls = Object.fromEntries((signed || []).map((item) => [item.path, item.signedUrl]));
+      }
+
+      setPhotos((photoRows || []).map((row) => ({
+        id: row.id,
+        label: row.label,
+        storagePath: row.storage_path,
+        url: urls[row.storage_path] || '',
+      })));
+      setChoices(Object.fromEntries((choiceRows || []).map((row) => [row.task_key, row.card_ref])));
+    } catch (err) {
+      console.error('Error fetching picture cards:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, patientId]);
+
+  useEffect(() => {
+    if (userId && patientId) {
+      fetchPictureCards();
+    } else {
+      setPhotos([]);
+      setChoices({});
+      setLoading(false);
+    }
+  }, [userId, patientId, fetchPictureCards]);
+
+  const uploadPhoto = async (file: File, label: string) => {
+    if (!user || !patientId) return { success: false, error: 'Not authenticated' };
+
+    try {
+      const fileExt = file.name.split('.').pop();
+      const storagePath = `${user.id}/${patientId}/${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(storagePath, file);
+      if (uploadError) throw uploadError;
+
+      const { data, error } = await supabase
+        .from('picture_card_photos')
+        .insert({ user_id: user.id, patient_id: patientId, label, storage_path: storagePath })
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { data: signed } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .createSignedUrl(storagePath, PHOTO_URL_TTL_SECONDS);
+
+      const photo: PicturePhoto = { id: data.id, label: data.label, storagePath, url: signed?.signedUrl || '' };
+      setPhotos((prev) => [...prev, photo]);
+      return { success: true, photo };
+    } catch (err) {
+      console.error('Error uploading picture card photo:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const deletePhoto = async (photoId: string) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const photo = photos.find((p) => p.id === photoId);
+    if (!photo) return { success: false, error: 'Photo not found' };
+
+    try {
+      const { error } = await supabase
+        .from('picture_card_photos')
+        .delete()
+        .eq('id', photoId)
+        .eq('user_id', user.id);
+      if (error) throw error;
+
+      await supabase.storage.from(PHOTO_BUCKET).remove([photo.storagePath]);
+
+      setPhotos((prev) => prev.filter((p) => p.id !== photoId));
+      return { success: true };
+    } catch (err) {
+      console.error('Error deleting picture card photo:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const chooseCard = async (task: Pick<PlanTask, 'templateId' | 'title'>, cardRef: string) => {
+    if (!user || !patientId) return { success: false, error: 'Not authenticated' };
+
+    const taskKey = getTaskCardKey(task);
+    const previous = choices;
+    setChoices({ ...choices, [taskKey]: cardRef });
+
+    try {
+      const { error } = await supabase
+        .from('picture_card_choices')
+        .upsert(
+          { user_id: user.id, patient_id: patientId, task_key: taskKey, card_ref: cardRef },
+          { onConflict: 'user_id,patient_id,task_key' }
+        );
+      if (error) throw error;
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving picture card choice:', err);
+      setChoices(previous);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  // The chosen card for a task, or the best bundled match when none was chosen
+  // (or the chosen photo has since been deleted)
+  const getTaskPicture = (task: PlanTask): ResolvedPicture => {
+    const [type, id] = (choices[getTaskCardKey(task)] || '').split(':');
+    if (type === 'photo') {
+      const photo = photos.find((p) => p.id === id);
+      if (photo) return { ref: `photo:${photo.id}`, label: photo.label, src: photo.url };
+    } else if (type === 'icon') {
+      const card = getPictureCard(id);
+      if (card) return { ref: `icon:${card.id}`, label: card.label, src: card.src };
+    }
+
+    const suggested = suggestPictureCard(task.title, task.theme);
+    return { ref: `icon:${suggested.id}`, label: suggested.label, src: suggested.src };
+  };
+
+  return {
+    photos,
+    loading,
+    uploadPhoto,
+    deletePhoto,
+    chooseCard,
+    getTaskPicture,
+    refetch: fetchPictureCards,
+  };
+}
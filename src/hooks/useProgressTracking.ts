@@ -1,5 +1,11 @@
-import { useState, useEffect } from 'react';
-import { ScoringResult } from '@/utils/scoring';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { DomainScores, ScoringResult } from '@/utils/scoring';
+import { useAssessmentHistory, AssessmentHistoryEntry } from '@/hooks/useAssessmentHistory';
+import { resolveInstrument } from '@/data/instrumentRegistry';
+import { analyzeTrend, TrendAnalysis } from '@/utils/trendAnalysis';
+import { buildLegacyHistoryRows } from '@/utils/legacyProgress';
 
 export interface ProgressEntry {
   date: string;
@@ -7,61 +13,111 @@ export interface ProgressEntry {
   severity: ScoringResult['severity'];
   role: 'individual' | 'parent' | 'clinician';
   timestamp: number;
+  domainScores?: DomainScores;
 }
 
-export function useProgressTracking() {
-  const [history, setHistory] = useState<ProgressEntry[]>([]);
+// Progress used to live in localStorage, first unkeyed and then per patient ID
+const LEGACY_STORAGE_KEY = 'auticare_progress_history';
 
-  useEffect(() => {
-    const stored = localStorage.getItem('auticare_progress_history');
-    if (stored) {
-      try {
-        setHistory(JSON.parse(stored));
-      } catch (e) {
-        console.error('Failed to parse progress history', e);
+function readLegacyEntries(key: string): ProgressEntry[] {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to parse progress history', e);
+    return [];
+  }
+}
+
+function toProgressEntry(entry: AssessmentHistoryEntry): ProgressEntry {
+  const createdAt = new Date(entry.created_at);
+  return {
+    date: createdAt.toLocaleDateString(),
+    score: entry.fused_score,
+    // A clinician's signed severity replaces the computed one
+    severity: (entry.assessment_reviews?.final_severity ?? entry.severity) as ProgressEntry['severity'],
+    role: entry.role as ProgressEntry['role'],
+    timestamp: createdAt.getTime(),
+    domainScores: (entry.domain_scores as DomainScores | null) || undefined,
+  };
+}
+
+// Score trend for a patient, read from assessment_history
+export function useProgressTracking(user: User | null, patientId?: string) {
+  const { entries, loading, refetch } = useAssessmentHistory(user, patientId);
+  const migratedFor = useRef<string | null>(null);
+
+  // History is fetched newest first; charts read it oldest first
+  const history = useMemo(() => entries.map(toProgressEntry).reverse(), [entries]);
+
+  const userId = user?.id;
+
+  const migrateLocalHistory = useCallback(async () => {
+    if (!userId || !patientId) return;
+
+    const keys = [`${LEGACY_STORAGE_KEY}_${patientId}`, LEGACY_STORAGE_KEY];
+    const local = keys.flatMap(readLegacyEntries);
+    if (local.length === 0) return;
+
+    const { data: saved, error: fetchError } = await supabase
+      .from('assessment_history')
+      .select('created_at, fused_score')
+      .eq('user_id', userId)
+      .eq('patient_id', patientId);
+
+    if (fetchError) {
+      console.error('Error checking assessment history:', fetchError);
+      return;
+    }
+
+    const rows = buildLegacyHistoryRows(local, saved || [], userId, patientId);
+    if (rows.length > 0) {
+      const { error } = await supabase.from('assessment_history').insert(rows);
+
+      if (error) {
+        // Keep the local copy so the import is retried next time
+        console.error('Error importing local progress history:', error);
+        return;
       }
     }
-  }, []);
-
-  const addEntry = (result: ScoringResult, role: 'individual' | 'parent' | 'clinician') => {
-    const entry: ProgressEntry = {
-      date: new Date().toLocaleDateString(),
-      score: result.normalizedScore,
-      severity: result.severity,
-      role,
-      timestamp: Date.now(),
-    };
-
-    const updated = [...history, entry].slice(-20); // Keep last 20 entries
-    setHistory(updated);
-    localStorage.setItem('auticare_progress_history', JSON.stringify(updated));
-  };
 
-  const clearHistory = () => {
-    setHistory([]);
-    localStorage.removeItem('auticare_progress_history');
-  };
+    keys.forEach((key) => localStorage.removeItem(key));
+    if (rows.length > 0) {
+      await refetch();
+    }
+  }, [userId, patientId, refetch]);
+
+  // Move localStorage progress into assessment_history once per patient
+  useEffect(() => {
+    if (!userId || !patientId) return;
+    const migrationKey = `${userId}:${patientId}`;
+    if (migratedFor.current === migrationKey) return;
+    migratedFor.current = migrationKey;
+    migrateLocalHistory();
+  }, [userId, patientId, migrateLocalHistory]);
 
   const getRecentEntries = (count: number = 5) => {
     return history.slice(-count).reverse();
   };
 
-  const getTrend = () => {
-    if (history.length < 2) return 'stable';
-    const recent = history.slice(-3);
-    const scores = recent.map(e => e.score);
-    const avg = scores.reduce((a, b) => a + b, 0) / scores.length;
-    const lastScore = scores[scores.length - 1];
-    
-    if (lastScore > avg + 5) return 'improving';
-    if (lastScore < avg - 5) return 'declining';
-    return 'stable';
+  // Measurement error comes from the instrument behind the latest assessment
+  const getTrend = (): TrendAnalysis => {
+    const latest = entries[0];
+    const standardError = latest
+      ? resolveInstrument(
+          { id: latest.instrument_id, version: latest.instrument_version },
+          latest.role as ProgressEntry['role']
+        ).standardError
+      : undefined;
+    return analyzeTrend(history, standardError);
   };
 
   return {
     history,
-    addEntry,
-    clearHistory,
+    entries,
+    loading,
     getRecentEntries,
     getTrend,
   };
@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+
+const SERVICE_WORKER_URL = '/sw.js';
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export interface PushDevice {
+  id: string;
+  endpoint: string;
+  label: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// VAPID keys are URL-safe base64; the Push API wants raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+// A readable name for the device list, e.g. "Chrome on Android"
+function getDeviceLabel(): string {
+  const ua = navigator.userAgent;
+  const os = /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Android/.test(ua) ? 'Android'
+    : /Mac OS X/.test(ua) ? 'macOS'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'Unknown device';
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  return `${browser} on ${os}`;
+}
+
+// Remembers which accounts turned push on in this browser, so a subscription the
+// browser rotated is saved again, but one the user removed isn't re-added
+const optInKey = (userId: string) => `push-opt-in:${userId}`;
+
+async function getCurrentSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) || null;
+}
+
+// Web Push subscriptions for the signed-in user: this device's subscription and
+// the other devices that receive lock-screen notifications
+export function usePushNotifications(user: User | null) {
+  const supported = isPushSupported() && !!VAPID_PUBLIC_KEY;
+  const [permission, setPermission] = useState<NotificationPermission>(
+    'Notification' in window ? Notification.permission : 'denied'
+  );
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [devices, setDevices] = useState<PushDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const saveSubscription = useCallback(async (subscription: PushSubscription) => {
+    if (!userId) return;
+    const json = subscription.toJSON();
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .upsert(
+        {
+          user_id: userId,
+          endpoint: json.endpoint,
+          p256dh: json.keys.p256dh,
+          auth: json.keys.auth,
+          device_label: getDeviceLabel(),
+          user_agent: navigator.userAgent,
+        },
+        { onConflict: 'user_id,endpoint' }
+      );
+    if (error) throw error;
+  }, [userId]);
+
+  const fetchDevices = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      if (supported) {
+        const subscription = await getCurrentSubscription();
+        if (subscription && Notification.permission === 'granted' && localStorage.getItem(optInKey(userId))) {
+          await saveSubscription(subscription);
+        }
+        setCurrentEndpoint(subscription?.endpoint || null);
+      }
+
+      const { data, error } = await supabase
+        .from('push_subscriptions')
+        .select('id, endpoint, device_label, last_used_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setDevices((data || []).map((row) => ({
+        id: row.id,
+        endpoint: row.endpoint,
+        label: row.device_label || 'Unknown device',
+        lastUsedAt: row.last_used_at,
+        createdAt: row.created_at,
+      })));
+    } catch (err) {
+      console.error('Error fetching push devices:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, supported, saveSubscription]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchDevices();
+    } else {
+      setDevices([]);
+      setCurrentEndpoint(null);
+      setLoading(false);
+    }
+  }, [userId, fetchDevices]);
+
+  const subscribe = async () => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+    if (!supported) return { success: false, error: 'Push notifications are not available in this browser' };
+
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        return { success: false, error: 'Notifications are blocked. Allow them in your browser settings.' };
+      }
+
+      await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = (await registration.pushManager.getSubscription()) ||
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+        }));
+
+      await saveSubscription(subscription);
+      localStorage.setItem(optInKey(user.id), 'true');
+      setCurrentEndpoint(subscription.endpoint);
+      await fetchDevices();
+      return { success: true };
+    } catch (err) {
+      console.error('Error subscribing to push notifications:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  // Stops pushes to a device for this account. The browser subscription itself is
+  // kept, since other accounts on a shared device may still use it.
+  const removeDevice = async (deviceId: string) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const device = devices.find((d) => d.id === deviceId);
+    if (!device) return { success: false, error: 'Device not found' };
+
+    const previous = devices;
+    setDevices(devices.filter((d) => d.id !== deviceId));
+
+    try {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('id', deviceId)
+        .eq('user_id', user.id);
+      if (error) throw error;
+
+      if (device.endpoint === currentEndpoint) {
+        localStorage.removeItem(optInKey(user.id));
+      }
+      return { success: true };
+    } catch (err) {
+      console.error('Error removing push device:', err);
+      setDevices(previous);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const currentDevice = devices.find((d) => d.endpoint === currentEndpoint) || null;
+
+  return {
+    supported,
+    permission,
+    devices,
+    currentDevice,
+    loading,
+    subscribe,
+    removeDevice,
+    refetch: fetchDevices,
+  };
+}
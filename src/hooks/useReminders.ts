@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Tables } from '@/integrations/supabase/types';
+import {
+  ReminderRecurrence,
+  ReminderSchedule,
+  getNextOccurrence,
+  getZonedDate,
+  validateReminderSchedule,
+} from '@shared/reminders';
+
+export type ReminderType = 'task' | 'medication' | 'assessment' | 'appointment';
+
+export interface Reminder extends ReminderSchedule {
+  id: string;
+  title: string;
+  type: ReminderType;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastSentAt: string | null;
+}
+
+export interface ReminderInput extends ReminderSchedule {
+  title: string;
+  type: ReminderType;
+}
+
+// Reminders used to live in localStorage under this key, sent by an open tab
+const LEGACY_STORAGE_KEY = 'reminders';
+
+interface LegacyReminder {
+  title: string;
+  time: string;
+  type: ReminderType;
+  enabled: boolean;
+}
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Zones offered when creating a reminder, with the browser's own zone first
+export function getTimeZoneOptions(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') || ['UTC'];
+  const browserZone = getBrowserTimeZone();
+  return [browserZone, ...zones.filter((zone) => zone !== browserZone)];
+}
+
+function rowToReminder(row: Tables<'reminders'>): Reminder {
+  return {
+    id: row.id,
+    title: row.title,
+    type: row.type as ReminderType,
+    enabled: row.enabled,
+    recurrence: row.recurrence as ReminderRecurrence,
+    timeOfDay: row.time_of_day,
+    timezone: row.timezone,
+    startDate: row.start_date,
+    intervalDays: row.interval_days,
+    dates: row.dates,
+    nextRunAt: row.next_run_at,
+    lastSentAt: row.last_sent_at,
+  };
+}
+
+// The dispatcher only sends reminders that are due, so next_run_at is set on save
+// and recomputed from now when a reminder is re-enabled
+function getNextRunAt(schedule: ReminderSchedule): string | null {
+  return getNextOccurrence(schedule, new Date())?.toISOString() || null;
+}
+
+function toRow(input: ReminderInput) {
+  return {
+    title: input.title,
+    type: input.type,
+    time_of_day: input.timeOfDay,
+    timezone: input.timezone,
+    recurrence: input.recurrence,
+    interval_days: input.recurrence === 'interval' ? input.intervalDays : null,
+    start_date: input.startDate,
+    dates: input.recurrence === 'dates' ? [...(input.dates || [])].sort() : [],
+    next_run_at: getNextRunAt(input),
+  };
+}
+
+// Server-side reminders, sent by the dispatch-reminders edge function
+export function useReminders(user: User | null) {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  // Moves reminders saved by the old in-browser scheduler to the server, as
+  // daily reminders in this browser's time zone
+  const migrateLegacyReminders = useCallback(async () => {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved || !userId) return;
+
+    let legacy: LegacyReminder[] = [];
+    try {
+      legacy = JSON.parse(saved);
+    } catch {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return;
+    }
+
+    const timezone = getBrowserTimeZone();
+    const rows = (Array.isArray(legacy) ? legacy : [])
+      .filter((r) => r.title && /^\d{2}:\d{2}$/.test(r.time))
+      .map((r) => {
+        const input: ReminderInput = {
+          title: r.title,
+          type: r.type,
+          recurrence: 'daily',
+          timeOfDay: r.time,
+          timezone,
+          startDate: getZonedDate(new Date(), timezone),
+        };
+        return { ...toRow(input), user_id: userId, enabled: r.enabled !== false };
+      });
+
+    // Removed before inserting so an overlapping fetch can't migrate them twice
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    if (rows.length > 0) {
+      const { error } = await supabase.from('reminders').insert(rows);
+      if (error) {
+        localStorage.setItem(LEGACY_STORAGE_KEY, saved);
+        throw error;
+      }
+    }
+  }, [userId]);
+
+  const fetchReminders = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      await migrateLegacyReminders().catch((err) => console.error('Error migrating saved reminders:', err));
+
+      const { data, error } = await supabase
+        .from('reminders')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setReminders((data || []).map(rowToReminder));
+    } catch (err) {
+      console.error('Error fetching reminders:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, migrateLegacyReminders]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchReminders();
+    } else {
+      setReminders([]);
+      setLoading(false);
+    }
+  }, [userId, fetchReminders]);
+
+  const addReminder = async (input: ReminderInput) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const invalid = validateReminderSchedule(input);
+    if (invalid) return { success: false, error: invalid };
+
+    try {
+      const { data, error } = await supabase
+        .from('reminders')
+        .insert({ ...toRow(input), user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setReminders((prev) => [...prev, rowToReminder(data)]);
+      return { success: true };
+    } catch (err) {
+      console.error('Error adding reminder:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const setReminderEnabled = async (id: string, enabled: boolean) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const reminder = reminders.find((r) => r.id === id);
+    if (!reminder) return { success: false, error: 'Reminder not found' };
+
+    // Occurrences that passed while paused are not sent late
+    const nextRunAt = enabled ? getNextRunAt(reminder) : reminder.nextRunAt;
+    const previous = reminders;
+    setReminders(reminders.map((r) => (r.id === id ? { ...r, enabled, nextRunAt } : r)));
+
+    try {
+      const { error } = await supabase
+        .from('reminders')
+        .update({ enabled, next_run_at: nextRunAt })
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (err) {
+      console.error('Error updating reminder:', err);
+      setReminders(previous);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const deleteReminder = async (id: string) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const previous = reminders;
+    setReminders(reminders.filter((r) => r.id !== id));
+
+    try {
+      const { error } = await supabase
+        .from('reminders')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (err) {
+      console.error('Error deleting reminder:', err);
+      setReminders(previous);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  return {
+    reminders,
+    loading,
+    addReminder,
+    setReminderEnabled,
+    deleteReminder,
+    refetch: fetchReminders,
+  };
+}
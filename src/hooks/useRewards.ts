@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
@@ -20,17 +20,14 @@ const BADGE_DEFINITIONS: Omit<Badge, 'earned' | 'earnedAt'>[] = [
   { type: 'progress_tracker', name: 'Progress Champion', description: 'Track progress for 7 days', icon: '📈' },
 ];
 
-export function useRewards() {
+// Badges are earned per patient ID, so each child on a parent account has their own
+export function useRewards(patientId?: string) {
   const [badges, setBadges] = useState<Badge[]>([]);
   const [loading, setLoading] = useState(true);
   const [userId, setUserId] = useState<string | null>(null);
   const { toast } = useToast();
 
-  useEffect(() => {
-    fetchBadges();
-  }, []);
-
-  const fetchBadges = async () => {
+  const fetchBadges = useCallback(async () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
       setLoading(false);
@@ -39,11 +36,15 @@ export function useRewards() {
 
     setUserId(user.id);
 
-    const { data: achievements } = await supabase
+    let query = supabase
       .from('achievements')
       .select('*')
       .eq('user_id', user.id);
 
+    query = patientId ? query.eq('patient_id', patientId) : query.is('patient_id', null);
+
+    const { data: achievements } = await query;
+
     const earnedTypes = new Set(achievements?.map(a => a.badge_type) || []);
     
     const allBadges = BADGE_DEFINITIONS.map(def => {
@@ -57,7 +58,11 @@ export function useRewards() {
 
     setBadges(allBadges);
     setLoading(false);
-  };
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchBadges();
+  }, [fetchBadges]);
 
   const unlockBadge = async (badgeType: string) => {
     if (!userId) return;
@@ -67,7 +72,7 @@ export function useRewards() {
 
     const { error } = await supabase
       .from('achievements')
-      .insert({ user_id: userId, badge_type: badgeType });
+      .insert({ user_id: userId, badge_type: badgeType, patient_id: patientId || null });
 
     if (!error) {
       toast({
@@ -75,12 +80,11 @@ export function useRewards() {
         description: `${badge.icon} ${badge.name}: ${badge.description}`,
       });
       
-      // Send email notification
+      // Notify the signed-in user through the channels their preferences ask for
       const { data: { user } } = await supabase.auth.getUser();
-      if (user?.email) {
+      if (user) {
         supabase.functions.invoke('send-notification', {
           body: {
-            email: user.email,
             type: 'achievement',
             data: {
               title: badge.name,
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { TaskTheme } from '@/components/TaskCard';
+import { DEFAULT_TASK_LIBRARY, TaskLibraryEntry } from '@/data/taskLibrary';
+import { QuestionCategory, SeverityLevel } from '@/utils/scoring';
+
+type TaskLibraryRow = Tables<'task_library'>;
+
+export type TaskLibraryInput = Omit<TaskLibraryEntry, 'id' | 'createdBy' | 'archivedAt'>;
+
+export function rowToLibraryEntry(row: TaskLibraryRow): TaskLibraryEntry {
+  const hasAgeRange = row.min_age_months !== null || row.max_age_months !== null;
+  return {
+    id: row.id,
+    kind: row.kind as TaskLibraryEntry['kind'],
+    title: row.title,
+    description: row.description,
+    steps: row.steps || [],
+    parentTip: row.parent_tip || undefined,
+    durationMinutes: row.duration_minutes || undefined,
+    highSupportDurationMinutes: row.high_support_duration_minutes || undefined,
+    theme: (row.theme as TaskTheme) || undefined,
+    targetDomain: (row.target_domain as QuestionCategory) || undefined,
+    ageRange: hasAgeRange ? { minMonths: row.min_age_months || 0, maxMonths: row.max_age_months } : undefined,
+    severities: row.severities as SeverityLevel[],
+    sortOrder: row.sort_order,
+    createdBy: row.created_by || undefined,
+    archivedAt: row.archived_at || undefined,
+  };
+}
+
+function libraryInputToRow(input: TaskLibraryInput): Omit<TablesInsert<'task_library'>, 'created_by'> {
+  return {
+    kind: input.kind,
+    title: input.title,
+    description: input.description,
+    steps: input.steps,
+    parent_tip: input.parentTip || null,
+    duration_minutes: input.durationMinutes || null,
+    high_support_duration_minutes: input.highSupportDurationMinutes || null,
+    theme: input.theme || null,
+    target_domain: input.targetDomain || null,
+    min_age_months: input.ageRange ? input.ageRange.minMonths : null,
+    max_age_months: input.ageRange ? input.ageRange.maxMonths : null,
+    severities: input.severities,
+    sort_order: input.sortOrder,
+  };
+}
+
+// The shared task and intervention library. Falls back to the built-in entries
+// when signed out or when the table can't be read, so plans can still be made.
+export function useTaskLibrary(user: User | null) {
+  const [entries, setEntries] = useState<TaskLibraryEntry[]>(DEFAULT_TASK_LIBRARY);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  const fetchLibrary = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('task_library')
+        .select('*')
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      setEntries(data && data.length > 0 ? data.map(rowToLibraryEntry) : DEFAULT_TASK_LIBRARY);
+    } catch (err) {
+      console.error('Error fetching task library:', err);
+      setEntries(DEFAULT_TASK_LIBRARY);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchLibrary();
+    } else {
+      setEntries(DEFAULT_TASK_LIBRARY);
+      setLoading(false);
+    }
+  }, [userId, fetchLibrary]);
+
+  // Add a new entry, or update the entry with this id
+  const saveEntry = async (input: TaskLibraryInput, id?: string) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    try {
+      const row = libraryInputToRow(input);
+      const { data, error } = id
+        ? await supabase.from('task_library').update(row).eq('id', id).select().single()
+        : await supabase.from('task_library').insert({ ...row, created_by: user.id }).select().single();
+
+      if (error) throw error;
+
+      const saved = rowToLibraryEntry(data);
+      setEntries((prev) =>
+        id ? prev.map((entry) => (entry.id === id ? saved : entry)) : [...prev, saved]
+      );
+      return { success: true, entry: saved };
+    } catch (err) {
+      console.error('Error saving library entry:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  // Archived entries stop being offered but stay readable for plans that already use them
+  const setArchived = async (id: string, archived: boolean) => {
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    try {
+      const { data, error } = await supabase
+        .from('task_library')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const saved = rowToLibraryEntry(data);
+      setEntries((prev) => prev.map((entry) => (entry.id === id ? saved : entry)));
+      return { success: true };
+    } catch (err) {
+      console.error('Error archiving library entry:', err);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  return {
+    entries,
+    activeEntries: entries.filter((entry) => !entry.archivedAt),
+    loading,
+    saveEntry,
+    archiveEntry: (id: string) => setArchived(id, true),
+    restoreEntry: (id: string) => setArchived(id, false),
+    refetch: fetchLibrary,
+  };
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Json } from '@/integrations/supabase/types';
+import { TaskLibraryEntry } from '@/data/taskLibrary';
+import { LibraryMatchOptions } from '@/utils/taskLibrary';
+import {
+  PlanTask,
+  NewPlanTask,
+  createTaskId,
+  generateDailyPlan,
+  getCarryOverTasks,
+  getPlanDate,
+} from '@/utils/taskPlan';
+
+// Today's task plan for one patient, generated from the library on first load of the day.
+// Waits until the library has loaded so the plan isn't built from a partial one.
+export function useTaskPlan(
+  user: User | null,
+  patientId: string | undefined,
+  library: TaskLibraryEntry[],
+  libraryLoading: boolean,
+  options: LibraryMatchOptions
+) {
+  const [tasks, setTasks] = useState<PlanTask[]>([]);
+  const [planDate, setPlanDate] = useState(getPlanDate());
+  const [loading, setLoading] = useState(true);
+
+  // Read when the plan is generated rather than tracked, so a changed library or
+  // severity doesn't rebuild a plan that has already been made for today
+  const planInputs = useRef({ library, options });
+  planInputs.current = { library, options };
+
+  const userId = user?.id;
+
+  const fetchPlan = useCallback(async () => {
+    if (!userId || !patientId) return;
+
+    setLoading(true);
+    const today = getPlanDate();
+    setPlanDate(today);
+
+    try {
+      const { data: existing, error } = await supabase
+        .from('task_plans')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('patient_id', patientId)
+        .eq('plan_date', today)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (existing) {
+        setTasks((existing.tasks as unknown as PlanTask[]) || []);
+        return;
+      }
+
+      // First visit today: carry unfinished tasks over from the most recent earlier plan
+      const { data: previous, error: previousError } = await supabase
+        .from('task_plans')
+        .select('plan_date, tasks')
+        .eq('user_id', userId)
+        .eq('patient_id', patientId)
+        .lt('plan_date', today)
+        .order('plan_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (previousError) throw previousError;
+
+      const carriedOver = previous
+        ? getCarryOverTasks((previous.tasks as unknown as PlanTask[]) || [], previous.plan_date)
+        : [];
+      const { library, options } = planInputs.current;
+      const plan = generateDailyPlan(library, options, carriedOver);
+      setTasks(plan);
+
+      // Another tab may have created today's plan meanwhile; keep whichever was saved first
+      const { data: inserted, error: insertError } = await supabase
+        .from('task_plans')
+        .upsert({
+          user_id: userId,
+          patient_id: patientId,
+          plan_date: today,
+          severity: options.severity,
+          tasks: plan as unknown as Json,
+        }, { onConflict: 'user_id,patient_id,plan_date', ignoreDuplicates: true })
+        .select();
+
+      if (insertError) throw insertError;
+
+      if (!inserted || inserted.length === 0) {
+        const { data: saved } = await supabase
+          .from('task_plans')
+          .select('tasks')
+          .eq('user_id', userId)
+          .eq('patient_id', patientId)
+          .eq('plan_date', today)
+          .maybeSingle();
+        if (saved) setTasks((saved.tasks as unknown as PlanTask[]) || []);
+      }
+    } catch (err) {
+      console.error('Error loading task plan:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, patientId]);
+
+  useEffect(() => {
+    if (libraryLoading) return;
+    if (userId && patientId) {
+      fetchPlan();
+    } else {
+      setTasks([]);
+      setLoading(false);
+    }
+  }, [userId, patientId, libraryLoading, fetchPlan]);
+
+  const saveTasks = async (next: PlanTask[]) => {
+    if (!user || !patientId) return { success: false, error: 'Not authenticated' };
+
+    const previous = tasks;
+    setTasks(next);
+
+    try {
+      const { error } = await supabase
+        .from('task_plans')
+        .update({ tasks: next as unknown as Json })
+        .eq('user_id', user.id)
+        .eq('patient_id', patientId)
+        .eq('plan_date', planDate);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving task plan:', err);
+      setTasks(previous);
+      return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  };
+
+  const toggleTask = (taskId: string) =>
+    saveTasks(tasks.map((task) =>
+      task.id === taskId
+        ? { ...task, completed: !task.completed, completedAt: task.completed ? null : new Date().toISOString() }
+        : task
+    ));
+
+  const addTask = (input: NewPlanTask) =>
+    saveTasks([
+      ...tasks,
+      { ...input, id: createTaskId(), templateId: null, completed: false, completedAt: null, carriedOverFrom: null },
+    ]);
+
+  const removeTask = (taskId: string) => saveTasks(tasks.filter((task) => task.id !== taskId));
+
+  // Move the task at fromIndex so it ends up at toIndex
+  const reorderTask = (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex || fromIndex < 0 || toIndex < 0 || fromIndex >= tasks.length || toIndex >= tasks.length) return;
+
+    const next = [...tasks];
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(toIndex, 0, moved);
+    return saveTasks(next);
+  };
+
+  const moveTask = (taskId: string, direction: 'up' | 'down') => {
+    const index = tasks.findIndex((task) => task.id === taskId);
+    return reorderTask(index, direction === 'up' ? index - 1 : index + 1);
+  };
+
+  return {
+    tasks,
+    planDate,
+    loading,
+    completedCount: tasks.filter((task) => task.completed).length,
+    toggleTask,
+    addTask,
+    removeTask,
+    moveTask,
+    reorderTask,
+    refetch: fetchPlan,
+  };
+}
@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { User } from '@supabase/supabase-js';
+import { InstrumentRef } from '@/data/instrumentRegistry';
 
 export interface UserAssessmentData {
   id: string;
@@ -15,6 +16,8 @@ export interface UserAssessmentData {
   questionnaire_score: number | null;
   model_score: number | null;
   fused_score: number | null;
+  instrument_id: string | null;
+  instrument_version: string | null;
   assessment_complete: boolean;
   created_at: string;
   updated_at: string;
@@ -25,25 +28,17 @@ export function useUserAssessmentData(user: User | null) {
   const [loading, setLoading] = useState(true);
   const [hasExistingData, setHasExistingData] = useState(false);
 
-  useEffect(() => {
-    if (user) {
-      fetchAssessmentData();
-    } else {
-      setAssessmentData(null);
-      setLoading(false);
-      setHasExistingData(false);
-    }
-  }, [user?.id]);
+  const userId = user?.id;
 
-  const fetchAssessmentData = async () => {
-    if (!user) return;
+  const fetchAssessmentData = useCallback(async () => {
+    if (!userId) return;
     
     setLoading(true);
     try {
       const { data, error } = await supabase
         .from('user_assessment_data')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('user_id', userId)
         .maybeSingle();
 
       if (error && error.code !== 'PGRST116') {
@@ -61,7 +56,17 @@ export function useUserAssessmentData(user: User | null) {
     } finally {
       setLoading(false);
     }
-  };
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchAssessmentData();
+    } else {
+      setAssessmentData(null);
+      setLoading(false);
+      setHasExistingData(false);
+    }
+  }, [userId, fetchAssessmentData]);
 
   const saveAssessmentData = async (
     email: string,
@@ -72,7 +77,8 @@ export function useUserAssessmentData(user: User | null) {
     answers?: Record<string, any>,
     questionnaireScore?: number,
     modelScore?: number | null,
-    fusedScore?: number
+    fusedScore?: number,
+    instrument?: InstrumentRef
   ) => {
     if (!user) return { success: false, error: 'Not authenticated' };
 
@@ -91,6 +97,8 @@ export function useUserAssessmentData(user: User | null) {
         questionnaire_score: questionnaireScore || null,
         model_score: modelScore ?? null,
         fused_score: fusedScore || questionnaireScore || null,
+        instrument_id: instrument?.id ?? null,
+        instrument_version: instrument?.version ?? null,
         assessment_complete: true,
         updated_at: new Date().toISOString()
       };
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { VideoJob } from '@/utils/videoJobs';
+
+const POLL_INTERVAL_MS = 3000;
+
+// Polls a video job until it fails or finishes. With untilApplied, a finished
+// job linked to an assessment is polled until the worker has recomputed that
+// assessment too.
+export function useVideoJob(jobId: string | null | undefined, untilApplied = false) {
+  const [job, setJob] = useState<VideoJob | null>(null);
+
+  useEffect(() => {
+    setJob(null);
+    if (!jobId) return;
+
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const poll = async () => {
+      const { data, error } = await supabase
+        .from('video_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error fetching video job:', error);
+      } else {
+        setJob(data);
+        if (!data) return;
+        const settled = data.status === 'failed'
+          || (data.status === 'done' && (!untilApplied || !data.assessment_id || !!data.applied_at));
+        if (settled) return;
+      }
+      timer = window.setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [jobId, untilApplied]);
+
+  return { job };
+}
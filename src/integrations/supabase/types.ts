@@ -19,30 +19,152 @@ export type Database = {
           badge_type: string
           earned_at: string | null
           id: string
+          patient_id: string | null
           user_id: string
         }
         Insert: {
           badge_type: string
           earned_at?: string | null
           id?: string
+          patient_id?: string | null
           user_id: string
         }
         Update: {
           badge_type?: string
           earned_at?: string | null
           id?: string
+          patient_id?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      appointments: {
+        Row: {
+          booked_by: string
+          booker_timezone: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          clinician_id: string
+          clinician_name: string
+          clinician_timezone: string
+          created_at: string
+          ends_at: string
+          id: string
+          location: string | null
+          mode: string
+          patient_id: string
+          reason: string | null
+          slot_id: string | null
+          starts_at: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          booked_by: string
+          booker_timezone?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          clinician_id: string
+          clinician_name: string
+          clinician_timezone?: string
+          created_at?: string
+          ends_at: string
+          id?: string
+          location?: string | null
+          mode: string
+          patient_id: string
+          reason?: string | null
+          slot_id?: string | null
+          starts_at: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          booked_by?: string
+          booker_timezone?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          clinician_id?: string
+          clinician_name?: string
+          clinician_timezone?: string
+          created_at?: string
+          ends_at?: string
+          id?: string
+          location?: string | null
+          mode?: string
+          patient_id?: string
+          reason?: string | null
+          slot_id?: string | null
+          starts_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      assessment_drafts: {
+        Row: {
+          answers: Json
+          created_at: string
+          current_step_id: string
+          id: string
+          instrument_id: string | null
+          instrument_version: string | null
+          metadata: Json
+          patient_id: string
+          role: string
+          selected_instrument_ids: string[]
+          updated_at: string
+          user_id: string
+          video_url: string | null
+        }
+        Insert: {
+          answers?: Json
+          created_at?: string
+          current_step_id?: string
+          id?: string
+          instrument_id?: string | null
+          instrument_version?: string | null
+          metadata?: Json
+          patient_id: string
+          role: string
+          selected_instrument_ids?: string[]
+          updated_at?: string
+          user_id: string
+          video_url?: string | null
+        }
+        Update: {
+          answers?: Json
+          created_at?: string
+          current_step_id?: string
+          id?: string
+          instrument_id?: string | null
+          instrument_version?: string | null
+          metadata?: Json
+          patient_id?: string
+          role?: string
+          selected_instrument_ids?: string[]
+          updated_at?: string
+          user_id?: string
+          video_url?: string | null
+        }
+        Relationships: []
+      }
       assessment_history: {
         Row: {
           created_at: string
+          domain_scores: Json | null
           fused_score: number
           id: string
+          instrument_id: string | null
+          instrument_version: string | null
           metadata: Json | null
           ml_score: number | null
+          patient_id: string
           questionnaire_score: number
+          review_status: string
           role: string
           severity: string
           user_id: string
@@ -50,11 +172,16 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          domain_scores?: Json | null
           fused_score: number
           id?: string
+          instrument_id?: string | null
+          instrument_version?: string | null
           metadata?: Json | null
           ml_score?: number | null
+          patient_id: string
           questionnaire_score: number
+          review_status?: string
           role: string
           severity: string
           user_id: string
@@ -62,11 +189,16 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          domain_scores?: Json | null
           fused_score?: number
           id?: string
+          instrument_id?: string | null
+          instrument_version?: string | null
           metadata?: Json | null
           ml_score?: number | null
+          patient_id?: string
           questionnaire_score?: number
+          review_status?: string
           role?: string
           severity?: string
           user_id?: string
@@ -74,6 +206,314 @@ export type Database = {
         }
         Relationships: []
       }
+      assessment_reviews: {
+        Row: {
+          annotations: Json
+          assessment_id: string
+          computed_score: number
+          computed_severity: string
+          final_severity: string
+          id: string
+          notes: string | null
+          override_reason: string | null
+          reviewer_id: string
+          reviewer_name: string
+          signed_at: string
+        }
+        Insert: {
+          annotations?: Json
+          assessment_id: string
+          computed_score: number
+          computed_severity: string
+          final_severity: string
+          id?: string
+          notes?: string | null
+          override_reason?: string | null
+          reviewer_id: string
+          reviewer_name: string
+          signed_at?: string
+        }
+        Update: {
+          annotations?: Json
+          assessment_id?: string
+          computed_score?: number
+          computed_severity?: string
+          final_severity?: string
+          id?: string
+          notes?: string | null
+          override_reason?: string | null
+          reviewer_id?: string
+          reviewer_name?: string
+          signed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assessment_reviews_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: true
+            referencedRelation: "assessment_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      children: {
+        Row: {
+          child_age: string | null
+          child_name: string
+          created_at: string
+          diagnosed_conditions: string[]
+          home_language: string | null
+          id: string
+          parent_id: string
+          patient_code: string
+          pronouns: string | null
+          school_type: string | null
+          updated_at: string
+        }
+        Insert: {
+          child_age?: string | null
+          child_name: string
+          created_at?: string
+          diagnosed_conditions?: string[]
+          home_language?: string | null
+          id?: string
+          parent_id: string
+          patient_code: string
+          pronouns?: string | null
+          school_type?: string | null
+          updated_at?: string
+        }
+        Update: {
+          child_age?: string | null
+          child_name?: string
+          created_at?: string
+          diagnosed_conditions?: string[]
+          home_language?: string | null
+          id?: string
+          parent_id?: string
+          patient_code?: string
+          pronouns?: string | null
+          school_type?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      clinician_availability: {
+        Row: {
+          clinician_id: string
+          clinician_name: string
+          created_at: string
+          ends_at: string
+          id: string
+          location: string | null
+          mode: string
+          starts_at: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          clinician_id: string
+          clinician_name: string
+          created_at?: string
+          ends_at: string
+          id?: string
+          location?: string | null
+          mode?: string
+          starts_at: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          clinician_id?: string
+          clinician_name?: string
+          created_at?: string
+          ends_at?: string
+          id?: string
+          location?: string | null
+          mode?: string
+          starts_at?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          channel: string
+          created_at: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          notification_type: string
+          occurrence_at: string | null
+          reminder_id: string | null
+          sent_at: string | null
+          status: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          id?: string
+          idempotency_key: string
+          last_error?: string | null
+          notification_type: string
+          occurrence_at?: string | null
+          reminder_id?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          id?: string
+          idempotency_key?: string
+          last_error?: string | null
+          notification_type?: string
+          occurrence_at?: string | null
+          reminder_id?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          digest_time: string
+          digest_weekday: number
+          email_locale: string | null
+          id: string
+          quiet_hours_enabled: boolean
+          quiet_hours_end: string
+          quiet_hours_start: string
+          timezone: string
+          types: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          digest_time?: string
+          digest_weekday?: number
+          email_locale?: string | null
+          id?: string
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          timezone?: string
+          types?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          digest_time?: string
+          digest_weekday?: number
+          email_locale?: string | null
+          id?: string
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          timezone?: string
+          types?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_queue: {
+        Row: {
+          attempts: number
+          body: string | null
+          channel: string
+          claimed_at: string | null
+          created_at: string
+          deliver_after: string
+          digest: boolean
+          id: string
+          last_error: string | null
+          notification_type: string
+          sent_at: string | null
+          status: string
+          time_label: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          body?: string | null
+          channel: string
+          claimed_at?: string | null
+          created_at?: string
+          deliver_after: string
+          digest?: boolean
+          id?: string
+          last_error?: string | null
+          notification_type: string
+          sent_at?: string | null
+          status?: string
+          time_label?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          body?: string | null
+          channel?: string
+          claimed_at?: string | null
+          created_at?: string
+          deliver_after?: string
+          digest?: boolean
+          id?: string
+          last_error?: string | null
+          notification_type?: string
+          sent_at?: string | null
+          status?: string
+          time_label?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          notification_type: string
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          notification_type: string
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          notification_type?: string
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       patient_reports: {
         Row: {
           answers: Json
@@ -113,6 +553,105 @@ export type Database = {
         }
         Relationships: []
       }
+      patients: {
+        Row: {
+          age_range: string | null
+          archived_at: string | null
+          clinician_id: string
+          created_at: string
+          full_name: string
+          home_language: string | null
+          id: string
+          notes: string | null
+          patient_code: string
+          pronoun: string | null
+          updated_at: string
+        }
+        Insert: {
+          age_range?: string | null
+          archived_at?: string | null
+          clinician_id: string
+          created_at?: string
+          full_name: string
+          home_language?: string | null
+          id?: string
+          notes?: string | null
+          patient_code: string
+          pronoun?: string | null
+          updated_at?: string
+        }
+        Update: {
+          age_range?: string | null
+          archived_at?: string | null
+          clinician_id?: string
+          created_at?: string
+          full_name?: string
+          home_language?: string | null
+          id?: string
+          notes?: string | null
+          patient_code?: string
+          pronoun?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      picture_card_choices: {
+        Row: {
+          card_ref: string
+          created_at: string
+          id: string
+          patient_id: string
+          task_key: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          card_ref: string
+          created_at?: string
+          id?: string
+          patient_id: string
+          task_key: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          card_ref?: string
+          created_at?: string
+          id?: string
+          patient_id?: string
+          task_key?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      picture_card_photos: {
+        Row: {
+          created_at: string
+          id: string
+          label: string
+          patient_id: string
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label: string
+          patient_id: string
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string
+          patient_id?: string
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           age: number | null
@@ -149,6 +688,102 @@ export type Database = {
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          device_label: string | null
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          device_label?: string | null
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          device_label?: string | null
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reminders: {
+        Row: {
+          appointment_id: string | null
+          created_at: string
+          dates: string[]
+          enabled: boolean
+          id: string
+          interval_days: number | null
+          last_sent_at: string | null
+          next_run_at: string | null
+          recurrence: string
+          start_date: string
+          time_of_day: string
+          timezone: string
+          title: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          created_at?: string
+          dates?: string[]
+          enabled?: boolean
+          id?: string
+          interval_days?: number | null
+          last_sent_at?: string | null
+          next_run_at?: string | null
+          recurrence?: string
+          start_date?: string
+          time_of_day: string
+          timezone?: string
+          title: string
+          type?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          appointment_id?: string | null
+          created_at?: string
+          dates?: string[]
+          enabled?: boolean
+          id?: string
+          interval_days?: number | null
+          last_sent_at?: string | null
+          next_run_at?: string | null
+          recurrence?: string
+          start_date?: string
+          time_of_day?: string
+          timezone?: string
+          title?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       shared_achievements: {
         Row: {
           content: Json
@@ -182,6 +817,102 @@ export type Database = {
         }
         Relationships: []
       }
+      task_library: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string
+          duration_minutes: number | null
+          high_support_duration_minutes: number | null
+          id: string
+          kind: string
+          max_age_months: number | null
+          min_age_months: number | null
+          parent_tip: string | null
+          severities: string[]
+          sort_order: number
+          steps: string[]
+          target_domain: string | null
+          theme: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          duration_minutes?: number | null
+          high_support_duration_minutes?: number | null
+          id?: string
+          kind: string
+          max_age_months?: number | null
+          min_age_months?: number | null
+          parent_tip?: string | null
+          severities?: string[]
+          sort_order?: number
+          steps?: string[]
+          target_domain?: string | null
+          theme?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          duration_minutes?: number | null
+          high_support_duration_minutes?: number | null
+          id?: string
+          kind?: string
+          max_age_months?: number | null
+          min_age_months?: number | null
+          parent_tip?: string | null
+          severities?: string[]
+          sort_order?: number
+          steps?: string[]
+          target_domain?: string | null
+          theme?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      task_plans: {
+        Row: {
+          created_at: string
+          id: string
+          patient_id: string
+          plan_date: string
+          severity: string
+          tasks: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          patient_id: string
+          plan_date: string
+          severity: string
+          tasks?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          patient_id?: string
+          plan_date?: string
+          severity?: string
+          tasks?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_assessment_data: {
         Row: {
           assessment_complete: boolean | null
@@ -191,6 +922,8 @@ export type Database = {
           excel_data: Json | null
           fused_score: number | null
           id: string
+          instrument_id: string | null
+          instrument_version: string | null
           last_assessment_answers: Json | null
           last_score: number | null
           model_score: number | null
@@ -208,6 +941,8 @@ export type Database = {
           excel_data?: Json | null
           fused_score?: number | null
           id?: string
+          instrument_id?: string | null
+          instrument_version?: string | null
           last_assessment_answers?: Json | null
           last_score?: number | null
           model_score?: number | null
@@ -225,6 +960,8 @@ export type Database = {
           excel_data?: Json | null
           fused_score?: number | null
           id?: string
+          instrument_id?: string | null
+          instrument_version?: string | null
           last_assessment_answers?: Json | null
           last_score?: number | null
           model_score?: number | null
@@ -236,12 +973,123 @@ export type Database = {
         }
         Relationships: []
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      video_jobs: {
+        Row: {
+          applied_at: string | null
+          assessment_id: string | null
+          attempts: number
+          claimed_at: string | null
+          completed_at: string | null
+          created_at: string
+          frames: Json | null
+          id: string
+          last_error: string | null
+          prediction: Json | null
+          preprocessing: Json | null
+          recording: Json | null
+          run_after: string
+          status: string
+          updated_at: string
+          user_id: string
+          video_url: string
+        }
+        Insert: {
+          applied_at?: string | null
+          assessment_id?: string | null
+          attempts?: number
+          claimed_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          frames?: Json | null
+          id?: string
+          last_error?: string | null
+          prediction?: Json | null
+          preprocessing?: Json | null
+          recording?: Json | null
+          run_after?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+          video_url: string
+        }
+        Update: {
+          applied_at?: string | null
+          assessment_id?: string | null
+          attempts?: number
+          claimed_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          frames?: Json | null
+          id?: string
+          last_error?: string | null
+          prediction?: Json | null
+          preprocessing?: Json | null
+          recording?: Json | null
+          run_after?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+          video_url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_jobs_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "assessment_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_review_assessment: {
+        Args: { _owner_id: string; _patient_id: string; _reviewer_id: string }
+        Returns: boolean
+      }
+      get_open_availability: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          clinician_id: string
+          clinician_name: string
+          created_at: string
+          ends_at: string
+          id: string
+          location: string | null
+          mode: string
+          starts_at: string
+          timezone: string
+          updated_at: string
+        }[]
+      }
+      is_clinician: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
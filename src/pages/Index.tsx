@@ -2,20 +2,34 @@ import { useState, useEffect } from 'react';
 import { Auth } from '@/components/Auth';
 import RoleSelection from '@/components/RoleSelection';
 import PatientIdEntry from '@/components/PatientIdEntry';
+import PatientRoster from '@/components/PatientRoster';
 
 import ReportLookup from '@/components/ReportLookup';
-import Questionnaire from '@/components/Questionnaire';
+import AssessmentTimeline from '@/components/AssessmentTimeline';
+import TaskLibraryManager from '@/components/TaskLibraryManager';
+import NotificationSettings from '@/components/NotificationSettings';
+import ReviewQueue from '@/components/ReviewQueue';
+import Questionnaire, { SupplementaryAnswers } from '@/components/Questionnaire';
 import ResultModal from '@/components/ResultModal';
 import Dashboard from '@/components/Dashboard';
 import CalmZone from '@/components/CalmZone';
 import { Button } from '@/components/ui/button';
-import { individualQuestions, parentQuestions, getQuestionWeights, ParentMetadata } from '@/data/questionBanks';
-import { calculateScore, ScoringResult, Answer, AnswerValue } from '@/utils/scoring';
-import { calculateFusedScore, getSeverityFromScore } from '@/utils/fusedScoring';
-import { LogOut, AlertCircle } from 'lucide-react';
+import { getQuestionWeights, ClinicianInput, ParentMetadata } from '@/data/questionBanks';
+import { Instrument, getDefaultInstrument, getInstrumentRef, resolveInstrument } from '@/data/instrumentRegistry';
+import { calculateScore, parseVideoPrediction, ScoringResult, Answer, AnswerValue, VideoPrediction } from '@/utils/scoring';
+import { scoreValidatedInstruments } from '@/utils/instrumentScoring';
+import { rebuildScoringResult } from '@/utils/storedResult';
+import { linkVideoJob } from '@/utils/videoJobs';
+import { LogOut, AlertCircle, Users } from 'lucide-react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { useUserAssessmentData } from '@/hooks/useUserAssessmentData';
+import { useUserAssessmentData, generatePatientId } from '@/hooks/useUserAssessmentData';
+import { useAssessmentDraft, QuestionnaireDraft } from '@/hooks/useAssessmentDraft';
+import { useAssessmentHistory, getHistoryEntryResult, AssessmentHistoryEntry, AnswerSource } from '@/hooks/useAssessmentHistory';
+import { Patient } from '@/hooks/usePatients';
+import { useChildren, childToMetadata } from '@/hooks/useChildren';
+import { useTaskLibrary } from '@/hooks/useTaskLibrary';
+import { useVideoJob } from '@/hooks/useVideoJob';
 import { useToast } from '@/hooks/use-toast';
 import {
   AlertDialog,
@@ -28,12 +42,34 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-type AppState = 'role-selection' | 'patient-id' | 'report-lookup' | 'questionnaire' | 'results' | 'dashboard' | 'calm-zone';
+type AppState = 'role-selection' | 'patient-id' | 'patient-roster' | 'report-lookup' | 'questionnaire' | 'results' | 'dashboard' | 'history' | 'task-library' | 'notification-settings' | 'calm-zone' | 'review-queue';
 type Role = 'individual' | 'parent' | 'clinician';
 
+// Roster details pre-fill the clinician questionnaire's patient information step
+function getPatientChildData(patient: Patient | null): ParentMetadata | undefined {
+  if (!patient) return undefined;
+  return {
+    childName: patient.full_name,
+    childAge: patient.age_range || '',
+    pronouns: patient.pronoun || '',
+    homeLanguage: patient.home_language || '',
+    schoolType: '',
+    diagnosedConditions: [],
+  };
+}
+
+// Answers still matching the uploaded spreadsheet count as pre-filled from it,
+// so reviewers can tell them from the ones typed in
+function getAnswerSources(answers: Record<string, string>, prefilled: Record<string, string>): Record<string, AnswerSource> {
+  return Object.fromEntries(
+    Object.entries(answers).map(([questionId, value]) => [questionId, prefilled[questionId] === value ? 'excel' : 'manual'])
+  );
+}
+
 export default function Index() {
   const [appState, setAppState] = useState<AppState>('role-selection');
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
+  const [instrument, setInstrument] = useState<Instrument | null>(null);
   const [scoringResult, setScoringResult] = useState<ScoringResult | null>(null);
   const [parentMetadata, setParentMetadata] = useState<ParentMetadata | null>(null);
   const [user, setUser] = useState<User | null>(null);
@@ -43,6 +79,14 @@ export default function Index() {
   const [excelData, setExcelData] = useState<Record<string, any> | null>(null);
   const [showResetDialog, setShowResetDialog] = useState(false);
   const [isFirstTimeAssessment, setIsFirstTimeAssessment] = useState(true);
+  const [resumeDraft, setResumeDraft] = useState<QuestionnaireDraft | null>(null);
+  const [resumePromptHandled, setResumePromptHandled] = useState(false);
+  // Clinicians pick the patient from their roster before each assessment
+  const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  // Past assessment opened from the history timeline
+  const [historyReport, setHistoryReport] = useState<{ entry: AssessmentHistoryEntry; result: ScoringResult } | null>(null);
+  // Set by "Book an assessment" on a result; the dashboard opens booking once it arrives
+  const [bookingRequested, setBookingRequested] = useState(false);
   const { toast } = useToast();
 
   const { 
@@ -53,6 +97,47 @@ export default function Index() {
     clearAssessmentData 
   } = useUserAssessmentData(user);
 
+  const { draft, loading: loadingDraft, saveDraft, clearDraft } = useAssessmentDraft(user);
+  const { entries: historyEntries, addEntry: addHistoryEntry, refetch: refetchHistory } = useAssessmentHistory(user);
+  // Video analysis still running for the assessment just completed
+  const [pendingVideoJobId, setPendingVideoJobId] = useState<string | null>(null);
+  const { job: pendingVideoJob } = useVideoJob(pendingVideoJobId, true);
+  const { children: childProfiles, saveChild, clearChildren } = useChildren(user);
+  const taskLibrary = useTaskLibrary(user);
+
+  // Profile of the parent's active child, falling back to the pre-multi-child child_data blob
+  const getActiveChildData = (): ParentMetadata | undefined => {
+    const child = childProfiles.find((c) => c.patient_code === patientId);
+    if (child) return childToMetadata(child);
+    if (hasExistingData && assessmentData?.patient_id === patientId) {
+      return assessmentData.child_data as unknown as ParentMetadata;
+    }
+    return undefined;
+  };
+
+  // Once a clinician has signed off the patient's latest assessment, their
+  // signed result replaces the computed one
+  useEffect(() => {
+    const latest = historyEntries.find((e) => e.patient_id === patientId);
+    const review = latest?.assessment_reviews;
+    if (!scoringResult || !review || scoringResult.review?.signedAt === review.signed_at) return;
+    setScoringResult(getHistoryEntryResult(latest).result);
+  }, [historyEntries, patientId, scoringResult]);
+
+  // Once the worker has applied a late video prediction to the saved assessment,
+  // reload it and show the result as recomputed server-side
+  useEffect(() => {
+    if (pendingVideoJob?.applied_at) refetchHistory();
+  }, [pendingVideoJob?.applied_at, refetchHistory]);
+
+  useEffect(() => {
+    if (!pendingVideoJob?.applied_at) return;
+    const entry = historyEntries.find((e) => e.id === pendingVideoJob.assessment_id);
+    if (!entry || (entry.ml_score === null && entry.review_status !== 'signed_off')) return;
+    setScoringResult(getHistoryEntryResult(entry).result);
+    setPendingVideoJobId(null);
+  }, [historyEntries, pendingVideoJob]);
+
   // Auto-redirect to dashboard ONLY if user has existing COMPLETED assessment (login flow - returning users only)
   useEffect(() => {
     // Only auto-redirect if appState is still at initial state (role-selection)
@@ -63,32 +148,18 @@ export default function Index() {
       // Set role and patient ID from stored data
       setSelectedRole(assessmentData.role as Role);
       setPatientId(assessmentData.patient_id);
-      
+
       // Reconstruct the scoring result from saved data
       if (assessmentData.last_assessment_answers) {
-        const questionWeights = getQuestionWeights(assessmentData.role as Role);
-        const answerArray: Answer[] = Object.entries(assessmentData.last_assessment_answers).map(([questionId, value]) => ({
-          questionId,
-          value: value as AnswerValue,
-        }));
-        
-        const storedFusedScore = assessmentData.fused_score;
-        const storedModelScore = assessmentData.model_score;
-        
-        const videoPrediction = storedModelScore ? {
-          prediction_score: storedModelScore,
-          confidence: 0.7
-        } : undefined;
-        
-        const result = calculateScore(answerArray, questionWeights, false, videoPrediction);
-        
-        if (storedFusedScore !== null && storedFusedScore !== undefined) {
-          result.fusedScore = storedFusedScore;
-          const severity = getSeverityFromScore(storedFusedScore);
-          result.severity = severity.level as ScoringResult['severity'];
-          result.severityLabel = severity.label;
-        }
-        
+        const { result, instrument: storedInstrument } = rebuildScoringResult({
+          role: assessmentData.role as Role,
+          instrument: { id: assessmentData.instrument_id, version: assessmentData.instrument_version },
+          answers: assessmentData.last_assessment_answers as Record<string, string>,
+          modelScore: assessmentData.model_score,
+          fusedScore: assessmentData.fused_score,
+          clinicianInput: (assessmentData.child_data as { clinicianInput?: ClinicianInput } | null)?.clinicianInput,
+        });
+        setInstrument(storedInstrument);
         setScoringResult(result);
         
         if (assessmentData.child_data) {
@@ -111,23 +182,57 @@ export default function Index() {
     // Don't set role here - let user select after auth
   };
 
+  const handleResumeDraft = () => {
+    if (!draft) return;
+    setSelectedRole(draft.role);
+    setPatientId(draft.patientId);
+    // Resume with the instrument version the draft was started on
+    setInstrument(resolveInstrument(draft.instrument, draft.role));
+    setResumeDraft(draft);
+    setResumePromptHandled(true);
+    setAppState('questionnaire');
+  };
+
+  const handleDiscardDraft = async () => {
+    setResumePromptHandled(true);
+    await clearDraft();
+  };
+
+  const handleQuestionnaireDraftChange = (questionnaireDraft: QuestionnaireDraft) => {
+    if (!selectedRole) return;
+    saveDraft({
+      ...questionnaireDraft,
+      role: selectedRole,
+      patientId,
+      instrument: getInstrumentRef(instrument || getDefaultInstrument(selectedRole)),
+    });
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     setUser(null);
     setIsAuthenticated(false);
     setSelectedRole(null);
+    setInstrument(null);
     setScoringResult(null);
     setParentMetadata(null);
     setPatientId('');
     setExcelAnswers({});
     setExcelData(null);
+    setResumeDraft(null);
+    setResumePromptHandled(false);
+    setSelectedPatient(null);
     setAppState('role-selection');
   };
 
   const handleResetData = async () => {
     const result = await clearAssessmentData();
     if (result.success) {
+      await clearDraft();
+      await clearChildren();
       setSelectedRole(null);
+      setInstrument(null);
+      setResumeDraft(null);
       setScoringResult(null);
       setParentMetadata(null);
       setPatientId('');
@@ -144,6 +249,7 @@ export default function Index() {
 
   const handleRoleSelection = (role: Role) => {
     setSelectedRole(role);
+    setInstrument(getDefaultInstrument(role));
     
     // Check if user already has data for this role
     if (hasExistingData && assessmentData) {
@@ -155,14 +261,25 @@ export default function Index() {
         });
         return;
       }
-      setPatientId(assessmentData.patient_id);
+      if (role !== 'clinician') {
+        setPatientId(assessmentData.patient_id);
+      }
     }
     
-    setAppState('patient-id');
+    setAppState(role === 'clinician' ? 'patient-roster' : 'patient-id');
+  };
+
+  const handleStartPatientAssessment = (patient: Patient) => {
+    setSelectedPatient(patient);
+    setPatientId(patient.patient_code);
+    setInstrument(getDefaultInstrument('clinician'));
+    setResumeDraft(null);
+    setAppState('report-lookup');
   };
 
   const handlePatientIdConfirm = (confirmedPatientId: string) => {
     setPatientId(confirmedPatientId);
+    setResumeDraft(null);
     
     // For clinicians, go to Report Lookup first (RAG-based)
     if (selectedRole === 'clinician') {
@@ -184,7 +301,7 @@ export default function Index() {
     }
   ) => {
     // Set metadata for clinician
-    const clinicianMetadata: ParentMetadata = {
+    const clinicianMetadata: ParentMetadata & Record<string, unknown> = {
       childName: metadata.childName,
       childAge: metadata.childAge,
       pronouns: metadata.pronoun,
@@ -196,21 +313,17 @@ export default function Index() {
     setParentMetadata(clinicianMetadata);
 
     // Calculate score directly from answers
-    const questionWeights = getQuestionWeights('clinician');
+    const clinicianInstrument = instrument || getDefaultInstrument('clinician');
+    const questionWeights = getQuestionWeights('clinician', clinicianInstrument);
     const answerArray: Answer[] = Object.entries(answers).map(([questionId, value]) => ({
       questionId,
       value,
     }));
 
     const hasFamilyHistory = answers['par_20'] === 'always';
-    const result = calculateScore(answerArray, questionWeights, hasFamilyHistory, undefined);
-    
-    // Calculate fused score (no video prediction for RAG lookup)
-    const fusedScore = calculateFusedScore(result.normalizedScore, null, 0.7);
-    result.fusedScore = fusedScore;
-    const fusedSeverity = getSeverityFromScore(fusedScore);
-    result.severity = fusedSeverity.level as ScoringResult['severity'];
-    result.severityLabel = fusedSeverity.label;
+    // No video prediction for RAG lookup, so the fused score equals the questionnaire score
+    const result = calculateScore(answerArray, questionWeights, hasFamilyHistory, undefined, clinicianInstrument);
+    const fusedScore = result.fusedScore ?? result.normalizedScore;
     
     setScoringResult(result);
 
@@ -225,55 +338,110 @@ export default function Index() {
         answers,
         result.normalizedScore,
         null,
-        Math.round(fusedScore)
+        Math.round(fusedScore),
+        getInstrumentRef(clinicianInstrument)
       );
+      await addHistoryEntry({
+        patientId,
+        role: 'clinician',
+        result,
+        videoUrl: metadata.videoUrl,
+        metadata: clinicianMetadata,
+        answers,
+        answerSources: Object.fromEntries(Object.keys(answers).map((questionId) => [questionId, 'report'])),
+        instrument: getInstrumentRef(clinicianInstrument),
+      });
     }
 
     // Go directly to results
     setAppState('results');
   };
 
-  const handleQuestionnaireComplete = async (answers: Record<string, AnswerValue>, metadata?: any) => {
+  const handleQuestionnaireComplete = async (
+    answers: Record<string, AnswerValue>,
+    metadata?: any,
+    supplementary?: SupplementaryAnswers
+  ) => {
+    // The questionnaire is finished, so there is nothing left to resume
+    setResumeDraft(null);
+    clearDraft();
+    setPendingVideoJobId(null);
+
     if ((selectedRole === 'parent' || selectedRole === 'clinician') && metadata) {
       setParentMetadata(metadata);
     }
 
-    const questionWeights = getQuestionWeights(selectedRole!);
+    if (selectedRole === 'parent' && metadata) {
+      await saveChild(patientId, metadata);
+    }
+
+    const activeInstrument = instrument || getDefaultInstrument(selectedRole!);
+    const questionWeights = getQuestionWeights(selectedRole!, activeInstrument);
     const answerArray: Answer[] = Object.entries(answers).map(([questionId, value]) => ({
       questionId,
       value,
     }));
 
     const hasFamilyHistory = selectedRole === 'parent' && answers['par_20'] === 'always';
-    const videoPrediction = metadata?.videoPrediction;
-    const result = calculateScore(answerArray, questionWeights, hasFamilyHistory, videoPrediction);
-    
-    // Calculate fused score using the formula: 60% questionnaire + 40% model
-    const modelScore = videoPrediction?.prediction_score || null;
-    const modelConfidence = videoPrediction?.confidence || 0.7;
-    const fusedScore = calculateFusedScore(result.normalizedScore, modelScore, modelConfidence);
-    
-    // Update result with fused score
-    result.fusedScore = fusedScore;
-    const fusedSeverity = getSeverityFromScore(fusedScore);
-    result.severity = fusedSeverity.level as ScoringResult['severity'];
-    result.severityLabel = fusedSeverity.label;
+    let videoPrediction: VideoPrediction | undefined;
+    if (metadata?.videoPrediction) {
+      try {
+        videoPrediction = parseVideoPrediction(metadata.videoPrediction);
+      } catch (err) {
+        // Fuse without the video rather than with a malformed prediction
+        console.error('Error validating video prediction:', err);
+      }
+    }
+    // calculateScore fuses with the video prediction and any clinician observation via the shared engine
+    const clinicianInput: ClinicianInput | undefined = selectedRole === 'clinician' ? metadata?.clinicianInput : undefined;
+    const result = calculateScore(answerArray, questionWeights, hasFamilyHistory, videoPrediction, activeInstrument, clinicianInput);
+    const modelScore = videoPrediction?.prediction_score ?? null;
+    const fusedScore = result.fusedScore ?? result.normalizedScore;
+
+    // Validated instruments are scored with their own published rules, reported next to the AutiCare score
+    if (supplementary && supplementary.instrumentIds.length > 0) {
+      result.validatedResults = scoreValidatedInstruments(supplementary.answers, supplementary.instrumentIds);
+    }
     
     setScoringResult(result);
 
     // Save assessment data to database with fused scoring
     if (user) {
+      const allAnswers = supplementary ? { ...answers, ...supplementary.answers } : answers;
       await saveAssessmentData(
         user.email || '',
         selectedRole!,
         patientId,
         metadata,
         excelData,
-        answers,
+        allAnswers,
         result.normalizedScore,
-        modelScore ? Math.round(modelScore) : null,
-        Math.round(fusedScore)
+        modelScore !== null ? Math.round(modelScore) : null,
+        Math.round(fusedScore),
+        getInstrumentRef(activeInstrument)
       );
+      const saved = await addHistoryEntry({
+        patientId,
+        role: selectedRole!,
+        result,
+        modelScore,
+        videoUrl: metadata?.videoUrl,
+        metadata,
+        answers: allAnswers,
+        answerSources: getAnswerSources(allAnswers, excelAnswers),
+        instrument: getInstrumentRef(activeInstrument),
+      });
+
+      // The worker applies the video prediction to the saved assessment; if it has
+      // not landed yet, the results below are updated when it does
+      if (saved.success && saved.id && metadata?.videoJobId) {
+        try {
+          await linkVideoJob(metadata.videoJobId, saved.id);
+          if (!videoPrediction) setPendingVideoJobId(metadata.videoJobId);
+        } catch (err) {
+          console.error('Error linking video job:', err);
+        }
+      }
     }
 
     // Always show results page after questionnaire completion
@@ -282,22 +450,73 @@ export default function Index() {
 
   const handleStartNewAssessment = () => {
     // Allow user to retake assessment from dashboard
+    // New assessments always use the latest instrument version
+    if (selectedRole) {
+      setInstrument(getDefaultInstrument(selectedRole));
+    }
+    setResumeDraft(null);
     if (selectedRole === 'clinician') {
-      setAppState('report-lookup');
+      setAppState('patient-roster');
     } else {
       setAppState('questionnaire');
     }
   };
 
+  const handleSwitchChild = (childPatientId: string) => {
+    const child = childProfiles.find((c) => c.patient_code === childPatientId);
+    setPatientId(childPatientId);
+    setParentMetadata(child ? childToMetadata(child) : null);
+    setResumeDraft(null);
+
+    // History is newest first, so the first match is the child's latest assessment
+    const latest = historyEntries.find((e) => e.patient_id === childPatientId);
+    if (!latest) {
+      setInstrument(getDefaultInstrument('parent'));
+      setAppState('questionnaire');
+      return;
+    }
+
+    const { result, instrument: entryInstrument } = getHistoryEntryResult(latest);
+    setInstrument(entryInstrument);
+    setScoringResult(result);
+    setAppState('dashboard');
+  };
+
+  const handleAddChild = () => {
+    setPatientId(generatePatientId('parent'));
+    setParentMetadata(null);
+    setInstrument(getDefaultInstrument('parent'));
+    setResumeDraft(null);
+    setAppState('questionnaire');
+  };
+
+  const handleQuestionnaireBack = () => {
+    if (selectedRole === 'clinician') {
+      setAppState('report-lookup');
+    } else if (selectedRole === 'parent' && scoringResult) {
+      // Leaving a new or unassessed child returns to the last assessed one
+      const hasHistory = historyEntries.some((e) => e.patient_id === patientId);
+      handleSwitchChild(hasHistory ? patientId : assessmentData?.patient_id || patientId);
+    } else {
+      setAppState('patient-id');
+    }
+  };
+
   const handleResultsClose = () => {
     // Go to dashboard when user clicks button
     setIsFirstTimeAssessment(false);
     setAppState('dashboard');
   };
 
+  const handleBookAssessment = () => {
+    setBookingRequested(true);
+    handleResultsClose();
+  };
+
   const handleBackToHomeFromResults = () => {
     setAppState('role-selection');
     setSelectedRole(null);
+    setInstrument(null);
     setScoringResult(null);
     setParentMetadata(null);
     setExcelAnswers({});
@@ -306,6 +525,8 @@ export default function Index() {
 
   const handleBackToRoles = () => {
     setSelectedRole(null);
+    setInstrument(null);
+    setSelectedPatient(null);
     setAppState('role-selection');
     setScoringResult(null);
     setParentMetadata(null);
@@ -321,13 +542,17 @@ export default function Index() {
     setAppState('dashboard');
   };
 
+  const handleOpenHistoryEntry = (entry: AssessmentHistoryEntry) => {
+    setHistoryReport({ entry, result: getHistoryEntryResult(entry).result });
+  };
+
   // Show auth screen if not authenticated
   if (!isAuthenticated) {
     return <Auth onAuthSuccess={handleAuthSuccess} />;
   }
 
   // Show loading while checking for existing data
-  if (loadingAssessmentData) {
+  if (loadingAssessmentData || loadingDraft) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -378,6 +603,27 @@ export default function Index() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Resume an in-progress questionnaire saved on this or another device */}
+      <AlertDialog
+        open={!!draft && !resumePromptHandled && (appState === 'role-selection' || appState === 'dashboard')}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Resume where you left off?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You have an unfinished {draft?.role} assessment
+              {draft?.updatedAt && ` from ${new Date(draft.updatedAt).toLocaleString()}`}
+              {draft && ` with ${Object.keys(draft.answers).length} answers saved`}.
+              Starting over will discard it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleDiscardDraft}>Start Over</AlertDialogCancel>
+            <AlertDialogAction onClick={handleResumeDraft}>Resume</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {appState === 'role-selection' && (
         <RoleSelection onSelectRole={handleRoleSelection} />
       )}
@@ -391,8 +637,19 @@ export default function Index() {
         />
       )}
 
+      {appState === 'patient-roster' && selectedRole === 'clinician' && (
+        <PatientRoster
+          user={user}
+          onStartAssessment={handleStartPatientAssessment}
+          onBack={hasExistingData && scoringResult ? handleBackToDashboard : handleBackToRoles}
+        />
+      )}
+
       {appState === 'report-lookup' && selectedRole === 'clinician' && (
         <ReportLookup
+          patientName={selectedPatient?.full_name}
+          onStartQuestionnaire={() => setAppState('questionnaire')}
+          onBack={() => setAppState('patient-roster')}
           onReportFound={handleReportFound}
         />
       )}
@@ -401,12 +658,20 @@ export default function Index() {
       {appState === 'questionnaire' && selectedRole && (
         <Questionnaire
           role={selectedRole}
-          questions={selectedRole === 'individual' ? individualQuestions : parentQuestions}
+          instrument={instrument || getDefaultInstrument(selectedRole)}
           onComplete={handleQuestionnaireComplete}
-          onBack={() => selectedRole === 'clinician' ? setAppState('report-lookup') : setAppState('patient-id')}
+          onBack={handleQuestionnaireBack}
           preFilledAnswers={excelAnswers}
           patientId={patientId}
-          existingChildData={hasExistingData ? assessmentData?.child_data as unknown as ParentMetadata : undefined}
+          existingChildData={
+            selectedRole === 'clinician'
+              ? getPatientChildData(selectedPatient)
+              : selectedRole === 'parent'
+                ? getActiveChildData()
+                : hasExistingData ? assessmentData?.child_data as unknown as ParentMetadata : undefined
+          }
+          initialDraft={resumeDraft}
+          onDraftChange={handleQuestionnaireDraftChange}
         />
       )}
 
@@ -416,11 +681,17 @@ export default function Index() {
           onClose={handleResultsClose} 
           onBackToHome={handleBackToHomeFromResults}
           videoUrl={parentMetadata?.videoUrl}
+          library={taskLibrary.activeEntries}
+          ageRange={parentMetadata?.childAge}
+          onBookAssessment={selectedRole !== 'clinician' ? handleBookAssessment : undefined}
+          videoJob={pendingVideoJob}
         />
       )}
 
       {appState === 'dashboard' && scoringResult && selectedRole && (
         <Dashboard
+          key={patientId}
+          user={user}
           role={selectedRole}
           result={scoringResult}
           metadata={parentMetadata || undefined}
@@ -428,6 +699,64 @@ export default function Index() {
           userName={user?.user_metadata?.name || user?.email?.split('@')[0] || 'User'}
           onStartAssessment={handleStartNewAssessment}
           patientName={selectedRole === 'clinician' ? parentMetadata?.childName : undefined}
+          patientId={patientId}
+          childProfiles={childProfiles}
+          onSwitchChild={selectedRole === 'parent' ? handleSwitchChild : undefined}
+          onAddChild={selectedRole === 'parent' ? handleAddChild : undefined}
+          onViewHistory={() => setAppState('history')}
+          library={taskLibrary.activeEntries}
+          libraryLoading={taskLibrary.loading}
+          onManageLibrary={selectedRole === 'clinician' ? () => setAppState('task-library') : undefined}
+          onOpenNotificationSettings={() => setAppState('notification-settings')}
+          onOpenReviewQueue={selectedRole === 'clinician' ? () => setAppState('review-queue') : undefined}
+          bookingRequested={bookingRequested}
+          onBookingHandled={() => setBookingRequested(false)}
+        />
+      )}
+
+      {appState === 'history' && (
+        <AssessmentTimeline
+          user={user}
+          patientId={patientId}
+          subjectName={selectedRole === 'individual' ? undefined : parentMetadata?.childName}
+          onOpenEntry={handleOpenHistoryEntry}
+          onBack={handleBackToDashboard}
+        />
+      )}
+
+      {appState === 'history' && historyReport && (
+        <ResultModal
+          result={historyReport.result}
+          onClose={() => setHistoryReport(null)}
+          videoUrl={historyReport.entry.video_url || undefined}
+          assessedAt={historyReport.entry.created_at}
+          closeLabel="Back to History"
+          library={taskLibrary.activeEntries}
+          ageRange={parentMetadata?.childAge}
+        />
+      )}
+
+      {appState === 'task-library' && (
+        <TaskLibraryManager
+          entries={taskLibrary.entries}
+          userId={user?.id}
+          loading={taskLibrary.loading}
+          onSave={taskLibrary.saveEntry}
+          onArchive={taskLibrary.archiveEntry}
+          onRestore={taskLibrary.restoreEntry}
+          onBack={handleBackToDashboard}
+        />
+      )}
+
+      {appState === 'notification-settings' && (
+        <NotificationSettings user={user} onBack={handleBackToDashboard} />
+      )}
+
+      {appState === 'review-queue' && selectedRole === 'clinician' && (
+        <ReviewQueue
+          user={user}
+          reviewerName={user?.user_metadata?.name || user?.email || 'Clinician'}
+          onBack={handleBackToDashboard}
         />
       )}
 
@@ -437,10 +766,16 @@ export default function Index() {
 
       {/* Footer Note */}
       {(appState === 'dashboard' || appState === 'calm-zone') && (
-        <div className="fixed bottom-4 left-4">
+        <div className="fixed bottom-4 left-4 flex gap-2">
           <Button variant="ghost" size="sm" onClick={handleBackToRoles}>
             ← Start New Assessment
           </Button>
+          {selectedRole === 'clinician' && (
+            <Button variant="ghost" size="sm" onClick={() => setAppState('patient-roster')}>
+              <Users className="w-4 h-4 mr-2" />
+              Patient Roster
+            </Button>
+          )}
         </div>
       )}
     </div>
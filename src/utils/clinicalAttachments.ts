@@ -0,0 +1,39 @@
+// Files attached to clinician observations. They live in a private bucket under
+// <uploader id>/<patient id>/, readable by the uploader and by clinicians who
+// can review that patient's assessments.
+
+import { supabase } from '@/integrations/supabase/client';
+import { ClinicalAttachment } from '@/data/questionBanks';
+
+const ATTACHMENT_BUCKET = 'clinical-attachments';
+const ATTACHMENT_URL_TTL_SECONDS = 10 * 60;
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_ACCEPT = '.pdf,.doc,.docx,.txt,image/*';
+
+export async function uploadClinicalAttachment(userId: string, patientId: string, file: File): Promise<ClinicalAttachment> {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is over the 10MB limit`);
+  }
+
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${userId}/${patientId}/${Date.now()}-${safeName}`;
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+
+  return { path, name: file.name, size: file.size, type: file.type };
+}
+
+export async function removeClinicalAttachment(attachment: ClinicalAttachment) {
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove([attachment.path]);
+  if (error) throw error;
+}
+
+// Short-lived link for opening an attachment; the bucket itself is never public
+export async function getClinicalAttachmentUrl(attachment: ClinicalAttachment): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(attachment.path, ATTACHMENT_URL_TTL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { formatTextEmail, renderSampleEmails } from '@shared/email/samples';
+
+// Committed baseline, shared with supabase/functions/_shared/email/samples_test.ts.
+// After an intended template change, refresh it with `npx vitest run -u`.
+const SNAPSHOT_DIR = '../../supabase/functions/_shared/email/__snapshots__';
+
+const samples = renderSampleEmails();
+
+describe('email templates', () => {
+  it.each(samples)('$name matches its snapshot', async ({ name, email }) => {
+    await expect(email.html).toMatchFileSnapshot(`${SNAPSHOT_DIR}/${name}.html`);
+    await expect(formatTextEmail(email)).toMatchFileSnapshot(`${SNAPSHOT_DIR}/${name}.txt`);
+  });
+
+  it.each(samples.filter(({ name }) => name.endsWith('.escaping')))('$name escapes user-entered markup', ({ email }) => {
+    expect(email.html).not.toMatch(/<script|<img|<b>/);
+    expect(email.html).toContain('&lt;script&gt;');
+  });
+});
@@ -0,0 +1,136 @@
+// Guided recording: the camera is recorded one protocol segment at a time, each
+// segment to its own file, and the files are uploaded side by side with a
+// protocol.json manifest describing them (see src/data/recordingProtocol.ts).
+
+import { supabase } from '@/integrations/supabase/client';
+import { RecordingProtocol } from '@/data/recordingProtocol';
+import { VideoFrameSample, VideoRecording, VideoRecordingSegment } from '@shared/videoPrediction';
+import { extractFrameSamples } from '@/utils/videoFrames';
+import { pickVideoMimeType } from '@/utils/videoPreprocessing';
+
+// The latest take of one protocol segment
+export interface RecordedSegment {
+  id: string;
+  file: File;
+  startedAt: string;
+  // Seconds actually recorded, which is shorter when the segment was stopped early
+  duration: number;
+  takes: number;
+}
+
+export interface SegmentRecorder {
+  stop(): Promise<{ file: File; duration: number }>;
+}
+
+const BUCKET = 'assessment-videos';
+const CAMERA_HEIGHT = 480;
+// Keeps even the longest segment well under the upload limit
+const SEGMENT_BITS_PER_SECOND = 1500000;
+
+export const isGuidedRecordingSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+// The rear camera where there is one, since the person recording films someone
+// else. The predictor only scores the picture, so no sound is recorded.
+export function openCamera(): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    video: { facingMode: 'environment', height: { ideal: CAMERA_HEIGHT } },
+    audio: false,
+  });
+}
+
+export function startSegmentRecording(stream: MediaStream, segmentId: string): SegmentRecorder {
+  const mimeType = pickVideoMimeType();
+  const recorder = new MediaRecorder(stream, {
+    ...(mimeType ? { mimeType } : {}),
+    videoBitsPerSecond: SEGMENT_BITS_PER_SECOND,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const startedAt = performance.now();
+  recorder.start(1000);
+
+  return {
+    stop: () => new Promise((resolve) => {
+      const duration = (performance.now() - startedAt) / 1000;
+      const finish = () => {
+        const type = (recorder.mimeType || mimeType || 'video/webm').split(';')[0];
+        const extension = type === 'video/mp4' ? 'mp4' : 'webm';
+        resolve({ file: new File(chunks, `${segmentId}.${extension}`, { type }), duration });
+      };
+      // Already stopped when the camera was disconnected
+      if (recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      recorder.onstop = finish;
+      recorder.stop();
+    }),
+  };
+}
+
+const roundSeconds = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// Uploads the segments in protocol order and returns the recording as the
+// predictor receives it. The first segment's URL is the job's video_url.
+export async function uploadGuidedRecording(
+  userId: string,
+  protocol: RecordingProtocol,
+  segments: RecordedSegment[]
+): Promise<VideoRecording> {
+  const folder = `${userId}/${Date.now()}`;
+  const uploaded: VideoRecordingSegment[] = [];
+  let offset = 0;
+
+  for (const segment of segments) {
+    const path = `${folder}/${segment.file.name}`;
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, segment.file, {
+        contentType: segment.file.type,
+        metadata: { protocol_id: protocol.id, protocol_version: protocol.version, segment: segment.id },
+      });
+    if (error) throw error;
+
+    const { data: { publicUrl } } = supabase.storage.from(BUCKET).getPublicUrl(path);
+    uploaded.push({
+      id: segment.id,
+      video_url: publicUrl,
+      offset: roundSeconds(offset),
+      duration: roundSeconds(segment.duration),
+      started_at: segment.startedAt,
+      takes: segment.takes,
+    });
+    offset += segment.duration;
+  }
+
+  const recording: VideoRecording = {
+    protocol_id: protocol.id,
+    protocol_version: protocol.version,
+    segments: uploaded,
+  };
+
+  // Lets the recording be read back from storage alone
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(`${folder}/protocol.json`, new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' }), {
+      contentType: 'application/json',
+    });
+  if (error) throw error;
+
+  return recording;
+}
+
+// Motion samples of every segment on one clock, as if played back to back
+export async function extractRecordingFrames(segments: RecordedSegment[]): Promise<VideoFrameSample[]> {
+  const frames: VideoFrameSample[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    const samples = await extractFrameSamples(segment.file);
+    samples.forEach((sample) => frames.push({ ...sample, time: roundSeconds(sample.time + offset) }));
+    offset += segment.duration;
+  }
+  return frames;
+}
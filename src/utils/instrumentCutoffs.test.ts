@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { InstrumentRole, isValidatedInstrument, listInstruments, resolveInstrument } from '@/data/instrumentRegistry';
+import { resolveInstrumentCutoffs } from '@shared/instrumentCutoffs';
+
+const ROLES: InstrumentRole[] = ['individual', 'parent', 'clinician'];
+const native = listInstruments().filter((instrument) => !isValidatedInstrument(instrument));
+
+// The edge functions' copy must agree with the instrument definitions the app scores with
+describe('resolveInstrumentCutoffs', () => {
+  it.each(native.flatMap((instrument) => ROLES.map((role) => ({ id: instrument.id, version: instrument.version, role }))))(
+    '$id v$version as $role matches the definition',
+    ({ id, version, role }) => {
+      expect(resolveInstrumentCutoffs({ id, version }, role)).toEqual(resolveInstrument({ id, version }, role).severityCutoffs);
+    }
+  );
+
+  it.each(ROLES)('falls back like the app for a %s assessment without a known instrument', (role) => {
+    const expected = (ref: { id?: string | null; version?: string | null }) => resolveInstrument(ref, role).severityCutoffs;
+    expect(resolveInstrumentCutoffs({ id: null, version: null }, role)).toEqual(expected({ id: null, version: null }));
+    expect(resolveInstrumentCutoffs({ id: 'auticare-parent', version: null }, role)).toEqual(expected({ id: 'auticare-parent' }));
+    expect(resolveInstrumentCutoffs({ id: 'auticare-parent', version: '9.9.9' }, role)).toEqual(expected({ id: 'auticare-parent', version: '9.9.9' }));
+  });
+});
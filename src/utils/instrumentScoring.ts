@@ -0,0 +1,199 @@
+// Scoring for validated screening instruments (M-CHAT-R/F, AQ-10, SCQ)
+// These follow their published item-count rules rather than the AutiCare
+// weighted score, but produce a ScoringResult so reports can show them
+// alongside the native AutiCare score.
+
+import {
+  Instrument,
+  InstrumentQuestion,
+  ResponseOption,
+  ResponseScale,
+  getInstrument,
+  isValidatedInstrument,
+  listInstruments,
+  listLatestInstruments,
+} from '@/data/instrumentRegistry';
+import { ScoringResult } from '@/utils/scoring';
+import { SCORING_VERSION, getSeverity } from '@shared/scoring';
+
+export type { ResponseOption };
+
+export const RESPONSE_OPTIONS: Record<ResponseScale, ResponseOption[]> = {
+  frequency: [
+    { value: 'never', label: 'Never' },
+    { value: 'rarely', label: 'Rarely' },
+    { value: 'sometimes', label: 'Sometimes' },
+    { value: 'often', label: 'Often' },
+    { value: 'always', label: 'Always' },
+  ],
+  'yes-no': [
+    { value: 'yes', label: 'Yes' },
+    { value: 'no', label: 'No' },
+  ],
+  'agree-disagree': [
+    { value: 'definitely-agree', label: 'Definitely Agree' },
+    { value: 'slightly-agree', label: 'Slightly Agree' },
+    { value: 'slightly-disagree', label: 'Slightly Disagree' },
+    { value: 'definitely-disagree', label: 'Definitely Disagree' },
+  ],
+};
+
+// Suffix used for follow-up interview answer ids, e.g. mchat_7_fu
+export const FOLLOW_UP_SUFFIX = '_fu';
+
+export function getResponseOptions(instrument: Instrument): ResponseOption[] {
+  return RESPONSE_OPTIONS[instrument.responseScale || 'frequency'];
+}
+
+function isSkipped(question: InstrumentQuestion, answers: Record<string, string>): boolean {
+  if (!question.skipIf) return false;
+  return question.skipIf.answers.includes(answers[question.skipIf.questionId]);
+}
+
+// Items to ask, after applying skip rules to the answers given so far
+export function getActiveQuestions(instrument: Instrument, answers: Record<string, string>): InstrumentQuestion[] {
+  return instrument.questions.filter((q) => !isSkipped(q, answers));
+}
+
+function isScored(question: InstrumentQuestion): boolean {
+  return (question.riskAnswers?.length || 0) > 0;
+}
+
+function getAtRiskQuestions(instrument: Instrument, answers: Record<string, string>): InstrumentQuestion[] {
+  return getActiveQuestions(instrument, answers).filter(
+    (q) => isScored(q) && q.riskAnswers!.includes(answers[q.id])
+  );
+}
+
+// Initial screen score (before any follow-up interview)
+function getInitialScore(instrument: Instrument, answers: Record<string, string>) {
+  const scored = getActiveQuestions(instrument, answers).filter(isScored);
+  const atRisk = getAtRiskQuestions(instrument, answers);
+  return { rawTotal: atRisk.length, maxPossible: scored.length, atRisk };
+}
+
+function toSeverityScore(instrument: Instrument, rawTotal: number, maxPossible: number): number {
+  if (instrument.scoreBasis === 'raw') return rawTotal;
+  return maxPossible > 0 ? Math.round((rawTotal / maxPossible) * 100) : 0;
+}
+
+// Follow-up interview prompts, only when the initial score lands in the trigger band
+export function getFollowUpQuestions(instrument: Instrument, answers: Record<string, string>): InstrumentQuestion[] {
+  if (!instrument.followUp) return [];
+
+  const scored = instrument.questions.filter(isScored);
+  const allAnswered = scored.every((q) => isSkipped(q, answers) || answers[q.id] !== undefined);
+  if (!allAnswered) return [];
+
+  const { rawTotal, maxPossible, atRisk } = getInitialScore(instrument, answers);
+  const band = getSeverity(toSeverityScore(instrument, rawTotal, maxPossible), instrument.severityCutoffs);
+  if (band.level !== instrument.followUp.triggerLevel) return [];
+
+  return atRisk
+    .filter((q) => q.followUp)
+    .map((q) => ({
+      ...q,
+      id: `${q.id}${FOLLOW_UP_SUFFIX}`,
+      text: q.followUp!.text,
+      riskAnswers: q.followUp!.riskAnswers,
+      followUp: undefined,
+      skipIf: undefined,
+    }));
+}
+
+// Score a validated instrument; returns null until at least one item is answered
+export function scoreValidatedInstrument(
+  instrument: Instrument,
+  answers: Record<string, string>
+): ScoringResult | null {
+  const answered = instrument.questions.some((q) => answers[q.id] !== undefined);
+  if (!answered) return null;
+
+  const { rawTotal, maxPossible, atRisk } = getInitialScore(instrument, answers);
+  const severityScore = toSeverityScore(instrument, rawTotal, maxPossible);
+  const normalizedScore = maxPossible > 0 ? Math.round((rawTotal / maxPossible) * 100) : 0;
+
+  const band = getSeverity(severityScore, instrument.severityCutoffs);
+  let severity = band.level;
+  let severityLabel = band.label;
+  let recommendation = band.recommendation;
+  let followUpScore: number | undefined;
+
+  // Apply the follow-up interview outcome once every follow-up item is answered
+  const followUps = getFollowUpQuestions(instrument, answers);
+  if (instrument.followUp && followUps.length > 0) {
+    const followUpComplete = followUps.every((q) => answers[q.id] !== undefined);
+    if (followUpComplete) {
+      followUpScore = followUps.filter((q) => q.riskAnswers!.includes(answers[q.id])).length;
+      const outcome = followUpScore >= instrument.followUp.positiveAt
+        ? instrument.followUp.positive
+        : instrument.followUp.negative;
+      severity = outcome.level;
+      severityLabel = outcome.label;
+      recommendation = outcome.recommendation;
+    }
+  }
+
+  return {
+    normalizedScore,
+    severity,
+    severityLabel,
+    recommendation,
+    topContributors: atRisk.map((q) => ({
+      question: q.id,
+      contribution: 1,
+      action: q.followUp && followUpScore !== undefined
+        ? `Follow-up answer: ${answers[`${q.id}${FOLLOW_UP_SUFFIX}`]}`
+        : `Answered "${answers[q.id]}"`,
+    })),
+    rawTotal,
+    maxPossible,
+    followUpScore,
+    scoringVersion: SCORING_VERSION,
+    instrumentId: instrument.id,
+    instrumentVersion: instrument.version,
+    instrumentName: instrument.name,
+  };
+}
+
+// Score every validated instrument with answers present. Answers are stored alongside
+// the native ones, so without explicit ids any answered validated instrument is scored.
+export function scoreValidatedInstruments(
+  answers: Record<string, string>,
+  instrumentIds?: string[]
+): ScoringResult[] {
+  const instruments = instrumentIds
+    ? instrumentIds.map((id) => getInstrument(id)).filter((i): i is Instrument => !!i)
+    : listLatestInstruments().filter(isValidatedInstrument);
+
+  return instruments
+    .map((instrument) => scoreValidatedInstrument(instrument, answers))
+    .filter((result): result is ScoringResult => result !== null);
+}
+
+// Question and answer wording for a stored answer id, looked up in the given instrument first
+export function describeAnswer(
+  questionId: string,
+  value: string,
+  instrument?: Instrument
+): { question: string; answer: string } {
+  const candidates = instrument ? [instrument, ...listInstruments()] : listInstruments();
+
+  for (const candidate of candidates) {
+    const scaleOptions = getResponseOptions(candidate);
+    for (const q of candidate.questions) {
+      if (q.id === questionId) {
+        return { question: q.text, answer: scaleOptions.find((o) => o.value === value)?.label || value };
+      }
+      if (q.followUp && `${q.id}${FOLLOW_UP_SUFFIX}` === questionId) {
+        return { question: q.followUp.text, answer: scaleOptions.find((o) => o.value === value)?.label || value };
+      }
+      const detail = q.followUps?.find((d) => d.id === questionId);
+      if (detail) {
+        return { question: detail.text, answer: detail.options.find((o) => o.value === value)?.label || value };
+      }
+    }
+  }
+
+  return { question: questionId, answer: value };
+}
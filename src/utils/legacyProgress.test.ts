@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { DUPLICATE_WINDOW_MS, IMPORTED_REVIEW_STATUS, LegacyProgressEntry, buildLegacyHistoryRows } from '@/utils/legacyProgress';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const entry = (day: number, score: number, severity: LegacyProgressEntry['severity'] = 'moderate'): LegacyProgressEntry => ({
+  score,
+  severity,
+  role: 'parent',
+  timestamp: Date.UTC(2025, 0, 1) + day * DAY_MS,
+});
+
+describe('buildLegacyHistoryRows', () => {
+  it('marks every imported row so the review queue skips it', () => {
+    const rows = buildLegacyHistoryRows([entry(0, 45.4), entry(30, 38)], [], 'user-1', 'child-1');
+    expect(rows).toHaveLength(2);
+    for (const row of rows) {
+      expect(row.review_status).toBe(IMPORTED_REVIEW_STATUS);
+      expect(row.metadata).toEqual({ importedFrom: 'localStorage' });
+      expect(row.user_id).toBe('user-1');
+      expect(row.patient_id).toBe('child-1');
+    }
+    expect(rows[0]).toMatchObject({ questionnaire_score: 45, fused_score: 45, created_at: '2025-01-01T00:00:00.000Z' });
+  });
+
+  it('imports oldest first and collapses repeats of the same result', () => {
+    const rows = buildLegacyHistoryRows([entry(30, 38), entry(0, 45), entry(1, 45.2), entry(2, 45, 'high')], [], 'u', 'p');
+    expect(rows.map((row) => [row.fused_score, row.severity])).toEqual([[45, 'moderate'], [45, 'high'], [38, 'moderate']]);
+  });
+
+  it('skips entries already saved to assessment_history', () => {
+    const local = [entry(0, 45), entry(30, 38)];
+    const saved = [{ created_at: new Date(local[1].timestamp + DUPLICATE_WINDOW_MS / 2).toISOString(), fused_score: 38 }];
+    expect(buildLegacyHistoryRows(local, saved, 'u', 'p').map((row) => row.fused_score)).toEqual([45]);
+  });
+});
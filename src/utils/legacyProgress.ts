@@ -0,0 +1,51 @@
+// Progress entries the old dashboard kept in localStorage, and the
+// assessment_history rows they become when moved to Supabase
+import { TablesInsert } from '@/integrations/supabase/types';
+import { ScoringResult } from '@/utils/scoring';
+
+export interface LegacyProgressEntry {
+  score: number;
+  severity: ScoringResult['severity'];
+  role: 'individual' | 'parent' | 'clinician';
+  timestamp: number;
+}
+
+// Local entries this close to a saved assessment with the same score are the same assessment
+export const DUPLICATE_WINDOW_MS = 5 * 60 * 1000;
+
+// Imported results were never scored from answers here, so they are kept out of
+// the clinician review queue
+export const IMPORTED_REVIEW_STATUS = 'imported';
+
+export function buildLegacyHistoryRows(
+  local: LegacyProgressEntry[],
+  saved: { created_at: string; fused_score: number }[],
+  userId: string,
+  patientId: string
+): TablesInsert<'assessment_history'>[] {
+  const sorted = [...local].sort((a, b) => a.timestamp - b.timestamp);
+
+  // The old dashboard logged the current result on every visit, so repeats of one score are one assessment
+  const toImport = sorted.filter((entry, index) => {
+    const previous = sorted[index - 1];
+    if (previous && Math.round(previous.score) === Math.round(entry.score) && previous.severity === entry.severity) {
+      return false;
+    }
+    return !saved.some((row) =>
+      Math.abs(new Date(row.created_at).getTime() - entry.timestamp) < DUPLICATE_WINDOW_MS &&
+      row.fused_score === Math.round(entry.score)
+    );
+  });
+
+  return toImport.map((entry) => ({
+    user_id: userId,
+    patient_id: patientId,
+    role: entry.role,
+    questionnaire_score: Math.round(entry.score),
+    fused_score: Math.round(entry.score),
+    severity: entry.severity,
+    metadata: { importedFrom: 'localStorage' },
+    review_status: IMPORTED_REVIEW_STATUS,
+    created_at: new Date(entry.timestamp).toISOString(),
+  }));
+}
@@ -0,0 +1,65 @@
+// Printable sheet of visual schedule cards, laid out for cutting out and laminating
+
+export interface PrintableCard {
+  label: string;
+  src: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Opens the sheet in a new window and prints it once the pictures have loaded.
+// Returns false when the browser blocked the window.
+export function printPictureCards(cards: PrintableCard[], title: string): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  const cardHtml = cards
+    .map((card) => {
+      // Bundled icons are relative URLs, which wouldn't resolve from the blank print window
+      const src = new URL(card.src, window.location.href).href;
+      return `<div class="card"><img src="${escapeHtml(src)}" alt="" /><p>${escapeHtml(card.label)}</p></div>`;
+    })
+    .join('');
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  body { font-family: Arial, Helvetica, sans-serif; color: #0b2545; margin: 0; }
+  h1 { font-size: 16pt; margin: 0 0 8mm; }
+  .sheet { display: grid; grid-template-columns: repeat(3, 60mm); gap: 4mm; }
+  .card { width: 60mm; height: 70mm; border: 1px dashed #6c757d; border-radius: 4mm; box-sizing: border-box;
+    display: flex; flex-direction: column; align-items: center; justify-content: center; padding: 4mm; break-inside: avoid; }
+  .card img { width: 44mm; height: 44mm; object-fit: contain; }
+  .card p { font-size: 14pt; font-weight: bold; text-align: center; margin: 3mm 0 0; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="sheet">${cardHtml}</div>
+</body>
+</html>`);
+  printWindow.document.close();
+
+  const images = Array.from(printWindow.document.images);
+  Promise.all(
+    images.map((img) => (img.complete ? Promise.resolve() : new Promise((resolve) => {
+      img.onload = resolve;
+      img.onerror = resolve;
+    })))
+  ).then(() => {
+    printWindow.focus();
+    printWindow.print();
+  });
+
+  return true;
+}
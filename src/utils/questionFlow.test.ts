@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { getInstrument } from '@/data/instrumentRegistry';
+import {
+  INTRO_STEP_ID,
+  OBSERVATION_STEP_ID,
+  VIDEO_STEP_ID,
+  buildFlow,
+  collectAnswers,
+  getNextStepId,
+  getPreviousStepId,
+} from '@/utils/questionFlow';
+
+const parent = getInstrument('auticare-parent', '1.1.0')!;
+const scq = getInstrument('scq', '1.0.0')!;
+
+const stepIds = (...args: Parameters<typeof buildFlow>) => buildFlow(...args).map((step) => step.id);
+
+describe('buildFlow', () => {
+  it('starts with the intro and ends with the observation and video steps', () => {
+    const ids = stepIds({ instrument: parent, answers: {}, includeObservation: true, includeVideo: true });
+    expect(ids[0]).toBe(INTRO_STEP_ID);
+    expect(ids.slice(-2)).toEqual([OBSERVATION_STEP_ID, VIDEO_STEP_ID]);
+    expect(ids).toHaveLength(parent.questions.length + 3);
+  });
+
+  describe('age gating', () => {
+    const gated = ['par_5', 'par_7', 'par_17'];
+
+    it('leaves out items for older children when the age range ends before their minMonths', () => {
+      const ids = stepIds({ instrument: parent, answers: {}, ageRange: '1-2 years' });
+      gated.forEach((id) => expect(ids).not.toContain(id));
+    });
+
+    it('asks them once the age range reaches minMonths', () => {
+      const ids = stepIds({ instrument: parent, answers: {}, ageRange: '3-5 years' });
+      gated.forEach((id) => expect(ids).toContain(id));
+    });
+
+    it('asks every item when the age is unknown', () => {
+      const ids = stepIds({ instrument: parent, answers: {} });
+      gated.forEach((id) => expect(ids).toContain(id));
+    });
+  });
+
+  describe('par_15_detail follow-up', () => {
+    it('is hidden until par_15 is answered with a triggering answer', () => {
+      expect(stepIds({ instrument: parent, answers: {} })).not.toContain('par_15_detail');
+      expect(stepIds({ instrument: parent, answers: { par_15: 'sometimes' } })).not.toContain('par_15_detail');
+    });
+
+    it('comes straight after par_15 and points back to it', () => {
+      const flow = buildFlow({ instrument: parent, answers: { par_15: 'always' } });
+      const ids = flow.map((step) => step.id);
+      expect(ids[ids.indexOf('par_15') + 1]).toBe('par_15_detail');
+
+      const detail = flow.find((step) => step.id === 'par_15_detail');
+      expect(detail?.kind === 'question' && detail.question.followUpOf).toBe('par_15');
+    });
+  });
+
+  describe('skip logic', () => {
+    const skipped = ['scq_2', 'scq_3', 'scq_4', 'scq_5', 'scq_6', 'scq_7'];
+
+    it('skips the items gated on another answer', () => {
+      const ids = stepIds({ instrument: parent, additionalInstruments: [scq], answers: { scq_1: 'no' } });
+      skipped.forEach((id) => expect(ids).not.toContain(id));
+      expect(ids).toContain('scq_8');
+    });
+
+    it('asks them for any other answer', () => {
+      const ids = stepIds({ instrument: parent, additionalInstruments: [scq], answers: { scq_1: 'yes' } });
+      skipped.forEach((id) => expect(ids).toContain(id));
+    });
+
+    it('puts validated instruments after the native items', () => {
+      const ids = stepIds({ instrument: parent, additionalInstruments: [scq], answers: {} });
+      expect(ids.indexOf('scq_1')).toBeGreaterThan(ids.indexOf('par_20'));
+    });
+  });
+});
+
+describe('step navigation', () => {
+  const flow = buildFlow({ instrument: parent, answers: {} });
+
+  it('moves between neighbouring steps and stops at either end', () => {
+    expect(getPreviousStepId(flow, INTRO_STEP_ID)).toBeNull();
+    expect(getNextStepId(flow, INTRO_STEP_ID)).toBe(flow[1].id);
+    expect(getPreviousStepId(flow, flow[1].id)).toBe(INTRO_STEP_ID);
+    expect(getNextStepId(flow, flow[flow.length - 1].id)).toBeNull();
+  });
+});
+
+describe('collectAnswers', () => {
+  it('splits native items from validated instruments and unscored follow-ups', () => {
+    const answers = { par_1: 'often', par_15: 'always', par_15_detail: 'echolalia', scq_1: 'yes', scq_2: 'no' };
+    const flow = buildFlow({ instrument: parent, additionalInstruments: [scq], answers });
+
+    expect(collectAnswers(flow, answers)).toEqual({
+      native: { par_1: 'often', par_15: 'always' },
+      supplementary: { par_15_detail: 'echolalia', scq_1: 'yes', scq_2: 'no' },
+    });
+  });
+
+  it('drops answers to items skipped or hidden after they were answered', () => {
+    const answers = { par_5: 'often', par_15: 'rarely', par_15_detail: 'echolalia', scq_1: 'no', scq_2: 'yes' };
+    const flow = buildFlow({ instrument: parent, additionalInstruments: [scq], answers, ageRange: '1-2 years' });
+
+    expect(collectAnswers(flow, answers)).toEqual({
+      native: { par_15: 'rarely' },
+      supplementary: { scq_1: 'no' },
+    });
+  });
+});
@@ -0,0 +1,140 @@
+// Declarative questionnaire flow
+// Turns instrument definitions plus the answers given so far into the ordered
+// list of steps to show. Skip rules, age gating and follow-ups are declared in
+// the instrument JSON; everything here is a pure function, so a flow can be
+// checked without rendering Questionnaire.tsx.
+
+import { Instrument, isWithinAgeRange } from '@/data/instrumentRegistry';
+import {
+  FOLLOW_UP_SUFFIX,
+  ResponseOption,
+  getActiveQuestions,
+  getFollowUpQuestions,
+  getResponseOptions,
+} from '@/utils/instrumentScoring';
+
+export interface FlowQuestion {
+  id: string;
+  text: string;
+  options: ResponseOption[];
+  instrument: Instrument;
+  // Set on follow-up items: the id of the item that triggered them
+  followUpOf?: string;
+}
+
+export type FlowStep =
+  | { kind: 'intro'; id: string }
+  | { kind: 'question'; id: string; question: FlowQuestion }
+  | { kind: 'observation'; id: string }
+  | { kind: 'video'; id: string };
+
+export interface FlowInput {
+  // Native AutiCare instrument for the role
+  instrument: Instrument;
+  // Optional validated instruments, asked after the native items
+  additionalInstruments?: Instrument[];
+  answers: Record<string, string>;
+  // Age-range option from the metadata step, e.g. '3-5 years'
+  ageRange?: string;
+  // Clinicians record their own observation and instrument scores after the items
+  includeObservation?: boolean;
+  includeVideo?: boolean;
+}
+
+export const INTRO_STEP_ID = 'intro';
+export const OBSERVATION_STEP_ID = 'observation';
+export const VIDEO_STEP_ID = 'video';
+
+function toStep(question: FlowQuestion): FlowStep {
+  return { kind: 'question', id: question.id, question };
+}
+
+// Question steps for one instrument: skip rules and age gating first, then
+// detail questions straight after the item that triggered them, then any
+// score-triggered follow-up interview once the whole screen is answered
+function getInstrumentSteps(instrument: Instrument, answers: Record<string, string>, ageRange?: string): FlowStep[] {
+  const options = getResponseOptions(instrument);
+
+  const itemSteps = getActiveQuestions(instrument, answers)
+    .filter((q) => isWithinAgeRange(q.ageRange, ageRange))
+    .flatMap((q) => [
+      toStep({ id: q.id, text: q.text, options, instrument }),
+      ...(q.followUps || [])
+        .filter((detail) => detail.showIf.includes(answers[q.id]))
+        .map((detail) => toStep({
+          id: detail.id,
+          text: detail.text,
+          options: detail.options,
+          instrument,
+          followUpOf: q.id,
+        })),
+    ]);
+
+  const interviewSteps = getFollowUpQuestions(instrument, answers).map((q) => toStep({
+    id: q.id,
+    text: q.text,
+    options,
+    instrument,
+    followUpOf: q.id.slice(0, -FOLLOW_UP_SUFFIX.length),
+  }));
+
+  return [...itemSteps, ...interviewSteps];
+}
+
+// Full ordered flow: intro/metadata step, native items, validated instruments,
+// clinician observation, optional video
+export function buildFlow({
+  instrument,
+  additionalInstruments = [],
+  answers,
+  ageRange,
+  includeObservation = false,
+  includeVideo = false,
+}: FlowInput): FlowStep[] {
+  const steps: FlowStep[] = [{ kind: 'intro', id: INTRO_STEP_ID }];
+  steps.push(...getInstrumentSteps(instrument, answers, ageRange));
+  additionalInstruments.forEach((additional) => {
+    steps.push(...getInstrumentSteps(additional, answers, ageRange));
+  });
+  if (includeObservation) {
+    steps.push({ kind: 'observation', id: OBSERVATION_STEP_ID });
+  }
+  if (includeVideo) {
+    steps.push({ kind: 'video', id: VIDEO_STEP_ID });
+  }
+  return steps;
+}
+
+export function getNextStepId(flow: FlowStep[], currentId: string): string | null {
+  const index = flow.findIndex((step) => step.id === currentId);
+  return index >= 0 && index < flow.length - 1 ? flow[index + 1].id : null;
+}
+
+export function getPreviousStepId(flow: FlowStep[], currentId: string): string | null {
+  const index = flow.findIndex((step) => step.id === currentId);
+  return index > 0 ? flow[index - 1].id : null;
+}
+
+// Question steps need an answer; intro, observation and video steps are validated by the caller
+export function isStepAnswered(step: FlowStep, answers: Record<string, string>): boolean {
+  return step.kind !== 'question' || answers[step.id] !== undefined;
+}
+
+// Answers for steps still in the flow, split into native scored items and
+// everything else (validated instruments and unscored follow-ups). Answers to
+// items that were skipped after the fact are dropped.
+export function collectAnswers(
+  flow: FlowStep[],
+  answers: Record<string, string>
+): { native: Record<string, string>; supplementary: Record<string, string> } {
+  const native: Record<string, string> = {};
+  const supplementary: Record<string, string> = {};
+
+  flow.forEach((step) => {
+    if (step.kind !== 'question' || answers[step.id] === undefined) return;
+    const isNative = step.question.instrument.kind !== 'validated' && !step.question.followUpOf;
+    (isNative ? native : supplementary)[step.id] = answers[step.id];
+  });
+
+  return { native, supplementary };
+}
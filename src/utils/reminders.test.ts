@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ReminderSchedule,
+  getNextOccurrence,
+  getZonedDate,
+  getZonedTime,
+  isValidTimeZone,
+  validateReminderSchedule,
+  zonedTimeToUtc,
+} from '@shared/reminders';
+
+const schedule = (overrides: Partial<ReminderSchedule>): ReminderSchedule => ({
+  recurrence: 'daily',
+  timeOfDay: '08:00',
+  timezone: 'Europe/London',
+  startDate: '2026-01-01',
+  ...overrides,
+});
+
+// Each occurrence after the last, starting from the given instant
+const occurrences = (s: ReminderSchedule, from: string, count: number) => {
+  const found: string[] = [];
+  let after = new Date(from);
+  for (let i = 0; i < count; i++) {
+    const next = getNextOccurrence(s, after);
+    if (!next) break;
+    found.push(next.toISOString());
+    after = next;
+  }
+  return found;
+};
+
+describe('getNextOccurrence', () => {
+  it('repeats a daily reminder at the same local time', () => {
+    expect(occurrences(schedule({}), '2026-01-10T09:00:00Z', 3)).toEqual([
+      '2026-01-11T08:00:00.000Z',
+      '2026-01-12T08:00:00.000Z',
+      '2026-01-13T08:00:00.000Z',
+    ]);
+  });
+
+  it('returns the same day when the time is still ahead', () => {
+    expect(getNextOccurrence(schedule({}), new Date('2026-01-10T07:59:00Z'))?.toISOString()).toBe('2026-01-10T08:00:00.000Z');
+  });
+
+  it('repeats weekly as an interval counted from the start date', () => {
+    // 2026-01-05 is a Monday
+    const weekly = schedule({ recurrence: 'interval', intervalDays: 7, startDate: '2026-01-05', timezone: 'UTC' });
+    expect(occurrences(weekly, '2026-01-01T00:00:00Z', 3)).toEqual([
+      '2026-01-05T08:00:00.000Z',
+      '2026-01-12T08:00:00.000Z',
+      '2026-01-19T08:00:00.000Z',
+    ]);
+  });
+
+  it('skips weekends for a weekday reminder', () => {
+    // 2026-01-09 is a Friday
+    const weekdays = schedule({ recurrence: 'weekdays', timezone: 'UTC' });
+    expect(occurrences(weekdays, '2026-01-09T09:00:00Z', 2)).toEqual(['2026-01-12T08:00:00.000Z', '2026-01-13T08:00:00.000Z']);
+  });
+
+  it('stays at 08:00 local time across the spring-forward day', () => {
+    // Clocks in London go forward at 01:00 UTC on 2026-03-29
+    expect(occurrences(schedule({}), '2026-03-28T00:00:00Z', 3)).toEqual([
+      '2026-03-28T08:00:00.000Z',
+      '2026-03-29T07:00:00.000Z',
+      '2026-03-30T07:00:00.000Z',
+    ]);
+  });
+
+  it('stays at 08:00 local time across the fall-back day', () => {
+    // Clocks in London go back at 01:00 UTC on 2026-10-25
+    expect(occurrences(schedule({}), '2026-10-24T00:00:00Z', 3)).toEqual([
+      '2026-10-24T07:00:00.000Z',
+      '2026-10-25T08:00:00.000Z',
+      '2026-10-26T08:00:00.000Z',
+    ]);
+  });
+
+  it('moves a time skipped by spring-forward to just after the jump', () => {
+    // 02:30 doesn't exist in New York on 2026-03-08; 03:00 EDT is 07:00 UTC
+    const skipped = schedule({ timeOfDay: '02:30', timezone: 'America/New_York' });
+    const next = getNextOccurrence(skipped, new Date('2026-03-08T00:00:00Z'))!;
+    expect(getZonedDate(next, 'America/New_York')).toBe('2026-03-08');
+    expect(next.getTime()).toBeGreaterThanOrEqual(Date.parse('2026-03-08T07:00:00Z'));
+    expect(getNextOccurrence(skipped, next)?.toISOString()).toBe('2026-03-09T06:30:00.000Z');
+  });
+
+  it('sends a time repeated by fall-back only once', () => {
+    // 01:30 happens twice in London on 2026-10-25
+    const repeated = schedule({ timeOfDay: '01:30' });
+    const [first, second] = occurrences(repeated, '2026-10-24T12:00:00Z', 2).map((iso) => new Date(iso));
+    expect(getZonedTime(first, 'Europe/London')).toBe('01:30');
+    expect(getZonedDate(first, 'Europe/London')).toBe('2026-10-25');
+    expect(getZonedDate(second, 'Europe/London')).toBe('2026-10-26');
+  });
+
+  it('uses the zone\'s date, not the UTC date, near midnight', () => {
+    const tokyo = schedule({ timeOfDay: '07:00', timezone: 'Asia/Tokyo' });
+    // 23:00 UTC on the 10th is 08:00 on the 11th in Tokyo, so that day's reminder has passed
+    expect(getNextOccurrence(tokyo, new Date('2026-01-10T23:00:00Z'))?.toISOString()).toBe('2026-01-11T22:00:00.000Z');
+  });
+
+  it('returns null once the listed dates have passed', () => {
+    const dates = schedule({ recurrence: 'dates', dates: ['2026-02-01', '2026-01-15'] });
+    expect(occurrences(dates, '2026-01-01T00:00:00Z', 3)).toEqual(['2026-01-15T08:00:00.000Z', '2026-02-01T08:00:00.000Z']);
+  });
+});
+
+describe('invalid time zones', () => {
+  it.each(['Mars/Olympus_Mons', '', 'GMT+25'])('rejects %j', (timezone) => {
+    expect(isValidTimeZone(timezone)).toBe(false);
+    expect(validateReminderSchedule(schedule({ timezone }))).toBe('Unknown time zone.');
+    expect(getNextOccurrence(schedule({ timezone }), new Date('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('accepts IANA zones', () => {
+    expect(isValidTimeZone('Europe/London')).toBe(true);
+    expect(validateReminderSchedule(schedule({}))).toBeNull();
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts a local time with the offset in force that day', () => {
+    expect(zonedTimeToUtc('2026-07-01', '08:00', 'Europe/London').toISOString()).toBe('2026-07-01T07:00:00.000Z');
+    expect(zonedTimeToUtc('2026-01-01', '08:00', 'Europe/London').toISOString()).toBe('2026-01-01T08:00:00.000Z');
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFusedScore, calculateQuestionnaireScore, getSeverity } from '@shared/scoring';
+import { FUSED_VECTORS, QUESTIONNAIRE_VECTORS, SEVERITY_VECTORS } from '@shared/scoringVectors';
+
+// The same vectors run under Deno in supabase/functions/_shared/scoring_test.ts
+describe('shared scoring golden vectors', () => {
+  it.each(QUESTIONNAIRE_VECTORS)('questionnaire: $name', ({ answers, weights, hasFamilyHistory, expected }) => {
+    const { normalizedScore, rawTotal, maxPossible, domainScores } = calculateQuestionnaireScore(answers, weights, hasFamilyHistory);
+    expect({ normalizedScore, rawTotal, maxPossible, domainScores }).toEqual(expected);
+  });
+
+  it.each(FUSED_VECTORS)('fused: $name', ({ questionnaireScore, modelScore, modelConfidence, clinicalObservation, expected }) => {
+    expect(calculateFusedScore(questionnaireScore, modelScore, modelConfidence, clinicalObservation)).toBe(expected);
+  });
+
+  it.each(SEVERITY_VECTORS)('severity: $name', ({ score, cutoffs, expected }) => {
+    const { level, label } = getSeverity(score, cutoffs);
+    expect({ level, label }).toEqual(expected);
+  });
+});
@@ -1,22 +1,80 @@
 // Scoring utility for AutiCare questionnaire
-// Maps answers to numeric values and calculates weighted scores
+// Builds the UI-facing ScoringResult on top of the shared scoring engine
+// (supabase/functions/_shared/scoring.ts), which the edge functions also use
 
-export type AnswerValue = 'never' | 'rarely' | 'sometimes' | 'often' | 'always';
+import {
+  Answer,
+  AnswerValue,
+  ClinicalEvidenceSource,
+  ClinicalObservation,
+  DomainScores,
+  DomainSubscore,
+  FusionExplanation,
+  FusionFeatureContribution,
+  FusionSource,
+  FusionSourceContribution,
+  QuestionCategory,
+  QuestionWeight,
+  SeverityCutoff,
+  SeverityLevel,
+  CLINICAL_FUSION_WEIGHTS,
+  CLINICAL_SCORE_RANGES,
+  QUESTION_CATEGORIES,
+  SCORING_VERSION,
+  calculateQuestionnaireScore,
+  explainFusedScore,
+  getClinicalEvidenceScores,
+  getSeverity as getSharedSeverity,
+  validateClinicalObservation,
+} from '@shared/scoring';
+import { VideoPrediction, parseVideoPrediction } from '@shared/videoPrediction';
+import type { ClinicianInput } from '@/data/questionBanks';
 
-export interface QuestionWeight {
+export type { Answer, AnswerValue, ClinicalEvidenceSource, ClinicalObservation, DomainScores, DomainSubscore, FusionExplanation, FusionFeatureContribution, FusionSource, FusionSourceContribution, QuestionCategory, QuestionWeight, SeverityCutoff, SeverityLevel, VideoPrediction };
+export { CLINICAL_FUSION_WEIGHTS, CLINICAL_SCORE_RANGES, QUESTION_CATEGORIES, explainFusedScore, getClinicalEvidenceScores, parseVideoPrediction, validateClinicalObservation };
+
+export const DOMAIN_LABELS: Record<QuestionCategory, string> = {
+  'social-communication': 'Social Communication',
+  'repetitive-sensory': 'Repetitive & Sensory',
+  'developmental': 'Developmental',
+  'family-history': 'Family History',
+};
+
+export const FUSION_SOURCE_LABELS: Record<FusionSource, string> = {
+  questionnaire: 'Questionnaire',
+  model: 'Video Analysis',
+  ados: 'ADOS-2',
+  adiR: 'ADI-R',
+  observation: 'Observation',
+};
+
+// Family history is a yes/no flag rather than a behaviour that changes, so trend charts leave it out
+export const TRACKED_DOMAINS: QuestionCategory[] = QUESTION_CATEGORIES.filter((c) => c !== 'family-history');
+
+// The instrument that produced a score; its cut-offs drive the severity band
+export interface ScoringInstrument {
   id: string;
-  weight: number;
-  category: 'social-communication' | 'repetitive-sensory' | 'developmental' | 'family-history';
+  version: string;
+  severityCutoffs?: SeverityCutoff[];
 }
 
-export interface Answer {
-  questionId: string;
-  value: AnswerValue;
+// A clinician's signed sign-off of a computed result. It is kept next to the
+// computed result, and its severity is the one shown once it exists.
+export interface ClinicianReview {
+  reviewerName: string;
+  signedAt: string;
+  computedScore: number;
+  computedSeverity: SeverityLevel;
+  finalSeverity: SeverityLevel;
+  overrideReason: string | null;
+  notes: string | null;
+  // Per-answer notes keyed by question id
+  annotations: Record<string, string>;
 }
 
 export interface ScoringResult {
   normalizedScore: number;
-  severity: 'low' | 'mild' | 'moderate' | 'high';
+  severity: SeverityLevel;
   severityLabel: string;
   topContributors: Array<{
     question: string;
@@ -25,90 +83,79 @@ export interface ScoringResult {
   }>;
   rawTotal: number;
   maxPossible: number;
-  videoPrediction?: {
-    prediction_score: number;
-    confidence: number;
-    features_detected?: any;
-  };
+  // Per-category subscores; absent on results rebuilt from scores alone
+  domainScores?: DomainScores;
+  videoPrediction?: VideoPrediction;
   fusedScore?: number;
+  // How each source, and each video feature, made up the fused score
+  fusionExplanation?: FusionExplanation;
+  scoringVersion?: string;
+  instrumentId?: string;
+  instrumentVersion?: string;
+  // Validated instruments only
+  instrumentName?: string;
+  recommendation?: string;
+  followUpScore?: number;
+  // Validated instrument results reported alongside the native AutiCare score
+  validatedResults?: ScoringResult[];
+  // Clinician assessments: the observation fused into the score, with notes and attachments
+  clinicianInput?: ClinicianInput;
+  // Set once a clinician has signed the result off
+  review?: ClinicianReview;
+  // The severity the scores produced, when the review changed it
+  computedSeverityLabel?: string;
 }
 
-// Answer value mapping
-const answerValueMap: Record<AnswerValue, number> = {
-  never: 0,
-  rarely: 1,
-  sometimes: 2,
-  often: 3,
-  always: 4,
-};
+// One bar of the fused-score waterfall: each source's contribution stacked on
+// the ones before it, then the fused total from zero
+export interface FusionWaterfallStep {
+  source: FusionSource | 'total';
+  label: string;
+  start: number;
+  end: number;
+}
 
-// Weight mappings by category
-const categoryWeights = {
-  'social-communication': 2.0,
-  'repetitive-sensory': 1.5,
-  'developmental': 2.5,
-  'family-history': 6.0, // Binary flag adds fixed points
-};
+export function getFusionWaterfall(explanation: FusionExplanation): FusionWaterfallStep[] {
+  let running = 0;
+  const steps: FusionWaterfallStep[] = explanation.sources.map(({ source, contribution }) => {
+    const start = running;
+    running += contribution;
+    return { source, label: FUSION_SOURCE_LABELS[source], start, end: running };
+  });
+  steps.push({ source: 'total', label: 'Fused Score', start: 0, end: explanation.fusedScore });
+  return steps;
+}
 
 // Calculate score from answers
 export function calculateScore(
   answers: Answer[],
   questionWeights: QuestionWeight[],
   hasFamilyHistory = false,
-  videoPrediction?: { prediction_score: number; confidence: number; features_detected?: any }
+  videoPrediction?: VideoPrediction,
+  instrument?: ScoringInstrument,
+  clinicianInput?: ClinicianInput
 ): ScoringResult {
-  let rawTotal = 0;
-  let maxPossible = 0;
-
-  // Calculate contributions for each answer
-  const contributions: Array<{ questionId: string; contribution: number; value: number }> = [];
-
-  answers.forEach((answer) => {
-    const weight = questionWeights.find((qw) => qw.id === answer.questionId);
-    if (!weight) return;
-
-    const value = answerValueMap[answer.value];
-    const contribution = value * weight.weight;
-    
-    rawTotal += contribution;
-    maxPossible += 4 * weight.weight;
-
-    contributions.push({
-      questionId: answer.questionId,
-      contribution,
-      value,
-    });
-  });
-
-  // Add family history bonus
-  if (hasFamilyHistory) {
-    rawTotal += 6;
-    maxPossible += 6;
-  }
+  const { normalizedScore, rawTotal, maxPossible, contributions, domainScores } = calculateQuestionnaireScore(
+    answers,
+    questionWeights,
+    hasFamilyHistory
+  );
 
-  // Normalize to 0-100
-  const normalizedScore = Math.round((rawTotal / maxPossible) * 100);
-
-  // Fuse with video prediction if available
-  let fusedScore = normalizedScore;
-  if (videoPrediction && videoPrediction.prediction_score !== undefined) {
-    // Weighted fusion: 60% questionnaire, 40% ML prediction
-    // Adjust weights based on ML confidence
-    const questionnaireWeight = 0.6;
-    const mlWeight = 0.4 * (videoPrediction.confidence || 0.7); // Use confidence if available
-    const totalWeight = questionnaireWeight + mlWeight;
-    
-    fusedScore = Math.round(
-      (normalizedScore * questionnaireWeight + videoPrediction.prediction_score * mlWeight) / totalWeight
-    );
-  }
+  // Fuse with the video prediction and clinician evidence if available (returns the questionnaire score otherwise)
+  const fusionExplanation = explainFusedScore(
+    normalizedScore,
+    videoPrediction?.prediction_score,
+    videoPrediction?.confidence,
+    clinicianInput,
+    videoPrediction?.features_detected
+  );
+  const { fusedScore } = fusionExplanation;
 
-  // Determine severity based on fused score if available, otherwise use normalized score
-  const scoreForSeverity = fusedScore;
-  const { severity, severityLabel } = getSeverity(scoreForSeverity);
+  // Severity is always derived from the fused score
+  const { severity, severityLabel } = getSeverity(fusedScore, instrument?.severityCutoffs);
 
   // Get top 3 contributors
-  const topContributors = contributions
+  const topContributors = [...contributions]
     .sort((a, b) => b.contribution - a.contribution)
     .slice(0, 3)
     .map((c) => ({
@@ -124,24 +171,24 @@ export function calculateScore(
     topContributors,
     rawTotal,
     maxPossible,
+    domainScores,
     videoPrediction,
-    fusedScore: videoPrediction ? fusedScore : undefined,
+    fusedScore,
+    fusionExplanation,
+    scoringVersion: SCORING_VERSION,
+    instrumentId: instrument?.id,
+    instrumentVersion: instrument?.version,
+    clinicianInput,
   };
 }
 
 // Get severity level and label
-function getSeverity(score: number): { severity: ScoringResult['severity']; severityLabel: string } {
-  if (score < 25) {
-    return { severity: 'low', severityLabel: 'Very Low (Normal)' };
-  } else if (score < 40) {
-    return { severity: 'mild', severityLabel: 'Low - Assessment Requested' };
-  } else if (score < 60) {
-    return { severity: 'moderate', severityLabel: 'Moderate - Assessment Required' };
-  } else if (score < 75) {
-    return { severity: 'high', severityLabel: 'High - Assessment Mandatory' };
-  } else {
-    return { severity: 'high', severityLabel: 'Very High - Regular Checkup Needed' };
-  }
+export function getSeverity(
+  score: number,
+  cutoffs?: SeverityCutoff[]
+): { severity: SeverityLevel; severityLabel: string } {
+  const { level, label } = getSharedSeverity(score, cutoffs);
+  return { severity: level, severityLabel: label };
 }
 
 // Get suggested action for a contributor
@@ -162,6 +209,7 @@ export function getSeverityColor(severity: ScoringResult['severity']): string {
     mild: 'bright-blue',
     moderate: 'lavender',
     high: 'coral',
+    'very-high': 'coral',
   };
   return colors[severity];
 }
@@ -196,6 +244,7 @@ export function getScheduleComplexity(severity: ScoringResult['severity']): {
         description: 'Microtasks with calming breaks and parent support',
       };
     case 'high':
+    case 'very-high':
       return {
         level: 'High',
         taskCount: 7,
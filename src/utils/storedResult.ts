@@ -0,0 +1,127 @@
+// Rebuilds a ScoringResult from a saved assessment (user_assessment_data or assessment_history)
+
+import { ClinicianInput, getQuestionWeights } from '@/data/questionBanks';
+import { Instrument, InstrumentRef, InstrumentRole, resolveInstrument } from '@/data/instrumentRegistry';
+import {
+  calculateScore,
+  explainFusedScore,
+  getSeverity,
+  parseVideoPrediction,
+  Answer,
+  AnswerValue,
+  ClinicianReview,
+  DomainScores,
+  ScoringResult,
+  VideoPrediction,
+} from '@/utils/scoring';
+import { SEVERITY_BANDS } from '@shared/scoring';
+import { scoreValidatedInstruments } from '@/utils/instrumentScoring';
+
+export interface StoredAssessment {
+  role: InstrumentRole;
+  instrument?: Partial<InstrumentRef> | null;
+  answers?: Record<string, string> | null;
+  questionnaireScore?: number | null;
+  modelScore?: number | null;
+  fusedScore?: number | null;
+  domainScores?: DomainScores | null;
+  // Clinician observation saved with the metadata, when there was one
+  clinicianInput?: ClinicianInput | null;
+  // The video prediction saved with the metadata, unvalidated
+  videoPrediction?: unknown;
+}
+
+function getSavedPrediction(value: unknown): VideoPrediction | undefined {
+  if (!value) return undefined;
+  try {
+    return parseVideoPrediction(value);
+  } catch (err) {
+    console.error('Error validating saved video prediction:', err);
+    return undefined;
+  }
+}
+
+export function rebuildScoringResult(stored: StoredAssessment): { result: ScoringResult; instrument: Instrument } {
+  // Re-read the score with the instrument version that produced it
+  const instrument = resolveInstrument(stored.instrument, stored.role);
+  // Saved predictions keep their own confidence; older entries only kept the score
+  const videoPrediction = stored.modelScore ? getSavedPrediction(stored.videoPrediction) || {
+    prediction_score: stored.modelScore,
+    confidence: 0.7
+  } : undefined;
+
+  let result: ScoringResult;
+  if (stored.answers && Object.keys(stored.answers).length > 0) {
+    const answerArray: Answer[] = Object.entries(stored.answers).map(([questionId, value]) => ({
+      questionId,
+      value: value as AnswerValue,
+    }));
+    result = calculateScore(
+      answerArray,
+      getQuestionWeights(stored.role, instrument),
+      false,
+      videoPrediction,
+      instrument,
+      stored.clinicianInput || undefined
+    );
+
+    // Validated instrument answers are stored alongside the native answers
+    const validatedResults = scoreValidatedInstruments(stored.answers);
+    if (validatedResults.length > 0) {
+      result.validatedResults = validatedResults;
+    }
+  } else {
+    // Older entries kept only the scores
+    const normalizedScore = stored.questionnaireScore ?? stored.fusedScore ?? 0;
+    result = {
+      normalizedScore,
+      ...getSeverity(normalizedScore, instrument.severityCutoffs),
+      topContributors: [],
+      rawTotal: 0,
+      maxPossible: 0,
+      domainScores: stored.domainScores || undefined,
+      videoPrediction,
+      fusionExplanation: stored.questionnaireScore !== null && stored.questionnaireScore !== undefined
+        ? explainFusedScore(
+          stored.questionnaireScore,
+          videoPrediction?.prediction_score,
+          videoPrediction?.confidence,
+          stored.clinicianInput,
+          videoPrediction?.features_detected
+        )
+        : undefined,
+      instrumentId: instrument.id,
+      instrumentVersion: instrument.version,
+    };
+  }
+
+  // The stored fused score is authoritative
+  if (stored.fusedScore !== null && stored.fusedScore !== undefined) {
+    result.fusedScore = stored.fusedScore;
+    // Scored under an older formula, the explanation would not add up to the stored score
+    if (result.fusionExplanation && Math.abs(result.fusionExplanation.fusedScore - stored.fusedScore) >= 1) {
+      result.fusionExplanation = undefined;
+    }
+    const { severity, severityLabel } = getSeverity(stored.fusedScore, instrument.severityCutoffs);
+    result.severity = severity;
+    result.severityLabel = severityLabel;
+  }
+
+  return { result, instrument };
+}
+
+// The signed review decides the severity shown; the computed label is kept when
+// the clinician overrode it
+export function applyClinicianReview(result: ScoringResult, review: ClinicianReview, instrument: Instrument): ScoringResult {
+  const bands = instrument.severityCutoffs.length > 0 ? instrument.severityCutoffs : SEVERITY_BANDS;
+  const band = bands.find((b) => b.level === review.finalSeverity) || SEVERITY_BANDS.find((b) => b.level === review.finalSeverity);
+  const overridden = review.finalSeverity !== result.severity;
+
+  return {
+    ...result,
+    severity: review.finalSeverity,
+    severityLabel: band?.label || result.severityLabel,
+    computedSeverityLabel: overridden ? result.severityLabel : undefined,
+    review,
+  };
+}
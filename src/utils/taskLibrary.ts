@@ -0,0 +1,114 @@
+// Choosing library entries for a patient
+// Entries are filtered to the patient's severity and age, then ranked so the
+// domains behind the latest result's top contributors come first.
+
+import { TaskLibraryEntry } from '@/data/taskLibrary';
+import { getInstrument, isWithinAgeRange, listInstruments } from '@/data/instrumentRegistry';
+import { QuestionCategory, ScoringResult, SeverityLevel, TRACKED_DOMAINS } from '@/utils/scoring';
+
+export interface LibraryMatchOptions {
+  severity: SeverityLevel;
+  // Age range as entered on the questionnaire, e.g. '3-5 years'; unknown ages match every entry
+  ageRange?: string;
+  // Weakest first, from getWeakestDomains
+  weakestDomains: QuestionCategory[];
+}
+
+// Targeted recommendations shown after the severity's clinical next steps
+const TARGETED_RECOMMENDATION_LIMIT = 2;
+
+function getQuestionCategory(questionId: string, result: ScoringResult): QuestionCategory | undefined {
+  const instrument = result.instrumentId ? getInstrument(result.instrumentId, result.instrumentVersion) : undefined;
+  const instruments = instrument ? [instrument, ...listInstruments()] : listInstruments();
+  for (const candidate of instruments) {
+    const question = candidate.questions.find((q) => q.id === questionId);
+    if (question) return question.category;
+  }
+  return undefined;
+}
+
+// Domains ordered from most to least concern: first by the top contributors'
+// share of the score, then by the remaining domain subscores
+export function getWeakestDomains(result: ScoringResult | null | undefined): QuestionCategory[] {
+  if (!result) return [];
+
+  const contributionByDomain = new Map<QuestionCategory, number>();
+  result.topContributors.forEach((contributor) => {
+    const category = getQuestionCategory(contributor.question, result);
+    if (category && TRACKED_DOMAINS.includes(category) && contributor.contribution > 0) {
+      contributionByDomain.set(category, (contributionByDomain.get(category) || 0) + contributor.contribution);
+    }
+  });
+
+  const fromContributors = [...contributionByDomain.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([category]) => category);
+
+  const fromSubscores = TRACKED_DOMAINS
+    .filter((category) => !fromContributors.includes(category) && (result.domainScores?.[category]?.normalized || 0) > 0)
+    .sort((a, b) => result.domainScores[b].normalized - result.domainScores[a].normalized);
+
+  return [...fromContributors, ...fromSubscores];
+}
+
+export function isSuitableEntry(entry: TaskLibraryEntry, severity: SeverityLevel, ageRange?: string): boolean {
+  return !entry.archivedAt && entry.severities.includes(severity) && isWithinAgeRange(entry.ageRange, ageRange);
+}
+
+// Entries for the weakest domains first, then general entries, then entries for
+// domains with no concern; the library's own order breaks ties
+export function rankLibraryEntries(entries: TaskLibraryEntry[], weakestDomains: QuestionCategory[]): TaskLibraryEntry[] {
+  const priority = (entry: TaskLibraryEntry) => {
+    if (!entry.targetDomain) return weakestDomains.length;
+    const index = weakestDomains.indexOf(entry.targetDomain);
+    return index >= 0 ? index : weakestDomains.length + 1;
+  };
+
+  return [...entries].sort((a, b) => priority(a) - priority(b) || a.sortOrder - b.sortOrder);
+}
+
+// The best-suited daily tasks, most relevant first
+export function selectPlanEntries(
+  library: TaskLibraryEntry[],
+  options: LibraryMatchOptions,
+  count: number
+): TaskLibraryEntry[] {
+  const tasks = library.filter((entry) => entry.kind === 'task' && isSuitableEntry(entry, options.severity, options.ageRange));
+
+  return rankLibraryEntries(tasks, options.weakestDomains).slice(0, count);
+}
+
+// The severity's general next steps, followed by the interventions for the weakest domains
+export function getRecommendedInterventions(
+  library: TaskLibraryEntry[],
+  options: LibraryMatchOptions
+): TaskLibraryEntry[] {
+  const interventions = library.filter(
+    (entry) => entry.kind === 'intervention' && isSuitableEntry(entry, options.severity, options.ageRange)
+  );
+
+  const general = interventions
+    .filter((entry) => !entry.targetDomain)
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+  const ranked = rankLibraryEntries(
+    interventions.filter((entry) => entry.targetDomain && options.weakestDomains.includes(entry.targetDomain)),
+    options.weakestDomains
+  );
+  // One per domain before a second for the same domain, so several weak domains are each covered
+  const firstPerDomain = ranked.filter(
+    (entry, index) => ranked.findIndex((other) => other.targetDomain === entry.targetDomain) === index
+  );
+  const targeted = [...firstPerDomain, ...ranked.filter((entry) => !firstPerDomain.includes(entry))]
+    .slice(0, TARGETED_RECOMMENDATION_LIMIT);
+
+  return [...general, ...targeted];
+}
+
+// Library options for a patient's latest result
+export function getLibraryMatchOptions(result: ScoringResult | null | undefined, ageRange?: string): LibraryMatchOptions {
+  return {
+    severity: result?.severity || 'mild',
+    ageRange: ageRange || undefined,
+    weakestDomains: getWeakestDomains(result),
+  };
+}
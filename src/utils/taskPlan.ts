@@ -0,0 +1,87 @@
+// Daily task plan generation and carry-over
+// A plan is generated once per patient per day from the task library, sized by
+// the severity's schedule complexity; unfinished tasks from the previous plan
+// are carried into it.
+
+import { TaskTheme } from '@/components/TaskCard';
+import { TaskLibraryEntry } from '@/data/taskLibrary';
+import { getScheduleComplexity } from '@/utils/scoring';
+import { LibraryMatchOptions, selectPlanEntries } from '@/utils/taskLibrary';
+
+export interface PlanTask {
+  id: string;
+  // Library template the task came from; null for tasks added by hand
+  templateId: string | null;
+  title: string;
+  description: string;
+  steps?: string[];
+  duration: string;
+  parentTip?: string;
+  theme: TaskTheme;
+  completed: boolean;
+  completedAt?: string | null;
+  // Date of the plan the task was first scheduled on, when carried over from an earlier day
+  carriedOverFrom?: string | null;
+}
+
+export type NewPlanTask = Pick<PlanTask, 'title' | 'description' | 'duration' | 'parentTip' | 'theme'>;
+
+export const TASK_THEMES: TaskTheme[] = ['morning', 'afternoon', 'evening', 'night'];
+
+// Plans are keyed by the user's local calendar day
+export function getPlanDate(date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function createTaskId(): string {
+  return `task_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function fromLibraryEntry(entry: TaskLibraryEntry, options: LibraryMatchOptions): PlanTask {
+  const highSupport = options.severity === 'high' || options.severity === 'very-high';
+  const minutes = highSupport && entry.highSupportDurationMinutes ? entry.highSupportDurationMinutes : entry.durationMinutes;
+  return {
+    id: createTaskId(),
+    templateId: entry.id,
+    title: entry.title,
+    description: entry.description,
+    steps: entry.steps,
+    duration: minutes ? `${minutes} min` : '',
+    parentTip: entry.parentTip,
+    theme: entry.theme,
+    completed: false,
+    completedAt: null,
+    carriedOverFrom: null,
+  };
+}
+
+// Unfinished tasks from an earlier plan, reset so they can be finished today
+export function getCarryOverTasks(previousTasks: PlanTask[], previousDate: string): PlanTask[] {
+  return previousTasks
+    .filter((task) => !task.completed)
+    .map((task) => ({
+      ...task,
+      id: createTaskId(),
+      carriedOverFrom: task.carriedOverFrom || previousDate,
+    }));
+}
+
+export function generateDailyPlan(
+  library: TaskLibraryEntry[],
+  options: LibraryMatchOptions,
+  carriedOver: PlanTask[] = []
+): PlanTask[] {
+  const { taskCount } = getScheduleComplexity(options.severity);
+  const carriedTemplates = new Set(carriedOver.map((task) => task.templateId).filter(Boolean));
+
+  // A carried-over task takes the place of the same routine in today's plan;
+  // the rest are laid out in the order they fall through the day
+  const generated = selectPlanEntries(library, options, taskCount)
+    .filter((entry) => !carriedTemplates.has(entry.id))
+    .sort((a, b) => TASK_THEMES.indexOf(a.theme) - TASK_THEMES.indexOf(b.theme) || a.sortOrder - b.sortOrder)
+    .map((entry) => fromLibraryEntry(entry, options));
+
+  return [...carriedOver, ...generated];
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getInstrument } from '@/data/instrumentRegistry';
+import { DEFAULT_STANDARD_ERROR, analyzeTrend } from '@/utils/trendAnalysis';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const series = (...scores: number[]) => scores.map((score, i) => ({ timestamp: i * 30 * DAY_MS, score }));
+
+describe('analyzeTrend', () => {
+  it('needs two assessments at least a week apart', () => {
+    expect(analyzeTrend(series(40)).verdict).toBe('insufficient-data');
+    expect(analyzeTrend([{ timestamp: 0, score: 40 }, { timestamp: 3 * DAY_MS, score: 10 }]).verdict).toBe('insufficient-data');
+  });
+
+  it('uses the two-measurement reliable change index for a pair of assessments', () => {
+    const trend = analyzeTrend(series(50, 30), 5);
+    expect(trend.threshold).toBe(13.9);
+    expect(trend.change).toBe(-20);
+    expect(trend.verdict).toBe('improving');
+  });
+
+  it('narrows the threshold as the fit uses more assessments', () => {
+    const pair = analyzeTrend(series(50, 38), 5);
+    const nine = analyzeTrend(series(...Array.from({ length: 9 }, (_, i) => 50 - 1.5 * i)), 5);
+    expect(pair.verdict).toBe('no-reliable-change');
+    expect(nine.threshold).toBeLessThan(pair.threshold);
+    expect(nine.change).toBe(pair.change);
+    expect(nine.verdict).toBe('improving');
+  });
+
+  it('scales the threshold with the standard error', () => {
+    expect(analyzeTrend(series(50, 60), 10).threshold).toBeCloseTo(2 * analyzeTrend(series(50, 60), 5).threshold, 0);
+    expect(analyzeTrend(series(50, 60)).threshold).toBe(analyzeTrend(series(50, 60), DEFAULT_STANDARD_ERROR).threshold);
+  });
+});
+
+describe('instrument standard errors', () => {
+  it.each([
+    ['auticare-individual', '1.0.0'],
+    ['auticare-parent', '1.0.0'],
+    ['auticare-parent', '1.1.0'],
+    ['mchat-rf', '1.0.0'],
+    ['aq-10', '1.0.0'],
+    ['scq', '1.0.0'],
+  ])('%s v%s sets its own measurement error', (id, version) => {
+    expect(getInstrument(id, version)?.standardError).toBeGreaterThan(0);
+  });
+});
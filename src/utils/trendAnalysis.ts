@@ -0,0 +1,133 @@
+// Trend analysis for repeated assessments of the same person
+// Fits a least-squares slope against elapsed time (so irregular gaps between
+// assessments are weighted correctly) and only calls a change real when it
+// exceeds the Jacobson-Truax reliable-change threshold for the instrument,
+// scaled to the standard error of the fitted change so more assessments give a tighter bound.
+// Lower AutiCare scores mean fewer reported concerns, so a falling score is "improving".
+
+export type TrendVerdict = 'improving' | 'worsening' | 'no-reliable-change' | 'insufficient-data';
+
+export type TrendConfidence = 'low' | 'moderate' | 'high';
+
+export interface TrendPoint {
+  timestamp: number;
+  score: number;
+}
+
+export interface TrendAnalysis {
+  verdict: TrendVerdict;
+  confidence: TrendConfidence;
+  // Probability that the fitted change is larger than measurement error alone would produce
+  probability: number;
+  // Fitted change in score points per 30 days
+  slopePerMonth: number;
+  // Fitted change from the first to the last assessment
+  change: number;
+  // Smallest change that counts as reliable for this instrument
+  threshold: number;
+  spanDays: number;
+  entryCount: number;
+  explanation: string;
+}
+
+// Standard error of measurement on the 0-100 scale, used when an instrument doesn't set its own
+export const DEFAULT_STANDARD_ERROR = 5;
+// 1.96: two-sided 95% criterion from the reliable change index
+const RELIABLE_CHANGE_Z = 1.96;
+const HIGH_CONFIDENCE_Z = 2.58;
+// Assessments closer together than this are treated as repeats, not a trend
+const MIN_SPAN_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Abramowitz-Stegun approximation of the standard normal CDF
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989423 * Math.exp((-z * z) / 2);
+  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return z > 0 ? 1 - p : p;
+}
+
+function round(value: number, places = 1): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function describeSpan(days: number): string {
+  if (days < 14) return `${Math.round(days)} days`;
+  if (days < 90) return `${Math.round(days / 7)} weeks`;
+  return `${Math.round(days / 30)} months`;
+}
+
+export function analyzeTrend(points: TrendPoint[], standardError = DEFAULT_STANDARD_ERROR): TrendAnalysis {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const entryCount = sorted.length;
+  const spanDays = entryCount > 0 ? (sorted[entryCount - 1].timestamp - sorted[0].timestamp) / DAY_MS : 0;
+
+  // Without a fit, fall back to the two-measurement reliable change index
+  const base = { threshold: round(RELIABLE_CHANGE_Z * Math.SQRT2 * standardError), spanDays: round(spanDays), entryCount };
+
+  if (entryCount < 2 || spanDays < MIN_SPAN_DAYS) {
+    return {
+      ...base,
+      verdict: 'insufficient-data',
+      confidence: 'low',
+      probability: 0,
+      slopePerMonth: 0,
+      change: 0,
+      explanation: entryCount < 2
+        ? 'At least two assessments are needed to look for a trend.'
+        : `Assessments so far span less than ${MIN_SPAN_DAYS} days, which is too short to show a trend.`,
+    };
+  }
+
+  // Least-squares slope of score against days since the first assessment
+  const xs = sorted.map((p) => (p.timestamp - sorted[0].timestamp) / DAY_MS);
+  const ys = sorted.map((p) => p.score);
+  const meanX = xs.reduce((a, b) => a + b, 0) / entryCount;
+  const meanY = ys.reduce((a, b) => a + b, 0) / entryCount;
+  const sxx = xs.reduce((acc, x) => acc + (x - meanX) ** 2, 0);
+  const sxy = xs.reduce((acc, x, i) => acc + (x - meanX) * (ys[i] - meanY), 0);
+  const slopePerDay = sxy / sxx;
+  const change = slopePerDay * spanDays;
+
+  // Standard error of the fitted change when every score carries the instrument's measurement error.
+  // With two assessments this is SEM * sqrt(2), the usual reliable change index denominator.
+  const changeError = (standardError * spanDays) / Math.sqrt(sxx);
+  const threshold = round(RELIABLE_CHANGE_Z * changeError);
+  const z = Math.abs(change) / changeError;
+  const probability = 2 * normalCdf(z) - 1;
+  const reliable = Math.abs(change) >= threshold;
+  const verdict: TrendVerdict = !reliable ? 'no-reliable-change' : change < 0 ? 'improving' : 'worsening';
+
+  // Two assessments can't show whether the change is consistent, so cap their confidence
+  let confidence: TrendConfidence = z >= HIGH_CONFIDENCE_Z ? 'high' : z >= RELIABLE_CHANGE_Z ? 'moderate' : 'low';
+  if (entryCount === 2 && confidence === 'high') confidence = 'moderate';
+  // For "no reliable change", confidence is in the absence of change: highest when the fit is flattest
+  if (verdict === 'no-reliable-change') confidence = z < 1 ? 'high' : z < 1.5 ? 'moderate' : 'low';
+
+  const span = describeSpan(spanDays);
+  const changeText = `${Math.abs(round(change))} points`;
+  let explanation: string;
+  if (verdict === 'improving') {
+    explanation = `Scores fell by about ${changeText} over ${span} across ${entryCount} assessments. ` +
+      `That is more than the ${threshold}-point change measurement error alone can explain, so fewer concerns are being reported.`;
+  } else if (verdict === 'worsening') {
+    explanation = `Scores rose by about ${changeText} over ${span} across ${entryCount} assessments. ` +
+      `That is more than the ${threshold}-point change measurement error alone can explain, so more concerns are being reported.`;
+  } else {
+    explanation = `Scores moved by about ${changeText} over ${span}, within the ${threshold}-point range ` +
+      'expected from measurement error, so there is no reliable change yet.';
+  }
+
+  return {
+    ...base,
+    threshold,
+    verdict,
+    confidence,
+    probability: round(probability, 3),
+    slopePerMonth: round(slopePerDay * 30),
+    change: round(change),
+    explanation,
+  };
+}
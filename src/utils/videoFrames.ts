@@ -0,0 +1,130 @@
+// Samples a video in the browser into the per-frame motion signals that the
+// local reference video model scores (see supabase/functions/_shared/videoPrediction.ts).
+// Only these numbers leave the device with the request; no pixels are sent.
+
+import { VideoFrameSample } from '@shared/videoPrediction';
+
+const DEFAULT_SAMPLE_COUNT = 32;
+// Frames are compared at this small size, which also smooths out sensor noise
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+const LOAD_TIMEOUT_MS = 15000;
+
+function waitFor(video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      cleanup();
+      reject(new Error('Timed out reading the video'));
+    }, LOAD_TIMEOUT_MS);
+    const onDone = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('The video could not be decoded in this browser'));
+    };
+    const cleanup = () => {
+      window.clearTimeout(timer);
+      video.removeEventListener(event, onDone);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(event, onDone);
+    video.addEventListener('error', onError);
+  });
+}
+
+function readLuminance(context: CanvasRenderingContext2D, video: HTMLVideoElement): Float32Array {
+  context.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const { data } = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const luminance = new Float32Array(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return luminance;
+}
+
+// Mean change between two frames, and the share of it in the middle third of the frame
+function compareFrames(previous: Float32Array, current: Float32Array): { motion: number; centerMotion: number } {
+  let total = 0;
+  let center = 0;
+  for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+    const inCenterRow = y >= SAMPLE_HEIGHT / 3 && y < (2 * SAMPLE_HEIGHT) / 3;
+    for (let x = 0; x < SAMPLE_WIDTH; x++) {
+      const i = y * SAMPLE_WIDTH + x;
+      const change = Math.abs(current[i] - previous[i]);
+      total += change;
+      if (inCenterRow && x >= SAMPLE_WIDTH / 3 && x < (2 * SAMPLE_WIDTH) / 3) {
+        center += change;
+      }
+    }
+  }
+  return {
+    motion: total / current.length,
+    centerMotion: total > 0 ? center / total : 0,
+  };
+}
+
+// Files written by MediaRecorder carry no duration until the browser has read
+// to the end, which seeking far past it makes it do
+async function resolveDuration(video: HTMLVideoElement): Promise<number> {
+  if (Number.isFinite(video.duration)) return video.duration;
+  const seeked = waitFor(video, 'seeked');
+  video.currentTime = Number.MAX_SAFE_INTEGER;
+  await seeked;
+  return video.duration;
+}
+
+export async function extractFrameSamples(file: File, count = DEFAULT_SAMPLE_COUNT): Promise<VideoFrameSample[]> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitFor(video, 'loadedmetadata');
+    video.src = url;
+    await loaded;
+
+    const duration = await resolveDuration(video);
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error('The video length could not be read');
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = SAMPLE_WIDTH;
+    canvas.height = SAMPLE_HEIGHT;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas is not available');
+
+    // One extra frame so that each returned sample has a predecessor to compare with
+    const step = duration / (count + 1);
+    const samples: VideoFrameSample[] = [];
+    let previous: Float32Array | null = null;
+
+    for (let i = 0; i <= count; i++) {
+      const time = Math.min(i * step, duration - 0.001);
+      const seeked = waitFor(video, 'seeked');
+      video.currentTime = time;
+      await seeked;
+
+      const current = readLuminance(context, video);
+      if (previous) {
+        const { motion, centerMotion } = compareFrames(previous, current);
+        samples.push({
+          time: Math.round(time * 1000) / 1000,
+          motion: Math.min(1, motion),
+          center_motion: Math.min(1, centerMotion),
+        });
+      }
+      previous = current;
+    }
+
+    return samples;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,61 @@
+// Background video analysis. A job is queued after the video is uploaded and
+// scored by the process-video-jobs edge function; once linked to the saved
+// assessment, the function also recomputes that assessment's fused score.
+
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { VideoFrameSample, VideoPreprocessing, VideoRecording, parseVideoPrediction } from '@shared/videoPrediction';
+import { VideoPrediction } from '@/utils/scoring';
+
+export type VideoJob = Tables<'video_jobs'>;
+export type VideoJobStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+// Matches MAX_ATTEMPTS in process-video-jobs
+export const VIDEO_JOB_MAX_ATTEMPTS = 3;
+
+// Everything the predictor gets besides the video itself
+export interface VideoJobInput {
+  frames?: VideoFrameSample[];
+  preprocessing?: VideoPreprocessing;
+  recording?: VideoRecording;
+}
+
+export async function queueVideoJob(
+  userId: string,
+  videoUrl: string,
+  { frames, preprocessing, recording }: VideoJobInput = {}
+): Promise<VideoJob> {
+  const { data, error } = await supabase
+    .from('video_jobs')
+    .insert({
+      user_id: userId,
+      video_url: videoUrl,
+      frames: (frames ?? null) as unknown as Json,
+      preprocessing: (preprocessing ?? null) as unknown as Json,
+      recording: (recording ?? null) as unknown as Json,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// Lets the worker apply the prediction to the saved assessment, now or when it lands
+export async function linkVideoJob(jobId: string, assessmentId: string) {
+  const { error } = await supabase
+    .from('video_jobs')
+    .update({ assessment_id: assessmentId })
+    .eq('id', jobId);
+  if (error) throw error;
+}
+
+// The job's prediction, once done and valid
+export function getVideoJobPrediction(job: VideoJob | null): VideoPrediction | null {
+  if (!job || job.status !== 'done' || !job.prediction) return null;
+  try {
+    return parseVideoPrediction(job.prediction);
+  } catch (err) {
+    console.error('Error validating video job prediction:', err);
+    return null;
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LOCAL_MODEL_MAX_CONFIDENCE,
+  LOCAL_MODEL_MIN_FRAMES,
+  LOCAL_MODEL_NAME,
+  MAX_FEATURE_VALUE,
+  MAX_FRAME_SAMPLES,
+  VideoFrameSample,
+  VideoPredictionError,
+  localVideoPredictor,
+  parseVideoPrediction,
+  parseVideoPredictionRequest,
+} from '@shared/videoPrediction';
+
+const VALID_PREDICTION = { prediction_score: 62.5, confidence: 0.4, features_detected: { eye_contact: 3 } };
+
+// Rocking at a steady rhythm with some still frames between
+const ROCKING: VideoFrameSample[] = Array.from({ length: 30 }, (_, i) => ({
+  time: i * 0.5,
+  motion: i % 3 === 0 ? 0.005 : 0.04 + 0.03 * Math.sin(i),
+  center_motion: 0.6,
+}));
+
+describe('parseVideoPrediction', () => {
+  it('keeps only the contract fields', () => {
+    expect(parseVideoPrediction({ ...VALID_PREDICTION, model: 'xgb', model_version: '2', extra: true })).toEqual({
+      ...VALID_PREDICTION,
+      model: 'xgb',
+      model_version: '2',
+    });
+  });
+
+  it.each([
+    ['a non-object', null],
+    ['a missing prediction_score', { confidence: 0.5 }],
+    ['a missing confidence', { prediction_score: 50 }],
+    ['a prediction_score above 100', { ...VALID_PREDICTION, prediction_score: 100.1 }],
+    ['a negative prediction_score', { ...VALID_PREDICTION, prediction_score: -1 }],
+    ['a prediction_score given as a string', { ...VALID_PREDICTION, prediction_score: '50' }],
+    ['a confidence above 1', { ...VALID_PREDICTION, confidence: 1.5 }],
+    ['a NaN confidence', { ...VALID_PREDICTION, confidence: NaN }],
+    ['features that are not an object', { ...VALID_PREDICTION, features_detected: [1, 2] }],
+    ['a feature name that is not snake_case', { ...VALID_PREDICTION, features_detected: { eyeContact: 3 } }],
+    ['a feature above the maximum', { ...VALID_PREDICTION, features_detected: { eye_contact: MAX_FEATURE_VALUE + 1 } }],
+  ])('rejects %s', (_, value) => {
+    expect(() => parseVideoPrediction(value)).toThrow(VideoPredictionError);
+  });
+});
+
+describe('parseVideoPredictionRequest', () => {
+  const frame = { time: 0, motion: 0.1, center_motion: 0.5 };
+  const segment = { id: 'name_call', video_url: 'a.webm', offset: 0, duration: 10, started_at: '2026-01-01T00:00:00Z', takes: 1 };
+
+  it('accepts a request with frames and a guided recording', () => {
+    const request = parseVideoPredictionRequest({
+      video_url: 'a.webm',
+      frames: [{ ...frame, extra: 1 }],
+      recording: { protocol_id: 'guided', protocol_version: '1.0.0', segments: [segment] },
+    });
+    expect(request.frames).toEqual([frame]);
+    expect(request.recording?.segments).toEqual([segment]);
+  });
+
+  it.each([
+    ['a missing video_url', { frames: [] }],
+    ['an empty video_url', { video_url: '' }],
+    ['frames that are not an array', { video_url: 'a.webm', frames: {} }],
+    ['too many frames', { video_url: 'a.webm', frames: Array(MAX_FRAME_SAMPLES + 1).fill(frame) }],
+    ['a frame with motion above 1', { video_url: 'a.webm', frames: [{ ...frame, motion: 1.2 }] }],
+    ['a frame without a time', { video_url: 'a.webm', frames: [{ motion: 0.1, center_motion: 0.5 }] }],
+    ['a frame with a negative time', { video_url: 'a.webm', frames: [{ ...frame, time: -1 }] }],
+    ['preprocessing without an output size', { video_url: 'a.webm', preprocessing: { output: { width: 0, height: 360 } } }],
+    ['a recording without segments', { video_url: 'a.webm', recording: { protocol_id: 'guided', protocol_version: '1', segments: [] } }],
+    [
+      'a recording segment that was never taken',
+      { video_url: 'a.webm', recording: { protocol_id: 'guided', protocol_version: '1', segments: [{ ...segment, takes: 0 }] } },
+    ],
+  ])('rejects %s', (_, value) => {
+    expect(() => parseVideoPredictionRequest(value)).toThrow(VideoPredictionError);
+  });
+});
+
+describe('localVideoPredictor', () => {
+  it('returns the same prediction for the same frames', async () => {
+    const first = await localVideoPredictor.predict({ video_url: 'a.webm', frames: ROCKING });
+    const second = await localVideoPredictor.predict({ video_url: 'b.webm', frames: ROCKING.map((f) => ({ ...f })) });
+    expect(second).toEqual(first);
+  });
+
+  it('does not depend on the order the frames arrive in', async () => {
+    const ordered = await localVideoPredictor.predict({ video_url: 'a.webm', frames: ROCKING });
+    const shuffled = await localVideoPredictor.predict({ video_url: 'a.webm', frames: [...ROCKING].reverse() });
+    expect(shuffled).toEqual(ordered);
+  });
+
+  it('returns a prediction that meets its own contract, with capped confidence', async () => {
+    const prediction = await localVideoPredictor.predict({ video_url: 'a.webm', frames: ROCKING });
+    expect(parseVideoPrediction(prediction)).toEqual(prediction);
+    expect(prediction.confidence).toBeLessThanOrEqual(LOCAL_MODEL_MAX_CONFIDENCE);
+    expect(prediction.model).toBe(LOCAL_MODEL_NAME);
+  });
+
+  it('scores flat, unchanging motion as not repetitive', async () => {
+    const flat = ROCKING.map((f) => ({ ...f, motion: 0.05 }));
+    const prediction = await localVideoPredictor.predict({ video_url: 'a.webm', frames: flat });
+    expect(prediction.features_detected?.repetitive_motion).toBe(0);
+  });
+
+  it('needs frames, and enough of them', async () => {
+    await expect(localVideoPredictor.predict({ video_url: 'a.webm' })).rejects.toThrow(VideoPredictionError);
+    await expect(
+      localVideoPredictor.predict({ video_url: 'a.webm', frames: ROCKING.slice(0, LOCAL_MODEL_MIN_FRAMES - 1) })
+    ).rejects.toThrow(VideoPredictionError);
+  });
+});
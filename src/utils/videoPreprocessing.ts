@@ -0,0 +1,284 @@
+// In-browser preprocessing of an assessment video before upload: the chosen
+// segment is replayed onto a canvas at the target resolution, faces can be
+// pixelated and the audio dropped, and the canvas is re-recorded with
+// MediaRecorder. Nothing leaves the device until the processed file is uploaded.
+
+import { VideoPreprocessing } from '@shared/videoPrediction';
+
+export type FaceBlurMode = VideoPreprocessing['face_blur'];
+
+export interface VideoPreprocessingOptions {
+  trimStart: number;
+  trimEnd: number;
+  targetHeight: number;
+  faceBlur: FaceBlurMode;
+  stripAudio: boolean;
+}
+
+export const TARGET_HEIGHTS = [360, 480, 720];
+export const DEFAULT_TARGET_HEIGHT = 480;
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+// Processing shrinks the file, so the source may be larger than the upload limit
+export const MAX_SOURCE_BYTES = 500 * 1024 * 1024;
+export const MAX_SEGMENT_SECONDS = 120;
+
+const FRAME_RATE = 30;
+const BITS_PER_PIXEL = 0.1;
+// Share of the upload limit the video bitrate aims for, leaving room for container overhead
+const UPLOAD_BUDGET = 0.85;
+// Faces move between detections, so each box is padded by this share of its size
+const FACE_MARGIN = 0.3;
+// A blurred face is drawn this many blocks wide
+const PIXELATE_BLOCKS = 8;
+const LOAD_TIMEOUT_MS = 15000;
+
+// Shape Detection API; only some browsers ship it, so it is typed here
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+interface FaceDetectorInstance {
+  detect(source: CanvasImageSource): Promise<DetectedFace[]>;
+}
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorInstance;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const getFaceDetector = () =>
+  (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+
+export const isFaceDetectionSupported = () => typeof window !== 'undefined' && !!getFaceDetector();
+
+export const isPreprocessingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+// The first recording format the browser supports, preferring compact WebM
+export function pickVideoMimeType(): string {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) || '';
+}
+
+// Scaled to the target height without upscaling, in even pixel sizes as encoders expect
+export function getOutputSize(width: number, height: number, targetHeight: number) {
+  const scale = Math.min(1, targetHeight / height);
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  return { width: even(width * scale), height: even(height * scale) };
+}
+
+// With 'bystanders' the largest face, normally the person being assessed, stays visible
+export function selectFacesToBlur(faces: Box[], mode: FaceBlurMode): Box[] {
+  if (mode === 'none') return [];
+  if (mode === 'all') return faces;
+  if (faces.length < 2) return [];
+  const largest = faces.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+  return faces.filter((face) => face !== largest);
+}
+
+function waitFor(target: HTMLVideoElement, event: 'loadedmetadata' | 'seeked'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      cleanup();
+      reject(new Error('Timed out reading the video'));
+    }, LOAD_TIMEOUT_MS);
+    const onDone = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('The video could not be decoded in this browser'));
+    };
+    const cleanup = () => {
+      window.clearTimeout(timer);
+      target.removeEventListener(event, onDone);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(event, onDone);
+    target.addEventListener('error', onError);
+  });
+}
+
+function pixelate(context: CanvasRenderingContext2D, scratch: HTMLCanvasElement, box: Box) {
+  const scratchContext = scratch.getContext('2d');
+  if (!scratchContext) return;
+  const blocksHigh = Math.max(1, Math.round((PIXELATE_BLOCKS * box.height) / box.width));
+  scratch.width = PIXELATE_BLOCKS;
+  scratch.height = blocksHigh;
+  scratchContext.drawImage(context.canvas, box.x, box.y, box.width, box.height, 0, 0, PIXELATE_BLOCKS, blocksHigh);
+  context.imageSmoothingEnabled = false;
+  context.drawImage(scratch, 0, 0, PIXELATE_BLOCKS, blocksHigh, box.x, box.y, box.width, box.height);
+  context.imageSmoothingEnabled = true;
+}
+
+// Face boxes from the source video, padded and scaled to the output canvas
+async function detectFaces(detector: FaceDetectorInstance, video: HTMLVideoElement, scale: number, canvas: HTMLCanvasElement): Promise<Box[]> {
+  const faces = await detector.detect(video);
+  return faces.map(({ boundingBox }) => {
+    const padX = boundingBox.width * FACE_MARGIN;
+    const padY = boundingBox.height * FACE_MARGIN;
+    const x = Math.max(0, (boundingBox.x - padX) * scale);
+    const y = Math.max(0, (boundingBox.y - padY) * scale);
+    return {
+      x,
+      y,
+      width: Math.min(canvas.width - x, (boundingBox.width + 2 * padX) * scale),
+      height: Math.min(canvas.height - y, (boundingBox.height + 2 * padY) * scale),
+    };
+  });
+}
+
+// Runs in real time: processing takes as long as the chosen segment, and the tab
+// must stay open, since browsers pause hidden tabs
+export async function preprocessVideo(
+  file: File,
+  options: VideoPreprocessingOptions,
+  onProgress?: (fraction: number) => void
+): Promise<{ file: File; preprocessing: VideoPreprocessing }> {
+  if (!isPreprocessingSupported()) {
+    throw new Error('This browser cannot process video before upload');
+  }
+  const Detector = options.faceBlur !== 'none' ? getFaceDetector() : undefined;
+  if (options.faceBlur !== 'none' && !Detector) {
+    throw new Error('Face blurring is not available in this browser');
+  }
+
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.preload = 'auto';
+  // Kept silent unless the audio is recorded, and even then only routed to the recording
+  video.muted = options.stripAudio;
+
+  // Created before anything is awaited, while the click that started processing
+  // still counts as a user gesture
+  const audioContext = options.stripAudio ? null : new AudioContext();
+  let stream: MediaStream | null = null;
+
+  try {
+    const loaded = waitFor(video, 'loadedmetadata');
+    video.src = url;
+    await loaded;
+
+    const sourceWidth = video.videoWidth;
+    const sourceHeight = video.videoHeight;
+    if (!sourceWidth || !sourceHeight || !Number.isFinite(video.duration)) {
+      throw new Error('The video size or length could not be read');
+    }
+    const trimStart = Math.max(0, options.trimStart);
+    const trimEnd = Math.min(video.duration, options.trimEnd);
+    if (trimEnd - trimStart <= 0) throw new Error('The selected segment is empty');
+
+    const { width, height } = getOutputSize(sourceWidth, sourceHeight, options.targetHeight);
+    const scale = width / sourceWidth;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    const scratch = document.createElement('canvas');
+
+    const recording = canvas.captureStream(FRAME_RATE);
+    stream = recording;
+    if (audioContext) {
+      const destination = audioContext.createMediaStreamDestination();
+      audioContext.createMediaElementSource(video).connect(destination);
+      destination.stream.getAudioTracks().forEach((track) => recording.addTrack(track));
+    }
+
+    const mimeType = pickVideoMimeType();
+    // Enough bits for the resolution, but never more than lets the segment fit the upload limit
+    const videoBitsPerSecond = Math.round(Math.min(
+      width * height * FRAME_RATE * BITS_PER_PIXEL,
+      (MAX_UPLOAD_BYTES * 8 * UPLOAD_BUDGET) / (trimEnd - trimStart)
+    ));
+    const recorder = new MediaRecorder(recording, {
+      ...(mimeType ? { mimeType } : {}),
+      videoBitsPerSecond,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    const seeked = waitFor(video, 'seeked');
+    video.currentTime = trimStart;
+    await seeked;
+
+    // Faces are found before the first frame is recorded, then refreshed as fast as
+    // the detector allows; frames in between reuse the latest boxes
+    const detector = Detector ? new Detector({ fastMode: true }) : null;
+    let faceBoxes: Box[] = detector ? await detectFaces(detector, video, scale, canvas) : [];
+    let detecting = false;
+
+    const drawFrame = () => {
+      context.drawImage(video, 0, 0, width, height);
+      selectFacesToBlur(faceBoxes, options.faceBlur).forEach((box) => pixelate(context, scratch, box));
+
+      if (detector && !detecting) {
+        detecting = true;
+        detectFaces(detector, video, scale, canvas)
+          .then((boxes) => {
+            faceBoxes = boxes;
+          })
+          .catch((err) => console.error('Error detecting faces:', err))
+          .finally(() => {
+            detecting = false;
+          });
+      }
+    };
+
+    drawFrame();
+    recorder.start(1000);
+    await audioContext?.resume();
+    await video.play();
+
+    await new Promise<void>((resolve) => {
+      const step = () => {
+        if (video.ended || video.currentTime >= trimEnd) {
+          resolve();
+          return;
+        }
+        drawFrame();
+        onProgress?.(Math.min(1, (video.currentTime - trimStart) / (trimEnd - trimStart)));
+        requestAnimationFrame(step);
+      };
+      requestAnimationFrame(step);
+    });
+
+    video.pause();
+    recorder.stop();
+    await stopped;
+    onProgress?.(1);
+
+    const type = (recorder.mimeType || mimeType || 'video/webm').split(';')[0];
+    const extension = type === 'video/mp4' ? 'mp4' : 'webm';
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'video';
+    const output = new File(chunks, `${baseName}-processed.${extension}`, { type });
+
+    return {
+      file: output,
+      preprocessing: {
+        source: { name: file.name, type: file.type, size: file.size, width: sourceWidth, height: sourceHeight, duration: video.duration },
+        output: { type, size: output.size, width, height, duration: trimEnd - trimStart, frame_rate: FRAME_RATE },
+        trim: { start: trimStart, end: trimEnd },
+        audio_removed: options.stripAudio,
+        face_blur: options.faceBlur,
+        processed_at: new Date().toISOString(),
+      },
+    };
+  } finally {
+    stream?.getTracks().forEach((track) => track.stop());
+    await audioContext?.close();
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,45 @@
+// Appointment rules shared by the app and the manage-appointment edge function
+
+import { addDays, getZonedDate, getZonedTime, zonedTimeToUtc } from './reminders.ts';
+
+export type AppointmentMode = 'in_person' | 'video';
+export type AppointmentStatus = 'booked' | 'cancelled';
+
+export const APPOINTMENT_MODE_LABELS: Record<AppointmentMode, string> = {
+  in_person: 'In person',
+  video: 'Video call',
+};
+
+// Body of a manage-appointment call. timezone is the booker's, for their reminders.
+export type AppointmentRequest =
+  | { action: 'book'; slotId: string; patientId: string; reason?: string; timezone: string }
+  | { action: 'reschedule'; appointmentId: string; slotId: string }
+  | { action: 'cancel'; appointmentId: string; reason?: string };
+
+export interface AppointmentReminderTime {
+  // Local date and time, as reminders store them
+  date: string;
+  timeOfDay: string;
+  at: Date;
+}
+
+// Appointment reminders go out the day before at the appointment's local time,
+// so the time shown in the reminder is the appointment's. Null once that has passed.
+export function getAppointmentReminderTime(startsAt: Date, timezone: string, now: Date): AppointmentReminderTime | null {
+  const timeOfDay = getZonedTime(startsAt, timezone);
+  const date = addDays(getZonedDate(startsAt, timezone), -1);
+  const at = zonedTimeToUtc(date, timeOfDay, timezone);
+  return at > now ? { date, timeOfDay, at } : null;
+}
+
+// e.g. "Tue, Jan 6, 10:30 AM"
+export function formatAppointmentTime(startsAt: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(startsAt);
+}
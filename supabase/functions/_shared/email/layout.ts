@@ -0,0 +1,53 @@
+// Shared email shell: HTML document, header and footer. Every string passed in
+// must already be escaped.
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export interface FooterLink {
+  label: string;
+  url: string;
+}
+
+export interface LayoutParts {
+  lang: string;
+  title: string;
+  heading: string;
+  bodyHtml: string;
+  footerReason: string;
+  footerLinks: FooterLink[];
+}
+
+export function renderLayout({ lang, title, heading, bodyHtml, footerReason, footerLinks }: LayoutParts): string {
+  const links = footerLinks
+    .map((link) => `<a href="${escapeHtml(link.url)}" style="color: #6B7280;">${escapeHtml(link.label)}</a>`)
+    .join(' &middot; ');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 24px; background: #FFFFFF;">
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h1 style="color: #4F46E5; text-align: center;">${heading}</h1>
+    ${bodyHtml}
+    <hr style="border: none; border-top: 1px solid #E5E7EB; margin: 32px 0 16px;" />
+    ${footerReason ? `<p style="color: #9CA3AF; font-size: 12px; text-align: center;">${escapeHtml(footerReason)}</p>` : ''}
+    ${links ? `<p style="font-size: 12px; text-align: center;">${links}</p>` : ''}
+  </div>
+</body>
+</html>`;
+}
+
+export function renderTextFooter(footerReason: string, footerLinks: FooterLink[]): string {
+  return ['--', footerReason, ...footerLinks.map((link) => `${link.label}: ${link.url}`)].join('\n');
+}
@@ -0,0 +1,36 @@
+// Email languages. Kept free of Deno APIs so the settings page can offer them.
+
+export type EmailLocale = 'en' | 'es' | 'fr';
+
+export const EMAIL_LOCALES: EmailLocale[] = ['en', 'es', 'fr'];
+
+export const EMAIL_LOCALE_LABELS: Record<EmailLocale, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+};
+
+// Profiles store language as typed at sign-up ("English", "spanish", "fr-CA"),
+// so match on codes and on names in English or the language itself
+const LANGUAGE_ALIASES: Record<string, EmailLocale> = {
+  en: 'en',
+  english: 'en',
+  es: 'es',
+  spanish: 'es',
+  'español': 'es',
+  espanol: 'es',
+  fr: 'fr',
+  french: 'fr',
+  'français': 'fr',
+  francais: 'fr',
+};
+
+export function resolveEmailLocale(...candidates: (string | null | undefined)[]): EmailLocale {
+  for (const candidate of candidates) {
+    const value = candidate?.trim().toLowerCase();
+    if (!value) continue;
+    const locale = LANGUAGE_ALIASES[value] || LANGUAGE_ALIASES[value.split(/[-_]/)[0]];
+    if (locale) return locale;
+  }
+  return 'en';
+}
@@ -0,0 +1,56 @@
+import { EmailMessages } from './index.ts';
+
+const en: EmailMessages = {
+  types: {
+    achievement: {
+      subject: (title) => `New Achievement Unlocked: ${title}`,
+      heading: 'Achievement Unlocked!',
+      timeLabel: 'Earned',
+      closing: 'Keep up the great work!',
+    },
+    reminder: {
+      subject: (title) => `Reminder: ${title}`,
+      heading: 'Reminder',
+      timeLabel: 'Scheduled for',
+      closing: 'This is a friendly reminder from AutiCare.',
+    },
+    appointment: {
+      subject: (title) => `Appointment Alert: ${title}`,
+      heading: 'Appointment Alert',
+      timeLabel: 'Time',
+      closing: "Don't forget your upcoming appointment!",
+    },
+    assessment_due: {
+      subject: (title) => `Assessment Due: ${title}`,
+      heading: 'Assessment Due',
+      timeLabel: 'Due',
+      closing: 'Regular check-ins help track progress over time.',
+    },
+  },
+  typeNames: {
+    achievement: 'achievement',
+    reminder: 'reminder',
+    appointment: 'appointment',
+    assessment_due: 'assessment due',
+  },
+  digest: {
+    subject: (count) => `Your AutiCare digest: ${count} update${count === 1 ? '' : 's'}`,
+    heading: 'Your AutiCare Digest',
+    intro: (count) => `Here ${count === 1 ? 'is' : 'are'} ${count} update${count === 1 ? '' : 's'} since your last digest.`,
+  },
+  footer: {
+    reason: 'You are receiving this because of your AutiCare notification settings.',
+    unsubscribe: (typeName) => `Stop ${typeName} emails`,
+    unsubscribeAll: 'Stop all AutiCare emails',
+    manageSettings: 'Manage notification settings',
+  },
+  unsubscribePage: {
+    title: 'Unsubscribed',
+    done: (typeName) => `You will no longer receive ${typeName} emails from AutiCare.`,
+    doneAll: 'You will no longer receive emails from AutiCare.',
+    invalid: 'This unsubscribe link is invalid or has expired.',
+    manageSettings: 'You can change this at any time in your notification settings.',
+  },
+};
+
+export default en;
@@ -0,0 +1,56 @@
+import { EmailMessages } from './index.ts';
+
+const es: EmailMessages = {
+  types: {
+    achievement: {
+      subject: (title) => `Nuevo logro desbloqueado: ${title}`,
+      heading: '¡Logro desbloqueado!',
+      timeLabel: 'Conseguido',
+      closing: '¡Sigue así!',
+    },
+    reminder: {
+      subject: (title) => `Recordatorio: ${title}`,
+      heading: 'Recordatorio',
+      timeLabel: 'Programado para',
+      closing: 'Este es un recordatorio amistoso de AutiCare.',
+    },
+    appointment: {
+      subject: (title) => `Aviso de cita: ${title}`,
+      heading: 'Aviso de cita',
+      timeLabel: 'Hora',
+      closing: '¡No olvides tu próxima cita!',
+    },
+    assessment_due: {
+      subject: (title) => `Evaluación pendiente: ${title}`,
+      heading: 'Evaluación pendiente',
+      timeLabel: 'Fecha',
+      closing: 'Las evaluaciones periódicas ayudan a seguir el progreso.',
+    },
+  },
+  typeNames: {
+    achievement: 'logros',
+    reminder: 'recordatorios',
+    appointment: 'citas',
+    assessment_due: 'evaluaciones pendientes',
+  },
+  digest: {
+    subject: (count) => `Tu resumen de AutiCare: ${count} ${count === 1 ? 'novedad' : 'novedades'}`,
+    heading: 'Tu resumen de AutiCare',
+    intro: (count) => `${count === 1 ? 'Esta es la novedad' : `Estas son las ${count} novedades`} desde tu último resumen.`,
+  },
+  footer: {
+    reason: 'Recibes este mensaje por tu configuración de notificaciones de AutiCare.',
+    unsubscribe: (typeName) => `Dejar de recibir correos de ${typeName}`,
+    unsubscribeAll: 'Dejar de recibir todos los correos de AutiCare',
+    manageSettings: 'Gestionar notificaciones',
+  },
+  unsubscribePage: {
+    title: 'Suscripción cancelada',
+    done: (typeName) => `Ya no recibirás correos de ${typeName} de AutiCare.`,
+    doneAll: 'Ya no recibirás correos de AutiCare.',
+    invalid: 'Este enlace para cancelar la suscripción no es válido.',
+    manageSettings: 'Puedes cambiarlo en cualquier momento en tu configuración de notificaciones.',
+  },
+};
+
+export default es;
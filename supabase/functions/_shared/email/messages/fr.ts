@@ -0,0 +1,56 @@
+import { EmailMessages } from './index.ts';
+
+const fr: EmailMessages = {
+  types: {
+    achievement: {
+      subject: (title) => `Nouveau badge débloqué : ${title}`,
+      heading: 'Badge débloqué !',
+      timeLabel: 'Obtenu',
+      closing: 'Continuez comme ça !',
+    },
+    reminder: {
+      subject: (title) => `Rappel : ${title}`,
+      heading: 'Rappel',
+      timeLabel: 'Prévu à',
+      closing: 'Ceci est un petit rappel d’AutiCare.',
+    },
+    appointment: {
+      subject: (title) => `Rendez-vous : ${title}`,
+      heading: 'Rappel de rendez-vous',
+      timeLabel: 'Heure',
+      closing: 'N’oubliez pas votre prochain rendez-vous !',
+    },
+    assessment_due: {
+      subject: (title) => `Évaluation à faire : ${title}`,
+      heading: 'Évaluation à faire',
+      timeLabel: 'Échéance',
+      closing: 'Des bilans réguliers aident à suivre les progrès.',
+    },
+  },
+  typeNames: {
+    achievement: 'badges',
+    reminder: 'rappels',
+    appointment: 'rendez-vous',
+    assessment_due: 'évaluations',
+  },
+  digest: {
+    subject: (count) => `Votre résumé AutiCare : ${count} nouveauté${count === 1 ? '' : 's'}`,
+    heading: 'Votre résumé AutiCare',
+    intro: (count) => `${count === 1 ? 'Voici la nouveauté' : `Voici les ${count} nouveautés`} depuis votre dernier résumé.`,
+  },
+  footer: {
+    reason: 'Vous recevez ce message en raison de vos paramètres de notification AutiCare.',
+    unsubscribe: (typeName) => `Ne plus recevoir les e-mails de ${typeName}`,
+    unsubscribeAll: 'Ne plus recevoir aucun e-mail d’AutiCare',
+    manageSettings: 'Gérer les notifications',
+  },
+  unsubscribePage: {
+    title: 'Désabonnement confirmé',
+    done: (typeName) => `Vous ne recevrez plus d’e-mails de ${typeName} d’AutiCare.`,
+    doneAll: 'Vous ne recevrez plus d’e-mails d’AutiCare.',
+    invalid: 'Ce lien de désabonnement n’est pas valide.',
+    manageSettings: 'Vous pouvez modifier ce choix à tout moment dans vos paramètres de notification.',
+  },
+};
+
+export default fr;
@@ -0,0 +1,41 @@
+import { EmailLocale } from '../locales.ts';
+import { NotificationType } from '../../notificationPreferences.ts';
+import en from './en.ts';
+import es from './es.ts';
+import fr from './fr.ts';
+
+// Wording for one notification type's email. Callbacks receive plain text; the
+// templates escape everything before it reaches HTML.
+export interface TypeMessages {
+  subject: (title: string) => string;
+  heading: string;
+  // Label in front of data.time, e.g. "Scheduled for"
+  timeLabel: string;
+  closing: string;
+}
+
+export interface EmailMessages {
+  types: Record<NotificationType, TypeMessages>;
+  // Short names used in footers and the unsubscribe page, e.g. "reminder"
+  typeNames: Record<NotificationType, string>;
+  digest: {
+    subject: (count: number) => string;
+    heading: string;
+    intro: (count: number) => string;
+  };
+  footer: {
+    reason: string;
+    unsubscribe: (typeName: string) => string;
+    unsubscribeAll: string;
+    manageSettings: string;
+  };
+  unsubscribePage: {
+    title: string;
+    done: (typeName: string) => string;
+    doneAll: string;
+    invalid: string;
+    manageSettings: string;
+  };
+}
+
+export const EMAIL_MESSAGES: Record<EmailLocale, EmailMessages> = { en, es, fr };
@@ -0,0 +1,31 @@
+// Renders every email template in every locale to files, without sending
+// anything, so templates can be reviewed in a browser and diffed as text.
+//
+//   deno run --allow-write supabase/functions/_shared/email/preview.ts [outDir]
+//
+// Writes <name>.html and .txt per sample (see samples.ts), plus index.html.
+// The committed snapshots in __snapshots__/ are the same files.
+
+import { formatTextEmail, renderSampleEmails } from './samples.ts';
+
+const outDir = Deno.args[0] || 'email-previews';
+await Deno.mkdir(outDir, { recursive: true });
+
+const written = renderSampleEmails();
+for (const { name, email } of written) {
+  await Deno.writeTextFile(`${outDir}/${name}.html`, email.html);
+  await Deno.writeTextFile(`${outDir}/${name}.txt`, formatTextEmail(email));
+}
+
+const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+await Deno.writeTextFile(`${outDir}/index.html`, `<!DOCTYPE html>
+<html><head><meta charset="UTF-8" /><title>Email previews</title></head>
+<body style="font-family: Arial, sans-serif;">
+<h1>Email previews</h1>
+<ul>
+${written.map((e) => `<li><a href="${e.name}.html">${e.name}</a> (<a href="${e.name}.txt">text</a>): ${escape(e.email.subject)}</li>`).join('\n')}
+</ul>
+</body></html>
+`);
+
+console.log(`Rendered ${written.length} emails to ${outDir}/`);
@@ -0,0 +1,57 @@
+// Renders notification emails: picks the locale's messages, fills the type's
+// template and wraps it in the shared layout, as both HTML and plain text.
+
+import { NotificationType } from '../notificationPreferences.ts';
+import { EmailLocale } from './locales.ts';
+import { EMAIL_MESSAGES } from './messages/index.ts';
+import { FooterLink, renderLayout, renderTextFooter } from './layout.ts';
+import { DigestItem, TemplateContent, TemplateData, renderDigestTemplate, renderTypeTemplate } from './templates.ts';
+
+export interface EmailRenderOptions {
+  locale: EmailLocale;
+  // One-click link removing this email's type (or all email) from preferences;
+  // omitted when the recipient isn't a known user
+  unsubscribeUrl?: string;
+  settingsUrl?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function finish(content: TemplateContent, unsubscribeLabel: string, options: EmailRenderOptions): RenderedEmail {
+  const messages = EMAIL_MESSAGES[options.locale];
+  const footerLinks: FooterLink[] = [];
+  if (options.unsubscribeUrl) footerLinks.push({ label: unsubscribeLabel, url: options.unsubscribeUrl });
+  if (options.settingsUrl) footerLinks.push({ label: messages.footer.manageSettings, url: options.settingsUrl });
+
+  return {
+    subject: content.subject,
+    html: renderLayout({
+      lang: options.locale,
+      title: content.subject,
+      heading: content.heading,
+      bodyHtml: content.bodyHtml,
+      footerReason: messages.footer.reason,
+      footerLinks,
+    }),
+    text: `${content.bodyText}\n\n${renderTextFooter(messages.footer.reason, footerLinks)}\n`,
+  };
+}
+
+export function renderNotificationEmail(
+  type: NotificationType,
+  data: TemplateData,
+  options: EmailRenderOptions
+): RenderedEmail {
+  const messages = EMAIL_MESSAGES[options.locale];
+  return finish(renderTypeTemplate(type, data, messages), messages.footer.unsubscribe(messages.typeNames[type]), options);
+}
+
+// Digests mix types, so their unsubscribe link stops all email
+export function renderDigestEmail(items: DigestItem[], options: EmailRenderOptions): RenderedEmail {
+  const messages = EMAIL_MESSAGES[options.locale];
+  return finish(renderDigestTemplate(items, messages), messages.footer.unsubscribeAll, options);
+}
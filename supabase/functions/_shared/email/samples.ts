@@ -0,0 +1,80 @@
+// Sample emails for every template in every locale. preview.ts writes them out
+// for review; the snapshot tests compare them with the committed copies in
+// __snapshots__/, so any change to a template shows up as a diff.
+
+import { NOTIFICATION_TYPES, NotificationType } from '../notificationPreferences.ts';
+import { EMAIL_LOCALES } from './locales.ts';
+import { RenderedEmail, renderDigestEmail, renderNotificationEmail } from './render.ts';
+import { TemplateData } from './templates.ts';
+
+export interface SampleEmail {
+  // <type>.<locale> or <type>.escaping, also the snapshot file name
+  name: string;
+  email: RenderedEmail;
+}
+
+// Titles include markup-like text to show it is escaped, not rendered
+export const SAMPLE_DATA: Record<NotificationType, TemplateData> = {
+  achievement: { title: 'Task Master', description: 'Completed 10 tasks <in a row> & kept going', icon: '⭐' },
+  reminder: { title: 'Brush teeth', description: '', time: '08:00' },
+  appointment: { title: 'Speech therapy with Dr. "Lee"', description: 'Bring the home practice log', time: '14:30' },
+  assessment_due: { title: 'Monthly check-in', description: '', time: '2026-01-05' },
+};
+
+// User-entered text that would run if it reached the HTML unescaped
+export const ESCAPING_SAMPLE: TemplateData = {
+  title: '<script>alert("title")</script>',
+  description: '<img src="x" onerror="alert(\'description\')"> </td></tr></table>',
+  time: '<b>09:00</b>',
+};
+
+export const SAMPLE_OPTIONS = {
+  unsubscribeUrl: 'https://example.supabase.co/functions/v1/unsubscribe?token=preview',
+  settingsUrl: 'https://auticare.example/?settings=notifications',
+};
+
+export function renderSampleEmails(): SampleEmail[] {
+  const samples: SampleEmail[] = [];
+  for (const locale of EMAIL_LOCALES) {
+    const options = { locale, ...SAMPLE_OPTIONS };
+    for (const type of NOTIFICATION_TYPES) {
+      samples.push({ name: `${type}.${locale}`, email: renderNotificationEmail(type, SAMPLE_DATA[type], options) });
+    }
+    samples.push({
+      name: `digest.${locale}`,
+      email: renderDigestEmail(
+        NOTIFICATION_TYPES.map((type) => ({
+          type,
+          title: SAMPLE_DATA[type].title,
+          description: SAMPLE_DATA[type].description || null,
+          time: SAMPLE_DATA[type].time || null,
+        })),
+        options
+      ),
+    });
+  }
+
+  // Escaping doesn't depend on the locale, so one set is enough
+  const options = { locale: EMAIL_LOCALES[0], ...SAMPLE_OPTIONS };
+  for (const type of NOTIFICATION_TYPES) {
+    samples.push({ name: `${type}.escaping`, email: renderNotificationEmail(type, ESCAPING_SAMPLE, options) });
+  }
+  samples.push({
+    name: 'digest.escaping',
+    email: renderDigestEmail(
+      NOTIFICATION_TYPES.map((type) => ({
+        type,
+        title: ESCAPING_SAMPLE.title,
+        description: ESCAPING_SAMPLE.description || null,
+        time: ESCAPING_SAMPLE.time || null,
+      })),
+      options
+    ),
+  });
+  return samples;
+}
+
+// The .txt preview and snapshot: subject line, then the plain-text body
+export function formatTextEmail(email: RenderedEmail): string {
+  return `Subject: ${email.subject}\n\n${email.text}`;
+}
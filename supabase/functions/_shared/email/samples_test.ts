@@ -0,0 +1,21 @@
+// deno test --allow-read supabase/functions/_shared
+// Compares every sample email with the snapshots committed in __snapshots__/,
+// which the app's suite (src/utils/emailTemplates.test.ts) also checks and refreshes
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { formatTextEmail, renderSampleEmails } from "./samples.ts";
+
+const readSnapshot = (file: string) => Deno.readTextFile(new URL(`./__snapshots__/${file}`, import.meta.url));
+
+for (const { name, email } of renderSampleEmails()) {
+  Deno.test(`email snapshot: ${name}`, async () => {
+    assertEquals(email.html, await readSnapshot(`${name}.html`));
+    assertEquals(formatTextEmail(email), await readSnapshot(`${name}.txt`));
+  });
+
+  if (name.endsWith(".escaping")) {
+    Deno.test(`email escaping: ${name}`, () => {
+      assert(!/<script|<img|<b>/.test(email.html));
+    });
+  }
+}
@@ -0,0 +1,114 @@
+// One template per notification type, plus the digest. Templates lay out the
+// content; wording comes from the locale's messages and all data is escaped here.
+
+import { NotificationType } from '../notificationPreferences.ts';
+import { EmailMessages } from './messages/index.ts';
+import { escapeHtml } from './layout.ts';
+
+export interface TemplateData {
+  title: string;
+  // Optional detail; reminders sent by the scheduler have none
+  description: string;
+  icon?: string;
+  time?: string;
+}
+
+export interface TemplateContent {
+  subject: string;
+  heading: string;
+  bodyHtml: string;
+  bodyText: string;
+}
+
+interface TypeStyle {
+  emoji: string;
+  background: string;
+  border?: string;
+}
+
+const TYPE_STYLES: Record<NotificationType, TypeStyle> = {
+  achievement: { emoji: '🏆', background: '#F3F4F6' },
+  reminder: { emoji: '⏰', background: '#FEF3C7', border: '#F59E0B' },
+  appointment: { emoji: '📅', background: '#DBEAFE', border: '#3B82F6' },
+  assessment_due: { emoji: '📋', background: '#EDE9FE', border: '#8B5CF6' },
+};
+
+export function getTypeEmoji(type: NotificationType, icon?: string): string {
+  return icon || TYPE_STYLES[type].emoji;
+}
+
+function renderCard(type: NotificationType, data: TemplateData, messages: EmailMessages): string {
+  const style = TYPE_STYLES[type];
+  const wording = messages.types[type];
+  const border = style.border ? ` border-left: 4px solid ${style.border};` : '';
+  const time = data.time
+    ? `<p style="color: #6B7280; font-size: 16px;">${escapeHtml(wording.timeLabel)}: ${escapeHtml(data.time)}</p>`
+    : '';
+  const description = data.description
+    ? `<p style="color: #6B7280; font-size: 16px;">${escapeHtml(data.description)}</p>`
+    : '';
+
+  return `<div style="background: ${style.background}; padding: 20px; border-radius: 10px; margin: 20px 0;${border}">
+      <h2 style="color: #1F2937; margin-top: 0;">${escapeHtml(data.title)}</h2>
+      ${time}
+      ${description}
+    </div>
+    <p style="color: #6B7280; text-align: center;">${escapeHtml(wording.closing)}</p>`;
+}
+
+export function renderTypeTemplate(type: NotificationType, data: TemplateData, messages: EmailMessages): TemplateContent {
+  const wording = messages.types[type];
+  const emoji = getTypeEmoji(type, data.icon);
+
+  return {
+    subject: `${TYPE_STYLES[type].emoji} ${wording.subject(data.title)}`,
+    heading: `${escapeHtml(emoji)} ${escapeHtml(wording.heading)}`,
+    bodyHtml: renderCard(type, data, messages),
+    bodyText: [
+      `${emoji} ${wording.heading}`,
+      '',
+      data.title,
+      data.time ? `${wording.timeLabel}: ${data.time}` : null,
+      data.description || null,
+      '',
+      wording.closing,
+    ].filter((line) => line !== null).join('\n'),
+  };
+}
+
+export interface DigestItem {
+  type: NotificationType;
+  title: string;
+  description: string | null;
+  time: string | null;
+}
+
+export function renderDigestTemplate(items: DigestItem[], messages: EmailMessages): TemplateContent {
+  const rows = items
+    .map((item) => {
+      const time = item.time ? `<span style="color: #6B7280;"> &middot; ${escapeHtml(item.time)}</span>` : '';
+      const description = item.description ? `<br /><span style="color: #6B7280;">${escapeHtml(item.description)}</span>` : '';
+      return `<li style="margin-bottom: 12px;"><strong style="color: #1F2937;">${TYPE_STYLES[item.type].emoji} ${escapeHtml(item.title)}</strong>${time}${description}</li>`;
+    })
+    .join('\n        ');
+
+  return {
+    subject: `🔔 ${messages.digest.subject(items.length)}`,
+    heading: `🔔 ${escapeHtml(messages.digest.heading)}`,
+    bodyHtml: `<p style="color: #6B7280; font-size: 16px;">${escapeHtml(messages.digest.intro(items.length))}</p>
+    <div style="background: #F3F4F6; padding: 20px; border-radius: 10px; margin: 20px 0;">
+      <ul style="padding-left: 20px; margin: 0;">
+        ${rows}
+      </ul>
+    </div>`,
+    bodyText: [
+      `🔔 ${messages.digest.heading}`,
+      '',
+      messages.digest.intro(items.length),
+      '',
+      ...items.map((item) =>
+        `- ${TYPE_STYLES[item.type].emoji} ${item.title}${item.time ? ` · ${item.time}` : ''}${item.description ? `\n  ${item.description}` : ''}`
+      ),
+    ].join('\n'),
+  };
+}
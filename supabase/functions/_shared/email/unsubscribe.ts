@@ -0,0 +1,38 @@
+// Signed unsubscribe tokens, so an email link can change one user's preferences
+// without signing in. A token names the user and what to stop: one notification
+// type, or 'all' email.
+
+import { NOTIFICATION_TYPES, NotificationType } from '../notificationPreferences.ts';
+
+export type UnsubscribeScope = NotificationType | 'all';
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload))));
+}
+
+export async function createUnsubscribeToken(userId: string, scope: UnsubscribeScope, secret: string): Promise<string> {
+  const payload = `${userId}.${scope}`;
+  return `${payload}.${await sign(payload, secret)}`;
+}
+
+export async function verifyUnsubscribeToken(
+  token: string,
+  secret: string
+): Promise<{ userId: string; scope: UnsubscribeScope } | null> {
+  const [userId, scope, signature] = token.split('.');
+  if (!userId || !signature || !(scope === 'all' || NOTIFICATION_TYPES.includes(scope as NotificationType))) return null;
+
+  const expected = await sign(`${userId}.${scope}`, secret);
+  // Compare every character so timing doesn't reveal how much matched
+  if (expected.length !== signature.length) return null;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  return diff === 0 ? { userId, scope: scope as UnsubscribeScope } : null;
+}
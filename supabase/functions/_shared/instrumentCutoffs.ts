@@ -0,0 +1,46 @@
+// Severity cut-offs of the instruments a fused score is reported on, for the
+// edge functions, which can't load the definitions in src/data/instruments.
+// The app's test suite checks these against the definitions, so add an entry
+// here with every new version of a native instrument.
+
+import { SEVERITY_BANDS, SeverityCutoff } from './scoring.ts';
+
+const AUTICARE_CUTOFFS: SeverityCutoff[] = [
+  { max: 25, level: 'low', label: 'Very Low (Normal)' },
+  { max: 40, level: 'mild', label: 'Low - Assessment Requested' },
+  { max: 60, level: 'moderate', label: 'Moderate - Assessment Required' },
+  { max: 75, level: 'high', label: 'High - Assessment Mandatory' },
+  { max: null, level: 'very-high', label: 'Very High - Regular Checkup Needed' },
+];
+
+// Versions oldest first
+const INSTRUMENT_CUTOFFS: Record<string, Record<string, SeverityCutoff[]>> = {
+  'auticare-individual': { '1.0.0': AUTICARE_CUTOFFS },
+  'auticare-parent': { '1.0.0': AUTICARE_CUTOFFS, '1.1.0': AUTICARE_CUTOFFS },
+};
+
+const DEFAULT_INSTRUMENT_IDS: Record<string, string> = {
+  individual: 'auticare-individual',
+  parent: 'auticare-parent',
+  clinician: 'auticare-parent',
+};
+
+function findCutoffs(id: string, version?: string | null): SeverityCutoff[] | undefined {
+  const versions = INSTRUMENT_CUTOFFS[id];
+  if (!versions) return undefined;
+  if (version) return versions[version];
+  const all = Object.values(versions);
+  return all[all.length - 1];
+}
+
+// Same fallbacks as resolveInstrument in the app: the latest version when none
+// was stored, and the role's default instrument when the stored one is unknown
+// or the assessment predates instrument versions
+export function resolveInstrumentCutoffs(
+  ref: { id?: string | null; version?: string | null },
+  role: string
+): SeverityCutoff[] {
+  return (ref.id && findCutoffs(ref.id, ref.version)) ||
+    findCutoffs(DEFAULT_INSTRUMENT_IDS[role] || DEFAULT_INSTRUMENT_IDS.individual) ||
+    SEVERITY_BANDS;
+}
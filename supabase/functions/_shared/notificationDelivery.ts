@@ -0,0 +1,175 @@
+// Email and Web Push delivery for the notification edge functions
+
+import { Resend } from "https://esm.sh/resend@4.0.0";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import webpush from "npm:web-push@3.6.7";
+import { NotificationType } from "./notificationPreferences.ts";
+import { resolveEmailLocale } from "./email/locales.ts";
+import { EmailRenderOptions, RenderedEmail } from "./email/render.ts";
+import { UnsubscribeScope, createUnsubscribeToken } from "./email/unsubscribe.ts";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const vapidPublicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+const vapidPrivateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+const pushConfigured = !!(vapidPublicKey && vapidPrivateKey);
+if (pushConfigured) {
+  webpush.setVapidDetails(Deno.env.get("VAPID_SUBJECT") || "mailto:support@auticare.app", vapidPublicKey!, vapidPrivateKey!);
+}
+
+// A reminder that can't reach the device within the hour is no longer useful
+const PUSH_TTL_SECONDS = 60 * 60;
+
+export interface NotificationData {
+  title: string;
+  description: string;
+  icon?: string;
+  time?: string;
+}
+
+export interface EmailRecipient {
+  email: string;
+  options: EmailRenderOptions;
+}
+
+// Address, language and unsubscribe link for a user's email. The language is
+// the one chosen in notification settings, else the profile's.
+export async function getEmailRecipient(
+  supabase: SupabaseClient,
+  userId: string,
+  scope: UnsubscribeScope
+): Promise<EmailRecipient> {
+  const [{ data: userData, error: userError }, { data: preferences }, { data: profile }] = await Promise.all([
+    supabase.auth.admin.getUserById(userId),
+    supabase.from('notification_preferences').select('email_locale').eq('user_id', userId).maybeSingle(),
+    supabase.from('profiles').select('language').eq('user_id', userId).maybeSingle(),
+  ]);
+  if (userError) throw userError;
+  if (!userData.user?.email) throw new Error('No recipient email');
+
+  const secret = Deno.env.get('UNSUBSCRIBE_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const token = await createUnsubscribeToken(userId, scope, secret);
+
+  return {
+    email: userData.user.email,
+    options: {
+      locale: resolveEmailLocale(preferences?.email_locale, profile?.language, userData.user.user_metadata?.language),
+      unsubscribeUrl: `${Deno.env.get('SUPABASE_URL')}/functions/v1/unsubscribe?token=${encodeURIComponent(token)}`,
+      settingsUrl: getSettingsUrl(),
+    },
+  };
+}
+
+// Where "manage notification settings" links point; unset leaves the link out
+export function getSettingsUrl(): string | undefined {
+  return Deno.env.get('SITE_URL') || undefined;
+}
+
+const PUSH_ICONS: Record<NotificationType, string> = {
+  achievement: '🏆',
+  reminder: '⏰',
+  appointment: '📅',
+  assessment_due: '📋',
+};
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag: string;
+  url: string;
+}
+
+export function buildPush(type: NotificationType, data: NotificationData, reminderId?: string): PushPayload {
+  const icons = { ...PUSH_ICONS, achievement: data.icon || PUSH_ICONS.achievement };
+  return {
+    title: `${icons[type]} ${data.title}`,
+    body: [data.description, data.time].filter(Boolean).join(' · '),
+    // Repeat alerts for one reminder replace each other on the lock screen
+    tag: reminderId ? `reminder-${reminderId}` : type,
+    url: '/',
+  };
+}
+
+export async function sendEmail(email: string, { subject, html, text }: RenderedEmail, unsubscribeUrl?: string): Promise<'sent'> {
+  const emailResponse = await resend.emails.send({
+    from: "AutiCare <onboarding@resend.dev>",
+    to: [email],
+    subject,
+    html,
+    text,
+    // Lets mail clients offer their own one-click unsubscribe button
+    headers: unsubscribeUrl
+      ? { 'List-Unsubscribe': `<${unsubscribeUrl}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }
+      : undefined,
+  });
+
+  if (emailResponse.error) throw new Error(emailResponse.error.message);
+  console.log("Email sent successfully:", emailResponse);
+  return 'sent';
+}
+
+// Sends to every device the user subscribed. Subscriptions the push service
+// reports as gone are removed; the channel fails only if no device was reached.
+export async function sendPush(supabase: SupabaseClient, userId: string, payload: PushPayload): Promise<'sent' | 'skipped'> {
+  if (!pushConfigured) {
+    console.log('Push skipped: VAPID keys are not configured');
+    return 'skipped';
+  }
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', userId);
+  if (error) throw error;
+  if (!subscriptions || subscriptions.length === 0) return 'skipped';
+
+  const results = await Promise.allSettled(subscriptions.map((sub) =>
+    webpush.sendNotification(
+      { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+      JSON.stringify(payload),
+      { TTL: PUSH_TTL_SECONDS }
+    )
+  ));
+
+  const delivered: string[] = [];
+  const expired: string[] = [];
+  const errors: string[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      delivered.push(subscriptions[i].id);
+    } else if ([404, 410].includes(result.reason?.statusCode)) {
+      expired.push(subscriptions[i].id);
+    } else {
+      errors.push(result.reason?.body || result.reason?.message || 'Push failed');
+    }
+  });
+
+  if (expired.length > 0) {
+    await supabase.from('push_subscriptions').delete().in('id', expired);
+  }
+  if (delivered.length > 0) {
+    await supabase.from('push_subscriptions').update({ last_used_at: new Date().toISOString() }).in('id', delivered);
+    console.log(`Push sent to ${delivered.length} device(s)`);
+    return 'sent';
+  }
+  if (errors.length > 0) throw new Error(errors[0]);
+  return 'skipped';
+}
+
+// A notification held back for a digest or quiet hours
+export interface QueuedNotification {
+  notificationType: NotificationType;
+  title: string;
+  body: string | null;
+  timeLabel: string | null;
+}
+
+export function buildDigestPush(items: QueuedNotification[]): PushPayload {
+  const titles = items.map((item) => item.title);
+  return {
+    title: `🔔 ${items.length} AutiCare update${items.length === 1 ? '' : 's'}`,
+    body: titles.length > 3 ? `${titles.slice(0, 3).join(', ')} and ${titles.length - 3} more` : titles.join(', '),
+    tag: 'digest',
+    url: '/',
+  };
+}
@@ -0,0 +1,109 @@
+// Notification preferences, shared by the settings page and send-notification,
+// which enforces them. Each type has its own channels and frequency; quiet hours
+// hold push and email back until they end.
+
+import { getNextOccurrence, getZonedTime, isValidTimeZone } from './reminders.ts';
+import { EmailLocale } from './email/locales.ts';
+
+export type NotificationType = 'achievement' | 'reminder' | 'appointment' | 'assessment_due';
+export type NotificationChannel = 'in_app' | 'push' | 'email';
+export type NotificationFrequency = 'immediate' | 'daily' | 'weekly';
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['reminder', 'appointment', 'assessment_due', 'achievement'];
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'push', 'email'];
+
+export interface TypePreference {
+  channels: NotificationChannel[];
+  frequency: NotificationFrequency;
+}
+
+export interface NotificationPreferences {
+  types: Record<NotificationType, TypePreference>;
+  quietHours: {
+    enabled: boolean;
+    // 'HH:MM'; an end before the start spans midnight
+    start: string;
+    end: string;
+  };
+  timezone: string;
+  // Digests go out at this local time; weekly ones on this weekday (0 = Sunday)
+  digestTime: string;
+  digestWeekday: number;
+  // Null to follow the profile's language
+  emailLocale: EmailLocale | null;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  types: {
+    reminder: { channels: ['in_app', 'push', 'email'], frequency: 'immediate' },
+    appointment: { channels: ['in_app', 'push', 'email'], frequency: 'immediate' },
+    assessment_due: { channels: ['in_app', 'email'], frequency: 'immediate' },
+    achievement: { channels: ['in_app', 'email'], frequency: 'daily' },
+  },
+  quietHours: { enabled: false, start: '21:00', end: '07:00' },
+  timezone: 'UTC',
+  digestTime: '18:00',
+  digestWeekday: 0,
+  emailLocale: null,
+};
+
+// Fills in any type missing from saved preferences, e.g. one added since they were saved
+export function withDefaultTypes(
+  types: Partial<Record<NotificationType, TypePreference>> | null | undefined
+): Record<NotificationType, TypePreference> {
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, types?.[type] || DEFAULT_NOTIFICATION_PREFERENCES.types[type]])
+  ) as Record<NotificationType, TypePreference>;
+}
+
+export function isInQuietHours(preferences: NotificationPreferences, at: Date): boolean {
+  const { enabled, start, end } = preferences.quietHours;
+  if (!enabled || start === end || !isValidTimeZone(preferences.timezone)) return false;
+  const now = getZonedTime(at, preferences.timezone);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+// Next local time of day after an instant, e.g. when quiet hours end
+function getNextTimeOfDay(timeOfDay: string, timezone: string, after: Date): Date {
+  return getNextOccurrence({ recurrence: 'daily', timeOfDay, timezone, startDate: '2000-01-01' }, after)!;
+}
+
+export function getNextDigestAt(
+  preferences: NotificationPreferences,
+  frequency: Exclude<NotificationFrequency, 'immediate'>,
+  after: Date
+): Date {
+  if (frequency === 'daily') return getNextTimeOfDay(preferences.digestTime, preferences.timezone, after);
+  // 2000-01-02 was a Sunday, so counting weeks from it lands on the chosen weekday
+  const anchor = new Date(Date.UTC(2000, 0, 2 + preferences.digestWeekday)).toISOString().slice(0, 10);
+  return getNextOccurrence(
+    { recurrence: 'interval', intervalDays: 7, timeOfDay: preferences.digestTime, timezone: preferences.timezone, startDate: anchor },
+    after
+  )!;
+}
+
+export interface PlannedDelivery {
+  channel: NotificationChannel;
+  // Null to send now; otherwise queued until then
+  deliverAfter: Date | null;
+  digest: boolean;
+}
+
+// How one notification should go out under the user's preferences. In-app
+// notifications are silent, so they are stored straight away whatever the
+// frequency or quiet hours.
+export function planDelivery(preferences: NotificationPreferences, type: NotificationType, now: Date): PlannedDelivery[] {
+  const { channels, frequency } = preferences.types[type] || DEFAULT_NOTIFICATION_PREFERENCES.types[type];
+  const timezone = isValidTimeZone(preferences.timezone) ? preferences.timezone : 'UTC';
+
+  return channels.map((channel) => {
+    if (channel === 'in_app') return { channel, deliverAfter: null, digest: false };
+
+    const digest = frequency !== 'immediate';
+    let deliverAt = digest ? getNextDigestAt({ ...preferences, timezone }, frequency, now) : now;
+    if (isInQuietHours(preferences, deliverAt)) {
+      deliverAt = getNextTimeOfDay(preferences.quietHours.end, timezone, deliverAt);
+    }
+    return { channel, deliverAfter: deliverAt > now ? deliverAt : null, digest };
+  });
+}
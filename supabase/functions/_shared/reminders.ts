@@ -0,0 +1,173 @@
+// Reminder recurrence rules, shared by the app and the reminder dispatcher
+// Times are wall-clock times in the reminder's IANA time zone, so a 08:00 daily
+// reminder stays at 08:00 local time across daylight-saving changes.
+
+export type ReminderRecurrence = 'daily' | 'weekdays' | 'interval' | 'dates';
+
+export const REMINDER_RECURRENCES: ReminderRecurrence[] = ['daily', 'weekdays', 'interval', 'dates'];
+
+export interface ReminderSchedule {
+  recurrence: ReminderRecurrence;
+  // 'HH:MM', 24-hour
+  timeOfDay: string;
+  // IANA zone, e.g. 'Europe/London'
+  timezone: string;
+  // 'YYYY-MM-DD'; no occurrence falls before it, and 'interval' counts from it
+  startDate: string;
+  // 'interval' only: every N days
+  intervalDays?: number | null;
+  // 'dates' only: the exact days to remind on, as 'YYYY-MM-DD'
+  dates?: string[] | null;
+}
+
+// Furthest ahead to look for the next occurrence; covers a yearly interval
+const MAX_LOOKAHEAD_DAYS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock parts of an instant in a time zone
+function getZonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+// Offset of the zone from UTC at an instant, in milliseconds
+function getTimeZoneOffset(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant a local date and time happen in a zone. Times skipped by a
+// daylight-saving jump land just after the jump.
+export function zonedTimeToUtc(date: string, timeOfDay: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = timeOfDay.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timezone);
+  // Re-check at the guessed instant, in case an offset change falls in between
+  const corrected = wallClock - getTimeZoneOffset(new Date(guess), timezone);
+  const p = getZonedParts(new Date(corrected), timezone);
+  if (p.hour === hour && p.minute === minute) return new Date(corrected);
+  // The wall-clock time was skipped; of the two candidates, the later one is after the jump
+  return new Date(Math.max(guess, corrected));
+}
+
+// Local calendar date of an instant in a zone, as 'YYYY-MM-DD'
+export function getZonedDate(date: Date, timezone: string): string {
+  const p = getZonedParts(date, timezone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+// Local wall-clock time of an instant in a zone, as 'HH:MM'
+export function getZonedTime(date: Date, timezone: string): string {
+  const p = getZonedParts(date, timezone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+// Calendar arithmetic on 'YYYY-MM-DD' dates
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function occursOn(schedule: ReminderSchedule, date: string): boolean {
+  if (date < schedule.startDate) return false;
+  switch (schedule.recurrence) {
+    case 'daily':
+      return true;
+    case 'weekdays': {
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+      return weekday >= 1 && weekday <= 5;
+    }
+    case 'interval':
+      return !!schedule.intervalDays && daysBetween(schedule.startDate, date) % schedule.intervalDays === 0;
+    case 'dates':
+      return (schedule.dates || []).includes(date);
+  }
+}
+
+// Problems with a schedule, or null when it is valid
+export function validateReminderSchedule(schedule: ReminderSchedule): string | null {
+  if (!REMINDER_RECURRENCES.includes(schedule.recurrence)) return 'Unknown recurrence.';
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(schedule.timeOfDay)) return 'Time must be HH:MM.';
+  if (!isValidTimeZone(schedule.timezone)) return 'Unknown time zone.';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(schedule.startDate)) return 'Start date must be YYYY-MM-DD.';
+  if (schedule.recurrence === 'interval' && !((schedule.intervalDays ?? 0) >= 1 && (schedule.intervalDays ?? 0) <= 365)) {
+    return 'Repeat every 1 to 365 days.';
+  }
+  if (schedule.recurrence === 'dates' && (!schedule.dates || schedule.dates.length === 0)) {
+    return 'Pick at least one date.';
+  }
+  return null;
+}
+
+// First occurrence strictly after the given instant, or null when there are no more
+export function getNextOccurrence(schedule: ReminderSchedule, after: Date): Date | null {
+  if (validateReminderSchedule(schedule)) return null;
+
+  // Start a day early: the zone's date can lag the UTC date
+  const afterDate = addDays(getZonedDate(after, schedule.timezone), -1);
+  let date = afterDate > schedule.startDate ? afterDate : schedule.startDate;
+
+  if (schedule.recurrence === 'dates') {
+    const upcoming = [...(schedule.dates ?? [])].filter((d) => d >= date).sort();
+    for (const candidate of upcoming) {
+      const instant = zonedTimeToUtc(candidate, schedule.timeOfDay, schedule.timezone);
+      if (instant > after) return instant;
+    }
+    return null;
+  }
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++, date = addDays(date, 1)) {
+    if (!occursOn(schedule, date)) continue;
+    const instant = zonedTimeToUtc(date, schedule.timeOfDay, schedule.timezone);
+    if (instant > after) return instant;
+  }
+  return null;
+}
+
+// Key identifying one occurrence of one reminder, so it is sent exactly once
+export function getReminderIdempotencyKey(reminderId: string, occurrence: Date): string {
+  return `reminder:${reminderId}:${occurrence.toISOString()}`;
+}
+
+export function describeSchedule(schedule: ReminderSchedule): string {
+  switch (schedule.recurrence) {
+    case 'daily':
+      return `Every day at ${schedule.timeOfDay}`;
+    case 'weekdays':
+      return `Weekdays at ${schedule.timeOfDay}`;
+    case 'interval':
+      return schedule.intervalDays === 1
+        ? `Every day at ${schedule.timeOfDay}`
+        : `Every ${schedule.intervalDays} days at ${schedule.timeOfDay}`;
+    case 'dates': {
+      const count = schedule.dates?.length || 0;
+      return `${count} date${count === 1 ? '' : 's'} at ${schedule.timeOfDay}`;
+    }
+  }
+}
@@ -0,0 +1,428 @@
+// Shared AutiCare scoring engine
+// Imported by the React app (via @shared/scoring) and by every edge function,
+// so a score computed in the browser always matches the one the server stores.
+// Keep this file dependency-free: no Deno APIs, no npm/esm.sh imports.
+
+// Bump whenever the formula, weights or severity bands change
+export const SCORING_VERSION = '2.1.0';
+
+export type AnswerValue = 'never' | 'rarely' | 'sometimes' | 'often' | 'always';
+
+export type QuestionCategory = 'social-communication' | 'repetitive-sensory' | 'developmental' | 'family-history';
+
+export type SeverityLevel = 'low' | 'mild' | 'moderate' | 'high' | 'very-high';
+
+export interface QuestionWeight {
+  id: string;
+  weight: number;
+  category: QuestionCategory;
+  // Reverse-scored items count 'never' as the highest-concern answer
+  reverseScored?: boolean;
+}
+
+export interface Answer {
+  questionId: string;
+  value: AnswerValue;
+}
+
+export interface SeverityInfo {
+  level: SeverityLevel;
+  label: string;
+  recommendation: string;
+}
+
+// A severity band; `max` is the exclusive upper bound, null for the open-ended top band
+export interface SeverityCutoff {
+  max: number | null;
+  level: SeverityLevel;
+  label: string;
+  recommendation?: string;
+}
+
+// Answer value mapping
+export const ANSWER_VALUE_MAP: Record<AnswerValue, number> = {
+  never: 0,
+  rarely: 1,
+  sometimes: 2,
+  often: 3,
+  always: 4,
+};
+
+export const MAX_ANSWER_VALUE = 4;
+
+// Weight mappings by category
+export const CATEGORY_WEIGHTS: Record<QuestionCategory, number> = {
+  'social-communication': 2.0,
+  'repetitive-sensory': 1.5,
+  'developmental': 2.5,
+  'family-history': 6.0,
+};
+
+// Binary family-history flag adds fixed points on top of the weighted answers
+export const FAMILY_HISTORY_POINTS = 6;
+
+// Fusion: 60% questionnaire, 40% ML prediction scaled by model confidence
+export const QUESTIONNAIRE_FUSION_WEIGHT = 0.6;
+export const MODEL_FUSION_WEIGHT = 0.4;
+export const DEFAULT_MODEL_CONFIDENCE = 0.7;
+
+// Clinician evidence is fused as separate sources next to the questionnaire and
+// model. Standardized instruments count the most, the session ratings the least.
+export type ClinicalEvidenceSource = 'observation' | 'ados' | 'adiR';
+
+export const CLINICAL_FUSION_WEIGHTS: Record<ClinicalEvidenceSource, number> = {
+  observation: 0.2,
+  ados: 0.5,
+  adiR: 0.3,
+};
+
+export const FUSION_FORMULA =
+  'fused_score = (questionnaire_score * 0.6 + model_score * 0.4 * confidence + ados * 0.5 + adi_r * 0.3 + observation * 0.2) / total_weight, over the sources present';
+
+// Structured clinician observation. Each field is optional evidence.
+export interface ClinicalObservation {
+  // The clinician's ratings of the session, 0 (typical) to 4 (marked concern)
+  observedSocialReciprocity: number | null;
+  observedRepetitiveBehavior: number | null;
+  // ADOS-2 calibrated severity score, comparable across modules
+  adosScore: number | null;
+  // ADI-R diagnostic algorithm total, domains A-D (verbal algorithm)
+  adiRScore: number | null;
+}
+
+export const CLINICAL_SCORE_RANGES: Record<keyof ClinicalObservation, { min: number; max: number; label: string }> = {
+  observedSocialReciprocity: { min: 0, max: 4, label: 'Observed social reciprocity' },
+  observedRepetitiveBehavior: { min: 0, max: 4, label: 'Observed repetitive behavior' },
+  adosScore: { min: 1, max: 10, label: 'ADOS-2 calibrated severity score' },
+  adiRScore: { min: 0, max: 73, label: 'ADI-R algorithm total' },
+};
+
+// Default severity bands, upper bound exclusive
+export const SEVERITY_BANDS: Array<SeverityInfo & SeverityCutoff> = [
+  {
+    max: 25,
+    level: 'low',
+    label: 'Very Low (Normal)',
+    recommendation: 'Person is within normal range. Continue monitoring development.',
+  },
+  {
+    max: 40,
+    level: 'mild',
+    label: 'Low - Assessment Requested',
+    recommendation: 'Low indicators detected. Clinical assessment is recommended for clarification.',
+  },
+  {
+    max: 60,
+    level: 'moderate',
+    label: 'Moderate - Assessment Required',
+    recommendation: 'Moderate indicators present. Clinical assessment is required.',
+  },
+  {
+    max: 75,
+    level: 'high',
+    label: 'High - Assessment Mandatory',
+    recommendation: 'High indicators detected. Clinical assessment is mandatory.',
+  },
+  {
+    max: null,
+    level: 'very-high',
+    label: 'Very High - Regular Checkup Needed',
+    recommendation: 'Very high indicators present. Regular clinical checkups are essential.',
+  },
+];
+
+export function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, score));
+}
+
+export function answerToNumber(value: AnswerValue): number {
+  return ANSWER_VALUE_MAP[value] ?? 0;
+}
+
+export function numberToAnswer(value: number): AnswerValue {
+  const entry = Object.entries(ANSWER_VALUE_MAP).find(([, n]) => n === value);
+  return (entry?.[0] as AnswerValue) || 'never';
+}
+
+export const QUESTION_CATEGORIES: QuestionCategory[] = [
+  'social-communication',
+  'repetitive-sensory',
+  'developmental',
+  'family-history',
+];
+
+// Weighted score for the items of one category, normalized to 0-100 like the total
+export interface DomainSubscore {
+  raw: number;
+  max: number;
+  normalized: number;
+}
+
+export type DomainScores = Partial<Record<QuestionCategory, DomainSubscore>>;
+
+export interface QuestionnaireScore {
+  normalizedScore: number;
+  rawTotal: number;
+  maxPossible: number;
+  contributions: Array<{ questionId: string; contribution: number; value: number }>;
+  // Only categories with at least one answered item (or the family-history flag) appear
+  domainScores: DomainScores;
+}
+
+function normalize(raw: number, max: number): number {
+  return max > 0 ? Math.round((raw / max) * 100) : 0;
+}
+
+// Weighted questionnaire score normalized to 0-100
+export function calculateQuestionnaireScore(
+  answers: Answer[],
+  questionWeights: QuestionWeight[],
+  hasFamilyHistory = false
+): QuestionnaireScore {
+  let rawTotal = 0;
+  let maxPossible = 0;
+  const contributions: QuestionnaireScore['contributions'] = [];
+  const domainTotals: Partial<Record<QuestionCategory, { raw: number; max: number }>> = {};
+
+  const addToDomain = (category: QuestionCategory, raw: number, max: number) => {
+    const totals = domainTotals[category] || { raw: 0, max: 0 };
+    totals.raw += raw;
+    totals.max += max;
+    domainTotals[category] = totals;
+  };
+
+  answers.forEach((answer) => {
+    const weight = questionWeights.find((qw) => qw.id === answer.questionId);
+    if (!weight) return;
+
+    const value = weight.reverseScored
+      ? MAX_ANSWER_VALUE - answerToNumber(answer.value)
+      : answerToNumber(answer.value);
+    const contribution = value * weight.weight;
+
+    rawTotal += contribution;
+    maxPossible += MAX_ANSWER_VALUE * weight.weight;
+    addToDomain(weight.category, contribution, MAX_ANSWER_VALUE * weight.weight);
+
+    contributions.push({ questionId: answer.questionId, contribution, value });
+  });
+
+  if (hasFamilyHistory) {
+    rawTotal += FAMILY_HISTORY_POINTS;
+    maxPossible += FAMILY_HISTORY_POINTS;
+    addToDomain('family-history', FAMILY_HISTORY_POINTS, FAMILY_HISTORY_POINTS);
+  }
+
+  const normalizedScore = normalize(rawTotal, maxPossible);
+
+  const domainScores: DomainScores = {};
+  QUESTION_CATEGORIES.forEach((category) => {
+    const totals = domainTotals[category];
+    if (totals) {
+      domainScores[category] = { raw: totals.raw, max: totals.max, normalized: normalize(totals.raw, totals.max) };
+    }
+  });
+
+  return { normalizedScore, rawTotal, maxPossible, contributions, domainScores };
+}
+
+// Problems with a clinical observation, keyed by field; empty when it is valid.
+// Blank fields are fine: every source is optional.
+export function validateClinicalObservation(
+  observation: Partial<ClinicalObservation>
+): Partial<Record<keyof ClinicalObservation, string>> {
+  const errors: Partial<Record<keyof ClinicalObservation, string>> = {};
+  (Object.keys(CLINICAL_SCORE_RANGES) as Array<keyof ClinicalObservation>).forEach((field) => {
+    const value = observation[field];
+    if (value === null || value === undefined) return;
+    const { min, max, label } = CLINICAL_SCORE_RANGES[field];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors[field] = `${label} must be a whole number from ${min} to ${max}`;
+    }
+  });
+  return errors;
+}
+
+// Each clinical source as a 0-100 concern score, null when it wasn't recorded
+// or is out of range
+export function getClinicalEvidenceScores(
+  observation?: Partial<ClinicalObservation> | null
+): Record<ClinicalEvidenceSource, number | null> {
+  const scores: Record<ClinicalEvidenceSource, number | null> = { observation: null, ados: null, adiR: null };
+  if (!observation) return scores;
+
+  const errors = validateClinicalObservation(observation);
+  const valid = (field: keyof ClinicalObservation) => {
+    const value = observation[field];
+    return value === null || value === undefined || errors[field] ? null : value;
+  };
+  const toScore = (field: keyof ClinicalObservation, value: number) => {
+    const { min, max } = CLINICAL_SCORE_RANGES[field];
+    return normalize(value - min, max - min);
+  };
+
+  const ratings = (['observedSocialReciprocity', 'observedRepetitiveBehavior'] as const)
+    .map((field) => {
+      const value = valid(field);
+      return value === null ? null : toScore(field, value);
+    })
+    .filter((score): score is number => score !== null);
+  if (ratings.length > 0) {
+    scores.observation = Math.round(ratings.reduce((sum, score) => sum + score, 0) / ratings.length);
+  }
+
+  const ados = valid('adosScore');
+  if (ados !== null) scores.ados = toScore('adosScore', ados);
+  const adiR = valid('adiRScore');
+  if (adiR !== null) scores.adiR = toScore('adiRScore', adiR);
+
+  return scores;
+}
+
+export type FusionSource = 'questionnaire' | 'model' | ClinicalEvidenceSource;
+
+// How one source entered the fused score
+export interface FusionSourceContribution {
+  source: FusionSource;
+  // The source's own 0-100 score
+  score: number;
+  baseWeight: number;
+  // The model's confidence; 1 for every other source
+  confidence: number;
+  // baseWeight * confidence
+  weight: number;
+  // Share of the total weight, 0-1
+  share: number;
+  // Points of the fused score this source supplies: score * share
+  contribution: number;
+}
+
+export interface FusionFeatureContribution {
+  name: string;
+  // As reported by the model, 0-10
+  value: number;
+  // Points of the fused score. A model reports its features but not how it
+  // combined them, so its contribution is split in proportion to their values.
+  contribution: number;
+}
+
+export interface FusionExplanation {
+  fusedScore: number;
+  sources: FusionSourceContribution[];
+  features: FusionFeatureContribution[];
+  // The same fusion with the video model left out
+  scoreWithoutVideo: number;
+  // How far the video moved the score: fusedScore - scoreWithoutVideo
+  videoImpact: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// The sources present, questionnaire first, with their confidence-adjusted weights
+function getFusionSources(
+  questionnaireScore: number,
+  modelScore: number | null | undefined,
+  modelConfidence: number,
+  clinicalObservation?: Partial<ClinicalObservation> | null
+): Array<Pick<FusionSourceContribution, 'source' | 'score' | 'baseWeight' | 'confidence' | 'weight'>> {
+  const sources: ReturnType<typeof getFusionSources> = [{
+    source: 'questionnaire',
+    score: clampScore(questionnaireScore),
+    baseWeight: QUESTIONNAIRE_FUSION_WEIGHT,
+    confidence: 1,
+    weight: QUESTIONNAIRE_FUSION_WEIGHT,
+  }];
+  if (modelScore !== null && modelScore !== undefined) {
+    const confidence = modelConfidence || DEFAULT_MODEL_CONFIDENCE;
+    sources.push({
+      source: 'model',
+      score: clampScore(modelScore),
+      baseWeight: MODEL_FUSION_WEIGHT,
+      confidence,
+      weight: MODEL_FUSION_WEIGHT * confidence,
+    });
+  }
+  const clinicalScores = getClinicalEvidenceScores(clinicalObservation);
+  (Object.keys(CLINICAL_FUSION_WEIGHTS) as ClinicalEvidenceSource[]).forEach((source) => {
+    const score = clinicalScores[source];
+    if (score !== null) {
+      sources.push({ source, score, baseWeight: CLINICAL_FUSION_WEIGHTS[source], confidence: 1, weight: CLINICAL_FUSION_WEIGHTS[source] });
+    }
+  });
+  return sources;
+}
+
+// Fuse the questionnaire with the model and any clinician evidence, rounded to
+// 2 decimal places. With no other source the questionnaire score stands as is,
+// clamped to 0-100 like every fused score.
+export function calculateFusedScore(
+  questionnaireScore: number,
+  modelScore: number | null | undefined,
+  modelConfidence: number = DEFAULT_MODEL_CONFIDENCE,
+  clinicalObservation?: Partial<ClinicalObservation> | null
+): number {
+  const sources = getFusionSources(questionnaireScore, modelScore, modelConfidence, clinicalObservation);
+  if (sources.length === 1) {
+    return clampScore(questionnaireScore);
+  }
+
+  const totalWeight = sources.reduce((sum, source) => sum + source.weight, 0);
+  const fusedScore = sources.reduce((sum, source) => sum + source.score * source.weight, 0) / totalWeight;
+
+  return round2(fusedScore);
+}
+
+// What each source and video feature added to the fused score, and what the
+// score would be without the video. Contributions are rounded to 2 decimal
+// places, so they can sum to the fused score give or take a rounding step.
+export function explainFusedScore(
+  questionnaireScore: number,
+  modelScore: number | null | undefined,
+  modelConfidence: number = DEFAULT_MODEL_CONFIDENCE,
+  clinicalObservation?: Partial<ClinicalObservation> | null,
+  featuresDetected?: Record<string, number> | null
+): FusionExplanation {
+  const fusedScore = calculateFusedScore(questionnaireScore, modelScore, modelConfidence, clinicalObservation);
+  const present = getFusionSources(questionnaireScore, modelScore, modelConfidence, clinicalObservation);
+  const totalWeight = present.reduce((sum, source) => sum + source.weight, 0);
+  const sources = present.map((source) => ({
+    ...source,
+    share: Math.round((source.weight / totalWeight) * 10000) / 10000,
+    contribution: round2((source.score * source.weight) / totalWeight),
+  }));
+
+  const model = sources.find((source) => source.source === 'model');
+  const featureEntries = model && featuresDetected ? Object.entries(featuresDetected) : [];
+  const featureTotal = featureEntries.reduce((sum, [, value]) => sum + value, 0);
+  const features = featureEntries
+    .map(([name, value]) => ({
+      name,
+      value,
+      contribution: model && featureTotal > 0 ? round2((model.contribution * value) / featureTotal) : 0,
+    }))
+    .sort((a, b) => b.contribution - a.contribution);
+
+  const scoreWithoutVideo = model
+    ? calculateFusedScore(questionnaireScore, null, undefined, clinicalObservation)
+    : fusedScore;
+
+  return {
+    fusedScore,
+    sources,
+    features,
+    scoreWithoutVideo,
+    videoImpact: round2(fusedScore - scoreWithoutVideo),
+  };
+}
+
+// Get severity level, label and recommendation for a 0-100 score.
+// Instruments may supply their own cut-offs; recommendations fall back to the default bands.
+export function getSeverity(score: number, cutoffs: SeverityCutoff[] = SEVERITY_BANDS): SeverityInfo {
+  const bands = cutoffs.length > 0 ? cutoffs : SEVERITY_BANDS;
+  const band = bands.find((b) => b.max === null || score < b.max) || bands[bands.length - 1];
+  const recommendation =
+    band.recommendation ||
+    SEVERITY_BANDS.find((b) => b.level === band.level)?.recommendation ||
+    '';
+  return { level: band.level, label: band.label, recommendation };
+}
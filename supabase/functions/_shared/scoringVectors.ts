@@ -0,0 +1,138 @@
+// Golden vectors for the shared scoring engine. The app's test suite (vitest)
+// and the edge functions' (deno test) both run every vector against scoring.ts,
+// so a score computed in the browser is proven to match the server's.
+// Change an expected value only together with SCORING_VERSION.
+
+import { Answer, ClinicalObservation, DomainScores, QuestionWeight, SeverityCutoff, SeverityLevel } from './scoring.ts';
+
+export interface QuestionnaireVector {
+  name: string;
+  answers: Answer[];
+  weights: QuestionWeight[];
+  hasFamilyHistory: boolean;
+  expected: { normalizedScore: number; rawTotal: number; maxPossible: number; domainScores: DomainScores };
+}
+
+export interface FusedVector {
+  name: string;
+  questionnaireScore: number;
+  modelScore: number | null;
+  modelConfidence?: number;
+  clinicalObservation?: Partial<ClinicalObservation> | null;
+  expected: number;
+}
+
+export interface SeverityVector {
+  name: string;
+  score: number;
+  cutoffs?: SeverityCutoff[];
+  expected: { level: SeverityLevel; label: string };
+}
+
+export const QUESTIONNAIRE_VECTORS: QuestionnaireVector[] = [
+  {
+    name: 'no answers',
+    answers: [],
+    weights: [],
+    hasFamilyHistory: false,
+    expected: { normalizedScore: 0, rawTotal: 0, maxPossible: 0, domainScores: {} },
+  },
+  {
+    name: 'weighted and reverse-scored answers',
+    answers: [
+      { questionId: 'q1', value: 'often' },
+      { questionId: 'q2', value: 'never' },
+    ],
+    weights: [
+      { id: 'q1', weight: 2, category: 'social-communication' },
+      { id: 'q2', weight: 1.5, category: 'repetitive-sensory', reverseScored: true },
+    ],
+    hasFamilyHistory: false,
+    expected: {
+      normalizedScore: 86,
+      rawTotal: 12,
+      maxPossible: 14,
+      domainScores: {
+        'social-communication': { raw: 6, max: 8, normalized: 75 },
+        'repetitive-sensory': { raw: 6, max: 6, normalized: 100 },
+      },
+    },
+  },
+  {
+    name: 'family history flag',
+    answers: [{ questionId: 'q1', value: 'sometimes' }],
+    weights: [{ id: 'q1', weight: 2.5, category: 'developmental' }],
+    hasFamilyHistory: true,
+    expected: {
+      normalizedScore: 69,
+      rawTotal: 11,
+      maxPossible: 16,
+      domainScores: {
+        'developmental': { raw: 5, max: 10, normalized: 50 },
+        'family-history': { raw: 6, max: 6, normalized: 100 },
+      },
+    },
+  },
+  {
+    name: 'answers without a weight are ignored',
+    answers: [
+      { questionId: 'unknown', value: 'always' },
+      { questionId: 'q1', value: 'always' },
+    ],
+    weights: [{ id: 'q1', weight: 1, category: 'social-communication' }],
+    hasFamilyHistory: false,
+    expected: {
+      normalizedScore: 100,
+      rawTotal: 4,
+      maxPossible: 4,
+      domainScores: { 'social-communication': { raw: 4, max: 4, normalized: 100 } },
+    },
+  },
+];
+
+export const FUSED_VECTORS: FusedVector[] = [
+  { name: 'questionnaire only', questionnaireScore: 42, modelScore: null, expected: 42 },
+  { name: 'questionnaire only is clamped', questionnaireScore: 120, modelScore: null, expected: 100 },
+  { name: 'questionnaire and model', questionnaireScore: 50, modelScore: 80, modelConfidence: 0.7, expected: 59.55 },
+  { name: 'zero confidence falls back to the default', questionnaireScore: 50, modelScore: 80, modelConfidence: 0, expected: 59.55 },
+  { name: 'model score is clamped', questionnaireScore: 30, modelScore: 150, modelConfidence: 1, expected: 58 },
+  {
+    name: 'questionnaire, model and clinician evidence',
+    questionnaireScore: 50,
+    modelScore: 80,
+    modelConfidence: 0.3,
+    clinicalObservation: { adosScore: 7, adiRScore: null, observedSocialReciprocity: 3, observedRepetitiveBehavior: null },
+    expected: 62.04,
+  },
+  {
+    name: 'questionnaire and ADI-R',
+    questionnaireScore: 40,
+    modelScore: null,
+    clinicalObservation: { adiRScore: 73 },
+    expected: 60,
+  },
+  {
+    name: 'out-of-range clinician scores are left out',
+    questionnaireScore: 30,
+    modelScore: null,
+    clinicalObservation: { adosScore: 11 },
+    expected: 30,
+  },
+];
+
+const CUSTOM_CUTOFFS: SeverityCutoff[] = [
+  { max: 10, level: 'low', label: 'Low risk' },
+  { max: null, level: 'high', label: 'High risk' },
+];
+
+export const SEVERITY_VECTORS: SeverityVector[] = [
+  { name: 'zero', score: 0, expected: { level: 'low', label: 'Very Low (Normal)' } },
+  { name: 'below 25', score: 24.99, expected: { level: 'low', label: 'Very Low (Normal)' } },
+  { name: '25 is mild', score: 25, expected: { level: 'mild', label: 'Low - Assessment Requested' } },
+  { name: '40 is moderate', score: 40, expected: { level: 'moderate', label: 'Moderate - Assessment Required' } },
+  { name: '60 is high', score: 60, expected: { level: 'high', label: 'High - Assessment Mandatory' } },
+  { name: '75 is very high', score: 75, expected: { level: 'very-high', label: 'Very High - Regular Checkup Needed' } },
+  { name: '100', score: 100, expected: { level: 'very-high', label: 'Very High - Regular Checkup Needed' } },
+  { name: 'instrument cut-offs, lower band', score: 9, cutoffs: CUSTOM_CUTOFFS, expected: { level: 'low', label: 'Low risk' } },
+  { name: 'instrument cut-offs, upper band', score: 10, cutoffs: CUSTOM_CUTOFFS, expected: { level: 'high', label: 'High risk' } },
+];
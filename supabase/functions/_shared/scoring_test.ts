@@ -0,0 +1,33 @@
+// deno test --allow-read supabase/functions/_shared
+// The same vectors run in the app's suite (src/utils/scoring.test.ts)
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { calculateFusedScore, calculateQuestionnaireScore, getSeverity } from "./scoring.ts";
+import { FUSED_VECTORS, QUESTIONNAIRE_VECTORS, SEVERITY_VECTORS } from "./scoringVectors.ts";
+
+for (const vector of QUESTIONNAIRE_VECTORS) {
+  Deno.test(`questionnaire: ${vector.name}`, () => {
+    const { normalizedScore, rawTotal, maxPossible, domainScores } = calculateQuestionnaireScore(
+      vector.answers,
+      vector.weights,
+      vector.hasFamilyHistory
+    );
+    assertEquals({ normalizedScore, rawTotal, maxPossible, domainScores }, vector.expected);
+  });
+}
+
+for (const vector of FUSED_VECTORS) {
+  Deno.test(`fused: ${vector.name}`, () => {
+    assertEquals(
+      calculateFusedScore(vector.questionnaireScore, vector.modelScore, vector.modelConfidence, vector.clinicalObservation),
+      vector.expected
+    );
+  });
+}
+
+for (const vector of SEVERITY_VECTORS) {
+  Deno.test(`severity: ${vector.name}`, () => {
+    const { level, label } = getSeverity(vector.score, vector.cutoffs);
+    assertEquals({ level, label }, vector.expected);
+  });
+}
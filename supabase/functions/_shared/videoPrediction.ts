@@ -0,0 +1,337 @@
+// Video prediction contract shared by the app, the predict-video edge function
+// and any external model service. Keep this file dependency-free, like scoring.ts.
+//
+// Request  (POST, JSON): { video_url: string, frames?: VideoFrameSample[],
+//                          preprocessing?: VideoPreprocessing, recording?: VideoRecording }
+// Response (JSON):       { prediction_score: 0-100, confidence: 0-1,
+//                          features_detected?: { [snake_case_name]: 0-10 },
+//                          model?: string, model_version?: string }
+//
+// An external service may ignore `frames` and analyse the video itself. The
+// local reference model only uses `frames`. For a guided recording, video_url is
+// the first segment and `recording` lists every segment.
+
+// One frame sampled by the browser, compared with the sample before it
+export interface VideoFrameSample {
+  // Seconds from the start of the video
+  time: number;
+  // Mean absolute luminance change from the previous sample, 0-1
+  motion: number;
+  // Share of that change inside the centre of the frame, 0-1
+  center_motion: number;
+}
+
+// What the browser did to the video before uploading it, so a predictor knows
+// its input format. Durations are in seconds, sizes in bytes.
+export interface VideoPreprocessing {
+  source: { name: string; type: string; size: number; width: number; height: number; duration: number };
+  output: { type: string; size: number; width: number; height: number; duration: number; frame_rate: number };
+  trim: { start: number; end: number };
+  audio_removed: boolean;
+  // 'bystanders' pixelates every face but the largest, normally the person assessed
+  face_blur: 'none' | 'bystanders' | 'all';
+  processed_at: string;
+}
+
+// One scripted segment of a guided recording, uploaded as its own file
+export interface VideoRecordingSegment {
+  // Segment id from the recording protocol, e.g. 'name_call'
+  id: string;
+  video_url: string;
+  // Seconds from the start of the recording when the segments are played back
+  // to back; frame sample times use the same clock
+  offset: number;
+  duration: number;
+  started_at: string;
+  // 1 for the first take, more when the segment was re-taken
+  takes: number;
+}
+
+// A guided recording made in the app to a scripted protocol, so that every
+// video shows the same tasks in the same order
+export interface VideoRecording {
+  protocol_id: string;
+  protocol_version: string;
+  segments: VideoRecordingSegment[];
+}
+
+export interface VideoPredictionRequest {
+  video_url: string;
+  frames?: VideoFrameSample[];
+  preprocessing?: VideoPreprocessing;
+  recording?: VideoRecording;
+}
+
+export interface VideoPrediction {
+  prediction_score: number;
+  confidence: number;
+  features_detected?: Record<string, number>;
+  model?: string;
+  model_version?: string;
+}
+
+// Any backend that turns a request into a prediction
+export interface VideoPredictor {
+  name: string;
+  predict(request: VideoPredictionRequest): Promise<VideoPrediction>;
+}
+
+// A request or response that breaks the contract, or a video that can't be scored
+export class VideoPredictionError extends Error {}
+
+// The predictor is misconfigured, unreachable or broke the contract; unlike a
+// VideoPredictionError, trying again later may succeed
+export class VideoPredictorUnavailableError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export const MAX_FRAME_SAMPLES = 600;
+export const MAX_RECORDING_SEGMENTS = 20;
+export const MAX_FEATURE_VALUE = 10;
+const FEATURE_NAME = /^[a-z][a-z0-9_]*$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const inRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+function parseVideoRecording(value: unknown): VideoRecording {
+  if (
+    !isObject(value) ||
+    typeof value.protocol_id !== 'string' ||
+    typeof value.protocol_version !== 'string' ||
+    !Array.isArray(value.segments) ||
+    value.segments.length === 0 ||
+    value.segments.length > MAX_RECORDING_SEGMENTS
+  ) {
+    throw new VideoPredictionError(
+      `recording must name its protocol and list 1 to ${MAX_RECORDING_SEGMENTS} segments`
+    );
+  }
+  const segments = value.segments.map((segment, index) => {
+    if (
+      !isObject(segment) ||
+      typeof segment.id !== 'string' ||
+      typeof segment.video_url !== 'string' ||
+      !segment.video_url ||
+      !inRange(segment.offset, 0, Number.MAX_SAFE_INTEGER) ||
+      !inRange(segment.duration, 0, Number.MAX_SAFE_INTEGER) ||
+      typeof segment.started_at !== 'string' ||
+      !inRange(segment.takes, 1, Number.MAX_SAFE_INTEGER)
+    ) {
+      throw new VideoPredictionError(
+        `recording.segments[${index}] must have an id, video_url, offset, duration, started_at and takes`
+      );
+    }
+    return {
+      id: segment.id,
+      video_url: segment.video_url,
+      offset: segment.offset,
+      duration: segment.duration,
+      started_at: segment.started_at,
+      takes: segment.takes,
+    };
+  });
+  return { protocol_id: value.protocol_id, protocol_version: value.protocol_version, segments };
+}
+
+export function parseVideoPredictionRequest(value: unknown): VideoPredictionRequest {
+  if (!isObject(value) || typeof value.video_url !== 'string' || !value.video_url) {
+    throw new VideoPredictionError('video_url is required');
+  }
+  const request: VideoPredictionRequest = { video_url: value.video_url };
+
+  if (value.preprocessing !== undefined) {
+    const { preprocessing } = value;
+    if (
+      !isObject(preprocessing) ||
+      !isObject(preprocessing.output) ||
+      !inRange(preprocessing.output.width, 1, Number.MAX_SAFE_INTEGER) ||
+      !inRange(preprocessing.output.height, 1, Number.MAX_SAFE_INTEGER)
+    ) {
+      throw new VideoPredictionError('preprocessing must describe the output video, including its width and height');
+    }
+    request.preprocessing = preprocessing as unknown as VideoPreprocessing;
+  }
+
+  if (value.recording !== undefined) {
+    request.recording = parseVideoRecording(value.recording);
+  }
+
+  if (value.frames === undefined) {
+    return request;
+  }
+  if (!Array.isArray(value.frames) || value.frames.length > MAX_FRAME_SAMPLES) {
+    throw new VideoPredictionError(`frames must be an array of at most ${MAX_FRAME_SAMPLES} samples`);
+  }
+  const frames = value.frames.map((frame, index) => {
+    if (
+      !isObject(frame) ||
+      !inRange(frame.time, 0, Number.MAX_SAFE_INTEGER) ||
+      !inRange(frame.motion, 0, 1) ||
+      !inRange(frame.center_motion, 0, 1)
+    ) {
+      throw new VideoPredictionError(`frames[${index}] must have a time, and motion and center_motion from 0 to 1`);
+    }
+    return { time: frame.time, motion: frame.motion, center_motion: frame.center_motion };
+  });
+  return { ...request, frames };
+}
+
+// Checks a prediction before it is stored or fused, returning only the contract fields
+export function parseVideoPrediction(value: unknown): VideoPrediction {
+  if (!isObject(value)) {
+    throw new VideoPredictionError('Prediction must be an object');
+  }
+  if (!inRange(value.prediction_score, 0, 100)) {
+    throw new VideoPredictionError('prediction_score must be a number from 0 to 100');
+  }
+  if (!inRange(value.confidence, 0, 1)) {
+    throw new VideoPredictionError('confidence must be a number from 0 to 1');
+  }
+
+  const prediction: VideoPrediction = {
+    prediction_score: value.prediction_score,
+    confidence: value.confidence,
+  };
+
+  if (value.features_detected !== undefined) {
+    if (!isObject(value.features_detected)) {
+      throw new VideoPredictionError('features_detected must be an object of named scores');
+    }
+    const features: Record<string, number> = {};
+    Object.entries(value.features_detected).forEach(([name, score]) => {
+      if (!FEATURE_NAME.test(name)) {
+        throw new VideoPredictionError(`features_detected.${name} is not a snake_case feature name`);
+      }
+      if (!inRange(score, 0, MAX_FEATURE_VALUE)) {
+        throw new VideoPredictionError(`features_detected.${name} must be a number from 0 to ${MAX_FEATURE_VALUE}`);
+      }
+      features[name] = score;
+    });
+    prediction.features_detected = features;
+  }
+
+  if (typeof value.model === 'string') prediction.model = value.model;
+  if (typeof value.model_version === 'string') prediction.model_version = value.model_version;
+  return prediction;
+}
+
+// Local reference model: scores movement patterns in the sampled frames. It is
+// deterministic and needs no service, but it is a stand-in, not a clinically
+// validated model, so its confidence is capped low and it only nudges the fusion.
+export const LOCAL_MODEL_NAME = 'auticare-motion-reference';
+export const LOCAL_MODEL_VERSION = '1.0.0';
+export const LOCAL_MODEL_MAX_CONFIDENCE = 0.3;
+export const LOCAL_MODEL_MIN_FRAMES = 8;
+// Frames needed for full (capped) confidence
+const LOCAL_MODEL_FULL_FRAMES = 24;
+// Mean motion at which activity counts as maximal
+const ACTIVITY_CEILING = 0.15;
+// Motion below this counts as a still frame
+const STILL_THRESHOLD = 0.01;
+// Motion that varies less than this (standard deviation) has no rhythm to find
+const MIN_MOTION_SPREAD = 0.001;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Strongest autocorrelation of the motion series at lags of two samples or more:
+// near 1 for movement that repeats at a steady rhythm
+function getPeriodicity(series: number[]): number {
+  const mean = series.reduce((sum, value) => sum + value, 0) / series.length;
+  const centred = series.map((value) => value - mean);
+  const variance = centred.reduce((sum, value) => sum + value * value, 0);
+  if (Math.sqrt(variance / series.length) < MIN_MOTION_SPREAD) return 0;
+
+  let strongest = 0;
+  for (let lag = 2; lag <= Math.floor(series.length / 2); lag++) {
+    let covariance = 0;
+    for (let i = lag; i < centred.length; i++) {
+      covariance += centred[i] * centred[i - lag];
+    }
+    strongest = Math.max(strongest, covariance / variance);
+  }
+  return clamp01(strongest);
+}
+
+export function predictFromFrames(frames: VideoFrameSample[]): VideoPrediction {
+  if (frames.length < LOCAL_MODEL_MIN_FRAMES) {
+    throw new VideoPredictionError(`At least ${LOCAL_MODEL_MIN_FRAMES} frames are needed to analyse the video`);
+  }
+
+  const ordered = [...frames].sort((a, b) => a.time - b.time);
+  const motion = ordered.map((frame) => frame.motion);
+  const meanMotion = motion.reduce((sum, value) => sum + value, 0) / motion.length;
+
+  const repetitiveMotion = getPeriodicity(motion);
+  const activityLevel = clamp01(meanMotion / ACTIVITY_CEILING);
+  const stillness = motion.filter((value) => value < STILL_THRESHOLD).length / motion.length;
+  const centerFocus = ordered.reduce((sum, frame) => sum + frame.center_motion, 0) / ordered.length;
+
+  const score = 100 * (0.5 * repetitiveMotion + 0.25 * activityLevel + 0.15 * stillness + 0.1 * centerFocus);
+
+  return {
+    prediction_score: round2(score),
+    confidence: round2(LOCAL_MODEL_MAX_CONFIDENCE * Math.min(1, ordered.length / LOCAL_MODEL_FULL_FRAMES)),
+    features_detected: {
+      repetitive_motion: round2(repetitiveMotion * MAX_FEATURE_VALUE),
+      activity_level: round2(activityLevel * MAX_FEATURE_VALUE),
+      stillness: round2(stillness * MAX_FEATURE_VALUE),
+      center_focus: round2(centerFocus * MAX_FEATURE_VALUE),
+    },
+    model: LOCAL_MODEL_NAME,
+    model_version: LOCAL_MODEL_VERSION,
+  };
+}
+
+export const localVideoPredictor: VideoPredictor = {
+  name: LOCAL_MODEL_NAME,
+  async predict(request) {
+    if (!request.frames) {
+      throw new VideoPredictionError('The local model needs frame samples; none were sent');
+    }
+    return predictFromFrames(request.frames);
+  },
+};
+
+// Any service implementing the contract above, e.g. the Python service that
+// loads xgb_fusion_model.pkl. Its responses are validated like any other input.
+export function createRemoteVideoPredictor(endpoint: string): VideoPredictor {
+  return {
+    name: 'remote',
+    async predict(request) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        throw new VideoPredictorUnavailableError(`Video model service error: ${response.statusText}`, 502);
+      }
+      try {
+        return parseVideoPrediction(await response.json());
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'invalid JSON';
+        throw new VideoPredictorUnavailableError(`Video model service returned an invalid prediction: ${message}`, 502);
+      }
+    },
+  };
+}
+
+// `kind` is the VIDEO_PREDICTOR setting ('remote' or 'local'); without it the
+// remote service is used when an endpoint is configured, and the local model otherwise
+export function selectVideoPredictor(kind: string | undefined, endpoint: string | undefined): VideoPredictor {
+  const selected = kind || (endpoint ? 'remote' : 'local');
+  if (selected === 'local') return localVideoPredictor;
+  if (selected === 'remote') {
+    if (!endpoint) {
+      throw new VideoPredictorUnavailableError('VIDEO_PREDICTOR is remote but PYTHON_ML_ENDPOINT is not configured', 503);
+    }
+    return createRemoteVideoPredictor(endpoint);
+  }
+  throw new VideoPredictorUnavailableError(`Unknown VIDEO_PREDICTOR: ${selected}`, 503);
+}
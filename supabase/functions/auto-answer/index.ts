@@ -1,4 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  Answer,
+  QuestionCategory,
+  QuestionWeight,
+  CATEGORY_WEIGHTS,
+  SCORING_VERSION,
+  calculateQuestionnaireScore,
+  numberToAnswer,
+} from "../_shared/scoring.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -213,25 +222,8 @@ const QUESTION_ID_MAP = {
   }
 };
 
-// Answer value mapping
-const ANSWER_VALUE_MAP: Record<number, string> = {
-  0: 'never',
-  1: 'rarely',
-  2: 'sometimes',
-  3: 'often',
-  4: 'always'
-};
-
-// Category weights for scoring
-const CATEGORY_WEIGHTS: Record<string, number> = {
-  'social-communication': 2.0,
-  'repetitive-sensory': 1.5,
-  'developmental': 2.5,
-  'family-history': 6.0
-};
-
 // Question category mapping
-const QUESTION_CATEGORIES: Record<string, string> = {
+const QUESTION_CATEGORIES: Record<string, QuestionCategory> = {
   'q1_eye_contact': 'social-communication',
   'q2_routine_change': 'repetitive-sensory',
   'q3_social_cues': 'social-communication',
@@ -247,6 +239,7 @@ const QUESTION_CATEGORIES: Record<string, string> = {
   'q13_sameness': 'repetitive-sensory',
   'q14_pretend_play': 'social-communication',
   'q15_vocalizations': 'repetitive-sensory',
+  'q15_developmental_delays': 'developmental', // individual role maps delays to ind_15
   'q16_developmental_delays': 'developmental',
   'q17_turn_taking': 'social-communication',
   'q18_interest_others': 'social-communication',
@@ -323,7 +316,7 @@ function processReport(report: any, role: string = 'parent'): { answers: Record<
         const questionId = questionIdMap[mappingKey as keyof typeof questionIdMap];
         if (questionId) {
           rawAnswers[questionId] = answerNum;
-          answers[questionId] = ANSWER_VALUE_MAP[answerNum];
+          answers[questionId] = numberToAnswer(answerNum);
         }
       }
     }
@@ -336,7 +329,7 @@ function processReport(report: any, role: string = 'parent'): { answers: Record<
       if (questionId) {
         const answerNum = matchAnswer(report, mappings);
         rawAnswers[questionId] = answerNum;
-        answers[questionId] = ANSWER_VALUE_MAP[answerNum];
+        answers[questionId] = numberToAnswer(answerNum);
       }
     }
   }
@@ -353,23 +346,25 @@ function processReport(report: any, role: string = 'parent'): { answers: Record<
   return { answers, rawAnswers };
 }
 
-function calculateQuestionnaireScore(rawAnswers: Record<string, number>, role: string): number {
+function scoreRawAnswers(rawAnswers: Record<string, number>, role: string): number {
   const questionIdMap = QUESTION_ID_MAP[role as keyof typeof QUESTION_ID_MAP] || QUESTION_ID_MAP.parent;
-  
-  let rawTotal = 0;
-  let maxPossible = 0;
 
+  // Build one weight per mapped question so the shared engine scores exactly
+  // what the browser would for the same answers
+  const questionWeights: QuestionWeight[] = [];
   for (const [configKey, questionId] of Object.entries(questionIdMap)) {
+    if (questionWeights.some((qw) => qw.id === questionId)) continue;
     const category = QUESTION_CATEGORIES[configKey];
-    const weight = CATEGORY_WEIGHTS[category] || 1;
-    const answerValue = rawAnswers[questionId] || 0;
-    
-    rawTotal += answerValue * weight;
-    maxPossible += 4 * weight;
+    questionWeights.push({ id: questionId, weight: CATEGORY_WEIGHTS[category], category });
   }
 
-  // Normalize to 0-100
-  return Math.round((rawTotal / maxPossible) * 100);
+  const answers: Answer[] = questionWeights.map((qw) => ({
+    questionId: qw.id,
+    value: numberToAnswer(rawAnswers[qw.id] || 0),
+  }));
+
+  const hasFamilyHistory = role !== 'individual' && rawAnswers['par_20'] === 4;
+  return calculateQuestionnaireScore(answers, questionWeights, hasFamilyHistory).normalizedScore;
 }
 
 serve(async (req) => {
@@ -390,7 +385,7 @@ serve(async (req) => {
     console.log(`Processing auto-answer for patient ${patientId}, role: ${role}`);
 
     const { answers, rawAnswers } = processReport(report, role);
-    const questionnaire_score = calculateQuestionnaireScore(rawAnswers, role);
+    const questionnaire_score = scoreRawAnswers(rawAnswers, role);
 
     console.log(`Auto-answer complete. Score: ${questionnaire_score}`);
 
@@ -401,7 +396,8 @@ serve(async (req) => {
         rawAnswers,
         questionnaire_score,
         source: 'auto',
-        mappingVersion: '1.0.0'
+        mappingVersion: '1.0.0',
+        scoringVersion: SCORING_VERSION
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,166 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import {
+  getNextOccurrence,
+  getReminderIdempotencyKey,
+  ReminderRecurrence,
+  ReminderSchedule,
+} from "../_shared/reminders.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Reminders handled per run; any left over are picked up by the next run
+const BATCH_SIZE = 100;
+// Occurrences missed by more than this (e.g. while the scheduler was down) are
+// skipped rather than sent late
+const MAX_LATENESS_MS = 15 * 60 * 1000;
+
+// Medication and task reminders share the 'reminder' notification preferences
+const NOTIFICATION_TYPE_BY_REMINDER: Record<string, string> = {
+  task: 'reminder',
+  medication: 'reminder',
+  assessment: 'assessment_due',
+  appointment: 'appointment',
+};
+
+type DispatchOutcome = 'sent' | 'duplicate' | 'failed' | 'retrying' | 'skipped';
+
+interface ReminderRow {
+  id: string;
+  user_id: string;
+  title: string;
+  type: string;
+  time_of_day: string;
+  timezone: string;
+  recurrence: string;
+  interval_days: number | null;
+  start_date: string;
+  dates: string[];
+  next_run_at: string;
+}
+
+function rowToSchedule(row: ReminderRow): ReminderSchedule {
+  return {
+    recurrence: row.recurrence as ReminderRecurrence,
+    timeOfDay: row.time_of_day,
+    timezone: row.timezone,
+    startDate: row.start_date,
+    intervalDays: row.interval_days,
+    dates: row.dates,
+  };
+}
+
+// Sends one occurrence through send-notification. The idempotency key makes it
+// safe to call again for the same occurrence after a crash or from an
+// overlapping run; 'retrying' leaves the reminder due so the next run tries again.
+async function sendOccurrence(
+  supabaseUrl: string,
+  serviceKey: string,
+  reminder: ReminderRow,
+  occurrence: Date
+): Promise<DispatchOutcome> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-notification`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${serviceKey}`,
+    },
+    body: JSON.stringify({
+      userId: reminder.user_id,
+      type: NOTIFICATION_TYPE_BY_REMINDER[reminder.type] || 'reminder',
+      data: {
+        title: reminder.title,
+        // Left blank: the localized template's heading and time already say what it is
+        description: '',
+        time: reminder.time_of_day,
+      },
+      idempotencyKey: getReminderIdempotencyKey(reminder.id, occurrence),
+      reminderId: reminder.id,
+      occurrenceAt: occurrence.toISOString(),
+    }),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (response.ok && result.success) return result.duplicate ? 'duplicate' : 'sent';
+  if (result.exhausted) return 'failed';
+  console.error(`Reminder ${reminder.id} not sent:`, result.error || (result.pending ? 'in progress' : response.status));
+  return 'retrying';
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the cron job, which holds the service role key, may run the dispatcher
+  if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceKey);
+    const now = new Date();
+
+    const { data: due, error } = await supabase
+      .from('reminders')
+      .select('*')
+      .eq('enabled', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (error) throw error;
+
+    const summary: Record<DispatchOutcome, number> = { sent: 0, duplicate: 0, failed: 0, retrying: 0, skipped: 0 };
+
+    for (const reminder of (due || []) as ReminderRow[]) {
+      const occurrence = new Date(reminder.next_run_at);
+      let outcome: DispatchOutcome;
+      try {
+        outcome = now.getTime() - occurrence.getTime() > MAX_LATENESS_MS
+          ? 'skipped'
+          : await sendOccurrence(supabaseUrl, serviceKey, reminder, occurrence);
+      } catch (err) {
+        console.error(`Error dispatching reminder ${reminder.id}:`, err);
+        outcome = 'retrying';
+      }
+      summary[outcome]++;
+      if (outcome === 'retrying') continue;
+
+      // Advance past now, so occurrences missed while the scheduler was down are
+      // not replayed one by one. Matching on the old next_run_at keeps an
+      // overlapping run from advancing the same reminder twice.
+      const next = getNextOccurrence(rowToSchedule(reminder), now);
+      const { error: advanceError } = await supabase
+        .from('reminders')
+        .update({
+          next_run_at: next ? next.toISOString() : null,
+          ...(outcome === 'sent' ? { last_sent_at: now.toISOString() } : {}),
+        })
+        .eq('id', reminder.id)
+        .eq('next_run_at', reminder.next_run_at);
+      if (advanceError) console.error(`Error advancing reminder ${reminder.id}:`, advanceError);
+    }
+
+    console.log('Reminder dispatch:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in dispatch-reminders:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,69 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import {
+  DEFAULT_MODEL_CONFIDENCE,
+  FUSION_FORMULA,
+  SCORING_VERSION,
+  explainFusedScore,
+  getClinicalEvidenceScores,
+  getSeverity,
+  validateClinicalObservation,
+} from "../_shared/scoring.ts";
+import { MAX_FEATURE_VALUE } from "../_shared/videoPrediction.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Fusion logic: 60% questionnaire + 40% model score
-function calculateFusedScore(questionnaireScore: number, modelScore: number | null, modelConfidence: number = 0.7): number {
-  if (modelScore === null || modelScore === undefined) {
-    // If no model score, return questionnaire score as is
-    return questionnaireScore;
-  }
-
-  // Validate scores are in 0-100 range
-  const validQuestionnaireScore = Math.max(0, Math.min(100, questionnaireScore));
-  const validModelScore = Math.max(0, Math.min(100, modelScore));
-  
-  // Weighted fusion: 60% questionnaire, 40% ML prediction
-  // Adjust ML weight based on confidence
-  const questionnaireWeight = 0.6;
-  const mlWeight = 0.4 * (modelConfidence || 0.7);
-  const totalWeight = questionnaireWeight + mlWeight;
-  
-  const fusedScore = (validQuestionnaireScore * questionnaireWeight + validModelScore * mlWeight) / totalWeight;
-  
-  // Round to 2 decimal places
-  return Math.round(fusedScore * 100) / 100;
-}
-
-// Determine severity level based on fused score
-function getSeverity(score: number): { level: string, label: string, recommendation: string } {
-  if (score < 25) {
-    return {
-      level: 'low',
-      label: 'Very Low (Normal)',
-      recommendation: 'Person is within normal range. Continue monitoring development.'
-    };
-  } else if (score < 40) {
-    return {
-      level: 'mild',
-      label: 'Low - Assessment Requested',
-      recommendation: 'Low indicators detected. Clinical assessment is recommended for clarification.'
-    };
-  } else if (score < 60) {
-    return {
-      level: 'moderate',
-      label: 'Moderate - Assessment Required',
-      recommendation: 'Moderate indicators present. Clinical assessment is required.'
-    };
-  } else if (score < 75) {
-    return {
-      level: 'high',
-      label: 'High - Assessment Mandatory',
-      recommendation: 'High indicators detected. Clinical assessment is mandatory.'
-    };
-  } else {
-    return {
-      level: 'very-high',
-      label: 'Very High - Regular Checkup Needed',
-      recommendation: 'Very high indicators present. Regular clinical checkups are essential.'
-    };
-  }
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -113,14 +65,21 @@ serve(async (req) => {
           questionnaire_score: data.questionnaire_score,
           model_score: data.model_score,
           fused_score: data.fused_score,
-          severity
+          severity,
+          scoring_version: SCORING_VERSION
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
     // Handle POST request for calculating fused score
-    const { questionnaire_score, model_score, model_confidence = 0.7 } = await req.json();
+    const {
+      questionnaire_score,
+      model_score,
+      model_confidence = DEFAULT_MODEL_CONFIDENCE,
+      clinical_observation = null,
+      features_detected = null,
+    } = await req.json();
 
     if (questionnaire_score === undefined) {
       return new Response(
@@ -129,7 +88,29 @@ serve(async (req) => {
       );
     }
 
-    const fused_score = calculateFusedScore(questionnaire_score, model_score, model_confidence);
+    // Out-of-range clinician scores are refused rather than silently dropped from the fusion
+    const observationErrors = clinical_observation ? Object.values(validateClinicalObservation(clinical_observation)) : [];
+    if (observationErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid clinical_observation', details: observationErrors }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Named 0-10 scores, as the video model reports them
+    const invalidFeatures = features_detected !== null && (
+      typeof features_detected !== 'object' ||
+      Object.values(features_detected).some((value) => typeof value !== 'number' || !(value >= 0 && value <= MAX_FEATURE_VALUE))
+    );
+    if (invalidFeatures) {
+      return new Response(
+        JSON.stringify({ error: `features_detected must map feature names to scores from 0 to ${MAX_FEATURE_VALUE}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const explanation = explainFusedScore(questionnaire_score, model_score, model_confidence, clinical_observation, features_detected);
+    const fused_score = explanation.fusedScore;
     const severity = getSeverity(fused_score);
 
     console.log(`Fused score calculated: Q=${questionnaire_score}, M=${model_score}, F=${fused_score}`);
@@ -138,9 +119,12 @@ serve(async (req) => {
       JSON.stringify({
         questionnaire_score,
         model_score,
+        clinical_evidence: getClinicalEvidenceScores(clinical_observation),
         fused_score,
         severity,
-        formula: 'fused_score = (questionnaire_score * 0.6 + model_score * 0.4 * confidence) / total_weight'
+        explanation,
+        formula: FUSION_FORMULA,
+        scoring_version: SCORING_VERSION
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
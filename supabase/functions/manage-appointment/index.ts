@@ -0,0 +1,290 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import {
+  APPOINTMENT_MODE_LABELS,
+  AppointmentMode,
+  AppointmentRequest,
+  formatAppointmentTime,
+  getAppointmentReminderTime,
+} from "../_shared/appointments.ts";
+import { isValidTimeZone } from "../_shared/reminders.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SlotRow {
+  id: string;
+  clinician_id: string;
+  clinician_name: string;
+  starts_at: string;
+  ends_at: string;
+  mode: AppointmentMode;
+  location: string | null;
+  timezone: string;
+}
+
+interface AppointmentRow {
+  id: string;
+  slot_id: string | null;
+  clinician_id: string;
+  clinician_name: string;
+  clinician_timezone: string;
+  booked_by: string;
+  booker_timezone: string;
+  patient_id: string;
+  starts_at: string;
+  mode: AppointmentMode;
+  location: string | null;
+  reason: string | null;
+  status: string;
+  updated_at: string;
+}
+
+type AppointmentEvent = 'booked' | 'rescheduled' | 'cancelled';
+
+// Thrown for requests that can't be carried out; the message is shown to the user
+class AppointmentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+async function getOpenSlot(supabase: SupabaseClient, slotId: string): Promise<SlotRow> {
+  const { data: slot, error } = await supabase.from('clinician_availability').select('*').eq('id', slotId).maybeSingle();
+  if (error) throw error;
+  if (!slot) throw new AppointmentError('That time is no longer available', 409);
+  if (new Date(slot.starts_at) <= new Date()) throw new AppointmentError('That time has already passed');
+  return slot;
+}
+
+async function getOwnAppointment(supabase: SupabaseClient, appointmentId: string, userId: string): Promise<AppointmentRow> {
+  const { data: appointment, error } = await supabase.from('appointments').select('*').eq('id', appointmentId).maybeSingle();
+  if (error) throw error;
+  if (!appointment || (appointment.booked_by !== userId && appointment.clinician_id !== userId)) {
+    throw new AppointmentError('Appointment not found', 404);
+  }
+  if (appointment.status !== 'booked') throw new AppointmentError('This appointment has been cancelled');
+  if (new Date(appointment.starts_at) <= new Date()) throw new AppointmentError('This appointment has already started');
+  return appointment;
+}
+
+// Bookings are for patient IDs the booker already holds: their own, a child's, a
+// patient on their roster, or one they have assessed. The ID reaches the
+// clinician's notifications, so free text isn't accepted.
+async function canBookForPatient(supabase: SupabaseClient, userId: string, patientId: string): Promise<boolean> {
+  const lookups = await Promise.all([
+    supabase.from('user_assessment_data').select('id').eq('user_id', userId).eq('patient_id', patientId).limit(1),
+    supabase.from('children').select('id').eq('parent_id', userId).eq('patient_code', patientId).limit(1),
+    supabase.from('patients').select('id').eq('clinician_id', userId).eq('patient_code', patientId).is('archived_at', null).limit(1),
+    supabase.from('assessment_history').select('id').eq('user_id', userId).eq('patient_id', patientId).limit(1),
+  ]);
+  for (const { data, error } of lookups) {
+    if (error) throw error;
+    if (data && data.length > 0) return true;
+  }
+  return false;
+}
+
+function rethrowConflict(error: { code?: string }): never {
+  // The partial unique index on slot_id: someone else booked the slot first
+  if (error.code === '23505') throw new AppointmentError('That time has just been booked by someone else', 409);
+  // No booked row left to update: the other side cancelled in the meantime
+  if (error.code === 'PGRST116') throw new AppointmentError('This appointment has been cancelled', 409);
+  throw error;
+}
+
+// Day-before reminders for both sides, replacing any from an earlier time
+async function scheduleReminders(supabase: SupabaseClient, appointment: AppointmentRow) {
+  const { error: deleteError } = await supabase.from('reminders').delete().eq('appointment_id', appointment.id);
+  if (deleteError) throw deleteError;
+  if (appointment.status !== 'booked') return;
+
+  const startsAt = new Date(appointment.starts_at);
+  const now = new Date();
+  const reminders = [
+    { userId: appointment.booked_by, timezone: appointment.booker_timezone, title: `Appointment tomorrow with ${appointment.clinician_name}` },
+    { userId: appointment.clinician_id, timezone: appointment.clinician_timezone, title: `Appointment tomorrow: patient ${appointment.patient_id}` },
+  ].flatMap(({ userId, timezone, title }) => {
+    const reminderTime = getAppointmentReminderTime(startsAt, timezone, now);
+    if (!reminderTime) return [];
+    return [{
+      user_id: userId,
+      appointment_id: appointment.id,
+      title,
+      type: 'appointment',
+      time_of_day: reminderTime.timeOfDay,
+      timezone,
+      recurrence: 'dates',
+      start_date: reminderTime.date,
+      dates: [reminderTime.date],
+      next_run_at: reminderTime.at.toISOString(),
+    }];
+  });
+
+  if (reminders.length > 0) {
+    const { error } = await supabase.from('reminders').insert(reminders);
+    if (error) throw error;
+  }
+}
+
+// Confirms a change to both sides through send-notification. A failed
+// notification is logged rather than undoing the change it reports.
+async function notifyBothSides(appointment: AppointmentRow, event: AppointmentEvent) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const startsAt = new Date(appointment.starts_at);
+  const where = [APPOINTMENT_MODE_LABELS[appointment.mode], appointment.location].filter(Boolean).join(' · ');
+  const titles: Record<AppointmentEvent, [string, string]> = {
+    booked: [`Appointment booked with ${appointment.clinician_name}`, `New appointment: patient ${appointment.patient_id}`],
+    rescheduled: [`Appointment with ${appointment.clinician_name} moved`, `Appointment moved: patient ${appointment.patient_id}`],
+    cancelled: [`Appointment with ${appointment.clinician_name} cancelled`, `Appointment cancelled: patient ${appointment.patient_id}`],
+  };
+
+  const recipients = [
+    { side: 'booker', userId: appointment.booked_by, timezone: appointment.booker_timezone, title: titles[event][0], description: where },
+    {
+      side: 'clinician',
+      userId: appointment.clinician_id,
+      timezone: appointment.clinician_timezone,
+      title: titles[event][1],
+      description: [where, appointment.reason].filter(Boolean).join(' · '),
+    },
+  ];
+
+  const results = await Promise.allSettled(recipients.map(async ({ side, userId, timezone, title, description }) => {
+    const response = await fetch(`${supabaseUrl}/functions/v1/send-notification`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify({
+        userId,
+        type: 'appointment',
+        data: { title, description, time: formatAppointmentTime(startsAt, timezone) },
+        // updated_at keeps each reschedule's notification distinct
+        idempotencyKey: `appointment:${appointment.id}:${event}:${appointment.updated_at}:${side}`,
+      }),
+    });
+    if (!response.ok) throw new Error(`send-notification returned ${response.status}`);
+  }));
+  results.forEach((result) => {
+    if (result.status === 'rejected') console.error(`Error notifying ${event} appointment ${appointment.id}:`, result.reason);
+  });
+}
+
+async function handleRequest(supabase: SupabaseClient, userId: string, request: AppointmentRequest) {
+  if (request.action === 'book') {
+    const patientId = request.patientId?.trim().toUpperCase();
+    if (!patientId) throw new AppointmentError('A patient ID is required');
+    if (!(await canBookForPatient(supabase, userId, patientId))) {
+      throw new AppointmentError('You can only book for your own patient IDs', 403);
+    }
+    const slot = await getOpenSlot(supabase, request.slotId);
+    if (slot.clinician_id === userId) throw new AppointmentError('You cannot book your own availability');
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .insert({
+        slot_id: slot.id,
+        clinician_id: slot.clinician_id,
+        clinician_name: slot.clinician_name,
+        clinician_timezone: slot.timezone,
+        booked_by: userId,
+        booker_timezone: isValidTimeZone(request.timezone) ? request.timezone : 'UTC',
+        patient_id: patientId,
+        starts_at: slot.starts_at,
+        ends_at: slot.ends_at,
+        mode: slot.mode,
+        location: slot.location,
+        reason: request.reason?.trim() || null,
+      })
+      .select()
+      .single();
+    if (error) rethrowConflict(error);
+    return { appointment: data as AppointmentRow, event: 'booked' as const };
+  }
+
+  const appointment = await getOwnAppointment(supabase, request.appointmentId, userId);
+
+  if (request.action === 'reschedule') {
+    const slot = await getOpenSlot(supabase, request.slotId);
+    if (slot.clinician_id !== appointment.clinician_id) {
+      throw new AppointmentError('Appointments can only move to another time with the same clinician');
+    }
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .update({
+        slot_id: slot.id,
+        starts_at: slot.starts_at,
+        ends_at: slot.ends_at,
+        mode: slot.mode,
+        location: slot.location,
+      })
+      .eq('id', appointment.id)
+      .eq('status', 'booked')
+      .select()
+      .single();
+    if (error) rethrowConflict(error);
+    return { appointment: data as AppointmentRow, event: 'rescheduled' as const };
+  }
+
+  const { data, error } = await supabase
+    .from('appointments')
+    .update({
+      status: 'cancelled',
+      cancelled_by: userId,
+      cancelled_at: new Date().toISOString(),
+      cancellation_reason: request.reason?.trim() || null,
+    })
+    .eq('id', appointment.id)
+    .eq('status', 'booked')
+    .select()
+    .single();
+  if (error) rethrowConflict(error);
+  return { appointment: data as AppointmentRow, event: 'cancelled' as const };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  try {
+    const authToken = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+    const { data: authData } = authToken ? await supabase.auth.getUser(authToken) : { data: { user: null } };
+    if (!authData.user) return jsonResponse({ error: 'Unauthorized' }, 401);
+
+    const request: AppointmentRequest = await req.json();
+    if (!['book', 'reschedule', 'cancel'].includes(request.action)) {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const { appointment, event } = await handleRequest(supabase, authData.user.id, request);
+    console.log(`Appointment ${appointment.id} ${event} by ${authData.user.id}`);
+
+    try {
+      await scheduleReminders(supabase, appointment);
+    } catch (err) {
+      console.error(`Error scheduling reminders for appointment ${appointment.id}:`, err);
+    }
+    await notifyBothSides(appointment, event);
+
+    return jsonResponse({ success: true, appointment });
+  } catch (error) {
+    if (error instanceof AppointmentError) return jsonResponse({ error: error.message }, error.status);
+    console.error("Error in manage-appointment function:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -1,76 +1,44 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  VideoPredictionError,
+  VideoPredictorUnavailableError,
+  parseVideoPrediction,
+  parseVideoPredictionRequest,
+  selectVideoPredictor,
+} from "../_shared/videoPrediction.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Synchronous scoring of one video with the configured predictor. The app queues
+// video_jobs for process-video-jobs instead; this endpoint serves the same contract
+// for direct callers.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { videoUrl } = await req.json();
-
-    // IMPORTANT: This is a placeholder implementation
-    // The XGBoost model is a Python pickle file and cannot run directly in Deno/JavaScript
-    // You need to deploy a Python backend service that:
-    // 1. Accepts video URL or file
-    // 2. Processes the video to extract features
-    // 3. Loads the xgb_fusion_model.pkl file
-    // 4. Makes predictions using the model
-    // 5. Returns the prediction score
-
-    // For now, we'll call a Python backend endpoint (you need to set this up)
-    const PYTHON_ML_ENDPOINT = Deno.env.get("PYTHON_ML_ENDPOINT");
-    
-    if (!PYTHON_ML_ENDPOINT) {
-      console.warn("PYTHON_ML_ENDPOINT not configured. Using mock prediction.");
-      
-      // Mock prediction for development
-      // Replace this with actual API call once Python backend is deployed
-      const mockPrediction = {
-        prediction_score: Math.random() * 100, // 0-100 range
-        confidence: Math.random(),
-        features_detected: {
-          behavioral_markers: Math.random() * 10,
-          communication_patterns: Math.random() * 10,
-          social_interaction: Math.random() * 10
-        }
-      };
-
-      return new Response(
-        JSON.stringify(mockPrediction),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Call your Python backend service
-    const response = await fetch(PYTHON_ML_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ video_url: videoUrl })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Python ML service error: ${response.statusText}`);
-    }
-
-    const prediction = await response.json();
+    const request = parseVideoPredictionRequest(await req.json());
+    const predictor = selectVideoPredictor(Deno.env.get('VIDEO_PREDICTOR'), Deno.env.get('PYTHON_ML_ENDPOINT'));
+    const prediction = parseVideoPrediction(await predictor.predict(request));
 
     return new Response(
-      JSON.stringify(prediction),
+      JSON.stringify({ ...prediction, model: prediction.model || predictor.name }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Error in predict-video:', error);
+    // No prediction is ever made up: the caller continues without video evidence
+    const status = error instanceof VideoPredictorUnavailableError
+      ? error.status
+      : error instanceof VideoPredictionError ? 422 : 500;
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
@@ -0,0 +1,235 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { calculateFusedScore, getSeverity } from "../_shared/scoring.ts";
+import { resolveInstrumentCutoffs } from "../_shared/instrumentCutoffs.ts";
+import {
+  VideoPrediction,
+  VideoPredictionError,
+  VideoPredictor,
+  parseVideoPrediction,
+  parseVideoPredictionRequest,
+  selectVideoPredictor,
+} from "../_shared/videoPrediction.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Jobs handled per run; any left over are picked up by the next run
+const BATCH_SIZE = 10;
+const MAX_ATTEMPTS = 3;
+// A claim older than this is assumed to belong to a crashed run
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+// Retry n waits RETRY_BASE_MS * 2^(n-1)
+const RETRY_BASE_MS = 60 * 1000;
+
+interface VideoJobRow {
+  id: string;
+  user_id: string;
+  video_url: string;
+  frames: unknown;
+  preprocessing: unknown;
+  recording: unknown;
+  attempts: number;
+  prediction: unknown;
+  assessment_id: string | null;
+}
+
+type JobOutcome = 'done' | 'retrying' | 'failed' | 'skipped';
+
+// Claims one job by bumping its attempts, re-checking them so an overlapping run skips it
+async function claimJob(supabase: SupabaseClient, job: VideoJobRow, now: Date): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('video_jobs')
+    .update({ status: 'processing', attempts: job.attempts + 1, claimed_at: now.toISOString() })
+    .eq('id', job.id)
+    .eq('attempts', job.attempts)
+    .in('status', ['queued', 'processing'])
+    .select('id');
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
+
+async function runJob(supabase: SupabaseClient, predictor: VideoPredictor, job: VideoJobRow): Promise<JobOutcome> {
+  const now = new Date();
+  if (!(await claimJob(supabase, job, now))) return 'skipped';
+  const attempts = job.attempts + 1;
+
+  try {
+    const request = parseVideoPredictionRequest({
+      video_url: job.video_url,
+      frames: job.frames ?? undefined,
+      preprocessing: job.preprocessing ?? undefined,
+      recording: job.recording ?? undefined,
+    });
+    const prediction = parseVideoPrediction(await predictor.predict(request));
+    // A failed write is retried like a failed prediction rather than left processing
+    const { error: doneError } = await supabase
+      .from('video_jobs')
+      .update({
+        status: 'done',
+        prediction: { ...prediction, model: prediction.model || predictor.name },
+        last_error: null,
+        claimed_at: null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', job.id);
+    if (doneError) throw new Error(`Could not save the prediction: ${doneError.message}`);
+    return 'done';
+  } catch (err) {
+    console.error(`Error processing video job ${job.id}:`, err);
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    // A video the contract rejects fails the same way every time, so it is not retried
+    const final = err instanceof VideoPredictionError || attempts >= MAX_ATTEMPTS;
+    const { error: retryError } = await supabase
+      .from('video_jobs')
+      .update({
+        status: final ? 'failed' : 'queued',
+        last_error: message,
+        claimed_at: null,
+        run_after: new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString(),
+        ...(final ? { completed_at: new Date().toISOString() } : {}),
+      })
+      .eq('id', job.id);
+    // The stale-claim sweep picks the job up again
+    if (retryError) console.error(`Error updating video job ${job.id}:`, retryError);
+    return final ? 'failed' : 'retrying';
+  }
+}
+
+// Recomputes the linked assessment with the prediction, the same way the app
+// fuses it and with the severity cut-offs of the instrument it was scored on.
+// A signed-off assessment keeps the scores its reviewer signed; the check is
+// part of the update so a sign-off landing meanwhile still wins.
+async function applyPrediction(supabase: SupabaseClient, job: VideoJobRow, prediction: VideoPrediction) {
+  const { data: entry, error } = await supabase
+    .from('assessment_history')
+    .select('id, user_id, patient_id, role, instrument_id, instrument_version, questionnaire_score, metadata')
+    .eq('id', job.assessment_id)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (entry) {
+    const metadata = (entry.metadata as Record<string, unknown> | null) || {};
+    const fusedScore = Math.round(calculateFusedScore(
+      entry.questionnaire_score,
+      prediction.prediction_score,
+      prediction.confidence,
+      metadata.clinicianInput as Parameters<typeof calculateFusedScore>[3]
+    ));
+    const mlScore = Math.round(prediction.prediction_score);
+    const cutoffs = resolveInstrumentCutoffs({ id: entry.instrument_id, version: entry.instrument_version }, entry.role);
+
+    const { data: updated, error: updateError } = await supabase
+      .from('assessment_history')
+      .update({
+        ml_score: mlScore,
+        fused_score: fusedScore,
+        severity: getSeverity(fusedScore, cutoffs).level,
+        metadata: { ...metadata, videoPrediction: prediction, videoJobId: job.id },
+      })
+      .eq('id', entry.id)
+      .neq('review_status', 'signed_off')
+      .select('id');
+    if (updateError) throw updateError;
+
+    if (updated && updated.length > 0) {
+      // The dashboard reads the latest scores for the patient from here
+      await supabase
+        .from('user_assessment_data')
+        .update({ model_score: mlScore, fused_score: fusedScore })
+        .eq('user_id', entry.user_id)
+        .eq('patient_id', entry.patient_id);
+    } else {
+      console.log(`Assessment ${entry.id} is signed off; video job ${job.id} left its scores unchanged`);
+    }
+  }
+
+  await supabase
+    .from('video_jobs')
+    .update({ applied_at: new Date().toISOString() })
+    .eq('id', job.id);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the cron job and the queueing trigger, which hold the service role key, may run the worker
+  if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceKey);
+    const predictor = selectVideoPredictor(Deno.env.get('VIDEO_PREDICTOR'), Deno.env.get('PYTHON_ML_ENDPOINT'));
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS).toISOString();
+
+    // Queued jobs whose backoff has passed, and processing jobs abandoned by a crashed run
+    const { data: due, error } = await supabase
+      .from('video_jobs')
+      .select('*')
+      .lte('run_after', now.toISOString())
+      .or(`status.eq.queued,and(status.eq.processing,claimed_at.lt.${staleBefore})`)
+      .order('run_after', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (error) throw error;
+
+    const summary: Record<JobOutcome | 'applied', number> = { done: 0, retrying: 0, failed: 0, skipped: 0, applied: 0 };
+
+    for (const job of (due || []) as VideoJobRow[]) {
+      if (job.attempts >= MAX_ATTEMPTS) {
+        // Crashed on its last attempt
+        await supabase
+          .from('video_jobs')
+          .update({ status: 'failed', claimed_at: null, completed_at: now.toISOString() })
+          .eq('id', job.id)
+          .eq('status', 'processing');
+        summary.failed++;
+        continue;
+      }
+      summary[await runJob(supabase, predictor, job)]++;
+    }
+
+    // Finished jobs whose assessment has been saved since, including the ones just done
+    const { data: unapplied, error: unappliedError } = await supabase
+      .from('video_jobs')
+      .select('*')
+      .eq('status', 'done')
+      .not('assessment_id', 'is', null)
+      .is('applied_at', null)
+      .limit(BATCH_SIZE);
+    if (unappliedError) throw unappliedError;
+
+    for (const job of (unapplied || []) as VideoJobRow[]) {
+      try {
+        await applyPrediction(supabase, job, parseVideoPrediction(job.prediction));
+        summary.applied++;
+      } catch (err) {
+        console.error(`Error applying video job ${job.id}:`, err);
+      }
+    }
+
+    console.log('Video jobs:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in process-video-jobs:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
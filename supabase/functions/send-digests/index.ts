@@ -0,0 +1,157 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import {
+  QueuedNotification,
+  buildDigestPush,
+  buildPush,
+  getEmailRecipient,
+  sendEmail,
+  sendPush,
+} from "../_shared/notificationDelivery.ts";
+import { renderDigestEmail, renderNotificationEmail } from "../_shared/email/render.ts";
+import { NotificationType } from "../_shared/notificationPreferences.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Queued notifications handled per run; any left over are picked up by the next run
+const BATCH_SIZE = 500;
+const MAX_ATTEMPTS = 3;
+// A claim older than this is assumed to belong to a crashed run
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+interface QueueRow {
+  id: string;
+  user_id: string;
+  notification_type: string;
+  channel: 'push' | 'email';
+  title: string;
+  body: string | null;
+  time_label: string | null;
+  digest: boolean;
+  attempts: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the cron job, which holds the service role key, may send digests
+  if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceKey);
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS).toISOString();
+
+    const { data: due, error } = await supabase
+      .from('notification_queue')
+      .select('id')
+      .eq('status', 'queued')
+      .lte('deliver_after', now.toISOString())
+      .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`)
+      .order('deliver_after', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (error) throw error;
+    if (!due || due.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, sent: 0, failed: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Claim the rows, re-checking the claim so an overlapping run skips them
+    const { data: claimed, error: claimError } = await supabase
+      .from('notification_queue')
+      .update({ claimed_at: now.toISOString() })
+      .in('id', due.map((row) => row.id))
+      .eq('status', 'queued')
+      .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`)
+      .select('*');
+    if (claimError) throw claimError;
+
+    // One message per user and channel: everything due for them is combined
+    const groups = new Map<string, QueueRow[]>();
+    for (const row of (claimed || []) as QueueRow[]) {
+      const key = `${row.user_id}:${row.channel}`;
+      groups.set(key, [...(groups.get(key) || []), row]);
+    }
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const rows of groups.values()) {
+      const { user_id: userId, channel } = rows[0];
+      const items: QueuedNotification[] = rows.map((row) => ({
+        notificationType: row.notification_type as NotificationType,
+        title: row.title,
+        body: row.body,
+        timeLabel: row.time_label,
+      }));
+      // A single item held over quiet hours reads better as the original notification
+      const single = rows.length === 1 && !rows[0].digest;
+      const data = { title: items[0].title, description: items[0].body || '', time: items[0].timeLabel || undefined };
+
+      try {
+        if (channel === 'email') {
+          const recipient = await getEmailRecipient(supabase, userId, single ? items[0].notificationType : 'all');
+          const email = single
+            ? renderNotificationEmail(items[0].notificationType, data, recipient.options)
+            : renderDigestEmail(
+              items.map((item) => ({ type: item.notificationType, title: item.title, description: item.body, time: item.timeLabel })),
+              recipient.options
+            );
+          await sendEmail(recipient.email, email, recipient.options.unsubscribeUrl);
+        } else {
+          await sendPush(supabase, userId, single ? buildPush(items[0].notificationType, data) : buildDigestPush(items));
+        }
+
+        await supabase
+          .from('notification_queue')
+          .update({ status: 'sent', sent_at: new Date().toISOString(), claimed_at: null })
+          .in('id', rows.map((row) => row.id));
+        sent += rows.length;
+      } catch (err) {
+        console.error(`Error sending ${channel} digest to ${userId}:`, err);
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        // Released for the next run, until attempts run out
+        for (const row of rows) {
+          await supabase
+            .from('notification_queue')
+            .update({
+              status: row.attempts + 1 >= MAX_ATTEMPTS ? 'failed' : 'queued',
+              attempts: row.attempts + 1,
+              last_error: message,
+              claimed_at: null,
+            })
+            .eq('id', row.id);
+        }
+        failed += rows.length;
+      }
+    }
+
+    console.log(`Digests: ${sent} sent, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, sent, failed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in send-digests:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
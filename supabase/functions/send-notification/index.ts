@@ -1,7 +1,23 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { Resend } from "https://esm.sh/resend@4.0.0";
-
-const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import {
+  NotificationData,
+  buildPush,
+  getEmailRecipient,
+  sendEmail,
+  sendPush,
+} from "../_shared/notificationDelivery.ts";
+import { renderNotificationEmail } from "../_shared/email/render.ts";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_TYPES,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  PlannedDelivery,
+  planDelivery,
+  withDefaultTypes,
+} from "../_shared/notificationPreferences.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,100 +25,227 @@ const corsHeaders = {
 };
 
 interface NotificationRequest {
-  email: string;
-  type: 'achievement' | 'reminder' | 'appointment';
-  data: {
-    title: string;
-    description: string;
-    icon?: string;
-    time?: string;
+  // Server-side callers name the recipient; app users are always notified as themselves
+  userId?: string;
+  type: NotificationType;
+  data: NotificationData;
+  // A notification with the same key is only ever sent once per channel
+  idempotencyKey?: string;
+  reminderId?: string;
+  occurrenceAt?: string;
+}
+
+// 'failed' may be retried with the same idempotency key; 'exhausted' may not
+type ChannelStatus = 'sent' | 'queued' | 'duplicate' | 'skipped' | 'pending' | 'failed' | 'exhausted';
+
+interface ChannelResult {
+  status: ChannelStatus;
+  error?: string;
+}
+
+const MAX_DELIVERY_ATTEMPTS = 3;
+// A pending claim older than this is assumed to belong to a crashed send
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+type DeliveryClaim =
+  | { claimed: true; id: string; attempts: number }
+  | { claimed: false; reason: 'sent' | 'pending' | 'exhausted' };
+
+// Claims an idempotency key for one channel before sending. A new key is claimed
+// by inserting it; a failed or abandoned one is re-claimed by bumping attempts,
+// conditional on the count read so only one concurrent caller wins.
+async function claimDelivery(
+  supabase: SupabaseClient,
+  key: string,
+  channel: NotificationChannel,
+  fields: { user_id: string | null; notification_type: string; reminder_id: string | null; occurrence_at: string | null }
+): Promise<DeliveryClaim> {
+  const { data: inserted, error } = await supabase
+    .from('notification_deliveries')
+    .upsert({ idempotency_key: key, channel, ...fields }, { onConflict: 'idempotency_key,channel', ignoreDuplicates: true })
+    .select('id');
+  if (error) throw error;
+  if (inserted && inserted.length > 0) return { claimed: true, id: inserted[0].id, attempts: 1 };
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('notification_deliveries')
+    .select('id, status, attempts, updated_at')
+    .eq('idempotency_key', key)
+    .eq('channel', channel)
+    .single();
+  if (fetchError) throw fetchError;
+
+  if (['sent', 'queued', 'skipped'].includes(existing.status)) return { claimed: false, reason: 'sent' };
+  const stale = Date.now() - Date.parse(existing.updated_at) > STALE_CLAIM_MS;
+  if (existing.status === 'pending' && !stale) return { claimed: false, reason: 'pending' };
+  if (existing.attempts >= MAX_DELIVERY_ATTEMPTS) return { claimed: false, reason: 'exhausted' };
+
+  const { data: retried, error: retryError } = await supabase
+    .from('notification_deliveries')
+    .update({ status: 'pending', attempts: existing.attempts + 1, last_error: null })
+    .eq('id', existing.id)
+    .eq('attempts', existing.attempts)
+    .select('id');
+  if (retryError) throw retryError;
+  if (!retried || retried.length === 0) return { claimed: false, reason: 'pending' };
+  return { claimed: true, id: existing.id, attempts: existing.attempts + 1 };
+}
+
+async function getPreferences(supabase: SupabaseClient, userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return DEFAULT_NOTIFICATION_PREFERENCES;
+
+  return {
+    types: withDefaultTypes(data.types),
+    quietHours: { enabled: data.quiet_hours_enabled, start: data.quiet_hours_start, end: data.quiet_hours_end },
+    timezone: data.timezone,
+    digestTime: data.digest_time,
+    digestWeekday: data.digest_weekday,
+    emailLocale: data.email_locale,
   };
 }
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceKey);
+
   try {
-    const { email, type, data }: NotificationRequest = await req.json();
-
-    console.log(`Sending ${type} notification to ${email}`);
-
-    let subject = '';
-    let html = '';
-
-    switch (type) {
-      case 'achievement':
-        subject = `🎉 New Achievement Unlocked: ${data.title}`;
-        html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #4F46E5; text-align: center;">${data.icon || '🏆'} Achievement Unlocked!</h1>
-            <div style="background: #F3F4F6; padding: 20px; border-radius: 10px; margin: 20px 0;">
-              <h2 style="color: #1F2937; margin-top: 0;">${data.title}</h2>
-              <p style="color: #6B7280; font-size: 16px;">${data.description}</p>
-            </div>
-            <p style="color: #6B7280; text-align: center;">Keep up the great work! 💪</p>
-          </div>
-        `;
-        break;
-
-      case 'reminder':
-        subject = `⏰ Reminder: ${data.title}`;
-        html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #4F46E5; text-align: center;">⏰ Reminder</h1>
-            <div style="background: #FEF3C7; padding: 20px; border-radius: 10px; margin: 20px 0; border-left: 4px solid #F59E0B;">
-              <h2 style="color: #1F2937; margin-top: 0;">${data.title}</h2>
-              ${data.time ? `<p style="color: #6B7280; font-size: 16px;">⏰ Scheduled for: ${data.time}</p>` : ''}
-              <p style="color: #6B7280; font-size: 16px;">${data.description}</p>
-            </div>
-            <p style="color: #6B7280; text-align: center;">This is a friendly reminder from AutiCare 💙</p>
-          </div>
-        `;
-        break;
-
-      case 'appointment':
-        subject = `📅 Appointment Alert: ${data.title}`;
-        html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #4F46E5; text-align: center;">📅 Appointment Alert</h1>
-            <div style="background: #DBEAFE; padding: 20px; border-radius: 10px; margin: 20px 0; border-left: 4px solid #3B82F6;">
-              <h2 style="color: #1F2937; margin-top: 0;">${data.title}</h2>
-              ${data.time ? `<p style="color: #6B7280; font-size: 16px;">📅 Time: ${data.time}</p>` : ''}
-              <p style="color: #6B7280; font-size: 16px;">${data.description}</p>
-            </div>
-            <p style="color: #6B7280; text-align: center;">Don't forget your upcoming appointment! 🌟</p>
-          </div>
-        `;
-        break;
+    const { userId, type, data, idempotencyKey, reminderId, occurrenceAt }: NotificationRequest = await req.json();
+
+    if (!NOTIFICATION_TYPES.includes(type)) {
+      return jsonResponse({ error: `Unknown notification type: ${type}` }, 400);
     }
 
-    const emailResponse = await resend.emails.send({
-      from: "AutiCare <onboarding@resend.dev>",
-      to: [email],
-      subject,
-      html,
-    });
-
-    console.log("Email sent successfully:", emailResponse);
-
-    return new Response(JSON.stringify({ success: true }), {
-      status: 200,
-      headers: {
-        "Content-Type": "application/json",
-        ...corsHeaders,
-      },
-    });
-  } catch (error: any) {
-    console.error("Error sending notification:", error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json", ...corsHeaders },
+    // Addressing by user id and idempotency keys are for server-side callers only
+    const authToken = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+    const isServiceCall = authToken === serviceKey;
+    if ((userId || idempotencyKey) && !isServiceCall) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // App users are notified as themselves. Every recipient is a known user, so
+    // their preferences and unsubscribes always apply.
+    const recipientId = isServiceCall
+      ? userId || null
+      : authToken ? (await supabase.auth.getUser(authToken)).data.user?.id || null : null;
+    if (!recipientId) {
+      return jsonResponse({ error: isServiceCall ? 'userId is required' : 'Unauthorized' }, isServiceCall ? 400 : 401);
+    }
+
+    const plan: PlannedDelivery[] = planDelivery(await getPreferences(supabase, recipientId), type, new Date());
+
+    const deliver = async ({ channel, deliverAfter, digest }: PlannedDelivery): Promise<ChannelResult> => {
+      let claim: DeliveryClaim | null = null;
+      if (idempotencyKey) {
+        claim = await claimDelivery(supabase, idempotencyKey, channel, {
+          user_id: recipientId,
+          notification_type: type,
+          reminder_id: reminderId || null,
+          occurrence_at: occurrenceAt || null,
+        });
+        if (!claim.claimed) {
+          console.log(`Skipping ${channel} for ${idempotencyKey}: ${claim.reason}`);
+          return { status: claim.reason === 'sent' ? 'duplicate' : claim.reason };
+        }
+      }
+
+      try {
+        let status: 'sent' | 'queued' | 'skipped';
+        if (channel === 'in_app') {
+          const { error } = await supabase
+            .from('notifications')
+            .insert({ user_id: recipientId, notification_type: type, title: data.title, body: data.description || null });
+          if (error) throw error;
+          status = 'sent';
+        } else if (deliverAfter) {
+          const { error } = await supabase.from('notification_queue').insert({
+            user_id: recipientId,
+            notification_type: type,
+            channel,
+            title: data.title,
+            body: data.description || null,
+            time_label: data.time || null,
+            digest,
+            deliver_after: deliverAfter.toISOString(),
+          });
+          if (error) throw error;
+          console.log(`Queued ${type} ${channel} notification until ${deliverAfter.toISOString()}`);
+          status = 'queued';
+        } else if (channel === 'email') {
+          const recipient = await getEmailRecipient(supabase, recipientId, type);
+          console.log(`Sending ${type} notification to ${recipient.email}`);
+          status = await sendEmail(
+            recipient.email,
+            renderNotificationEmail(type, data, recipient.options),
+            recipient.options.unsubscribeUrl
+          );
+        } else {
+          status = await sendPush(supabase, recipientId, buildPush(type, data, reminderId));
+        }
+
+        if (claim?.claimed) {
+          await supabase
+            .from('notification_deliveries')
+            .update({ status, sent_at: status === 'sent' ? new Date().toISOString() : null })
+            .eq('id', claim.id);
+        }
+        return { status };
+      } catch (err) {
+        console.error(`Error sending ${channel} notification:`, err);
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        if (claim?.claimed) {
+          await supabase
+            .from('notification_deliveries')
+            .update({ status: 'failed', last_error: message })
+            .eq('id', claim.id);
+        }
+        const exhausted = claim?.claimed && claim.attempts >= MAX_DELIVERY_ATTEMPTS;
+        return { status: exhausted ? 'exhausted' : 'failed', error: message };
       }
-    );
+    };
+
+    const results: Partial<Record<NotificationChannel, ChannelResult>> = {};
+    for (const delivery of plan) {
+      results[delivery.channel] = await deliver(delivery);
+    }
+
+    const statuses = Object.values(results).map((r) => r!.status);
+    const success = statuses.every((s) => ['sent', 'queued', 'duplicate', 'skipped'].includes(s));
+    const error = Object.values(results).find((r) => r!.error)?.error;
+
+    if (success) {
+      return jsonResponse({
+        success: true,
+        duplicate: statuses.length > 0 && statuses.every((s) => s === 'duplicate'),
+        channels: results,
+      });
+    }
+    if (statuses.includes('failed')) {
+      return jsonResponse({ success: false, error, channels: results }, 500);
+    }
+    if (statuses.includes('pending')) {
+      return jsonResponse({ success: false, pending: true, channels: results }, 409);
+    }
+    // Nothing left to retry
+    return jsonResponse({ success: false, exhausted: true, error, channels: results });
+  } catch (error) {
+    console.error("Error sending notification:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
   }
 };
 
@@ -0,0 +1,88 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { getSettingsUrl } from "../_shared/notificationDelivery.ts";
+import { NOTIFICATION_TYPES, withDefaultTypes } from "../_shared/notificationPreferences.ts";
+import { EmailLocale, resolveEmailLocale } from "../_shared/email/locales.ts";
+import { escapeHtml, renderLayout } from "../_shared/email/layout.ts";
+import { EMAIL_MESSAGES } from "../_shared/email/messages/index.ts";
+import { UnsubscribeScope, verifyUnsubscribeToken } from "../_shared/email/unsubscribe.ts";
+
+// Target of the unsubscribe link in notification emails. GET shows a
+// confirmation page; POST is the one-click unsubscribe mail clients send for
+// the List-Unsubscribe-Post header. Either way only email is turned off.
+
+async function unsubscribe(supabase: SupabaseClient, userId: string, scope: UnsubscribeScope): Promise<EmailLocale> {
+  const [{ data: preferences, error }, { data: profile }] = await Promise.all([
+    supabase.from('notification_preferences').select('types, email_locale').eq('user_id', userId).maybeSingle(),
+    supabase.from('profiles').select('language').eq('user_id', userId).maybeSingle(),
+  ]);
+  if (error) throw error;
+
+  const types = withDefaultTypes(preferences?.types);
+  for (const type of NOTIFICATION_TYPES) {
+    if (scope === 'all' || scope === type) {
+      types[type] = { ...types[type], channels: types[type].channels.filter((channel) => channel !== 'email') };
+    }
+  }
+
+  const { error: saveError } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, types }, { onConflict: 'user_id' });
+  if (saveError) throw saveError;
+
+  // Emails already held for a digest or quiet hours shouldn't still arrive
+  let queued = supabase
+    .from('notification_queue')
+    .delete()
+    .eq('user_id', userId)
+    .eq('channel', 'email')
+    .eq('status', 'queued');
+  if (scope !== 'all') queued = queued.eq('notification_type', scope);
+  const { error: queueError } = await queued;
+  if (queueError) console.error('Error clearing queued emails:', queueError);
+
+  return resolveEmailLocale(preferences?.email_locale, profile?.language);
+}
+
+function renderPage(locale: EmailLocale, message: string, status: number): Response {
+  const page = EMAIL_MESSAGES[locale].unsubscribePage;
+  const settingsUrl = getSettingsUrl();
+  const html = renderLayout({
+    lang: locale,
+    title: page.title,
+    heading: escapeHtml(page.title),
+    bodyHtml: `<p style="font-size: 16px; text-align: center;">${escapeHtml(message)}</p>`,
+    footerReason: '',
+    footerLinks: settingsUrl ? [{ label: page.manageSettings, url: settingsUrl }] : [],
+  });
+  return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token') || '';
+  const secret = Deno.env.get('UNSUBSCRIBE_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const verified = await verifyUnsubscribeToken(token, secret);
+  // Before the user is known, fall back to the browser's language
+  const browserLocale = resolveEmailLocale(req.headers.get('Accept-Language')?.split(',')[0]);
+
+  if (!verified) {
+    if (req.method === 'POST') return new Response('Invalid token', { status: 400 });
+    return renderPage(browserLocale, EMAIL_MESSAGES[browserLocale].unsubscribePage.invalid, 400);
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const locale = await unsubscribe(supabase, verified.userId, verified.scope);
+    console.log(`Unsubscribed ${verified.userId} from ${verified.scope} emails`);
+
+    if (req.method === 'POST') return new Response('OK', { status: 200 });
+    const page = EMAIL_MESSAGES[locale].unsubscribePage;
+    const message = verified.scope === 'all'
+      ? page.doneAll
+      : page.done(EMAIL_MESSAGES[locale].typeNames[verified.scope]);
+    return renderPage(locale, message, 200);
+  } catch (error) {
+    console.error("Error in unsubscribe function:", error);
+    return new Response('Something went wrong. Please try again later.', { status: 500 });
+  }
+});
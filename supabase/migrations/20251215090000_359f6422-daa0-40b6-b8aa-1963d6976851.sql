@@ -0,0 +1,30 @@
+-- Record which instrument version produced each saved assessment
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'user_assessment_data' AND column_name = 'instrument_id') THEN
+    ALTER TABLE public.user_assessment_data ADD COLUMN instrument_id text;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'user_assessment_data' AND column_name = 'instrument_version') THEN
+    ALTER TABLE public.user_assessment_data ADD COLUMN instrument_version text;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'assessment_history' AND column_name = 'instrument_id') THEN
+    ALTER TABLE public.assessment_history ADD COLUMN instrument_id text;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'assessment_history' AND column_name = 'instrument_version') THEN
+    ALTER TABLE public.assessment_history ADD COLUMN instrument_version text;
+  END IF;
+END $$;
+
+-- Existing rows were all produced by the original built-in question banks
+UPDATE public.user_assessment_data
+SET instrument_id = CASE WHEN role = 'individual' THEN 'auticare-individual' ELSE 'auticare-parent' END,
+    instrument_version = '1.0.0'
+WHERE instrument_id IS NULL;
+
+UPDATE public.assessment_history
+SET instrument_id = CASE WHEN role = 'individual' THEN 'auticare-individual' ELSE 'auticare-parent' END,
+    instrument_version = '1.0.0'
+WHERE instrument_id IS NULL;
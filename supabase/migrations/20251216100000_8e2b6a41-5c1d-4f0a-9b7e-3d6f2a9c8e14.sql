@@ -0,0 +1,42 @@
+-- In-progress questionnaire drafts, one per user, so an assessment can be resumed after a refresh or on next login
+CREATE TABLE IF NOT EXISTS public.assessment_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('individual', 'parent', 'clinician')),
+  patient_id TEXT NOT NULL,
+  instrument_id TEXT,
+  instrument_version TEXT,
+  current_step_id TEXT NOT NULL DEFAULT 'intro',
+  answers JSONB NOT NULL DEFAULT '{}',
+  metadata JSONB NOT NULL DEFAULT '{}',
+  selected_instrument_ids TEXT[] NOT NULL DEFAULT '{}',
+  video_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.assessment_drafts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own drafts"
+ON public.assessment_drafts FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own drafts"
+ON public.assessment_drafts FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own drafts"
+ON public.assessment_drafts FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own drafts"
+ON public.assessment_drafts FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_assessment_drafts_updated_at
+BEFORE UPDATE ON public.assessment_drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,59 @@
+-- Patient roster: a clinician account can hold many patients
+CREATE TABLE IF NOT EXISTS public.patients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinician_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  patient_code TEXT NOT NULL,
+  full_name TEXT NOT NULL,
+  age_range TEXT,
+  pronoun TEXT,
+  home_language TEXT,
+  notes TEXT,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (clinician_id, patient_code)
+);
+
+CREATE INDEX IF NOT EXISTS patients_clinician_id_idx ON public.patients (clinician_id);
+
+-- Enable RLS
+ALTER TABLE public.patients ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: every row is scoped to the owning clinician
+CREATE POLICY "Clinicians can view their own patients"
+ON public.patients FOR SELECT
+USING (auth.uid() = clinician_id);
+
+CREATE POLICY "Clinicians can insert their own patients"
+ON public.patients FOR INSERT
+WITH CHECK (auth.uid() = clinician_id);
+
+CREATE POLICY "Clinicians can update their own patients"
+ON public.patients FOR UPDATE
+USING (auth.uid() = clinician_id);
+
+CREATE POLICY "Clinicians can delete their own patients"
+ON public.patients FOR DELETE
+USING (auth.uid() = clinician_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_patients_updated_at
+BEFORE UPDATE ON public.patients
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Look up a patient's assessment history by patient code
+CREATE INDEX IF NOT EXISTS assessment_history_user_patient_idx ON public.assessment_history (user_id, patient_id, created_at);
+
+-- Seed the roster with the patient each clinician already assessed
+INSERT INTO public.patients (clinician_id, patient_code, full_name, age_range, pronoun, home_language)
+SELECT
+  uad.user_id,
+  uad.patient_id,
+  COALESCE(NULLIF(uad.child_data->>'childName', ''), uad.patient_id),
+  uad.child_data->>'childAge',
+  uad.child_data->>'pronouns',
+  uad.child_data->>'homeLanguage'
+FROM public.user_assessment_data uad
+WHERE uad.role = 'clinician'
+ON CONFLICT (clinician_id, patient_code) DO NOTHING;
@@ -0,0 +1,80 @@
+-- Several children per parent account, each with their own patient ID
+CREATE TABLE IF NOT EXISTS public.children (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  parent_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  patient_code TEXT NOT NULL,
+  child_name TEXT NOT NULL,
+  child_age TEXT,
+  pronouns TEXT,
+  home_language TEXT,
+  school_type TEXT,
+  diagnosed_conditions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (parent_id, patient_code)
+);
+
+-- Enable RLS
+ALTER TABLE public.children ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Parents can view their own children"
+ON public.children FOR SELECT
+USING (auth.uid() = parent_id);
+
+CREATE POLICY "Parents can insert their own children"
+ON public.children FOR INSERT
+WITH CHECK (auth.uid() = parent_id);
+
+CREATE POLICY "Parents can update their own children"
+ON public.children FOR UPDATE
+USING (auth.uid() = parent_id);
+
+CREATE POLICY "Parents can delete their own children"
+ON public.children FOR DELETE
+USING (auth.uid() = parent_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_children_updated_at
+BEFORE UPDATE ON public.children
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move the single child_data blob of existing parent accounts into the table
+INSERT INTO public.children (parent_id, patient_code, child_name, child_age, pronouns, home_language, school_type, diagnosed_conditions)
+SELECT
+  uad.user_id,
+  uad.patient_id,
+  COALESCE(NULLIF(uad.child_data->>'childName', ''), 'Child'),
+  uad.child_data->>'childAge',
+  uad.child_data->>'pronouns',
+  uad.child_data->>'homeLanguage',
+  uad.child_data->>'schoolType',
+  CASE
+    WHEN jsonb_typeof(uad.child_data->'diagnosedConditions') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(uad.child_data->'diagnosedConditions'))
+    ELSE '{}'
+  END
+FROM public.user_assessment_data uad
+WHERE uad.role = 'parent'
+ON CONFLICT (parent_id, patient_code) DO NOTHING;
+
+-- Badges are earned per child; NULL keeps account-level badges for individuals and clinicians
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'achievements' AND column_name = 'patient_id') THEN
+    ALTER TABLE public.achievements ADD COLUMN patient_id TEXT;
+  END IF;
+END $$;
+
+ALTER TABLE public.achievements DROP CONSTRAINT IF EXISTS achievements_user_id_badge_type_key;
+CREATE UNIQUE INDEX IF NOT EXISTS achievements_user_patient_badge_key
+ON public.achievements (user_id, COALESCE(patient_id, ''), badge_type);
+
+-- Existing parent badges belong to the child already on the account
+UPDATE public.achievements a
+SET patient_id = uad.patient_id
+FROM public.user_assessment_data uad
+WHERE uad.user_id = a.user_id
+  AND uad.role = 'parent'
+  AND a.patient_id IS NULL;
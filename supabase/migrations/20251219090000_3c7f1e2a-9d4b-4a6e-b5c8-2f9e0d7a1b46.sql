@@ -0,0 +1,7 @@
+-- Per-domain subscores (raw, max, normalized) for each saved assessment
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'assessment_history' AND column_name = 'domain_scores') THEN
+    ALTER TABLE public.assessment_history ADD COLUMN domain_scores JSONB;
+  END IF;
+END $$;
@@ -0,0 +1,38 @@
+-- Daily task plans, one per user, patient and day; tasks are kept in display order
+CREATE TABLE IF NOT EXISTS public.task_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL,
+  plan_date DATE NOT NULL,
+  severity TEXT NOT NULL,
+  tasks JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, patient_id, plan_date)
+);
+
+-- Enable RLS
+ALTER TABLE public.task_plans ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own task plans"
+ON public.task_plans FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own task plans"
+ON public.task_plans FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own task plans"
+ON public.task_plans FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own task plans"
+ON public.task_plans FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_task_plans_updated_at
+BEFORE UPDATE ON public.task_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
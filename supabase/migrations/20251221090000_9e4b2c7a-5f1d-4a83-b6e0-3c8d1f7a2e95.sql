@@ -0,0 +1,107 @@
+-- Task and intervention library that daily plans and recommendations are drawn from.
+-- Built-in entries have no created_by; clinicians curate the library and every
+-- signed-in user reads it.
+CREATE TABLE IF NOT EXISTS public.task_library (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('task', 'intervention')),
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  steps TEXT[] NOT NULL DEFAULT '{}',
+  parent_tip TEXT,
+  duration_minutes INTEGER CHECK (duration_minutes > 0),
+  high_support_duration_minutes INTEGER CHECK (high_support_duration_minutes > 0),
+  theme TEXT CHECK (theme IN ('morning', 'afternoon', 'evening', 'night')),
+  target_domain TEXT CHECK (target_domain IN ('social-communication', 'repetitive-sensory', 'developmental', 'family-history')),
+  min_age_months INTEGER CHECK (min_age_months >= 0),
+  max_age_months INTEGER CHECK (max_age_months >= 0),
+  severities TEXT[] NOT NULL DEFAULT ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[],
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (max_age_months IS NULL OR min_age_months IS NULL OR max_age_months >= min_age_months),
+  -- Daily tasks need a time of day to be placed in the plan
+  CHECK (kind <> 'task' OR theme IS NOT NULL)
+);
+
+-- A user counts as a clinician once they have assessed or rostered a patient as one
+CREATE OR REPLACE FUNCTION public.is_clinician(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_assessment_data WHERE user_id = _user_id AND role = 'clinician')
+    OR EXISTS (SELECT 1 FROM public.patients WHERE clinician_id = _user_id)
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _user_id AND role = 'clinician');
+$$;
+
+-- Enable RLS
+ALTER TABLE public.task_library ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Signed-in users can view the task library"
+ON public.task_library FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Clinicians can add to the task library"
+ON public.task_library FOR INSERT
+WITH CHECK (auth.uid() = created_by AND public.is_clinician(auth.uid()));
+
+CREATE POLICY "Clinicians can update the task library"
+ON public.task_library FOR UPDATE
+USING (public.is_clinician(auth.uid()));
+
+CREATE POLICY "Clinicians can delete their own library entries"
+ON public.task_library FOR DELETE
+USING (auth.uid() = created_by AND public.is_clinician(auth.uid()));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_task_library_updated_at
+BEFORE UPDATE ON public.task_library
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the built-in entries; ids match DEFAULT_TASK_LIBRARY in src/data/taskLibrary.ts
+INSERT INTO public.task_library (id, kind, title, description, steps, parent_tip, duration_minutes, high_support_duration_minutes, theme, target_domain, min_age_months, max_age_months, severities, sort_order)
+VALUES
+  ('44498d00-1c72-5ae4-883e-fa3bd05b2b29', 'task', 'Morning Routine', 'Complete morning self-care activities', ARRAY['Wake up and use the bathroom', 'Brush teeth', 'Get dressed']::TEXT[], 'Use visual schedule cards to help guide each step', 15, NULL, 'morning', NULL, NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 10),
+  ('b4349aee-9542-5e26-940b-4a0683f76137', 'task', 'Sensory Break', 'Take a calming sensory break', ARRAY['Find a quiet spot', 'Choose a sensory tool', 'Rest until calm']::TEXT[], 'Offer fidget toys or weighted blanket', 10, NULL, 'morning', 'repetitive-sensory', NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 20),
+  ('150e2f0e-687e-5771-9f26-4f9c637ef391', 'task', 'Learning Activity', 'Engage in structured learning', '{}', 'Break into 2-minute segments with rewards', 20, 8, 'afternoon', 'developmental', NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 30),
+  ('0aad5dd3-399d-50cb-b71c-b7b4bc9e7c8b', 'task', 'Lunch & Nutrition', 'Healthy meal time', '{}', 'Introduce new foods gradually', 30, NULL, 'afternoon', NULL, NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 40),
+  ('1e4a7e00-63d3-5983-9821-665f2998db94', 'task', 'Social Interaction', 'Practice social skills', ARRAY['Pick a favourite game', 'Take turns', 'Say what you liked about playing together']::TEXT[], 'Start with one-on-one interaction', 12, NULL, 'afternoon', 'social-communication', NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 50),
+  ('c6ed41b8-6f56-5485-b810-52b4a90d58ca', 'task', 'Physical Activity', 'Movement and exercise', '{}', 'Allow for breaks and water as needed', 15, NULL, 'evening', NULL, NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 60),
+  ('d0636adb-aebb-51a4-adee-3119a011429c', 'task', 'Nature Time', 'Outdoor relaxation', '{}', 'Let them explore at their own pace', 20, NULL, 'evening', 'repetitive-sensory', NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 70),
+  ('4d02281b-0341-55f2-8127-4e355f2660db', 'task', 'Quiet Time', 'Independent relaxation period', '{}', 'Provide calming activities like coloring', 20, NULL, 'evening', NULL, NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 80),
+  ('9ef4a019-4c09-5038-b421-35cb1f692239', 'task', 'Bedtime Routine', 'Wind down for sleep', '{}', 'Maintain consistent bedtime schedule', 25, NULL, 'night', NULL, NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 90),
+  ('1e29e88c-aa02-5afc-a780-4d8cbaff04ed', 'task', 'Story Time', 'Calming bedtime story', '{}', 'Use predictable, favorite stories', 15, NULL, 'night', 'social-communication', NULL, NULL, ARRAY['low', 'mild', 'moderate', 'high', 'very-high']::TEXT[], 100),
+  ('e0844c61-24f5-5571-a844-034a437b2566', 'intervention', 'Continue monitoring development and behaviors regularly', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['low']::TEXT[], 110),
+  ('1aaa348c-3c74-5540-8704-add7cdf590aa', 'intervention', 'Maintain supportive environment and consistent routines', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['low']::TEXT[], 120),
+  ('4b34d26b-2a8a-596a-b11e-be33750085a7', 'intervention', 'Celebrate strengths and provide positive reinforcement', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['low']::TEXT[], 130),
+  ('4cf500dd-b4df-5e0b-8241-62b9e140ee72', 'intervention', 'Schedule a screening with a healthcare provider', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['mild']::TEXT[], 140),
+  ('4b7ea800-9e2e-5d61-a397-315827d52a6e', 'intervention', 'Document specific behaviors, patterns, and contexts', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['mild']::TEXT[], 150),
+  ('a2c68dc7-2820-5c50-8efd-dfe22e643c0e', 'intervention', 'Explore supportive resources and early intervention', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['mild']::TEXT[], 160),
+  ('c9fa7819-60bb-542f-a347-f2d983cae67d', 'intervention', 'Maintain open communication with caregivers and educators', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['mild']::TEXT[], 170),
+  ('6366eb31-3051-55c7-94c7-8e8fc9d92786', 'intervention', 'Schedule a comprehensive evaluation with a specialist', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['moderate']::TEXT[], 180),
+  ('6267d6a1-25fe-5586-8d47-1f8fd322e2d2', 'intervention', 'Consider early intervention services and therapies', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['moderate']::TEXT[], 190),
+  ('bc0f250a-f76f-5397-ba1f-6405435bf330', 'intervention', 'Connect with support groups and community resources', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['moderate']::TEXT[], 200),
+  ('2837263a-49fc-5376-a2d4-bb6c98569aee', 'intervention', 'Develop individualized support strategies', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['moderate']::TEXT[], 210),
+  ('22dd2756-cab4-528e-9768-2b1fcd8b68a8', 'intervention', 'IMPORTANT: Seek clinical assessment as soon as possible', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['high']::TEXT[], 220),
+  ('e364e918-53d3-5753-945c-0814be4b54a1', 'intervention', 'Contact your healthcare provider immediately', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['high']::TEXT[], 230),
+  ('c8038bfc-584b-5bee-8c19-e02e71bac9e3', 'intervention', 'Consider connecting with an autism specialist', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['high']::TEXT[], 240),
+  ('f183635a-9060-5e8e-8bc7-2f58b9c6ff21', 'intervention', 'Explore comprehensive intervention programs', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['high']::TEXT[], 250),
+  ('4a9e57ae-5a3e-55f8-bdfa-0cc74e5e8197', 'intervention', 'Join support networks for families', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['high']::TEXT[], 260),
+  ('c91091d9-70c0-590a-8c3e-cf4fe92165b5', 'intervention', 'URGENT: Schedule immediate clinical assessment', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['very-high']::TEXT[], 270),
+  ('1333b73c-fe31-5e41-84b2-8a407680a5b3', 'intervention', 'Contact specialized autism diagnostic centers', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['very-high']::TEXT[], 280),
+  ('82e4f66e-0c3b-51e8-8b28-95e9bf9c914f', 'intervention', 'Begin comprehensive intervention planning', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['very-high']::TEXT[], 290),
+  ('d559aa3d-b268-5952-ae15-fccd6ca60e62', 'intervention', 'Establish regular checkup schedule with specialists', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['very-high']::TEXT[], 300),
+  ('7f995b6c-e7d3-5e78-a985-d288bcd4409b', 'intervention', 'Access intensive support services', '', '{}', NULL, NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['very-high']::TEXT[], 310),
+  ('6c375820-411f-5dca-ad19-42f4b0bd077f', 'intervention', 'Practise turn-taking and shared-attention games at home', '', ARRAY['Roll a ball back and forth', 'Point out things you both can see', 'Pause and wait for a response']::TEXT[], 'Keep sessions short and follow their interests', NULL, NULL, NULL, 'social-communication', NULL, NULL, ARRAY['mild', 'moderate', 'high', 'very-high']::TEXT[], 320),
+  ('a1fdb223-18f2-5627-a69c-ac65d74d3855', 'intervention', 'Ask about a speech and language therapy referral', '', '{}', NULL, NULL, NULL, NULL, 'social-communication', NULL, NULL, ARRAY['moderate', 'high', 'very-high']::TEXT[], 330),
+  ('35020108-7ae6-594c-ba21-d47e6ba4c1ad', 'intervention', 'Set up a low-stimulation sensory space at home', '', ARRAY['Choose a quiet corner', 'Add soft lighting and headphones', 'Keep favourite sensory items there']::TEXT[], NULL, NULL, NULL, NULL, 'repetitive-sensory', NULL, NULL, ARRAY['mild', 'moderate', 'high', 'very-high']::TEXT[], 340),
+  ('c405553a-c41e-5b3b-8996-b96d49b46aa6', 'intervention', 'Ask about an occupational therapy assessment for sensory needs', '', '{}', NULL, NULL, NULL, NULL, 'repetitive-sensory', NULL, NULL, ARRAY['moderate', 'high', 'very-high']::TEXT[], 350),
+  ('373dd1b4-9e8a-540c-864a-a510637aa04e', 'intervention', 'Request a developmental review of milestones with your paediatrician', '', '{}', NULL, NULL, NULL, NULL, 'developmental', NULL, 144, ARRAY['mild', 'moderate', 'high', 'very-high']::TEXT[], 360),
+  ('a32f3025-2245-59ae-b455-b0f569a03e04', 'intervention', 'Enquire about early intervention programmes for young children', '', '{}', NULL, NULL, NULL, NULL, 'developmental', NULL, 72, ARRAY['moderate', 'high', 'very-high']::TEXT[], 370)
+ON CONFLICT (id) DO NOTHING;
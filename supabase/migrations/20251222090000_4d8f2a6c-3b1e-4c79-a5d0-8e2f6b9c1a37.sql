@@ -0,0 +1,81 @@
+-- Visual schedule picture cards: photos uploaded for a patient, and the card
+-- chosen for each task so the same picture shows up on every day's plan
+CREATE TABLE IF NOT EXISTS public.picture_card_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL,
+  label TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- card_ref is 'icon:<bundled card id>' or 'photo:<picture_card_photos id>';
+-- task_key is the library entry id, or the lower-cased title for hand-added tasks
+CREATE TABLE IF NOT EXISTS public.picture_card_choices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL,
+  task_key TEXT NOT NULL,
+  card_ref TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, patient_id, task_key)
+);
+
+CREATE INDEX IF NOT EXISTS picture_card_photos_user_patient_idx ON public.picture_card_photos (user_id, patient_id);
+
+-- Enable RLS
+ALTER TABLE public.picture_card_photos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.picture_card_choices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own picture card photos"
+ON public.picture_card_photos FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own picture card photos"
+ON public.picture_card_photos FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own picture card photos"
+ON public.picture_card_photos FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own picture card choices"
+ON public.picture_card_choices FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own picture card choices"
+ON public.picture_card_choices FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own picture card choices"
+ON public.picture_card_choices FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own picture card choices"
+ON public.picture_card_choices FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_picture_card_choices_updated_at
+BEFORE UPDATE ON public.picture_card_choices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Private bucket for the photos; each user's files live under their own id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('schedule-photos', 'schedule-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own schedule photos"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'schedule-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can view their own schedule photos"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'schedule-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own schedule photos"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'schedule-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
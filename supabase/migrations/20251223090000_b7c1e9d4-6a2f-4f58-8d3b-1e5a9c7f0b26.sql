@@ -0,0 +1,100 @@
+-- Reminders, stored server-side and sent by the dispatch-reminders edge function.
+-- time_of_day is wall-clock time in the reminder's IANA time zone; next_run_at is
+-- the next occurrence as an instant, kept up to date by the app and the dispatcher.
+CREATE TABLE IF NOT EXISTS public.reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'task' CHECK (type IN ('task', 'assessment', 'appointment')),
+  time_of_day TEXT NOT NULL CHECK (time_of_day ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  recurrence TEXT NOT NULL DEFAULT 'daily' CHECK (recurrence IN ('daily', 'weekdays', 'interval', 'dates')),
+  interval_days INTEGER CHECK (interval_days BETWEEN 1 AND 365),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  dates DATE[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (recurrence <> 'interval' OR interval_days IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS reminders_due_idx ON public.reminders (next_run_at) WHERE enabled;
+
+-- One row per notification sent with an idempotency key. send-notification claims
+-- the key before sending, so retries and concurrent dispatcher runs send it once.
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'email',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+  reminder_id UUID REFERENCES public.reminders(id) ON DELETE SET NULL,
+  occurrence_at TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_user_id_idx ON public.notification_deliveries (user_id);
+
+-- Enable RLS
+ALTER TABLE public.reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own reminders"
+ON public.reminders FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own reminders"
+ON public.reminders FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reminders"
+ON public.reminders FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reminders"
+ON public.reminders FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Deliveries are written by edge functions with the service role only
+CREATE POLICY "Users can view their own notification deliveries"
+ON public.notification_deliveries FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_reminders_updated_at
+BEFORE UPDATE ON public.reminders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+BEFORE UPDATE ON public.notification_deliveries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Run the dispatcher every minute. The project URL and service role key are read
+-- from Vault secrets named 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'dispatch-reminders',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/dispatch-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
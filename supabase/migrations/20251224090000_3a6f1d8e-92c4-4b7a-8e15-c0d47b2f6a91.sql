@@ -0,0 +1,59 @@
+-- Web Push subscriptions, one per account per browser or device. The endpoint
+-- identifies the device; re-subscribing from the same device replaces its keys.
+-- A shared family device can be subscribed by more than one account.
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  device_label TEXT,
+  user_agent TEXT,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, endpoint)
+);
+
+-- Enable RLS
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own push subscriptions"
+ON public.push_subscriptions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own push subscriptions"
+ON public.push_subscriptions FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+ON public.push_subscriptions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_push_subscriptions_updated_at
+BEFORE UPDATE ON public.push_subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deliveries are now tracked per channel, so one notification can go out by
+-- email and push under the same idempotency key
+ALTER TABLE public.notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_idempotency_key_key;
+ALTER TABLE public.notification_deliveries
+  ADD CONSTRAINT notification_deliveries_idempotency_key_channel_key UNIQUE (idempotency_key, channel);
+ALTER TABLE public.notification_deliveries
+  ADD CONSTRAINT notification_deliveries_channel_check CHECK (channel IN ('email', 'push'));
+-- 'skipped' records a channel with nowhere to deliver, e.g. no subscribed devices
+ALTER TABLE public.notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_status_check;
+ALTER TABLE public.notification_deliveries
+  ADD CONSTRAINT notification_deliveries_status_check CHECK (status IN ('pending', 'sent', 'skipped', 'failed'));
+
+-- Medication times join tasks, assessments and appointments
+ALTER TABLE public.reminders DROP CONSTRAINT IF EXISTS reminders_type_check;
+ALTER TABLE public.reminders
+  ADD CONSTRAINT reminders_type_check CHECK (type IN ('task', 'medication', 'assessment', 'appointment'));
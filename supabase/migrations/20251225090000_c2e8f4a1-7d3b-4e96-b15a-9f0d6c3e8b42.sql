@@ -0,0 +1,118 @@
+-- Notification preferences, one row per user. types holds each notification
+-- type's channels and frequency, e.g. {"achievement": {"channels": ["in_app"], "frequency": "weekly"}};
+-- types missing from it use the app's defaults.
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  types JSONB NOT NULL DEFAULT '{}',
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  quiet_hours_start TEXT NOT NULL DEFAULT '21:00' CHECK (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  quiet_hours_end TEXT NOT NULL DEFAULT '07:00' CHECK (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  digest_time TEXT NOT NULL DEFAULT '18:00' CHECK (digest_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  digest_weekday INTEGER NOT NULL DEFAULT 0 CHECK (digest_weekday BETWEEN 0 AND 6),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- In-app notifications, shown in the dashboard inbox
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_created_at_idx ON public.notifications (user_id, created_at DESC);
+
+-- Push and email notifications held back for a digest or until quiet hours end.
+-- The send-digests edge function sends them once deliver_after has passed.
+CREATE TABLE IF NOT EXISTS public.notification_queue (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('push', 'email')),
+  title TEXT NOT NULL,
+  body TEXT,
+  time_label TEXT,
+  digest BOOLEAN NOT NULL DEFAULT false,
+  deliver_after TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notification_queue_due_idx ON public.notification_queue (deliver_after) WHERE status = 'queued';
+
+-- Enable RLS
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_queue ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own notification preferences"
+ON public.notification_preferences FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Notifications are created by edge functions with the service role only
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own queued notifications"
+ON public.notification_queue FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- In-app is a delivery channel too, and a held-back notification counts as
+-- handled for its idempotency key
+ALTER TABLE public.notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_channel_check;
+ALTER TABLE public.notification_deliveries
+  ADD CONSTRAINT notification_deliveries_channel_check CHECK (channel IN ('in_app', 'email', 'push'));
+ALTER TABLE public.notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_status_check;
+ALTER TABLE public.notification_deliveries
+  ADD CONSTRAINT notification_deliveries_status_check CHECK (status IN ('pending', 'sent', 'queued', 'skipped', 'failed'));
+
+-- Send due digests and notifications held over quiet hours every five minutes,
+-- using the same Vault secrets as the reminder dispatcher
+SELECT cron.schedule(
+  'send-digests',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-digests',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,3 @@
+-- Language for notification emails; null follows the profile's language
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS email_locale TEXT CHECK (email_locale IN ('en', 'es', 'fr'));
@@ -0,0 +1,105 @@
+-- Appointment slots clinicians publish. timezone is the clinician's, used to word
+-- their reminders; clinician_name is shown to families browsing open slots.
+-- Slots are added and removed but not edited, so a booking never moves under a family.
+CREATE TABLE IF NOT EXISTS public.clinician_availability (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinician_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  clinician_name TEXT NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'in_person' CHECK (mode IN ('in_person', 'video')),
+  location TEXT,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS clinician_availability_starts_at_idx ON public.clinician_availability (starts_at);
+
+-- Appointments booked against a slot for a patient ID. Times are copied from the
+-- slot so the appointment keeps them if the slot is later removed; each side's
+-- time zone words their notifications. Booking,
+-- rescheduling and cancelling go through the manage-appointment edge function,
+-- which also notifies both sides.
+CREATE TABLE IF NOT EXISTS public.appointments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slot_id UUID REFERENCES public.clinician_availability(id) ON DELETE SET NULL,
+  clinician_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  clinician_name TEXT NOT NULL,
+  clinician_timezone TEXT NOT NULL DEFAULT 'UTC',
+  booked_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  booker_timezone TEXT NOT NULL DEFAULT 'UTC',
+  patient_id TEXT NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('in_person', 'video')),
+  location TEXT,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'cancelled')),
+  cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  cancellation_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A slot can only hold one booking at a time
+CREATE UNIQUE INDEX IF NOT EXISTS appointments_booked_slot_idx ON public.appointments (slot_id) WHERE status = 'booked';
+CREATE INDEX IF NOT EXISTS appointments_booked_by_idx ON public.appointments (booked_by, starts_at);
+CREATE INDEX IF NOT EXISTS appointments_clinician_id_idx ON public.appointments (clinician_id, starts_at);
+
+-- Appointment reminders are ordinary reminders, removed with their appointment
+ALTER TABLE public.reminders
+  ADD COLUMN IF NOT EXISTS appointment_id UUID REFERENCES public.appointments(id) ON DELETE CASCADE;
+
+-- Upcoming slots nobody has booked. Bookings are private to the two sides, so
+-- this runs as the owner to see which slots are taken.
+CREATE OR REPLACE FUNCTION public.get_open_availability()
+RETURNS SETOF public.clinician_availability
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.* FROM public.clinician_availability s
+  WHERE s.starts_at > now()
+    AND NOT EXISTS (SELECT 1 FROM public.appointments a WHERE a.slot_id = s.id AND a.status = 'booked')
+  ORDER BY s.starts_at;
+$$;
+
+-- Enable RLS
+ALTER TABLE public.clinician_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.appointments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Clinicians can view their own availability"
+ON public.clinician_availability FOR SELECT
+USING (auth.uid() = clinician_id);
+
+CREATE POLICY "Clinicians can insert their own availability"
+ON public.clinician_availability FOR INSERT
+WITH CHECK (auth.uid() = clinician_id AND public.is_clinician(auth.uid()));
+
+-- A booked slot stays until the booking is cancelled or moved
+CREATE POLICY "Clinicians can delete their own unbooked availability"
+ON public.clinician_availability FOR DELETE
+USING (
+  auth.uid() = clinician_id
+  AND NOT EXISTS (SELECT 1 FROM public.appointments a WHERE a.slot_id = clinician_availability.id AND a.status = 'booked')
+);
+
+CREATE POLICY "Users can view appointments they booked or hold"
+ON public.appointments FOR SELECT
+USING (auth.uid() = booked_by OR auth.uid() = clinician_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_clinician_availability_updated_at
+BEFORE UPDATE ON public.clinician_availability
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_appointments_updated_at
+BEFORE UPDATE ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,119 @@
+-- Clinician review of computed assessments. Each assessment waits in the review
+-- queue until a clinician signs it off; the sign-off is stored once and never
+-- changed, next to the computed result it reviewed.
+ALTER TABLE public.assessment_history
+  ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'pending' CHECK (review_status IN ('pending', 'signed_off'));
+
+CREATE INDEX IF NOT EXISTS assessment_history_review_status_idx ON public.assessment_history (review_status, created_at);
+
+-- A clinician may review their own assessments, and a family's once the family
+-- has booked an appointment with them for that patient ID
+CREATE OR REPLACE FUNCTION public.can_review_assessment(_reviewer_id UUID, _owner_id UUID, _patient_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_clinician(_reviewer_id) AND (
+    _reviewer_id = _owner_id
+    OR EXISTS (
+      SELECT 1 FROM public.appointments
+      WHERE clinician_id = _reviewer_id AND booked_by = _owner_id AND patient_id = _patient_id AND status = 'booked'
+    )
+  );
+$$;
+
+-- computed_* copy the assessment_history row at sign-off; final_severity is the
+-- clinician's, with a reason whenever it differs from the computed one.
+-- annotations holds per-answer notes keyed by question id.
+CREATE TABLE IF NOT EXISTS public.assessment_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assessment_id UUID NOT NULL UNIQUE REFERENCES public.assessment_history(id),
+  reviewer_id UUID NOT NULL,
+  reviewer_name TEXT NOT NULL,
+  computed_score INTEGER NOT NULL,
+  computed_severity TEXT NOT NULL,
+  final_severity TEXT NOT NULL CHECK (final_severity IN ('low', 'mild', 'moderate', 'high', 'very-high')),
+  override_reason TEXT,
+  notes TEXT,
+  annotations JSONB NOT NULL DEFAULT '{}',
+  signed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (final_severity = computed_severity OR length(trim(override_reason)) > 0)
+);
+
+-- The computed result is taken from the assessment itself, not from the client
+CREATE OR REPLACE FUNCTION public.set_assessment_review_computed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT fused_score, severity INTO NEW.computed_score, NEW.computed_severity
+  FROM public.assessment_history WHERE id = NEW.assessment_id;
+  NEW.signed_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_assessment_review_computed
+BEFORE INSERT ON public.assessment_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.set_assessment_review_computed();
+
+CREATE OR REPLACE FUNCTION public.prevent_assessment_review_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Signed assessment reviews cannot be changed';
+END;
+$$;
+
+CREATE TRIGGER prevent_assessment_review_changes
+BEFORE UPDATE OR DELETE ON public.assessment_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_assessment_review_changes();
+
+-- Signing off takes the assessment out of the queue
+CREATE OR REPLACE FUNCTION public.mark_assessment_signed_off()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.assessment_history SET review_status = 'signed_off' WHERE id = NEW.assessment_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_assessment_signed_off
+AFTER INSERT ON public.assessment_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.mark_assessment_signed_off();
+
+-- Enable RLS
+ALTER TABLE public.assessment_reviews ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Clinicians can view assessments they can review"
+ON public.assessment_history FOR SELECT
+USING (public.can_review_assessment(auth.uid(), user_id, patient_id));
+
+CREATE POLICY "Users can view reviews of their assessments or by them"
+ON public.assessment_reviews FOR SELECT
+USING (
+  auth.uid() = reviewer_id
+  OR EXISTS (SELECT 1 FROM public.assessment_history h WHERE h.id = assessment_id AND h.user_id = auth.uid())
+);
+
+CREATE POLICY "Clinicians can sign off assessments they can review"
+ON public.assessment_reviews FOR INSERT
+WITH CHECK (
+  auth.uid() = reviewer_id
+  AND EXISTS (
+    SELECT 1 FROM public.assessment_history h
+    WHERE h.id = assessment_id AND public.can_review_assessment(auth.uid(), h.user_id, h.patient_id)
+  )
+);
@@ -0,0 +1,27 @@
+-- Private bucket for files attached to clinician observations. Files live under
+-- <uploader id>/<patient id>/ so reviewing clinicians can be matched to them.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('clinical-attachments', 'clinical-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Clinicians can upload their own clinical attachments"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'clinical-attachments'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+    AND public.is_clinician(auth.uid())
+  );
+
+CREATE POLICY "Clinicians can view clinical attachments they uploaded or review"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'clinical-attachments'
+    AND (
+      auth.uid()::text = (storage.foldername(name))[1]
+      OR public.can_review_assessment(auth.uid(), ((storage.foldername(name))[1])::uuid, (storage.foldername(name))[2])
+    )
+  );
+
+CREATE POLICY "Clinicians can delete their own clinical attachments"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'clinical-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
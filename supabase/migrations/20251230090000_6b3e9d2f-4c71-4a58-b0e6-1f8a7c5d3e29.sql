@@ -0,0 +1,136 @@
+-- Video analysis runs as a background job so a long video never blocks the
+-- questionnaire. The app creates a job after uploading; the process-video-jobs
+-- edge function scores it (queued -> processing -> done/failed, retried with
+-- backoff) and, once the job is linked to a saved assessment, recomputes that
+-- assessment's fused score server-side.
+CREATE TABLE IF NOT EXISTS public.video_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  video_url TEXT NOT NULL,
+  -- Motion samples extracted in the browser (see _shared/videoPrediction.ts)
+  frames JSONB,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  prediction JSONB,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  -- Set by the app once the assessment is saved; applied_at records the recompute
+  assessment_id UUID REFERENCES public.assessment_history(id) ON DELETE SET NULL,
+  applied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS video_jobs_due_idx ON public.video_jobs (run_after) WHERE status IN ('queued', 'processing');
+CREATE INDEX IF NOT EXISTS video_jobs_unapplied_idx ON public.video_jobs (completed_at)
+  WHERE status = 'done' AND assessment_id IS NOT NULL AND applied_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.video_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own video jobs"
+ON public.video_jobs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can queue their own video jobs"
+ON public.video_jobs FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'queued'
+  AND attempts = 0
+  AND prediction IS NULL
+  AND assessment_id IS NULL
+);
+
+CREATE POLICY "Users can link their own video jobs to their assessments"
+ON public.video_jobs FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    assessment_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.assessment_history WHERE id = assessment_id AND user_id = auth.uid())
+  )
+);
+
+-- Users may only set assessment_id, and only once; everything else is the worker's
+CREATE OR REPLACE FUNCTION public.protect_video_job()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  linked UUID := NEW.assessment_id;
+BEGIN
+  IF coalesce(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF OLD.assessment_id IS NOT NULL AND linked IS DISTINCT FROM OLD.assessment_id THEN
+    RAISE EXCEPTION 'Video job is already linked to an assessment';
+  END IF;
+  NEW := OLD;
+  NEW.assessment_id := linked;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_video_job
+BEFORE UPDATE ON public.video_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_video_job();
+
+-- Trigger for updated_at
+CREATE TRIGGER update_video_jobs_updated_at
+BEFORE UPDATE ON public.video_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Start the worker as soon as a job is queued or linked, instead of waiting for
+-- the next cron run. Uses the same Vault secrets as the reminder dispatcher.
+CREATE OR REPLACE FUNCTION public.kick_video_job_worker()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-video-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER kick_video_job_worker_on_insert
+AFTER INSERT ON public.video_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.kick_video_job_worker();
+
+CREATE TRIGGER kick_video_job_worker_on_link
+AFTER UPDATE OF assessment_id ON public.video_jobs
+FOR EACH ROW
+WHEN (OLD.assessment_id IS NULL AND NEW.assessment_id IS NOT NULL)
+EXECUTE FUNCTION public.kick_video_job_worker();
+
+-- Retries, stale claims and any missed kicks are picked up every minute
+SELECT cron.schedule(
+  'process-video-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-video-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,4 @@
+-- What the browser did to a video before uploading it (trim, resolution, face
+-- blurring, audio removal), passed on to the predictor with the job
+ALTER TABLE public.video_jobs
+  ADD COLUMN IF NOT EXISTS preprocessing JSONB;
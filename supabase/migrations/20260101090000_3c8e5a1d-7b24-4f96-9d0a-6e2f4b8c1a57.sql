@@ -0,0 +1,4 @@
+-- The guided recording a job was made from: the protocol followed and each
+-- segment's file and timing, passed on to the predictor with the job
+ALTER TABLE public.video_jobs
+  ADD COLUMN IF NOT EXISTS recording JSONB;
@@ -0,0 +1,40 @@
+-- Roles granted by an administrator. Users can read their own roles but have no
+-- policy to write them, so only the service role (dashboard, SQL editor or an
+-- admin function) can make someone a clinician.
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('clinician')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+-- Enable RLS
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own roles"
+ON public.user_roles FOR SELECT
+USING (auth.uid() = user_id);
+
+-- The profile role, questionnaire role and patient roster are all written by the
+-- user themselves, so none of them can grant access to the library, appointment
+-- slots, the review queue or clinical attachments
+CREATE OR REPLACE FUNCTION public.is_clinician(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = 'clinician');
+$$;
+
+-- Clinicians edit only the entries they added; built-in entries (no created_by)
+-- are read-only, and an entry can't be handed to someone else
+DROP POLICY IF EXISTS "Clinicians can update the task library" ON public.task_library;
+
+CREATE POLICY "Clinicians can update their own library entries"
+ON public.task_library FOR UPDATE
+USING (auth.uid() = created_by AND public.is_clinician(auth.uid()))
+WITH CHECK (auth.uid() = created_by AND public.is_clinician(auth.uid()));
@@ -0,0 +1,7 @@
+-- New assessments always start in the review queue. Only the sign-off trigger
+-- (mark_assessment_signed_off) moves them to 'signed_off'.
+DROP POLICY IF EXISTS "Users can insert their own assessment history" ON public.assessment_history;
+
+CREATE POLICY "Users can insert their own assessment history"
+ON public.assessment_history FOR INSERT
+WITH CHECK (auth.uid() = user_id AND review_status = 'pending');
@@ -0,0 +1,26 @@
+-- Results moved over from the old dashboard's localStorage were never scored
+-- from answers, so there is nothing for a clinician to sign off. They are
+-- marked 'imported', which the review queue (review_status = 'pending') skips.
+ALTER TABLE public.assessment_history
+  DROP CONSTRAINT IF EXISTS assessment_history_review_status_check;
+
+ALTER TABLE public.assessment_history
+  ADD CONSTRAINT assessment_history_review_status_check
+  CHECK (review_status IN ('pending', 'signed_off', 'imported'));
+
+UPDATE public.assessment_history
+SET review_status = 'imported'
+WHERE review_status = 'pending' AND metadata->>'importedFrom' = 'localStorage';
+
+-- Only an import, without answers, may skip the queue
+DROP POLICY IF EXISTS "Users can insert their own assessment history" ON public.assessment_history;
+
+CREATE POLICY "Users can insert their own assessment history"
+ON public.assessment_history FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    review_status = 'pending'
+    OR (review_status = 'imported' AND metadata->>'importedFrom' = 'localStorage' AND metadata->'answers' IS NULL)
+  )
+);
@@ -0,0 +1,52 @@
+-- Nobody signs off their own assessment: a clinician's own assessments need
+-- another clinician the family booked with
+CREATE OR REPLACE FUNCTION public.can_review_assessment(_reviewer_id UUID, _owner_id UUID, _patient_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_clinician(_reviewer_id) AND _reviewer_id <> _owner_id AND EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE clinician_id = _reviewer_id AND booked_by = _owner_id AND patient_id = _patient_id AND status = 'booked'
+  );
+$$;
+
+DROP POLICY IF EXISTS "Clinicians can sign off assessments they can review" ON public.assessment_reviews;
+
+CREATE POLICY "Clinicians can sign off assessments they can review"
+ON public.assessment_reviews FOR INSERT
+WITH CHECK (
+  auth.uid() = reviewer_id
+  AND EXISTS (
+    SELECT 1 FROM public.assessment_history h
+    WHERE h.id = assessment_id
+      AND h.user_id <> auth.uid()
+      AND public.can_review_assessment(auth.uid(), h.user_id, h.patient_id)
+  )
+);
+
+-- A review goes with its assessment when the assessment is deleted
+ALTER TABLE public.assessment_reviews
+  DROP CONSTRAINT IF EXISTS assessment_reviews_assessment_id_fkey;
+
+ALTER TABLE public.assessment_reviews
+  ADD CONSTRAINT assessment_reviews_assessment_id_fkey
+  FOREIGN KEY (assessment_id) REFERENCES public.assessment_history(id) ON DELETE CASCADE;
+
+-- Signed reviews still can't be changed or deleted on their own; only the
+-- cascade, which runs once the assessment row is gone, may remove one
+CREATE OR REPLACE FUNCTION public.prevent_assessment_review_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.assessment_history WHERE id = OLD.assessment_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'Signed assessment reviews cannot be changed';
+END;
+$$;